@@ -0,0 +1,68 @@
+-- Create chain_jobs table to persist post generation chain runs
+CREATE TABLE IF NOT EXISTS chain_jobs (
+  id TEXT PRIMARY KEY,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  params JSONB DEFAULT '{}'::jsonb,
+  step TEXT NOT NULL DEFAULT 'initializing',
+  is_generating BOOLEAN NOT NULL DEFAULT TRUE,
+  progress INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  partial_results JSONB DEFAULT '{}'::jsonb,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE
+);
+
+-- Indexes for listing an organization's recent jobs and for retention cleanup
+CREATE INDEX IF NOT EXISTS idx_chain_jobs_organization_id ON chain_jobs(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_chain_jobs_user_id ON chain_jobs(user_id);
+CREATE INDEX IF NOT EXISTS idx_chain_jobs_expires_at ON chain_jobs(expires_at);
+
+-- Add RLS policies for chain_jobs (the API uses the service role, this covers direct client access)
+ALTER TABLE chain_jobs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS chain_jobs_select_policy ON chain_jobs;
+CREATE POLICY chain_jobs_select_policy
+  ON chain_jobs FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+-- Retention: delete expired jobs and fail jobs that stopped reporting progress
+CREATE OR REPLACE FUNCTION cleanup_expired_chain_jobs()
+RETURNS VOID AS $$
+BEGIN
+  UPDATE chain_jobs
+  SET
+    is_generating = FALSE,
+    step = 'error',
+    error = 'Chain job stopped responding',
+    completed_at = now(),
+    expires_at = now() + INTERVAL '30 days'
+  WHERE is_generating = TRUE
+    AND updated_at < now() - INTERVAL '30 minutes';
+
+  DELETE FROM chain_jobs WHERE expires_at IS NOT NULL AND expires_at < now();
+END;
+$$ LANGUAGE plpgsql;
+
+COMMENT ON TABLE chain_jobs IS 'Durable state of post generation chain runs: current step, progress, partial results, owner and organization. Finished jobs are kept until expires_at so plans can be reopened';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '29_create_chain_jobs_table') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('29_create_chain_jobs_table', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,21 @@
+-- Add checkpoint field to chain_jobs so failed chains can resume
+ALTER TABLE chain_jobs ADD COLUMN IF NOT EXISTS last_completed_step TEXT;
+
+-- Update comment to document the change
+COMMENT ON COLUMN chain_jobs.last_completed_step IS 'Last chain step that finished successfully. A failed or partially failed chain resumes from the step after it, reusing the stored partial results';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '30_add_chain_jobs_checkpoint') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at) 
+        VALUES ('30_add_chain_jobs_checkpoint', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
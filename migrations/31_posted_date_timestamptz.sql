@@ -0,0 +1,34 @@
+-- Store posts.posted_date as an instant instead of a calendar date so scheduled
+-- times keep the timezone they were planned in
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_name = 'posts' AND column_name = 'posted_date' AND data_type = 'date'
+    ) THEN
+        -- Existing dates become noon UTC so they stay on the same calendar day
+        -- in every timezone between UTC-11 and UTC+11
+        ALTER TABLE posts
+          ALTER COLUMN posted_date TYPE TIMESTAMP WITH TIME ZONE
+          USING ((posted_date::timestamp + INTERVAL '12 hours') AT TIME ZONE 'UTC');
+    END IF;
+END $$;
+
+-- Update comment to document the change
+COMMENT ON COLUMN posts.posted_date IS 'Instant the post was or will be published. Scheduling applies the organization timezone (preferences.timezone) or the posting window timezone; calendars convert it to their display timezone';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '31_posted_date_timestamptz') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at) 
+        VALUES ('31_posted_date_timestamptz', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,99 @@
+-- Publishing: per-organization connector credentials and publication results on posts
+
+-- Where a post ended up once the publishing worker sent it out
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS published_url TEXT;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS published_at TIMESTAMP WITH TIME ZONE;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS publish_error TEXT;
+
+-- The worker looks up due scheduled posts on every run
+CREATE INDEX IF NOT EXISTS idx_posts_status_posted_date ON posts(status, posted_date);
+
+-- Connector credentials, one row per organization and platform, encrypted at rest
+CREATE TABLE IF NOT EXISTS publishing_credentials (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  platform TEXT NOT NULL CHECK (platform IN ('x', 'linkedin', 'instagram', 'web')),
+  credentials_encrypted TEXT NOT NULL,
+  updated_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, platform)
+);
+
+-- RLS without policies: only the service role (the API) can read or write credentials
+ALTER TABLE publishing_credentials ENABLE ROW LEVEL SECURITY;
+
+-- Key used to encrypt credentials (see 05_column_encryption.sql)
+INSERT INTO encryption_keys (key_name, encryption_key, notes)
+VALUES (
+  'publishing_key',
+  encode(gen_random_bytes(32), 'base64'),
+  'Encrypts publishing connector credentials'
+)
+ON CONFLICT (key_name) DO NOTHING;
+
+-- Store (or replace) an organization's credentials for a platform
+CREATE OR REPLACE FUNCTION save_publishing_credentials(
+  p_organization_id UUID,
+  p_platform TEXT,
+  p_credentials JSONB,
+  p_user_id UUID DEFAULT NULL
+)
+RETURNS VOID AS $$
+BEGIN
+  INSERT INTO publishing_credentials (organization_id, platform, credentials_encrypted, updated_by)
+  VALUES (p_organization_id, p_platform, encrypt_data(p_credentials::TEXT, 'publishing_key'), p_user_id)
+  ON CONFLICT (organization_id, platform) DO UPDATE SET
+    credentials_encrypted = EXCLUDED.credentials_encrypted,
+    updated_by = EXCLUDED.updated_by,
+    updated_at = now();
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Decrypted credentials of an organization for a platform, NULL when none are stored
+CREATE OR REPLACE FUNCTION get_publishing_credentials(
+  p_organization_id UUID,
+  p_platform TEXT
+)
+RETURNS JSONB AS $$
+DECLARE
+  encrypted TEXT;
+BEGIN
+  SELECT credentials_encrypted INTO encrypted
+  FROM publishing_credentials
+  WHERE organization_id = p_organization_id AND platform = p_platform;
+
+  IF encrypted IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  RETURN decrypt_data(encrypted, 'publishing_key')::JSONB;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Credentials never leave the server: only the service role may call these
+REVOKE EXECUTE ON FUNCTION save_publishing_credentials(UUID, TEXT, JSONB, UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION get_publishing_credentials(UUID, TEXT) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_publishing_credentials(UUID, TEXT, JSONB, UUID) TO service_role;
+GRANT EXECUTE ON FUNCTION get_publishing_credentials(UUID, TEXT) TO service_role;
+
+COMMENT ON COLUMN posts.published_url IS 'URL returned by the publishing connector when the post was published';
+COMMENT ON COLUMN posts.published_at IS 'When the publishing worker published the post';
+COMMENT ON COLUMN posts.publish_error IS 'Error of the last failed publishing attempt, cleared once the post is published';
+COMMENT ON TABLE publishing_credentials IS 'Per-organization publishing connector credentials (X, LinkedIn, Instagram, web/CMS), encrypted with the publishing_key';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '32_create_publishing_tables') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('32_create_publishing_tables', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,61 @@
+-- Publishing dispatch queue: attempt tracking on posts, retry state and a record of every attempt
+
+-- Due posts move SCHEDULED -> QUEUED -> PUBLISHING -> POSTED; FAILED holds posts that ran out of attempts
+ALTER TABLE posts DROP CONSTRAINT IF EXISTS posts_status_check;
+ALTER TABLE posts ADD CONSTRAINT posts_status_check
+  CHECK (status IN ('POSTED', 'SCHEDULED', 'SUGGESTED', 'QUEUED', 'PUBLISHING', 'FAILED'));
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS attempt_count INTEGER NOT NULL DEFAULT 0;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE;
+
+-- The worker picks queued posts whose next attempt is due, and recovers expired PUBLISHING leases
+CREATE INDEX IF NOT EXISTS idx_posts_status_next_attempt_at ON posts(status, next_attempt_at);
+
+-- One row per publishing attempt
+CREATE TABLE IF NOT EXISTS publish_attempts (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  attempt INTEGER NOT NULL,
+  platform TEXT,
+  connector TEXT,
+  outcome TEXT NOT NULL CHECK (outcome IN ('published', 'retry', 'failed')),
+  error TEXT,
+  published_url TEXT,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  started_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  finished_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_post_id ON publish_attempts(post_id, started_at DESC);
+CREATE INDEX IF NOT EXISTS idx_publish_attempts_organization_id ON publish_attempts(organization_id, started_at DESC);
+
+-- Organization members can read the attempts of their posts; only the service role writes them
+ALTER TABLE publish_attempts ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS publish_attempts_select_policy ON publish_attempts;
+CREATE POLICY publish_attempts_select_policy
+  ON publish_attempts FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+COMMENT ON COLUMN posts.attempt_count IS 'Publishing attempts made for the post since it was last queued';
+COMMENT ON COLUMN posts.next_attempt_at IS 'QUEUED: when the next publishing attempt is due. PUBLISHING: when the worker''s claim on the post expires';
+COMMENT ON TABLE publish_attempts IS 'Audit record of every publishing attempt: outcome, connector, error or published URL, and when a retry is due';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '33_add_publishing_dispatch_queue') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('33_add_publishing_dispatch_queue', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,96 @@
+-- Approval workflow for AI-suggested posts: review state on posts and a log of review actions
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS approval_status TEXT
+  CHECK (approval_status IN ('pending', 'changes_requested', 'approved', 'rejected'));
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL;
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS reviewed_at TIMESTAMP WITH TIME ZONE;
+
+CREATE INDEX IF NOT EXISTS idx_posts_approval_status ON posts(organization_id, approval_status);
+CREATE INDEX IF NOT EXISTS idx_posts_reviewer_id ON posts(reviewer_id);
+
+-- Suggestions already on the calendar still need a review
+UPDATE posts SET approval_status = 'pending'
+WHERE status = 'SUGGESTED' AND approval_status IS NULL;
+
+-- Review history, one row per action
+CREATE TABLE IF NOT EXISTS post_reviews (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  action TEXT NOT NULL CHECK (action IN ('assign', 'approve', 'reject', 'request_changes', 'revised')),
+  comment TEXT,
+  reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_reviews_post_id ON post_reviews(post_id, created_at DESC);
+
+-- Organization members can read the review history; the API writes it with the service role
+ALTER TABLE post_reviews ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS post_reviews_select_policy ON post_reviews;
+CREATE POLICY post_reviews_select_policy
+  ON post_reviews FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+-- New suggestions start out pending, and a post under review can't be scheduled or published.
+-- Enforced in the database because the calendar and inspector update posts directly.
+CREATE OR REPLACE FUNCTION enforce_post_approval()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'INSERT' AND NEW.status = 'SUGGESTED' AND NEW.approval_status IS NULL THEN
+    NEW.approval_status := 'pending';
+  END IF;
+
+  -- Only the service role (the review API) may change the review state itself
+  IF TG_OP = 'UPDATE'
+    AND coalesce(auth.role(), 'service_role') <> 'service_role'
+    AND (
+      NEW.approval_status IS DISTINCT FROM OLD.approval_status OR
+      NEW.reviewer_id IS DISTINCT FROM OLD.reviewer_id OR
+      NEW.reviewed_by IS DISTINCT FROM OLD.reviewed_by OR
+      NEW.reviewed_at IS DISTINCT FROM OLD.reviewed_at
+    ) THEN
+    RAISE EXCEPTION 'Post approval can only be changed through the review workflow';
+  END IF;
+
+  IF NEW.approval_status IS NOT NULL
+    AND NEW.approval_status <> 'approved'
+    AND NEW.status IN ('SCHEDULED', 'QUEUED', 'PUBLISHING', 'POSTED') THEN
+    RAISE EXCEPTION 'Post must be approved before it can be scheduled (approval status: %)', NEW.approval_status;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_post_approval_trigger ON posts;
+CREATE TRIGGER enforce_post_approval_trigger
+  BEFORE INSERT OR UPDATE ON posts
+  FOR EACH ROW EXECUTE FUNCTION enforce_post_approval();
+
+COMMENT ON COLUMN posts.approval_status IS 'Review state of AI-suggested posts (pending, changes_requested, approved, rejected). NULL for posts written by hand, which need no approval';
+COMMENT ON COLUMN posts.reviewer_id IS 'Organization member asked to review the post';
+COMMENT ON COLUMN posts.reviewed_by IS 'Member who approved or rejected the post';
+COMMENT ON COLUMN user_organizations.role IS 'Member role: admin and reviewer can approve, reject and request changes to suggested posts; editor can assign reviewers; pending members have no access yet';
+COMMENT ON TABLE post_reviews IS 'Review history of posts: reviewer assignments, approvals, rejections, change requests with their feedback, and revisions';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '34_add_post_approval_workflow') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('34_add_post_approval_workflow', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
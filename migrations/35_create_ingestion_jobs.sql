@@ -0,0 +1,82 @@
+-- Bulk content import: a job per sitemap / RSS / Atom source, with one item per discovered URL
+
+CREATE TABLE IF NOT EXISTS ingestion_jobs (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  source_url TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('sitemap', 'rss', 'atom')),
+  status TEXT NOT NULL DEFAULT 'running' CHECK (status IN ('running', 'completed')),
+  total_items INTEGER NOT NULL DEFAULT 0,
+  truncated BOOLEAN NOT NULL DEFAULT FALSE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_organization_id ON ingestion_jobs(organization_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_ingestion_jobs_user_id ON ingestion_jobs(user_id, created_at DESC);
+
+CREATE TABLE IF NOT EXISTS ingestion_items (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  job_id UUID NOT NULL REFERENCES ingestion_jobs(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  url TEXT NOT NULL,
+  title TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  status TEXT NOT NULL DEFAULT 'pending'
+    CHECK (status IN ('pending', 'processing', 'imported', 'skipped', 'failed')),
+  post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  error TEXT,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (job_id, url)
+);
+
+-- The import worker picks pending items, oldest first
+CREATE INDEX IF NOT EXISTS idx_ingestion_items_status ON ingestion_items(status, created_at);
+CREATE INDEX IF NOT EXISTS idx_ingestion_items_job_id ON ingestion_items(job_id, position);
+
+-- Owners and organization members can follow an import; the API writes with the service role
+ALTER TABLE ingestion_jobs ENABLE ROW LEVEL SECURITY;
+ALTER TABLE ingestion_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS ingestion_jobs_select_policy ON ingestion_jobs;
+CREATE POLICY ingestion_jobs_select_policy
+  ON ingestion_jobs FOR SELECT
+  USING (
+    auth.uid() = user_id OR
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+-- Items are visible when their job is: the subquery is filtered by the jobs policy
+DROP POLICY IF EXISTS ingestion_items_select_policy ON ingestion_items;
+CREATE POLICY ingestion_items_select_policy
+  ON ingestion_items FOR SELECT
+  USING (
+    job_id IN (SELECT id FROM ingestion_jobs)
+  );
+
+COMMENT ON TABLE ingestion_jobs IS 'Bulk imports from a sitemap, RSS or Atom feed. A job is running until none of its items is pending or processing';
+COMMENT ON TABLE ingestion_items IS 'URLs discovered by an import job. Items already in posts are skipped; the others are analyzed like /api/analyze-url and become posts';
+COMMENT ON COLUMN ingestion_items.position IS 'Order of the entry in the source, items are imported in this order';
+COMMENT ON COLUMN ingestion_items.published_at IS 'Publication date given by the feed, preferred over the date found on the page';
+COMMENT ON COLUMN ingestion_items.lease_expires_at IS 'A processing item whose lease expired belongs to a worker that stopped and is picked up again';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '35_create_ingestion_jobs') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('35_create_ingestion_jobs', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,31 @@
+-- CSV batch imports run as ingestion jobs on the server instead of in the browser
+
+-- CSV jobs have a file name instead of a source URL
+ALTER TABLE ingestion_jobs ALTER COLUMN source_url DROP NOT NULL;
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS source_name TEXT;
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_source_type_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_source_type_check
+  CHECK (source_type IN ('sitemap', 'rss', 'atom', 'csv'));
+
+-- Re-analyze URLs that are already posts instead of skipping them
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS replace_existing BOOLEAN NOT NULL DEFAULT FALSE;
+
+COMMENT ON COLUMN ingestion_jobs.source_name IS 'Name of the uploaded CSV file, for csv jobs';
+COMMENT ON COLUMN ingestion_jobs.replace_existing IS 'When true, URLs that already are posts are analyzed again and their posts updated instead of being skipped';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '36_add_csv_ingestion_jobs') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('36_add_csv_ingestion_jobs', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,73 @@
+-- Watched sources: feeds, sitemaps and profile pages of an organization polled for newly published content
+
+CREATE TABLE IF NOT EXISTS watched_sources (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  created_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  url TEXT NOT NULL,
+  source_type TEXT NOT NULL CHECK (source_type IN ('sitemap', 'rss', 'atom', 'page')),
+  poll_interval_minutes INTEGER NOT NULL DEFAULT 60 CHECK (poll_interval_minutes >= 15),
+  is_active BOOLEAN NOT NULL DEFAULT TRUE,
+  next_poll_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_polled_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  last_job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, url)
+);
+
+-- The poller picks active sources that are due
+CREATE INDEX IF NOT EXISTS idx_watched_sources_next_poll ON watched_sources(is_active, next_poll_at);
+
+-- Every URL a source has listed, so only entries that are new since the last poll are imported
+CREATE TABLE IF NOT EXISTS watched_source_entries (
+  source_id UUID NOT NULL REFERENCES watched_sources(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  PRIMARY KEY (source_id, url)
+);
+
+-- Imports started by a poll point back at their source; pages are a source type of their own
+ALTER TABLE ingestion_jobs ADD COLUMN IF NOT EXISTS watched_source_id UUID REFERENCES watched_sources(id) ON DELETE SET NULL;
+
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_source_type_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_source_type_check
+  CHECK (source_type IN ('sitemap', 'rss', 'atom', 'page', 'csv'));
+
+-- A published item can complete a planned post instead of becoming a new one
+ALTER TABLE ingestion_items ADD COLUMN IF NOT EXISTS matched_planned_post BOOLEAN NOT NULL DEFAULT FALSE;
+
+-- Organization members can see the watched sources; the API writes with the service role
+ALTER TABLE watched_sources ENABLE ROW LEVEL SECURITY;
+ALTER TABLE watched_source_entries ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS watched_sources_select_policy ON watched_sources;
+CREATE POLICY watched_sources_select_policy
+  ON watched_sources FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+COMMENT ON TABLE watched_sources IS 'Feeds, sitemaps and profile pages polled on a schedule. Entries that appear after the source was added are imported as POSTED posts';
+COMMENT ON TABLE watched_source_entries IS 'URLs listed by a watched source. Filled with the current entries when the source is added, so only later entries are imported';
+COMMENT ON COLUMN watched_sources.source_type IS 'Type found when the source was added. A page that advertises a feed is read through the feed and gets its type';
+COMMENT ON COLUMN watched_sources.next_poll_at IS 'When the source is due; moved ahead by poll_interval_minutes when a poll claims it';
+COMMENT ON COLUMN ingestion_jobs.watched_source_id IS 'Watched source whose poll found the items of this job';
+COMMENT ON COLUMN ingestion_items.matched_planned_post IS 'True when the published item matched a scheduled or suggested post by title, which was marked as posted instead of adding a new post';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '37_create_watched_sources') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('37_create_watched_sources', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
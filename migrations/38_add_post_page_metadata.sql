@@ -0,0 +1,21 @@
+-- Structured metadata read from a post's page (JSON-LD, OpenGraph, Twitter cards, oEmbed), with the source of each field
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS page_metadata JSONB;
+
+COMMENT ON COLUMN posts.page_metadata IS 'Metadata of the analyzed page: type, title, description, author, publishedAt, modifiedAt, images, duration (seconds) and canonicalUrl, each as {"value": ..., "source": "json-ld" | "opengraph" | "twitter" | "oembed" | "html"}. NULL for posts not imported from a URL';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '38_add_post_page_metadata') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('38_add_post_page_metadata', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
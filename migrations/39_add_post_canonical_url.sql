@@ -0,0 +1,24 @@
+-- Canonical URL of each post, so the same page saved under different URLs is recognized as a duplicate
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS canonical_url TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_organization_canonical_url ON posts(organization_id, canonical_url);
+CREATE INDEX IF NOT EXISTS idx_posts_user_canonical_url ON posts(user_id, canonical_url);
+
+COMMENT ON COLUMN posts.canonical_url IS 'Normalized URL of the post (https, no www, host aliases unified, tracking parameters and trailing slash removed), or the canonical URL the page declares. NULL for posts saved before this migration until duplicates are checked';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '39_add_post_canonical_url') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('39_add_post_canonical_url', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,53 @@
+-- Archive of the text of analyzed pages, one row per version, so later features can read what a post said and see when its page changed
+
+CREATE TABLE IF NOT EXISTS post_contents (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  text TEXT NOT NULL,
+  word_count INTEGER NOT NULL DEFAULT 0,
+  headings JSONB NOT NULL DEFAULT '[]'::jsonb,
+  links JSONB NOT NULL DEFAULT '[]'::jsonb,
+  content_hash TEXT NOT NULL,
+  first_seen_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  last_seen_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL
+);
+
+-- The latest version of a post is read first
+CREATE INDEX IF NOT EXISTS idx_post_contents_post ON post_contents(post_id, first_seen_at DESC);
+
+-- When a re-analysis or check last found the page different from the version before
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS content_changed_at TIMESTAMP WITH TIME ZONE;
+
+-- Whoever can see the post can see its archived text; the API writes with the service role
+ALTER TABLE post_contents ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS post_contents_select_policy ON post_contents;
+CREATE POLICY post_contents_select_policy
+  ON post_contents FOR SELECT
+  USING (
+    post_id IN (SELECT id FROM posts)
+  );
+
+COMMENT ON TABLE post_contents IS 'Cleaned text of the page a post links to. A new row is added when the page is analyzed or checked and its content hash differs from the latest row';
+COMMENT ON COLUMN post_contents.headings IS 'Outline of the page: [{"level": 1-6, "text": ...}]';
+COMMENT ON COLUMN post_contents.links IS 'Links of the page content to other sites: [{"url": ..., "text": ...}]';
+COMMENT ON COLUMN post_contents.content_hash IS 'SHA-256 of the text with whitespace collapsed, compared to detect changes';
+COMMENT ON COLUMN post_contents.last_seen_at IS 'Last time the page was fetched and still had this content';
+COMMENT ON COLUMN posts.content_changed_at IS 'When the page was last found to differ from the archived version before it. NULL if it never changed';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '40_create_post_contents') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('40_create_post_contents', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,93 @@
+-- Site crawls: a bounded crawl of an organization's own site from its homepage, reviewed before its article pages are imported
+
+CREATE TABLE IF NOT EXISTS site_crawls (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  seed_url TEXT NOT NULL,
+  max_depth INTEGER NOT NULL DEFAULT 3 CHECK (max_depth BETWEEN 0 AND 5),
+  max_pages INTEGER NOT NULL DEFAULT 100 CHECK (max_pages BETWEEN 1 AND 500),
+  include_patterns TEXT[] NOT NULL DEFAULT '{}',
+  exclude_patterns TEXT[] NOT NULL DEFAULT '{}',
+  status TEXT NOT NULL DEFAULT 'crawling' CHECK (status IN ('crawling', 'review', 'committed')),
+  truncated BOOLEAN NOT NULL DEFAULT FALSE,
+  job_id UUID REFERENCES ingestion_jobs(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  completed_at TIMESTAMP WITH TIME ZONE,
+  committed_at TIMESTAMP WITH TIME ZONE
+);
+
+CREATE INDEX IF NOT EXISTS idx_site_crawls_organization_id ON site_crawls(organization_id, created_at DESC);
+
+-- One row per page found, queued until the crawler fetches and classifies it
+CREATE TABLE IF NOT EXISTS site_crawl_pages (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  crawl_id UUID NOT NULL REFERENCES site_crawls(id) ON DELETE CASCADE,
+  url TEXT NOT NULL,
+  canonical_url TEXT NOT NULL,
+  depth INTEGER NOT NULL DEFAULT 0,
+  status TEXT NOT NULL DEFAULT 'queued' CHECK (status IN ('queued', 'processing', 'fetched', 'failed')),
+  page_type TEXT CHECK (page_type IN ('article', 'landing', 'product')),
+  format TEXT,
+  title TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  existing_post_id UUID REFERENCES posts(id) ON DELETE SET NULL,
+  selected BOOLEAN NOT NULL DEFAULT FALSE,
+  error TEXT,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  lease_expires_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  updated_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (crawl_id, canonical_url)
+);
+
+-- The crawler takes queued pages breadth first
+CREATE INDEX IF NOT EXISTS idx_site_crawl_pages_status ON site_crawl_pages(status, depth, created_at);
+CREATE INDEX IF NOT EXISTS idx_site_crawl_pages_crawl_id ON site_crawl_pages(crawl_id, depth, created_at);
+
+-- Committing a crawl queues its selected pages as an import job
+ALTER TABLE ingestion_jobs DROP CONSTRAINT IF EXISTS ingestion_jobs_source_type_check;
+ALTER TABLE ingestion_jobs ADD CONSTRAINT ingestion_jobs_source_type_check
+  CHECK (source_type IN ('sitemap', 'rss', 'atom', 'page', 'csv', 'crawl'));
+
+-- Organization members can follow a crawl; the API writes with the service role
+ALTER TABLE site_crawls ENABLE ROW LEVEL SECURITY;
+ALTER TABLE site_crawl_pages ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS site_crawls_select_policy ON site_crawls;
+CREATE POLICY site_crawls_select_policy
+  ON site_crawls FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+  );
+
+DROP POLICY IF EXISTS site_crawl_pages_select_policy ON site_crawl_pages;
+CREATE POLICY site_crawl_pages_select_policy
+  ON site_crawl_pages FOR SELECT
+  USING (
+    crawl_id IN (SELECT id FROM site_crawls)
+  );
+
+COMMENT ON TABLE site_crawls IS 'Crawls of an organization''s site from a seed URL. Crawling until no page is queued, then in review until the selected pages are committed as an import job';
+COMMENT ON COLUMN site_crawls.include_patterns IS 'Path patterns (* matches anything) a page must match one of to be crawled, besides the seed. Empty means every page';
+COMMENT ON COLUMN site_crawls.exclude_patterns IS 'Path patterns of pages never crawled';
+COMMENT ON COLUMN site_crawls.truncated IS 'True when more pages were found than max_pages allows';
+COMMENT ON COLUMN site_crawl_pages.page_type IS 'article (a post to import), landing or product, from the page''s structured metadata, format and path';
+COMMENT ON COLUMN site_crawl_pages.selected IS 'Whether the page is imported when the crawl is committed. Articles not yet in the library start selected';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '41_create_site_crawls') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('41_create_site_crawls', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
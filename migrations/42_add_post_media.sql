@@ -0,0 +1,24 @@
+-- Media embedded in a post's page (videos, audio, images) found when the page is analyzed
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS media JSONB;
+
+-- Posts with a given kind of media, e.g. media @> '{"assets": [{"kind": "video"}]}'
+CREATE INDEX IF NOT EXISTS idx_posts_media ON posts USING GIN (media jsonb_path_ops);
+
+COMMENT ON COLUMN posts.media IS 'Media of the analyzed page: {"thumbnailUrl": ..., "assets": [{"kind": "video" | "audio" | "image", "url", "provider", "providerId", "mimeType", "duration" (seconds), "width", "height", "thumbnailUrl", "source"}]}. has_video and has_podcast are also set when it lists a video or audio. NULL for posts not imported from a URL';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '42_add_post_media') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('42_add_post_media', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
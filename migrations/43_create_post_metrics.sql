@@ -0,0 +1,53 @@
+-- Post performance metrics: a time series of engagement counts per post, from CSV exports and platform connectors
+
+CREATE TABLE IF NOT EXISTS post_metrics (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  post_id UUID NOT NULL REFERENCES posts(id) ON DELETE CASCADE,
+  organization_id UUID REFERENCES organizations(id) ON DELETE CASCADE,
+  platform TEXT,
+  recorded_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  impressions BIGINT CHECK (impressions >= 0),
+  clicks BIGINT CHECK (clicks >= 0),
+  likes BIGINT CHECK (likes >= 0),
+  shares BIGINT CHECK (shares >= 0),
+  comments BIGINT CHECK (comments >= 0),
+  saves BIGINT CHECK (saves >= 0),
+  source TEXT NOT NULL CHECK (source IN ('csv', 'connector')),
+  source_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  -- Uploading the same export twice replaces its numbers instead of adding a sample
+  UNIQUE (post_id, source, recorded_at)
+);
+
+CREATE INDEX IF NOT EXISTS idx_post_metrics_post_id ON post_metrics(post_id, recorded_at DESC);
+CREATE INDEX IF NOT EXISTS idx_post_metrics_organization_id ON post_metrics(organization_id, recorded_at DESC);
+
+-- Organization members, or the owner of a personal post, can read its metrics; the API writes with the service role
+ALTER TABLE post_metrics ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS post_metrics_select_policy ON post_metrics;
+CREATE POLICY post_metrics_select_policy
+  ON post_metrics FOR SELECT
+  USING (
+    organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid())
+    OR post_id IN (SELECT id FROM posts WHERE user_id = auth.uid() AND organization_id IS NULL)
+  );
+
+COMMENT ON TABLE post_metrics IS 'Engagement of a post as of recorded_at. Counts are lifetime totals at that time, so the latest sample holds the current numbers; NULL means the source did not report that metric';
+COMMENT ON COLUMN post_metrics.source IS 'csv: uploaded platform export (source_name is its format). connector: fetched from the platform API (source_name is the connector)';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '43_create_post_metrics') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('43_create_post_metrics', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
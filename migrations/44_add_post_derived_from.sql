@@ -0,0 +1,23 @@
+-- Keep the web article a planned social post derives from, so repurposing can be measured
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS derived_from TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_posts_derived_from ON posts(organization_id, derived_from) WHERE derived_from IS NOT NULL;
+
+COMMENT ON COLUMN posts.derived_from IS 'Title of the web article this post was planned from (the planner''s derivedFrom); NULL for original content';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '44_add_post_derived_from') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('44_add_post_derived_from', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -0,0 +1,80 @@
+-- Link social derivatives to the post they were made from, so a web article and everything repurposed from it form a tree
+
+ALTER TABLE posts ADD COLUMN IF NOT EXISTS parent_post_id UUID REFERENCES posts(id) ON DELETE SET NULL;
+
+-- Children of a post are listed when its tree is shown
+CREATE INDEX IF NOT EXISTS idx_posts_parent_post ON posts(parent_post_id) WHERE parent_post_id IS NOT NULL;
+
+-- A post derives from a post of the same organization (or the same owner for personal posts), never from itself
+-- or one of its own derivatives. Its derived_from follows the parent's title.
+CREATE OR REPLACE FUNCTION enforce_post_parent()
+RETURNS TRIGGER AS $$
+DECLARE
+  parent posts%ROWTYPE;
+BEGIN
+  IF NEW.parent_post_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO parent FROM posts WHERE id = NEW.parent_post_id;
+
+  IF parent.organization_id IS DISTINCT FROM NEW.organization_id
+    OR (NEW.organization_id IS NULL AND parent.user_id IS DISTINCT FROM NEW.user_id) THEN
+    RAISE EXCEPTION 'A post can only be derived from a post of the same organization';
+  END IF;
+
+  IF NEW.parent_post_id = NEW.id OR EXISTS (
+    WITH RECURSIVE ancestors AS (
+      SELECT id, parent_post_id FROM posts WHERE id = NEW.parent_post_id
+      UNION
+      SELECT p.id, p.parent_post_id FROM posts p JOIN ancestors a ON p.id = a.parent_post_id
+    )
+    SELECT 1 FROM ancestors WHERE id = NEW.id
+  ) THEN
+    RAISE EXCEPTION 'A post cannot be derived from itself or from one of its derivatives';
+  END IF;
+
+  NEW.derived_from := parent.title;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS enforce_post_parent_trigger ON posts;
+CREATE TRIGGER enforce_post_parent_trigger
+  BEFORE INSERT OR UPDATE OF parent_post_id, organization_id ON posts
+  FOR EACH ROW EXECUTE FUNCTION enforce_post_parent();
+
+-- Link the posts planned so far to the latest web post of their organization with the title they derive from
+UPDATE posts child
+SET parent_post_id = (
+  SELECT parent.id
+  FROM posts parent
+  WHERE parent.organization_id = child.organization_id
+    AND parent.id <> child.id
+    AND lower(parent.platform) = 'web'
+    AND lower(trim(parent.title)) = lower(trim(child.derived_from))
+    AND parent.deleted_at IS NULL
+  ORDER BY parent.posted_date DESC
+  LIMIT 1
+)
+WHERE child.derived_from IS NOT NULL
+  AND child.parent_post_id IS NULL
+  AND child.organization_id IS NOT NULL;
+
+COMMENT ON COLUMN posts.parent_post_id IS 'Post this one was repurposed from, usually a web article; NULL for original content. Set with derived_from, which keeps the parent''s title';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '45_add_post_parent') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('45_add_post_parent', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
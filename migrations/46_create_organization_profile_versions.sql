@@ -0,0 +1,118 @@
+-- Versioned organization profile: every change to organizations.info and preferences is kept with its author,
+-- so changes can be compared and rolled back, and each chain run records the version it planned with
+
+CREATE TABLE IF NOT EXISTS organization_profile_versions (
+  id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+  organization_id UUID NOT NULL REFERENCES organizations(id) ON DELETE CASCADE,
+  version INTEGER NOT NULL,
+  info JSONB,
+  preferences JSONB,
+  source TEXT NOT NULL CHECK (source IN ('baseline', 'analysis', 'preferences', 'rollback')),
+  restored_version INTEGER,
+  user_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  created_at TIMESTAMP WITH TIME ZONE DEFAULT now() NOT NULL,
+  UNIQUE (organization_id, version)
+);
+
+-- The history is listed newest first
+CREATE INDEX IF NOT EXISTS idx_organization_profile_versions_org ON organization_profile_versions(organization_id, version DESC);
+
+-- Add RLS policies (the API uses the service role, this covers direct client access)
+ALTER TABLE organization_profile_versions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS organization_profile_versions_select_policy ON organization_profile_versions;
+CREATE POLICY organization_profile_versions_select_policy
+  ON organization_profile_versions FOR SELECT
+  USING (organization_id IN (SELECT organization_id FROM user_organizations WHERE user_id = auth.uid()));
+
+-- Profile version an organization had when a chain run started
+ALTER TABLE chain_jobs ADD COLUMN IF NOT EXISTS profile_version INTEGER;
+
+-- Change an organization's info and/or preferences (NULL keeps the current value) and record the result as its
+-- next version, in one transaction. An organization without history first gets its current profile as a baseline.
+-- Returns the version the organization is at afterwards; nothing is recorded when nothing changed.
+CREATE OR REPLACE FUNCTION save_organization_profile(
+  p_organization_id UUID,
+  p_info JSONB,
+  p_preferences JSONB,
+  p_user_id UUID DEFAULT NULL,
+  p_source TEXT DEFAULT 'preferences',
+  p_restored_version INTEGER DEFAULT NULL
+)
+RETURNS INTEGER AS $$
+DECLARE
+  org organizations%ROWTYPE;
+  latest INTEGER;
+BEGIN
+  -- Lock the organization so concurrent saves get consecutive versions
+  SELECT * INTO org FROM organizations WHERE id = p_organization_id FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Organization % not found', p_organization_id;
+  END IF;
+
+  SELECT MAX(version) INTO latest FROM organization_profile_versions WHERE organization_id = p_organization_id;
+
+  IF latest IS NULL THEN
+    INSERT INTO organization_profile_versions (organization_id, version, info, preferences, source)
+    VALUES (p_organization_id, 1, org.info, org.preferences, 'baseline');
+    latest := 1;
+  END IF;
+
+  IF COALESCE(p_info, org.info) IS NOT DISTINCT FROM org.info
+    AND COALESCE(p_preferences, org.preferences) IS NOT DISTINCT FROM org.preferences THEN
+    RETURN latest;
+  END IF;
+
+  UPDATE organizations
+  SET
+    info = COALESCE(p_info, info),
+    preferences = COALESCE(p_preferences, preferences),
+    updated_at = now()
+  WHERE id = p_organization_id;
+
+  INSERT INTO organization_profile_versions (organization_id, version, info, preferences, source, restored_version, user_id)
+  VALUES (
+    p_organization_id,
+    latest + 1,
+    COALESCE(p_info, org.info),
+    COALESCE(p_preferences, org.preferences),
+    p_source,
+    p_restored_version,
+    p_user_id
+  );
+
+  RETURN latest + 1;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Profiles are saved through the API: only the service role may call this
+REVOKE EXECUTE ON FUNCTION save_organization_profile(UUID, JSONB, JSONB, UUID, TEXT, INTEGER) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION save_organization_profile(UUID, JSONB, JSONB, UUID, TEXT, INTEGER) TO service_role;
+
+-- Start every existing organization's history with its current profile
+INSERT INTO organization_profile_versions (organization_id, version, info, preferences, source, created_at)
+SELECT o.id, 1, o.info, o.preferences, 'baseline', COALESCE(o.updated_at, now())
+FROM organizations o
+WHERE NOT EXISTS (SELECT 1 FROM organization_profile_versions v WHERE v.organization_id = o.id);
+
+COMMENT ON TABLE organization_profile_versions IS 'Every version of an organization''s info and preferences, written by save_organization_profile';
+COMMENT ON COLUMN organization_profile_versions.source IS 'What made the change: baseline (history started), analysis (analyze-organization), preferences (preferences API) or rollback';
+COMMENT ON COLUMN organization_profile_versions.restored_version IS 'For rollbacks, the version whose profile was restored';
+COMMENT ON COLUMN chain_jobs.profile_version IS 'Organization profile version current when the chain run started';
+
+-- Update migration history
+DO $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM migration_history WHERE migration_name = '46_create_organization_profile_versions') THEN
+        -- Record exists, do nothing
+    ELSE
+        -- Record doesn't exist, insert it
+        INSERT INTO migration_history (migration_name, direction, applied_at)
+        VALUES ('46_create_organization_profile_versions', 'up', NOW());
+    END IF;
+EXCEPTION
+    WHEN undefined_table THEN
+        -- Table doesn't exist, skip migration history update
+        RAISE NOTICE 'migration_history table does not exist, skipping migration history update';
+END $$;
@@ -36,16 +36,25 @@ CREATE TABLE IF NOT EXISTS posts (
   url TEXT UNIQUE NOT NULL,
   title TEXT,
   description TEXT,
-  posted_date DATE,
+  posted_date TIMESTAMP WITH TIME ZONE,
   format TEXT,
   seo_info JSONB,
   seo_score JSONB,
-  status TEXT CHECK (status IN ('POSTED', 'SCHEDULED', 'SUGGESTED')),
+  status TEXT CHECK (status IN ('POSTED', 'SCHEDULED', 'SUGGESTED', 'QUEUED', 'PUBLISHING', 'FAILED')),
   user_id UUID REFERENCES users(id) ON DELETE SET NULL,
   organization_id UUID REFERENCES organizations(id) ON DELETE SET NULL,
   created_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
   updated_at TIMESTAMP WITH TIME ZONE DEFAULT CURRENT_TIMESTAMP,
-  deleted_at TIMESTAMP WITH TIME ZONE
+  deleted_at TIMESTAMP WITH TIME ZONE,
+  published_url TEXT,
+  published_at TIMESTAMP WITH TIME ZONE,
+  publish_error TEXT,
+  attempt_count INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  approval_status TEXT CHECK (approval_status IN ('pending', 'changes_requested', 'approved', 'rejected')),
+  reviewer_id UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_by UUID REFERENCES users(id) ON DELETE SET NULL,
+  reviewed_at TIMESTAMP WITH TIME ZONE
 );
 
 -- Enable Row Level Security (RLS)
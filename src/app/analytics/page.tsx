@@ -0,0 +1,439 @@
+'use client';
+
+import { useState, useEffect, useCallback } from 'react';
+import { format, subDays } from 'date-fns';
+import { useAuth } from '@/lib/auth-context';
+import { supabase } from '@/lib/supabase';
+import type { ContentAnalytics } from '@/lib/analytics';
+import { getFormatColors, getPlatformColors } from '@/components/calendar/colorUtils';
+import TopicClusters from '@/components/TopicClusters';
+
+type Organization = {
+  id: string;
+  name: string;
+  role: string;
+};
+
+// Platform labels of the report are display names; colors are keyed by platform
+const platformColor = (platform: string) =>
+  getPlatformColors(platform === 'Web' ? 'website' : platform).hex;
+
+const formatPercent = (share: number) => `${Math.round(share * 100)}%`;
+
+const formatDay = (date: string) => format(new Date(date), 'MMM d, yyyy');
+
+const periodLabel = (period: string, unit: ContentAnalytics['period']) =>
+  unit === 'week' ? format(new Date(`${period}T00:00:00`), 'MMM d') : format(new Date(`${period}-01T00:00:00`), 'MMM yyyy');
+
+export default function AnalyticsPage() {
+  const { user } = useAuth();
+  const [isLoading, setIsLoading] = useState(true);
+  const [organizations, setOrganizations] = useState<Organization[]>([]);
+  const [selectedOrganizationId, setSelectedOrganizationId] = useState<string | null>(null);
+  const [from, setFrom] = useState(() => format(subDays(new Date(), 90), 'yyyy-MM-dd'));
+  const [to, setTo] = useState(() => format(new Date(), 'yyyy-MM-dd'));
+  const [gapDays, setGapDays] = useState(14);
+  const [analytics, setAnalytics] = useState<ContentAnalytics | null>(null);
+  const [isLoadingAnalytics, setIsLoadingAnalytics] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Fetch user's organizations
+  useEffect(() => {
+    if (!user) return;
+
+    const fetchOrganizations = async () => {
+      try {
+        const { data: userOrgs, error: userOrgsError } = await supabase
+          .from('user_organizations')
+          .select('organization_id, role')
+          .eq('user_id', user.id);
+
+        if (userOrgsError) {
+          console.error('Error fetching user organization links', userOrgsError);
+          return;
+        }
+
+        if (!userOrgs || userOrgs.length === 0) return;
+
+        const { data: orgsData, error: orgsDataError } = await supabase
+          .from('organizations')
+          .select('id, name')
+          .in('id', userOrgs.map(org => org.organization_id));
+
+        if (orgsDataError) {
+          console.error('Error fetching organization details', orgsDataError);
+          return;
+        }
+
+        const transformedOrgs = userOrgs.map(userOrg => {
+          const orgData = orgsData?.find(org => org.id === userOrg.organization_id);
+          if (!orgData) return null;
+
+          return {
+            id: orgData.id,
+            name: orgData.name,
+            role: userOrg.role
+          };
+        }).filter(org => org !== null) as Organization[];
+
+        setOrganizations(transformedOrgs);
+        if (transformedOrgs.length > 0) {
+          setSelectedOrganizationId(transformedOrgs[0].id);
+        }
+      } catch (error) {
+        console.error('Error fetching organizations:', error);
+      } finally {
+        setIsLoading(false);
+      }
+    };
+
+    fetchOrganizations();
+  }, [user]);
+
+  const buildQuery = useCallback((extra: Record<string, string> = {}) => {
+    if (!user || !selectedOrganizationId) return null;
+
+    return new URLSearchParams({
+      organizationId: selectedOrganizationId,
+      userId: user.id,
+      // Whole days, in the browser's timezone
+      from: new Date(`${from}T00:00:00`).toISOString(),
+      to: new Date(`${to}T23:59:59.999`).toISOString(),
+      gapDays: String(gapDays),
+      timezone: Intl.DateTimeFormat().resolvedOptions().timeZone,
+      ...extra
+    }).toString();
+  }, [user, selectedOrganizationId, from, to, gapDays]);
+
+  // Fetch the report whenever the organization or range changes
+  useEffect(() => {
+    const query = buildQuery();
+    if (!query) return;
+
+    let cancelled = false;
+    const fetchAnalytics = async () => {
+      setIsLoadingAnalytics(true);
+      setError(null);
+      try {
+        const response = await fetch(`/api/analytics?${query}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to load analytics');
+        }
+        if (!cancelled) setAnalytics(data);
+      } catch (error) {
+        console.error('Error fetching analytics:', error);
+        if (!cancelled) {
+          setAnalytics(null);
+          setError(error instanceof Error ? error.message : 'Failed to load analytics');
+        }
+      } finally {
+        if (!cancelled) setIsLoadingAnalytics(false);
+      }
+    };
+
+    fetchAnalytics();
+    return () => {
+      cancelled = true;
+    };
+  }, [buildQuery]);
+
+  const exportCsv = async () => {
+    const query = buildQuery({ format: 'csv' });
+    if (!query) return;
+
+    setIsExporting(true);
+    try {
+      const response = await fetch(`/api/analytics?${query}`);
+      if (!response.ok) {
+        const data = await response.json();
+        throw new Error(data.error || 'Failed to export analytics');
+      }
+
+      const blob = new Blob([await response.text()], { type: 'text/csv;charset=utf-8' });
+      const link = document.createElement('a');
+      link.href = URL.createObjectURL(blob);
+      link.download = `content-analytics-${from}-${to}.csv`;
+      document.body.appendChild(link);
+      link.click();
+      document.body.removeChild(link);
+      URL.revokeObjectURL(link.href);
+    } catch (error) {
+      console.error('Error exporting analytics:', error);
+      setError(error instanceof Error ? error.message : 'Failed to export analytics');
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  if (!user) {
+    return (
+      <div className="p-8">
+        <h1 className="text-3xl font-bold mb-6 dark:text-white">Analytics</h1>
+        <div className="bg-amber-100 dark:bg-amber-900 p-4 rounded-md">
+          <p className="text-amber-800 dark:text-amber-200">
+            Please sign in to see your organization&apos;s content analytics.
+          </p>
+        </div>
+      </div>
+    );
+  }
+
+  const maxCadence = Math.max(1, ...(analytics?.cadence.map(entry => entry.total) || []));
+  const maxPlanned = Math.max(1, ...(analytics?.plannedVsPublished.map(entry => Math.max(entry.planned, entry.published)) || []));
+  const formatTotal = analytics?.formatMix.reduce((sum, entry) => sum + entry.count, 0) || 0;
+
+  return (
+    <div className="p-8">
+      <div className="flex justify-between items-center mb-6">
+        <h1 className="text-3xl font-bold dark:text-white">Analytics</h1>
+        <button
+          onClick={exportCsv}
+          disabled={!analytics || isExporting}
+          className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isExporting ? 'Exporting...' : 'Export CSV'}
+        </button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-4 gap-4 mb-6">
+        <div className="md:col-span-2">
+          <label htmlFor="organization" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Select Organization
+          </label>
+          <select
+            id="organization"
+            value={selectedOrganizationId || ''}
+            onChange={(e) => setSelectedOrganizationId(e.target.value || null)}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+            disabled={isLoading}
+          >
+            <option value="">-- Select an organization --</option>
+            {organizations.map((org) => (
+              <option key={org.id} value={org.id}>
+                {org.name} ({org.role})
+              </option>
+            ))}
+          </select>
+        </div>
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label htmlFor="from" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">From</label>
+            <input
+              id="from"
+              type="date"
+              value={from}
+              max={to}
+              onChange={(e) => e.target.value && setFrom(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+          <div>
+            <label htmlFor="to" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">To</label>
+            <input
+              id="to"
+              type="date"
+              value={to}
+              min={from}
+              onChange={(e) => e.target.value && setTo(e.target.value)}
+              className="w-full px-2 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            />
+          </div>
+        </div>
+        <div>
+          <label htmlFor="gapDays" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+            Flag gaps longer than (days)
+          </label>
+          <input
+            id="gapDays"
+            type="number"
+            min={1}
+            max={365}
+            value={gapDays}
+            onChange={(e) => setGapDays(Math.min(365, Math.max(1, Number(e.target.value) || 1)))}
+            className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="mb-6 p-4 rounded-md bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200">
+          {error}
+        </div>
+      )}
+
+      {isLoading || (isLoadingAnalytics && !analytics) ? (
+        <div className="flex justify-center items-center h-64">
+          <div className="animate-spin h-8 w-8 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+        </div>
+      ) : !selectedOrganizationId ? (
+        <div className="bg-gray-100 dark:bg-gray-800 p-6 rounded-lg text-center">
+          <p className="text-gray-600 dark:text-gray-400">
+            Please select an organization to see its analytics.
+          </p>
+        </div>
+      ) : analytics && (
+        <div className={`space-y-6 ${isLoadingAnalytics ? 'opacity-60' : ''}`}>
+          {/* Suggestions and derivatives */}
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+            {[
+              { label: 'Suggestions', value: analytics.suggestions.total },
+              { label: 'Accepted', value: analytics.suggestions.accepted },
+              { label: 'Dropped', value: analytics.suggestions.dropped },
+              { label: 'Pending review', value: analytics.suggestions.pending },
+              { label: 'Web posts repurposed', value: formatPercent(analytics.derivatives.share) }
+            ].map(card => (
+              <div key={card.label} className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-4">
+                <p className="text-sm text-gray-500 dark:text-gray-400">{card.label}</p>
+                <p className="text-2xl font-semibold dark:text-white">{card.value}</p>
+              </div>
+            ))}
+          </div>
+
+          {/* Cadence per platform */}
+          <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+            <h2 className="text-xl font-semibold mb-1 dark:text-white">Posting Cadence</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+              Published posts per {analytics.period}, by platform.
+            </p>
+            {analytics.platforms.length === 0 ? (
+              <p className="text-sm text-gray-500 dark:text-gray-400">No posts were published in this range.</p>
+            ) : (
+              <>
+                <div className="flex items-end gap-1 h-40">
+                  {analytics.cadence.map(entry => (
+                    <div
+                      key={entry.period}
+                      className="flex-1 flex flex-col-reverse min-w-[4px]"
+                      style={{ height: `${(entry.total / maxCadence) * 100}%` }}
+                      title={`${periodLabel(entry.period, analytics.period)}: ${analytics.platforms.filter(platform => entry.counts[platform]).map(platform => `${platform} ${entry.counts[platform]}`).join(', ') || 'no posts'}`}
+                    >
+                      {analytics.platforms.map(platform => entry.counts[platform] ? (
+                        <div
+                          key={platform}
+                          style={{ height: `${(entry.counts[platform] / entry.total) * 100}%`, backgroundColor: platformColor(platform) }}
+                        />
+                      ) : null)}
+                    </div>
+                  ))}
+                </div>
+                <div className="flex justify-between text-xs text-gray-500 dark:text-gray-400 mt-2">
+                  <span>{periodLabel(analytics.periods[0], analytics.period)}</span>
+                  <span>{periodLabel(analytics.periods[analytics.periods.length - 1], analytics.period)}</span>
+                </div>
+                <div className="flex flex-wrap gap-4 mt-3">
+                  {analytics.platforms.map(platform => (
+                    <span key={platform} className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                      <span className="inline-block w-3 h-3 rounded-sm mr-1 border border-gray-300" style={{ backgroundColor: platformColor(platform) }} />
+                      {platform}
+                    </span>
+                  ))}
+                </div>
+              </>
+            )}
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Format mix */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold mb-4 dark:text-white">Format Mix</h2>
+              {formatTotal === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No posts were published in this range.</p>
+              ) : (
+                <>
+                  <div className="flex h-6 rounded overflow-hidden mb-4">
+                    {analytics.formatMix.map(entry => (
+                      <div
+                        key={entry.format}
+                        style={{ width: `${(entry.count / formatTotal) * 100}%`, backgroundColor: getFormatColors(entry.format).hex }}
+                        title={`${entry.format}: ${entry.count}`}
+                      />
+                    ))}
+                  </div>
+                  <ul className="space-y-1">
+                    {analytics.formatMix.map(entry => (
+                      <li key={entry.format} className="flex items-center justify-between text-sm text-gray-700 dark:text-gray-300">
+                        <span className="flex items-center capitalize">
+                          <span className="inline-block w-3 h-3 rounded-sm mr-2" style={{ backgroundColor: getFormatColors(entry.format).hex }} />
+                          {entry.format}
+                        </span>
+                        <span>{entry.count} ({formatPercent(entry.count / formatTotal)})</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+
+            {/* Planned vs published */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold mb-1 dark:text-white">Planned vs Published</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                Posts put on the calendar per {analytics.period}, and how many went out.
+              </p>
+              <div className="space-y-1 max-h-64 overflow-y-auto">
+                {analytics.plannedVsPublished.map(entry => (
+                  <div key={entry.period} className="flex items-center text-xs text-gray-600 dark:text-gray-400">
+                    <span className="w-20 flex-shrink-0">{periodLabel(entry.period, analytics.period)}</span>
+                    <div className="flex-1 relative h-3 bg-gray-100 dark:bg-gray-700 rounded">
+                      <div className="absolute inset-y-0 left-0 bg-blue-200 dark:bg-blue-900 rounded" style={{ width: `${(entry.planned / maxPlanned) * 100}%` }} />
+                      <div className="absolute inset-y-0 left-0 bg-blue-600 rounded" style={{ width: `${(entry.published / maxPlanned) * 100}%` }} />
+                    </div>
+                    <span className="w-14 text-right flex-shrink-0">{entry.published}/{entry.planned}</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            {/* Gaps */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold mb-4 dark:text-white">
+                Gaps Longer Than {analytics.gapDays} Days
+              </h2>
+              {analytics.gaps.length === 0 ? (
+                <p className="text-sm text-gray-500 dark:text-gray-400">No gaps in this range.</p>
+              ) : (
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                  {analytics.gaps.map(gap => (
+                    <li key={`${gap.platform}-${gap.from}`} className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+                      <span>
+                        <span className="font-medium">{gap.platform || 'All platforms'}</span>: {formatDay(gap.from)} – {formatDay(gap.to)}
+                      </span>
+                      <span className="text-amber-600 dark:text-amber-400">{gap.days} days</span>
+                    </li>
+                  ))}
+                </ul>
+              )}
+            </div>
+
+            {/* Web posts with social derivatives */}
+            <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+              <h2 className="text-xl font-semibold mb-1 dark:text-white">Repurposed Web Posts</h2>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+                {analytics.derivatives.withDerivatives} of {analytics.derivatives.webPosts} published web posts have social posts planned from them.
+              </p>
+              {analytics.derivatives.withoutDerivatives.length > 0 && (
+                <>
+                  <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Not repurposed yet</h3>
+                  <ul className="space-y-1 max-h-48 overflow-y-auto">
+                    {analytics.derivatives.withoutDerivatives.map(post => (
+                      <li key={post.id} className="flex justify-between text-sm text-gray-700 dark:text-gray-300">
+                        <span className="truncate mr-2">{post.title}</span>
+                        <span className="flex-shrink-0 text-gray-500 dark:text-gray-400">{formatDay(post.postedDate)}</span>
+                      </li>
+                    ))}
+                  </ul>
+                </>
+              )}
+            </div>
+          </div>
+
+          <TopicClusters organizationId={selectedOrganizationId} />
+        </div>
+      )}
+    </div>
+  );
+}
@@ -1,12 +1,25 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
-import { addDays, parse, format, setHours, setMinutes, getDay, isMonday, isTuesday, addHours } from 'date-fns';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { addDays, parse, format, setHours, isMonday, isTuesday, addHours } from 'date-fns';
+import { completeLLM, getLLMSettingsFromPreferences } from '@/lib/llm';
+import {
+  PostingWindows,
+  describePostingWindowsForPrompt,
+  getOrganizationTimezone,
+  getPostingWindow,
+  getPostingWindowsFromPreferences,
+  isWallClockInPostingWindow,
+  nextWallClockSlotInWindow,
+  zonedTimeToUtc
+} from '@/lib/scheduling';
+import {
+  describePerformanceForPrompt,
+  describeWeekdayPerformanceForPrompt,
+  getPerformanceEvidence,
+  getPerformanceInsights,
+  PerformanceInsights
+} from '@/lib/metrics/performance';
+import { describeTopicGapsForPrompt, getTopicGaps } from '@/lib/topics';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -20,7 +33,9 @@ export async function POST(request: NextRequest) {
       currentDate, 
       platformSettings, 
       customPrompt, 
-      organizationId 
+      organizationId,
+      timezone,
+      fillGaps
     } = await request.json();
 
     // Validate input
@@ -57,28 +72,44 @@ export async function POST(request: NextRequest) {
       console.error('Error fetching recent posts:', postsError);
       // Continue anyway, but log the error
     }
+    
+    // Engagement of the organization's published posts: what to do more of, and when
+    const planningTimezone = getOrganizationTimezone(orgData.preferences, timezone);
+    let performance: PerformanceInsights | null = null;
+    try {
+      performance = await getPerformanceInsights(organizationId, { timezone: planningTimezone });
+    } catch (performanceError) {
+      console.error('Error loading performance insights:', performanceError);
+      // Continue anyway, but log the error
+    }
+    const performanceContext = describePerformanceForPrompt(performance);
+
+    // In "fill gaps" mode the plan covers what the organization's posts haven't
+    let gapsContext = '';
+    if (fillGaps) {
+      try {
+        gapsContext = describeTopicGapsForPrompt(await getTopicGaps(organizationId));
+      } catch (gapsError) {
+        console.error('Error loading topic gaps:', gapsError);
+        // Continue anyway, but log the error
+      }
+    }
 
     // Prepare the messaging for OpenAI
     const platformRequests = platformSettings.map((p: { platform: string, count: number }) => 
       `${p.count} ${p.platform} posts${p.platform === 'Web' ? ' (blog format)' : ''}`
     ).join(', ');
     
-    // Add scheduling guidance from Social Media Times
+    // Scheduling guidance from the organization's posting windows
+    const postingWindows = getPostingWindowsFromPreferences(orgData.preferences, timezone);
     const schedulingGuidance = `
-    For X (formerly Twitter) posts:
-    - MUST schedule on Mondays and Tuesdays between 10 AM and 1 PM for maximum engagement
-    
-    For LinkedIn posts:
-    - MUST schedule on Tuesdays, Wednesdays, and Thursdays between 10 AM and 2 PM
+    ${describePostingWindowsForPrompt(
+      platformSettings.map((p: { platform: string }) => p.platform),
+      postingWindows
+    )}
     
-    For Instagram posts:
-    - MUST schedule on Tuesdays, Wednesdays, and Thursdays between 10 AM and 2 PM
-    - For video content, consider early mornings (6-9 AM) or evenings (6-9 PM)
-    
-    For Facebook posts:
-    - Prefer midweek posting
-    
-    IMPORTANT: These optimal posting times should ALWAYS be prioritized first. Only schedule outside these times if the optimal slots are already taken by other posts.
+    IMPORTANT: Only schedule posts inside these posting windows.
+    ${describeWeekdayPerformanceForPrompt(performance)}
     `;
     
     const startDate = new Date(currentDate);
@@ -91,11 +122,11 @@ export async function POST(request: NextRequest) {
     
     const endDate = endDateMap[timeFrame as keyof typeof endDateMap] || addDays(startDate, 30);
     
-    // Call OpenAI API
+    // Call the organization's LLM provider
     let responseContent;
     try {
-      const completion = await openai.chat.completions.create({
-        model: "gpt-4", // or whichever model you're using
+      const completion = await completeLLM({
+        task: 'content-plan',
         messages: [
           { 
             role: "system", 
@@ -142,12 +173,10 @@ export async function POST(request: NextRequest) {
             2. description - A detailed content summary or actual post content
             3. platform - The exact platform name from the user request
             4. date - A specific date between ${format(startDate, 'yyyy-MM-dd')} and ${format(endDate, 'yyyy-MM-dd')} with time in 24h format (YYYY-MM-DD HH:MM)
-            5. reasonsData - An object with "reasons" array explaining why this content is suggested, and "aiConfidence" number between 0-1
+            5. reasonsData - An object with "reasons" array explaining why this content is suggested${performanceContext ? ' (name the past performers or statistics that back it, starting those reasons with "Past performance:")' : ''}, and "aiConfidence" number between 0-1
             6. format - For Web content: "blog"; for social media: "social"
             7. derivedFrom - For social posts, include the title of the website content it's derived from; leave empty for original website content
             
-            X POSTS SCHEDULING: Schedule only on Mondays and Tuesdays between 10:00 and 13:00.
-            
             VERIFICATION: Before submitting your response, count the number of suggestions for each platform to verify you've met the exact requirements.`
           },
           {
@@ -163,6 +192,10 @@ export async function POST(request: NextRequest) {
             
             ${recentPosts && recentPosts.length > 0 ? `Recent posts for context to avoid duplication: ${JSON.stringify(recentPosts)}` : ''}
             
+            ${performanceContext ? `${performanceContext}\n\nFavor the platforms, formats, angles and days that performed well, and learn from the bottom performers.` : ''}
+            
+            ${gapsContext}
+            
             IMPORTANT REQUIREMENTS:
             1. Distribute posts evenly across the entire ${timeFrame}
             2. Provide SPECIFIC and MEANINGFUL titles and descriptions for EVERY post
@@ -176,14 +209,14 @@ export async function POST(request: NextRequest) {
         ],
         temperature: 0.7,
         // Remove the response_format parameter as it's not supported by the model you're using
-      });
+      }, getLLMSettingsFromPreferences(orgData.preferences));
       
-      responseContent = completion.choices[0].message.content;
-    } catch (openaiError) {
-      console.error('OpenAI API error:', openaiError);
+      responseContent = completion.content;
+    } catch (llmError) {
+      console.error('LLM API error:', llmError);
       return NextResponse.json({ 
-        error: openaiError instanceof Error ? openaiError.message : 'Error connecting to AI service',
-        details: openaiError 
+        error: llmError instanceof Error ? llmError.message : 'Error connecting to AI service',
+        details: llmError 
       }, { status: 500 });
     }
     
@@ -254,10 +287,27 @@ export async function POST(request: NextRequest) {
       suggestions.suggestions, 
       platformSettings,
       startDate,
-      endDate
+      endDate,
+      postingWindows
     );
     
-    return NextResponse.json({ suggestions: processedSuggestions });
+    // The past performance of each suggestion's platform, format and weekday backs it
+    const suggestionsWithEvidence = processedSuggestions.map(suggestion => ({
+      ...suggestion,
+      reasonsData: {
+        ...suggestion.reasonsData,
+        reasons: [
+          ...(suggestion.reasonsData?.reasons || []),
+          ...getPerformanceEvidence(performance, {
+            platform: suggestion.platform,
+            format: suggestion.format,
+            postedAt: suggestion.posted_date
+          }, planningTimezone)
+        ]
+      }
+    }));
+    
+    return NextResponse.json({ suggestions: suggestionsWithEvidence });
   } catch (error) {
     console.error('AI Planner API error:', error);
     return NextResponse.json(
@@ -272,7 +322,8 @@ function verifyAndAdjustSuggestions(
   suggestions: any[], 
   platformSettings: Array<{ platform: string, count: number }>,
   startDate: Date,
-  endDate: Date
+  endDate: Date,
+  postingWindows: PostingWindows
 ) {
   // Count suggestions by platform
   const platformCounts: Record<string, number> = {};
@@ -310,34 +361,9 @@ function verifyAndAdjustSuggestions(
     }
   }
   
-  // Helper function to determine if a slot is optimal for a given platform
-  const isOptimalTimeSlot = (date: Date, platform: string): boolean => {
-    const day = getDay(date); // 0 = Sunday, 1 = Monday, ...
-    const hour = date.getHours();
-    
-    switch(platform) {
-      case 'X':
-      case '𝕏':
-        // X: Mondays and Tuesdays between 10 AM and 1 PM
-        return (day === 1 || day === 2) && (hour >= 10 && hour < 13);
-      
-      case 'LinkedIn':
-        // LinkedIn: Tuesdays, Wednesdays, and Thursdays between 10 AM and 2 PM
-        return (day >= 2 && day <= 4) && (hour >= 10 && hour < 14);
-      
-      case 'Instagram':
-        // Instagram: Tuesdays, Wednesdays, and Thursdays between 10 AM and 2 PM
-        // Special case for video content handled elsewhere
-        return (day >= 2 && day <= 4) && (hour >= 10 && hour < 14);
-      
-      case 'Facebook':
-        // Facebook: Prefer midweek posting
-        return (day >= 2 && day <= 4);
-      
-      default:
-        return true; // No specific optimal time for other platforms
-    }
-  };
+  // Helper function to determine if a slot is inside the platform's posting window
+  const isOptimalTimeSlot = (date: Date, platform: string): boolean =>
+    isWallClockInPostingWindow(date, getPostingWindow(platform, postingWindows));
   
   // Helper function to find the next optimal time slot for a platform
   const findNextOptimalSlot = (fromDate: Date, platform: string, occupiedSlots: Set<string>): Date => {
@@ -443,21 +469,8 @@ function verifyAndAdjustSuggestions(
         }
       }
       
-      // Special handling for X (Twitter) posts - enforce Monday/Tuesday schedule
-      if (processed.platform === '𝕏' || processed.platform === 'X') {
-        const day = getDay(postDate);
-        
-        // If not Monday or Tuesday, find the next Monday
-        if (day !== 1 && day !== 2) {
-          const daysUntilMonday = day === 0 ? 1 : 8 - day; // Sunday is 0
-          postDate = addDays(postDate, daysUntilMonday);
-        }
-        
-        // Set time between 10 AM and 1 PM
-        const hour = 10 + Math.floor(Math.random() * 3); // 10, 11, or 12
-        const minute = Math.floor(Math.random() * 60);
-        postDate = setHours(setMinutes(postDate, minute), hour);
-      }
+      // Enforce the posting window when every nearby slot was taken
+      postDate = nextWallClockSlotInWindow(postDate, getPostingWindow(processed.platform, postingWindows));
       
       // Mark this time slot as occupied
       occupiedTimeSlots.add(format(postDate, "yyyy-MM-dd'T'HH"));
@@ -595,21 +608,8 @@ function verifyAndAdjustSuggestions(
           }
         }
         
-        // Special scheduling for X (Twitter)
-        if (platform === '𝕏' || platform === 'X') {
-          const day = getDay(postDate);
-          
-          // Find a Monday or Tuesday
-          if (day !== 1 && day !== 2) {
-            const daysUntilMonday = day === 0 ? 1 : 8 - day;
-            postDate = addDays(postDate, daysUntilMonday);
-          }
-          
-          // Set time between 10 AM and 1 PM
-          const hour = 10 + Math.floor(Math.random() * 3);
-          const minute = Math.floor(Math.random() * 60);
-          postDate = setHours(setMinutes(postDate, minute), hour);
-        }
+        // Enforce the posting window when every nearby slot was taken
+        postDate = nextWallClockSlotInWindow(postDate, getPostingWindow(platform, postingWindows));
         
         // Mark this time slot as occupied
         occupiedTimeSlots.add(format(postDate, "yyyy-MM-dd'T'HH"));
@@ -674,5 +674,25 @@ function verifyAndAdjustSuggestions(
     }
   });
   
-  return [...processedSuggestions, ...additionalSuggestions];
+  // The planner works in wall-clock times; store each as the instant it means
+  // in the timezone of its platform's posting window
+  return [...processedSuggestions, ...additionalSuggestions].map(suggestion => {
+    if (!suggestion.posted_date) {
+      return suggestion;
+    }
+    
+    const wallClock = new Date(suggestion.posted_date);
+    if (isNaN(wallClock.getTime())) {
+      return suggestion;
+    }
+    
+    const postedAt = zonedTimeToUtc(
+      format(wallClock, 'yyyy-MM-dd'),
+      wallClock.getHours(),
+      wallClock.getMinutes(),
+      getPostingWindow(suggestion.platform, postingWindows).timezone
+    ).toISOString();
+    
+    return { ...suggestion, date: postedAt, posted_date: postedAt };
+  });
 } 
\ No newline at end of file
@@ -0,0 +1,103 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { contentAnalyticsToCsv, DEFAULT_GAP_DAYS, getContentAnalytics } from '@/lib/analytics';
+import { getOrganizationTimezone } from '@/lib/scheduling';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Longest range a report covers
+const MAX_RANGE_DAYS = 3 * 366;
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the content analytics of an organization between from and to (the last 90 days by default), as JSON or with format=csv
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+    const gapDays = Number(searchParams.get('gapDays') || DEFAULT_GAP_DAYS);
+    const to = searchParams.get('to') ? new Date(searchParams.get('to') as string) : new Date();
+    const from = searchParams.get('from') ? new Date(searchParams.get('from') as string) : new Date(to.getTime() - 90 * DAY_MS);
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (isNaN(from.getTime()) || isNaN(to.getTime()) || from > to) {
+      return NextResponse.json({ error: 'From and to must be dates, from before to' }, { status: 400 });
+    }
+
+    if (to.getTime() - from.getTime() > MAX_RANGE_DAYS * DAY_MS) {
+      return NextResponse.json({ error: 'Reports cover at most three years' }, { status: 400 });
+    }
+
+    if (!Number.isInteger(gapDays) || gapDays < 1 || gapDays > 365) {
+      return NextResponse.json({ error: 'Gap days must be a whole number from 1 to 365' }, { status: 400 });
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId);
+    if (membershipResponse) return membershipResponse;
+
+    const { data: organization } = await supabaseAdmin
+      .from('organizations')
+      .select('preferences')
+      .eq('id', organizationId)
+      .single();
+
+    const analytics = await getContentAnalytics(organizationId, {
+      from,
+      to,
+      gapDays,
+      timezone: getOrganizationTimezone(organization?.preferences, searchParams.get('timezone'))
+    });
+
+    if (searchParams.get('format') === 'csv') {
+      return new NextResponse(contentAnalyticsToCsv(analytics), {
+        headers: {
+          'Content-Type': 'text/csv; charset=utf-8',
+          'Content-Disposition': `attachment; filename="content-analytics-${analytics.from.slice(0, 10)}-${analytics.to.slice(0, 10)}.csv"`
+        }
+      });
+    }
+
+    return NextResponse.json(analytics);
+  } catch (error) {
+    console.error('Error building content analytics:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
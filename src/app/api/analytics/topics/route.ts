@@ -0,0 +1,78 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getTopicAnalysis } from '@/lib/topics';
+import { getOrganizationTimezone } from '@/lib/scheduling';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the themes of an organization's posts, their frequency per month over the last months (12 by default), and its uncovered target keywords.
+// Themes come from TF-IDF unless method=embeddings asks for the (paid) embeddings of the organization's LLM provider.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+    const months = Number(searchParams.get('months') || 12);
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Number.isInteger(months) || months < 1 || months > 36) {
+      return NextResponse.json({ error: 'Months must be a whole number from 1 to 36' }, { status: 400 });
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId);
+    if (membershipResponse) return membershipResponse;
+
+    const { data: organization } = await supabaseAdmin
+      .from('organizations')
+      .select('preferences')
+      .eq('id', organizationId)
+      .single();
+
+    return NextResponse.json(await getTopicAnalysis(organizationId, {
+      months,
+      timezone: getOrganizationTimezone(organization?.preferences, searchParams.get('timezone')),
+      embeddings: searchParams.get('method') === 'embeddings'
+    }));
+  } catch (error) {
+    console.error('Error analyzing topics:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
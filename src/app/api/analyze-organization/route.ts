@@ -1,12 +1,8 @@
 import { NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
 import { createClient } from '@supabase/supabase-js';
-import OpenAI from 'openai';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY,
-});
+import { completeLLM, getOrganizationLLMSettings } from '@/lib/llm';
+import { saveOrganizationProfile } from '@/lib/profile-versions';
 
 // Create a Supabase client with the service role key for admin access
 // This ensures we can bypass RLS while maintaining security
@@ -31,7 +27,7 @@ export async function POST(request: Request) {
   try {
     // Parse request body
     const body = await request.json();
-    const { organizationId, organizationName, posts, skipOpenAI } = body;
+    const { organizationId, organizationName, posts, skipOpenAI, userId } = body;
 
     console.log('=== ANALYZE ORGANIZATION DEBUG START ===');
     console.log('analyze-organization API called with:', { 
@@ -282,17 +278,17 @@ export async function POST(request: Request) {
 
     // Call OpenAI API
     console.log('Calling OpenAI API...');
-    const completion = await openai.chat.completions.create({
-      model: "gpt-4-turbo", // Use an appropriate model
+    const completion = await completeLLM({
+      task: 'organization-analysis',
       messages: [
         { role: "system", content: "You are an expert content and business analyst. Analyze the provided posts and extract insights about the organization." },
         { role: "user", content: prompt }
       ],
-      response_format: { type: "json_object" }
-    });
+      json: true
+    }, await getOrganizationLLMSettings(organization.id));
 
     // Parse the OpenAI response
-    const analysisText = completion.choices[0]?.message?.content || '{}';
+    const analysisText = completion.content || '{}';
     console.log('Received OpenAI response');
     let analysis;
     
@@ -326,21 +322,20 @@ export async function POST(request: Request) {
       }
     }
 
-    // Update the organization's info field in the database if it's a real organization
+    // Save the analysis as the organization's next profile version if it's a real organization
+    let profileVersion: number | null = null;
     if (organization.id && !organization.id.startsWith('temp-')) {
       console.log('Updating organization info in database...');
-      const { error: updateError } = await supabaseAdmin
-        .from('organizations')
-        .update({
-          info: analysis,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', organization.id);
-
-      if (updateError) {
+      try {
+        profileVersion = await saveOrganizationProfile(
+          organization.id,
+          { info: analysis },
+          { userId: typeof userId === 'string' ? userId : null, source: 'analysis' }
+        );
+      } catch (updateError) {
         console.error('Error updating organization info:', updateError);
         return NextResponse.json(
-          { error: 'Failed to update organization info', details: updateError.message },
+          { error: 'Failed to update organization info', details: updateError instanceof Error ? updateError.message : String(updateError) },
           { status: 500 }
         );
       }
@@ -353,6 +348,7 @@ export async function POST(request: Request) {
     return NextResponse.json({
       success: true,
       analysis,
+      profileVersion,
       message: 'Organization analysis completed successfully'
     });
 
@@ -0,0 +1,76 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { listChainJobs } from '../post-generation-chain/progress-store';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// GET recent post generation chain jobs for an organization
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+    const limit = parseInt(searchParams.get('limit') || '10', 10);
+    const finishedOnly = searchParams.get('finished') === 'true';
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the user has access to this organization
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from('user_organizations')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (membershipError || !membership) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const jobs = await listChainJobs(organizationId, {
+      limit: isNaN(limit) ? 10 : Math.min(Math.max(limit, 1), 50),
+      finishedOnly
+    });
+
+    return NextResponse.json({
+      success: true,
+      jobs: jobs.map(job => ({
+        id: job.id,
+        userId: job.userId,
+        params: job.params,
+        profileVersion: job.profileVersion,
+        step: job.state.step,
+        progress: job.state.progress,
+        isGenerating: job.state.isGenerating,
+        error: job.state.error,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt,
+        expiresAt: job.expiresAt
+      }))
+    });
+  } catch (error) {
+    console.error('Error fetching chain jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getChainProgress } from '../post-generation-chain/progress-store';
+import { getChainJob } from '../post-generation-chain/progress-store';
 
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
@@ -17,10 +17,10 @@ export async function GET(request: NextRequest) {
   }
   
   try {
-    // Get the chain state from the store
-    const chainState = getChainProgress(chainId);
+    // Get the chain job from the store
+    const job = await getChainJob(chainId);
     
-    if (!chainState) {
+    if (!job) {
       console.log(`No chain state found for ID: ${chainId}, returning default initializing state`);
       // Return a default state instead of 404 to allow for background processing to catch up
       return NextResponse.json({
@@ -35,13 +35,23 @@ export async function GET(request: NextRequest) {
       });
     }
     
+    const chainState = job.state;
     console.log(`Found chain state for ${chainId}. Step: ${chainState.step}, Progress: ${chainState.progress}, IsGenerating: ${chainState.isGenerating}`);
     
-    // Return the full chain state for client-side processing
+    // Return the full chain state for client-side processing, plus the job
+    // details needed to reopen a finished plan
     return NextResponse.json({
       success: true,
       chainId,
-      chainState
+      chainState,
+      posts: chainState.partialResults.finalPosts || [],
+      job: {
+        organizationId: job.organizationId,
+        userId: job.userId,
+        params: job.params,
+        createdAt: job.createdAt,
+        completedAt: job.completedAt
+      }
     });
   } catch (error) {
     console.error('Error fetching chain results:', error);
@@ -0,0 +1,89 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { ChainParams } from '../post-generation-chain/types';
+import { canResumeChain } from '../post-generation-chain/chain-controller';
+import { executePostGenerationChainInBackground } from '../post-generation-chain/chain-runner';
+import { getChainJob, updateChainProgress } from '../post-generation-chain/progress-store';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// POST resume a failed post generation chain from its last completed step
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, userId } = await request.json();
+
+    if (!chainId || !userId) {
+      return NextResponse.json(
+        { error: 'Chain ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getChainJob(chainId);
+
+    if (!job || !job.organizationId) {
+      return NextResponse.json(
+        { error: 'Chain not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify the user has access to the chain's organization
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from('user_organizations')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('organization_id', job.organizationId)
+      .single();
+
+    if (membershipError || !membership) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (!canResumeChain(job.state)) {
+      return NextResponse.json(
+        { error: job.state.isGenerating ? 'Chain is still running' : 'Chain has no steps left to resume' },
+        { status: 400 }
+      );
+    }
+
+    const params = { ...job.params, organizationId: job.organizationId } as ChainParams;
+
+    console.log(`Resuming chain ${chainId} after step: ${job.state.lastCompletedStep || 'none'}`);
+    await updateChainProgress(chainId, {
+      ...job.state,
+      isGenerating: true,
+      step: 'initializing',
+      error: undefined
+    });
+
+    // Continue in the background; progress is reported through the chain's SSE stream
+    executePostGenerationChainInBackground(params, chainId, job.state);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Post generation resumed',
+      chainId,
+      resumedAfter: job.state.lastCompletedStep || null
+    });
+  } catch (error) {
+    console.error('Error resuming chain:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,112 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { ChainParams } from '../post-generation-chain/types';
+import { retryFailedElaborations } from '../post-generation-chain/chain-controller';
+import { getChainJob, updateChainProgress } from '../post-generation-chain/progress-store';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// POST retry only the elaborations of a chain that were flagged needsRetry
+export async function POST(request: NextRequest) {
+  try {
+    const { chainId, userId } = await request.json();
+
+    if (!chainId || !userId) {
+      return NextResponse.json(
+        { error: 'Chain ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const job = await getChainJob(chainId);
+
+    if (!job || !job.organizationId) {
+      return NextResponse.json(
+        { error: 'Chain not found' },
+        { status: 404 }
+      );
+    }
+
+    // Verify the user has access to the chain's organization
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from('user_organizations')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('organization_id', job.organizationId)
+      .single();
+
+    if (membershipError || !membership) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (job.state.isGenerating) {
+      return NextResponse.json(
+        { error: 'Chain is still running' },
+        { status: 400 }
+      );
+    }
+
+    const params = { ...job.params, organizationId: job.organizationId } as ChainParams;
+    const { state, retriedPosts, finalPosts } = await retryFailedElaborations(params, job.state);
+
+    if (retriedPosts.length === 0) {
+      return NextResponse.json({
+        success: true,
+        message: 'No posts need a retry',
+        retried: 0,
+        stillFailing: 0,
+        posts: []
+      });
+    }
+
+    await updateChainProgress(chainId, state);
+
+    // Finished chains already saved their posts; refresh the ones we regenerated
+    for (const post of finalPosts) {
+      const { error: updateError } = await supabaseAdmin
+        .from('posts')
+        .update({
+          description: post.description,
+          seo_info: post.seo_info,
+          updated_at: new Date().toISOString()
+        })
+        .eq('organization_id', job.organizationId)
+        .eq('url', post.url)
+        .eq('status', 'SUGGESTED');
+
+      if (updateError) {
+        console.error(`Chain ${chainId}: Error updating retried post ${post.url}:`, updateError);
+      }
+    }
+
+    const stillFailing = retriedPosts.filter(post => post.needsRetry).length;
+    console.log(`Chain ${chainId}: Retried ${retriedPosts.length} elaborations, ${stillFailing} still failing`);
+
+    return NextResponse.json({
+      success: true,
+      retried: retriedPosts.length,
+      stillFailing,
+      posts: retriedPosts,
+      finalPosts
+    });
+  } catch (error) {
+    console.error('Error retrying chain elaborations:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
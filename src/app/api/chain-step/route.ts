@@ -17,6 +17,9 @@ import {
   schedulePostsStep
 } from '../post-generation-chain/chain-steps';
 import { updateChainProgress, getChainProgress } from '../post-generation-chain/progress-store';
+import { getLLMSettingsFromPreferences } from '@/lib/llm';
+import { getPerformanceInsights } from '@/lib/metrics/performance';
+import { describeTopicGapsForPrompt, getTopicGaps } from '@/lib/topics';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -96,7 +99,8 @@ export async function POST(request: NextRequest) {
       currentDate, 
       organizationId,
       platformSettings,
-      customPrompt
+      customPrompt,
+      fillGaps
     } = body;
     
     if (!chainId || !step || !organizationId) {
@@ -179,17 +183,33 @@ export async function POST(request: NextRequest) {
           );
         }
         
+        // What the organization's published posts say works; planning goes on without it
+        const performance = await getPerformanceInsights(organizationId).catch(performanceError => {
+          console.warn('Failed to load performance insights:', performanceError);
+          return null;
+        });
+        
+        // In "fill gaps" mode the ideas cover what the organization's posts haven't
+        const gapsPrompt = fillGaps
+          ? await getTopicGaps(organizationId).then(describeTopicGapsForPrompt).catch(gapsError => {
+            console.warn('Failed to load topic gaps:', gapsError);
+            return '';
+          })
+          : '';
+        
         // Generate post ideas
         const postIdeas = await generatePostIdeasStep(
           platformSettingsToUse, 
           orgData.preferences?.industry || 'technology',
           orgData.preferences?.contentTone || 'professional',
-          customPromptToUse,
+          [customPromptToUse, gapsPrompt].filter(Boolean).join('\n\n'),
           recentPosts || [],
           {
             ...orgData.info || {},
             customPrompts: orgCustomPrompts
-          }
+          },
+          getLLMSettingsFromPreferences(orgData.preferences),
+          performance
         );
         
         // Store simplified post ideas in the chain state to reduce data size
@@ -198,7 +218,8 @@ export async function POST(request: NextRequest) {
           title: idea.title,
           concept: idea.concept,
           platform: idea.platform,
-          format: idea.format
+          format: idea.format,
+          evidence: idea.evidence
         }));
         
         // Use type assertion to update with extended data
@@ -260,7 +281,8 @@ export async function POST(request: NextRequest) {
           {
             ...orgInfo.info || {},
             customPrompts: orgCustomPrompts
-          }
+          },
+          getLLMSettingsFromPreferences(orgInfo.preferences)
         );
         
         // Store simplified elaborated posts to reduce data size
@@ -270,6 +292,7 @@ export async function POST(request: NextRequest) {
           platform: post.platform,
           concept: post.concept,
           format: post.format,
+          evidence: post.evidence,
           elaboration: {
             content: post.elaboration?.content ? 
               post.elaboration.content.substring(0, 100) + '...' : 
@@ -328,7 +351,8 @@ export async function POST(request: NextRequest) {
           {
             ...orgInfo.info || {},
             customPrompts: orgInfo.preferences?.customPrompts || {}
-          }
+          },
+          getLLMSettingsFromPreferences(orgInfo.preferences)
         );
         
         // Update progress
@@ -384,7 +408,7 @@ export async function POST(request: NextRequest) {
         }
         
         // Schedule posts
-        const scheduledPosts = await schedulePostsStep(
+        const { posts: scheduledPosts, report: schedulingReport } = await schedulePostsStep(
           enhancedState.partialResults.postsWithSeo,
           chainTimeFrame,
           validatedDate,
@@ -404,6 +428,7 @@ export async function POST(request: NextRequest) {
           partialResults: {
             ...enhancedState.partialResults,
             scheduledPosts,
+            schedulingReport,
             finalPosts: finalPosts as any, // Type assertion
             timeFrame: chainTimeFrame
           }
@@ -0,0 +1,238 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  commitSiteCrawl,
+  createSiteCrawl,
+  deleteSiteCrawl,
+  getSiteCrawl,
+  listSiteCrawls,
+  MAX_CRAWL_DEPTH,
+  MAX_CRAWL_PAGES,
+  runSiteCrawls,
+  updateCrawlSelection
+} from '@/lib/ingestion/crawl';
+import { isFetchableUrl } from '@/lib/ingestion/fetch';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+const isValidLimit = (value: unknown, min: number, max: number) =>
+  value === undefined || (Number.isInteger(value) && (value as number) >= min && (value as number) <= max);
+
+const isPatternList = (value: unknown) =>
+  value === undefined || typeof value === 'string' || (Array.isArray(value) && value.every(pattern => typeof pattern === 'string'));
+
+// GET the recent crawls of an organization, or one crawl with its pages (crawlId)
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const crawlId = searchParams.get('crawlId');
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!userId || (!crawlId && !organizationId)) {
+      return NextResponse.json(
+        { error: 'Crawl ID or organization ID, and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (crawlId) {
+      const details = await getSiteCrawl(crawlId);
+      if (!details) {
+        return NextResponse.json({ error: 'Crawl not found' }, { status: 404 });
+      }
+
+      const membershipResponse = await checkMembership(userId, details.crawl.organization_id);
+      if (membershipResponse) return membershipResponse;
+
+      return NextResponse.json(details);
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId as string);
+    if (membershipResponse) return membershipResponse;
+
+    const crawls = await listSiteCrawls(organizationId as string);
+    return NextResponse.json({ crawls });
+  } catch (error) {
+    console.error('Error fetching site crawls:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a homepage (or any page of the site) to start crawling from
+export async function POST(request: NextRequest) {
+  try {
+    const { url, maxDepth, maxPages, includePatterns, excludePatterns, organizationId, userId } = await request.json();
+
+    if (!url || !organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'URL, organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof url !== 'string' || !isFetchableUrl(url.trim())) {
+      return NextResponse.json(
+        { error: 'Enter the http(s) URL of the site to crawl' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidLimit(maxDepth, 0, MAX_CRAWL_DEPTH) || !isValidLimit(maxPages, 1, MAX_CRAWL_PAGES)) {
+      return NextResponse.json(
+        { error: `Crawls go at most ${MAX_CRAWL_DEPTH} links deep and ${MAX_CRAWL_PAGES} pages` },
+        { status: 400 }
+      );
+    }
+
+    if (!isPatternList(includePatterns) || !isPatternList(excludePatterns)) {
+      return NextResponse.json(
+        { error: 'Path patterns must be text' },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId);
+    if (membershipResponse) return membershipResponse;
+
+    const details = await createSiteCrawl({
+      seedUrl: url.trim(),
+      maxDepth,
+      maxPages,
+      includePatterns,
+      excludePatterns,
+      organizationId,
+      userId
+    });
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error('Error starting site crawl:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * PATCH a crawl: fetch its next pages (crawl), change which pages are imported
+ * (selection, page ID -> selected) or import the selected pages (commit)
+ */
+export async function PATCH(request: NextRequest) {
+  try {
+    const { crawlId, userId, crawl, selection, commit } = await request.json();
+
+    if (!crawlId || !userId) {
+      return NextResponse.json(
+        { error: 'Crawl ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getSiteCrawl(crawlId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Crawl not found' }, { status: 404 });
+    }
+
+    const membershipResponse = await checkMembership(userId, existing.crawl.organization_id);
+    if (membershipResponse) return membershipResponse;
+
+    if ((selection || commit) && existing.crawl.status !== 'review') {
+      return NextResponse.json(
+        { error: existing.crawl.status === 'crawling' ? 'The crawl is still running' : 'This crawl was already imported' },
+        { status: 409 }
+      );
+    }
+
+    const run = crawl && existing.crawl.status === 'crawling' ? await runSiteCrawls({ crawlId }) : null;
+
+    if (selection && typeof selection === 'object') {
+      const entries = Object.entries(selection as Record<string, unknown>);
+      await updateCrawlSelection(crawlId, entries.filter(([, selected]) => selected).map(([pageId]) => pageId), true);
+      await updateCrawlSelection(crawlId, entries.filter(([, selected]) => !selected).map(([pageId]) => pageId), false);
+    }
+
+    if (commit) {
+      const details = await getSiteCrawl(crawlId);
+      if (!details?.pages.some(page => page.status === 'fetched' && page.selected)) {
+        return NextResponse.json({ error: 'Select at least one page to import' }, { status: 400 });
+      }
+
+      const job = await commitSiteCrawl(crawlId, userId);
+      return NextResponse.json({ ...(await getSiteCrawl(crawlId)), job });
+    }
+
+    return NextResponse.json({ ...(await getSiteCrawl(crawlId)), run });
+  } catch (error) {
+    console.error('Error updating site crawl:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a crawl; pages it already imported stay in the library
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const crawlId = searchParams.get('crawlId');
+    const userId = searchParams.get('userId');
+
+    if (!crawlId || !userId) {
+      return NextResponse.json(
+        { error: 'Crawl ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getSiteCrawl(crawlId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Crawl not found' }, { status: 404 });
+    }
+
+    const membershipResponse = await checkMembership(userId, existing.crawl.organization_id);
+    if (membershipResponse) return membershipResponse;
+
+    await deleteSiteCrawl(crawlId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing site crawl:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,137 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { FETCH_ERROR_STATUS, FetchError, isFetchableUrl } from '@/lib/ingestion/fetch';
+import {
+  canAccessIngestionJob,
+  createCsvImportJob,
+  createFeedImportJob,
+  getIngestionJob,
+  listIngestionJobs
+} from '@/lib/ingestion/jobs';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Largest CSV upload accepted
+const MAX_CSV_BYTES = 1024 * 1024;
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET one import job with per-item progress (?jobId), or the recent jobs of an organization
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const jobId = searchParams.get('jobId');
+    const userId = searchParams.get('userId');
+    const organizationId = searchParams.get('organizationId');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    if (jobId) {
+      const details = await getIngestionJob(jobId);
+      if (!details || !await canAccessIngestionJob(details.job, userId)) {
+        return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+      }
+      return NextResponse.json(details);
+    }
+
+    if (organizationId) {
+      const membershipResponse = await checkMembership(userId, organizationId);
+      if (membershipResponse) return membershipResponse;
+    }
+
+    const jobs = await listIngestionJobs({ userId, organizationId });
+    return NextResponse.json({ jobs });
+  } catch (error) {
+    console.error('Error fetching import jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a sitemap, RSS or Atom URL (sourceUrl) or the text of a CSV upload (csv) to queue its URLs for import
+export async function POST(request: NextRequest) {
+  try {
+    const { sourceUrl, csv, fileName, replaceExisting, userId, organizationId } = await request.json();
+
+    if ((!sourceUrl && !csv) || !userId) {
+      return NextResponse.json(
+        { error: 'A source URL or CSV content, and a user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (sourceUrl && (typeof sourceUrl !== 'string' || !isFetchableUrl(sourceUrl.trim()))) {
+      return NextResponse.json(
+        { error: 'Enter the http(s) URL of a sitemap, RSS or Atom feed' },
+        { status: 400 }
+      );
+    }
+
+    if (csv && (typeof csv !== 'string' || csv.length > MAX_CSV_BYTES)) {
+      return NextResponse.json(
+        { error: `CSV files must be text of at most ${MAX_CSV_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    if (organizationId) {
+      const membershipResponse = await checkMembership(userId, organizationId);
+      if (membershipResponse) return membershipResponse;
+    }
+
+    let details;
+    if (sourceUrl) {
+      console.log('[Ingestion] Discovering entries of', sourceUrl);
+      details = await createFeedImportJob({ sourceUrl: sourceUrl.trim(), userId, organizationId });
+    } else {
+      console.log('[Ingestion] Reading CSV upload', fileName || '');
+      details = await createCsvImportJob({ csv, fileName, replaceExisting: !!replaceExisting, userId, organizationId });
+    }
+    console.log(`[Ingestion] Job ${details.job.id}: ${details.counts.pending} to import, ${details.counts.skipped} already imported`);
+
+    return NextResponse.json(details);
+  } catch (error) {
+    console.error('Error creating import job:', error);
+    if (error instanceof FetchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: FETCH_ERROR_STATUS[error.code] }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
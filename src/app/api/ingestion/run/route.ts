@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { runSiteCrawls } from '@/lib/ingestion/crawl';
+import { canAccessIngestionJob, getIngestionJob, runIngestionJobs } from '@/lib/ingestion/jobs';
+import { pollWatchedSources } from '@/lib/ingestion/watched';
+
+// GET is called by the scheduler (Vercel cron): it polls the watched sources that are due, crawls the next pages of running site crawls, then imports pending items of every job
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const watched = await pollWatchedSources();
+    const crawled = await runSiteCrawls();
+    const summary = await runIngestionJobs();
+    return NextResponse.json({ success: true, ...summary, watched, crawled });
+  } catch (error) {
+    console.error('Error running import jobs:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST imports the next items of one job and returns its progress, so an open page can drive the import
+export async function POST(request: NextRequest) {
+  try {
+    const { jobId, userId } = await request.json();
+
+    if (!jobId || !userId) {
+      return NextResponse.json(
+        { error: 'Job ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const details = await getIngestionJob(jobId);
+    if (!details || !await canAccessIngestionJob(details.job, userId)) {
+      return NextResponse.json({ error: 'Import job not found' }, { status: 404 });
+    }
+
+    const summary = await runIngestionJobs({ jobId });
+    return NextResponse.json({ success: true, run: summary, ...(await getIngestionJob(jobId)) });
+  } catch (error) {
+    console.error('Error running import job:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,198 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { FETCH_ERROR_STATUS, FetchError, isFetchableUrl } from '@/lib/ingestion/fetch';
+import {
+  createWatchedSource,
+  deleteWatchedSource,
+  getWatchedSource,
+  listWatchedSources,
+  MIN_POLL_INTERVAL_MINUTES,
+  pollWatchedSources,
+  updateWatchedSource
+} from '@/lib/ingestion/watched';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+const isValidInterval = (value: unknown) =>
+  value === undefined || (Number.isInteger(value) && (value as number) >= MIN_POLL_INTERVAL_MINUTES);
+
+// GET the watched sources of an organization
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId);
+    if (membershipResponse) return membershipResponse;
+
+    const sources = await listWatchedSources(organizationId);
+    return NextResponse.json({ sources });
+  } catch (error) {
+    console.error('Error fetching watched sources:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a feed, sitemap or page URL to watch for new content
+export async function POST(request: NextRequest) {
+  try {
+    const { url, pollIntervalMinutes, organizationId, userId } = await request.json();
+
+    if (!url || !organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'URL, organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (typeof url !== 'string' || !isFetchableUrl(url.trim())) {
+      return NextResponse.json(
+        { error: 'Enter the http(s) URL of a feed, sitemap or page' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidInterval(pollIntervalMinutes)) {
+      return NextResponse.json(
+        { error: `Sources can be checked at most every ${MIN_POLL_INTERVAL_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId);
+    if (membershipResponse) return membershipResponse;
+
+    const source = await createWatchedSource({ url: url.trim(), pollIntervalMinutes, organizationId, userId });
+    return NextResponse.json({ source });
+  } catch (error) {
+    console.error('Error adding watched source:', error);
+    if (error instanceof FetchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: FETCH_ERROR_STATUS[error.code] }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH a source: pause or resume it (isActive), change its interval, or check it right away (pollNow)
+export async function PATCH(request: NextRequest) {
+  try {
+    const { sourceId, userId, isActive, pollIntervalMinutes, pollNow } = await request.json();
+
+    if (!sourceId || !userId) {
+      return NextResponse.json(
+        { error: 'Source ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isValidInterval(pollIntervalMinutes)) {
+      return NextResponse.json(
+        { error: `Sources can be checked at most every ${MIN_POLL_INTERVAL_MINUTES} minutes` },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getWatchedSource(sourceId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Watched source not found' }, { status: 404 });
+    }
+
+    const membershipResponse = await checkMembership(userId, existing.organization_id);
+    if (membershipResponse) return membershipResponse;
+
+    if (isActive !== undefined || pollIntervalMinutes !== undefined) {
+      await updateWatchedSource(sourceId, {
+        ...(isActive !== undefined && { isActive: !!isActive }),
+        pollIntervalMinutes
+      });
+    }
+
+    const poll = pollNow ? (await pollWatchedSources({ sourceId })).sources[0] || null : null;
+    return NextResponse.json({ source: await getWatchedSource(sourceId), poll });
+  } catch (error) {
+    console.error('Error updating watched source:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE a watched source; what it imported stays in the library
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const sourceId = searchParams.get('sourceId');
+    const userId = searchParams.get('userId');
+
+    if (!sourceId || !userId) {
+      return NextResponse.json(
+        { error: 'Source ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const existing = await getWatchedSource(sourceId);
+    if (!existing) {
+      return NextResponse.json({ error: 'Watched source not found' }, { status: 404 });
+    }
+
+    const membershipResponse = await checkMembership(userId, existing.organization_id);
+    if (membershipResponse) return membershipResponse;
+
+    await deleteWatchedSource(sourceId);
+    return NextResponse.json({ success: true });
+  } catch (error) {
+    console.error('Error removing watched source:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,172 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { MEMBER_ROLES, MemberRole } from '@/lib/approvals';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+const isMemberRole = (value: unknown): value is MemberRole =>
+  typeof value === 'string' && MEMBER_ROLES.includes(value as MemberRole);
+
+// The user's role in the organization, null when they are not a member
+async function getMembershipRole(userId: string, organizationId: string): Promise<string | null> {
+  const { data: membership, error } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  return error || !membership ? null : membership.role;
+}
+
+// GET the members of an organization with their roles
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getMembershipRole(userId, organizationId))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const { data: memberships, error } = await supabaseAdmin
+      .from('user_organizations')
+      .select('user_id, role')
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      console.error('Error fetching organization members:', error);
+      return NextResponse.json({ error: 'Failed to fetch members' }, { status: 500 });
+    }
+
+    // Resolve the members' names
+    const userIds = (memberships || []).map(membership => membership.user_id);
+    const users: Record<string, { name: string | null; email: string | null }> = {};
+    if (userIds.length > 0) {
+      const { data: userRows } = await supabaseAdmin
+        .from('users')
+        .select('id, name, email')
+        .in('id', userIds);
+      (userRows || []).forEach(user => {
+        users[user.id] = { name: user.name, email: user.email };
+      });
+    }
+
+    const members = (memberships || []).map(membership => ({
+      userId: membership.user_id,
+      role: membership.role,
+      name: users[membership.user_id]?.name || null,
+      email: users[membership.user_id]?.email || null
+    }));
+
+    return NextResponse.json({ members });
+  } catch (error) {
+    console.error('Error fetching organization members:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PATCH a member's role (admins only). Approving a join request gives a pending member a role.
+export async function PATCH(request: NextRequest) {
+  try {
+    const { organizationId, userId, memberId, role } = await request.json();
+
+    if (!organizationId || !userId || !memberId) {
+      return NextResponse.json(
+        { error: 'Organization ID, user ID and member ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!isMemberRole(role)) {
+      return NextResponse.json(
+        { error: `Role must be one of: ${MEMBER_ROLES.join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    const userRole = await getMembershipRole(userId, organizationId);
+    if (!userRole) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (userRole !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only organization admins can change member roles' },
+        { status: 403 }
+      );
+    }
+
+    const memberRole = await getMembershipRole(memberId, organizationId);
+    if (!memberRole) {
+      return NextResponse.json({ error: 'Member not found' }, { status: 404 });
+    }
+
+    // An organization always keeps someone who can manage it
+    if (memberRole === 'admin' && role !== 'admin') {
+      const { count, error: countError } = await supabaseAdmin
+        .from('user_organizations')
+        .select('user_id', { count: 'exact', head: true })
+        .eq('organization_id', organizationId)
+        .eq('role', 'admin');
+
+      if (countError) {
+        console.error('Error counting organization admins:', countError);
+        return NextResponse.json({ error: 'Failed to update the member role' }, { status: 500 });
+      }
+
+      if ((count || 0) <= 1) {
+        return NextResponse.json(
+          { error: 'The organization needs at least one admin' },
+          { status: 409 }
+        );
+      }
+    }
+
+    const { error } = await supabaseAdmin
+      .from('user_organizations')
+      .update({ role, updated_at: new Date().toISOString() })
+      .eq('user_id', memberId)
+      .eq('organization_id', organizationId);
+
+    if (error) {
+      console.error('Error updating member role:', error);
+      return NextResponse.json({ error: 'Failed to update the member role' }, { status: 500 });
+    }
+
+    return NextResponse.json({ userId: memberId, role });
+  } catch (error) {
+    console.error('Error updating member role:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -1,5 +1,8 @@
 import { createClient } from '@supabase/supabase-js';
 import { NextRequest, NextResponse } from 'next/server';
+import { saveOrganizationProfile } from '@/lib/profile-versions';
+import { isValidTimezone, sanitizePostingWindows } from '@/lib/scheduling';
+import { sanitizeSchedulingRules } from '@/lib/scheduling/scheduler';
 
 // Create a Supabase client with the service role key
 const supabaseAdmin = createClient(
@@ -144,28 +147,44 @@ export async function PATCH(request: NextRequest) {
       ...preferences
     };
     
+    // Keep only posting windows the scheduler can use
+    if ('postingWindows' in preferences) {
+      mergedPreferences.postingWindows = sanitizePostingWindows(preferences.postingWindows);
+    }
+    
+    // Fill in defaults for missing or invalid scheduling rules
+    if ('schedulingRules' in preferences) {
+      mergedPreferences.schedulingRules = sanitizeSchedulingRules(preferences.schedulingRules);
+    }
+    
+    // An unknown timezone would silently fall back to server time
+    if ('timezone' in preferences && !isValidTimezone(preferences.timezone)) {
+      delete mergedPreferences.timezone;
+    }
+    
     console.log('[API] Merged preferences:', mergedPreferences);
     
-    // Update with merged preferences
-    console.log('[API] Performing direct update with merged preferences');
-    const { data: updatedOrg, error: directUpdateError } = await supabaseAdmin
-      .from('organizations')
-      .update({ preferences: mergedPreferences })
-      .eq('id', organizationId)
-      .select('preferences')
-      .single();
-      
-    if (directUpdateError) {
-      console.error('[API] Direct update error:', directUpdateError);
+    // Save the merged preferences as the organization's next profile version
+    console.log('[API] Saving merged preferences as a new profile version');
+    let profileVersion: number;
+    try {
+      profileVersion = await saveOrganizationProfile(
+        organizationId,
+        { preferences: mergedPreferences },
+        { userId, source: 'preferences' }
+      );
+    } catch (saveError) {
+      console.error('[API] Profile save error:', saveError);
       return NextResponse.json(
-        { error: 'Failed to update organization preferences: ' + directUpdateError.message },
+        { error: 'Failed to update organization preferences: ' + (saveError instanceof Error ? saveError.message : String(saveError)) },
         { status: 500 }
       );
     }
     
-    console.log('[API] Direct update successful:', updatedOrg);
+    console.log('[API] Preferences saved as profile version', profileVersion);
     return NextResponse.json({ 
-      preferences: updatedOrg.preferences,
+      preferences: mergedPreferences,
+      profileVersion,
       message: 'Preferences updated successfully' 
     });
     
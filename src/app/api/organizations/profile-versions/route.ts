@@ -0,0 +1,150 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  compareProfileVersions,
+  getCurrentProfileVersion,
+  getProfileVersion,
+  listProfileVersions,
+  ProfileVersionError,
+  rollbackOrganizationProfile
+} from '@/lib/profile-versions';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// The user's role in the organization, null when they are not a member
+async function getMembershipRole(userId: string, organizationId: string): Promise<string | null> {
+  const { data: membership, error } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  return error || !membership ? null : membership.role;
+}
+
+const parseVersion = (value: unknown) => {
+  const version = Number(value);
+  return Number.isInteger(version) && version > 0 ? version : null;
+};
+
+// GET the profile history of an organization, or the diff between two versions when from and to are given
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!(await getMembershipRole(userId, organizationId))) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (searchParams.has('from') || searchParams.has('to')) {
+      const from = parseVersion(searchParams.get('from'));
+      const to = parseVersion(searchParams.get('to'));
+      if (!from || !to) {
+        return NextResponse.json({ error: 'From and to must be version numbers' }, { status: 400 });
+      }
+
+      return NextResponse.json(await compareProfileVersions(organizationId, from, to));
+    }
+
+    const limit = parseInt(searchParams.get('limit') || '20', 10);
+    const currentVersion = await getCurrentProfileVersion(organizationId);
+    const versions = await listProfileVersions(organizationId, {
+      limit: isNaN(limit) ? 20 : Math.min(Math.max(limit, 1), 100),
+      before: parseVersion(searchParams.get('before')) || undefined
+    });
+
+    // Resolve the names of the authors
+    const userIds = Array.from(new Set(versions.map(version => version.userId).filter((id): id is string => !!id)));
+    const users: Record<string, { name: string | null; email: string | null }> = {};
+    if (userIds.length > 0) {
+      const { data: userRows } = await supabaseAdmin
+        .from('users')
+        .select('id, name, email')
+        .in('id', userIds);
+      (userRows || []).forEach(user => {
+        users[user.id] = { name: user.name, email: user.email };
+      });
+    }
+
+    return NextResponse.json({ currentVersion, versions, users });
+  } catch (error) {
+    console.error('Error fetching profile versions:', error);
+    if (error instanceof ProfileVersionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a version to roll the organization's info and preferences back to (admins only)
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId, userId, version } = await request.json();
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const restoredVersion = parseVersion(version);
+    if (!restoredVersion) {
+      return NextResponse.json({ error: 'Version must be a version number' }, { status: 400 });
+    }
+
+    const role = await getMembershipRole(userId, organizationId);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (role !== 'admin') {
+      return NextResponse.json(
+        { error: 'Only organization admins can roll back the profile' },
+        { status: 403 }
+      );
+    }
+
+    const currentVersion = await rollbackOrganizationProfile(organizationId, restoredVersion, userId);
+    const profile = await getProfileVersion(organizationId, currentVersion);
+    return NextResponse.json({ currentVersion, restoredVersion, profile });
+  } catch (error) {
+    console.error('Error rolling back organization profile:', error);
+    if (error instanceof ProfileVersionError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,150 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  PUBLISHING_PLATFORMS,
+  PublishingPlatform,
+  deletePublishingCredentials,
+  isMockPublishing,
+  listPublishingConnections,
+  sanitizePublishingCredentials,
+  savePublishingCredentials
+} from '@/lib/publishing';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+const isPublishingPlatform = (value: unknown): value is PublishingPlatform =>
+  typeof value === 'string' && PUBLISHING_PLATFORMS.includes(value as PublishingPlatform);
+
+// Returns an error response unless the user belongs to the organization (as an admin when required)
+async function checkMembership(userId: string, organizationId: string, requireAdmin: boolean) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  if (requireAdmin && membership.role !== 'admin') {
+    return NextResponse.json(
+      { error: 'Only organization admins can manage publishing connections' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the platforms an organization can publish to. Secrets are never returned.
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId, false);
+    if (membershipResponse) return membershipResponse;
+
+    const connections = await listPublishingConnections(organizationId);
+
+    return NextResponse.json({
+      success: true,
+      mock: isMockPublishing(),
+      connections
+    });
+  } catch (error) {
+    console.error('Error fetching publishing connections:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// PUT stores (or replaces) the credentials for one platform
+export async function PUT(request: NextRequest) {
+  try {
+    const { organizationId, userId, platform, credentials } = await request.json();
+
+    if (!organizationId || !userId || !isPublishingPlatform(platform)) {
+      return NextResponse.json(
+        { error: 'Organization ID, user ID and a supported platform are required' },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId, true);
+    if (membershipResponse) return membershipResponse;
+
+    const sanitized = sanitizePublishingCredentials(platform, credentials);
+    if (!sanitized) {
+      return NextResponse.json(
+        { error: `Missing required ${platform} credentials` },
+        { status: 400 }
+      );
+    }
+
+    await savePublishingCredentials(organizationId, platform, sanitized, userId);
+
+    return NextResponse.json({ success: true, platform });
+  } catch (error) {
+    console.error('Error saving publishing credentials:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE the credentials for one platform
+export async function DELETE(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+    const platform = searchParams.get('platform');
+
+    if (!organizationId || !userId || !isPublishingPlatform(platform)) {
+      return NextResponse.json(
+        { error: 'Organization ID, user ID and a supported platform are required' },
+        { status: 400 }
+      );
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId, true);
+    if (membershipResponse) return membershipResponse;
+
+    await deletePublishingCredentials(organizationId, platform);
+
+    return NextResponse.json({ success: true, platform });
+  } catch (error) {
+    console.error('Error deleting publishing credentials:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
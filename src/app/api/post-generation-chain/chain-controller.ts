@@ -1,8 +1,7 @@
 // @ts-ignore - Fix import errors temporarily while module structure is being fixed
 import { v4 as uuidv4 } from 'uuid';
-import OpenAI from 'openai';
 import { createClient } from '@supabase/supabase-js';
-import { format, addDays, getDay, isSameMonth } from 'date-fns';
+import { format, addDays, isSameMonth } from 'date-fns';
 
 import { 
   ChainParams, 
@@ -23,112 +22,75 @@ import {
   generateSeoInfoStep,
   schedulePostsStep 
 } from './chain-steps';
-import { CalendarViewType } from '@/components/calendar/CalendarContext';
-
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+import { getLLMSettingsFromPreferences } from '@/lib/llm';
+import {
+  Booking,
+  getOrganizationTimezone,
+  getPostingWindowsFromPreferences,
+  getZonedParts,
+  parsePostedDate
+} from '@/lib/scheduling';
+import { getSchedulingRulesFromPreferences } from '@/lib/scheduling/scheduler';
+import { getPerformanceEvidence, getPerformanceInsights, PerformanceInsights } from '@/lib/metrics/performance';
+import { describeTopicGapsForPrompt, getTopicGaps } from '@/lib/topics';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
 const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
 const supabase = createClient(supabaseUrl, supabaseServiceKey);
 
-// Define the Platform type based on available platforms
-type Platform = 'x' | 'linkedin' | 'instagram' | 'web';
-
-// Define scheduling constraints interface
-interface PlatformSchedulingConstraint {
-  validDays: number[];   // 0 = Sunday, 1 = Monday, etc.
-  validHours: { start: number; end: number };
-}
+// Steps that write a checkpoint when they finish, in execution order
+const CHECKPOINT_STEPS: ChainStep[] = [
+  'generating-ideas',
+  'elaborating-content',
+  'generating-seo',
+  'scheduling-posts'
+];
 
 /**
- * Gets platform-specific scheduling constraints
+ * Whether a step still has to run given the last checkpointed step
  */
-function getPlatformSchedulingConstraints(platform: Platform): PlatformSchedulingConstraint {
-  switch (platform) {
-    case 'web':
-      return {
-        validDays: [0], // Sunday only
-        validHours: { start: 9, end: 17 } // 9 AM to 5 PM
-      };
-    case 'x':
-      return {
-        validDays: [1, 2], // Monday and Tuesday
-        validHours: { start: 10, end: 13 } // 10 AM to 1 PM
-      };
-    case 'linkedin':
-      return {
-        validDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
-        validHours: { start: 10, end: 14 } // 10 AM to 2 PM
-      };
-    case 'instagram':
-      return {
-        validDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
-        validHours: { start: 10, end: 14 } // 10 AM to 2 PM
-      };
-    default:
-      return {
-        validDays: [1, 2, 3, 4, 5], // Weekdays
-        validHours: { start: 9, end: 17 } // 9 AM to 5 PM
-      };
-  }
-}
-
-/**
- * Gets available days within a time frame that match the valid days of the week
- */
-function getAvailableDaysInTimeFrame(
-  startDate: Date,
-  timeFrame: CalendarViewType,
-  validDays: number[]
-): Date[] {
-  const availableDays: Date[] = [];
-  const currentDate = new Date(startDate);
-  const endDate = timeFrame === 'week' 
-    ? addDays(startDate, 7) 
-    : new Date(currentDate.getFullYear(), currentDate.getMonth() + 1, 0); // Last day of current month
-  
-  // Iterate through each day in the time frame
-  const currentDay = new Date(currentDate);
-  while (currentDay <= endDate) {
-    // Check if the day of the week is in our valid days array
-    if (validDays.includes(getDay(currentDay))) {
-      availableDays.push(new Date(currentDay));
-    }
-    // Move to the next day
-    currentDay.setDate(currentDay.getDate() + 1);
+function isStepPending(step: ChainStep, lastCompletedStep?: ChainStep): boolean {
+  if (!lastCompletedStep) {
+    return true;
   }
-  
-  return availableDays;
+  return CHECKPOINT_STEPS.indexOf(step) > CHECKPOINT_STEPS.indexOf(lastCompletedStep);
 }
 
 /**
- * Generates a random time within the valid hours range
+ * Whether a stored chain state can be resumed (it stopped before its last
+ * checkpoint). A completed run has saved its posts, even when it took a
+ * fallback that skipped checkpoints, so it is never resumed.
  */
-function getRandomTimeInRange(validHours: { start: number; end: number }): string {
-  const { start, end } = validHours;
-  const hour = Math.floor(Math.random() * (end - start + 1)) + start;
-  const minute = Math.random() < 0.5 ? 0 : 30; // Either 00 or 30 minutes
-  
-  return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
+export function canResumeChain(state: ChainState): boolean {
+  return !state.isGenerating && state.step !== 'complete' && state.lastCompletedStep !== 'scheduling-posts';
 }
 
 /**
- * Main function to execute the post generation chain
+ * Main function to execute the post generation chain.
+ * Pass the stored state of an earlier run as resumeFrom to skip the steps it already completed.
  */
 export async function executePostGenerationChain(
   params: ChainParams,
-  onProgressUpdate?: (state: ChainState) => void
+  onProgressUpdate?: (state: ChainState) => void,
+  resumeFrom?: ChainState
 ): Promise<FinalPost[]> {
-  // Initialize chain state
+  // Initialize chain state, starting from the checkpoint when resuming
   let chainState: ChainState = {
     isGenerating: true,
     step: 'initializing',
     progress: 0,
-    partialResults: {}
+    partialResults: resumeFrom ? { ...resumeFrom.partialResults } : {},
+    ...(resumeFrom?.lastCompletedStep && { lastCompletedStep: resumeFrom.lastCompletedStep })
+  };
+  
+  if (resumeFrom) {
+    console.log(`Resuming chain after step: ${resumeFrom.lastCompletedStep || 'none'}`);
+  }
+  
+  // Record that a step finished so a failed run can resume after it
+  const checkpoint = (step: ChainStep) => {
+    chainState.lastCompletedStep = step;
   };
   
   // Helper to update progress with logging
@@ -169,6 +131,7 @@ export async function executePostGenerationChain(
       }
       
       console.log('Organization found:', orgData.name);
+      const llmSettings = getLLMSettingsFromPreferences(orgData.preferences);
       updateProgress('initializing', 10);
       
       // Fetch recent posts for context to avoid duplication
@@ -184,226 +147,304 @@ export async function executePostGenerationChain(
         // Non-fatal error, continue with empty array
       }
       
-      // Step 1: Generate post ideas
-      updateProgress('generating-ideas', 15);
-      console.log('Starting post idea generation');
-      let postIdeas: PostIdea[] = [];
+      orgCustomPrompts = orgData.preferences?.customPrompts || {};
+      
+      // What the organization's published posts say works, for the ideas and their reasons
+      let performance: PerformanceInsights | null = null;
       try {
-        orgCustomPrompts = orgData.preferences?.customPrompts || {};
+        performance = await getPerformanceInsights(params.organizationId, {
+          timezone: getOrganizationTimezone(orgData.preferences, params.timezone)
+        });
+      } catch (performanceError) {
+        console.warn('Failed to load performance insights:', performanceError);
+        // Non-fatal error, plan without them
+      }
+
+      // In "fill gaps" mode the ideas cover what the organization's posts haven't
+      let customPrompt = params.customPrompt;
+      if (params.fillGaps) {
+        try {
+          const gapsPrompt = describeTopicGapsForPrompt(await getTopicGaps(params.organizationId));
+          customPrompt = [params.customPrompt, gapsPrompt].filter(Boolean).join('\n\n');
+        } catch (gapsError) {
+          console.warn('Failed to load topic gaps:', gapsError);
+          // Non-fatal error, plan without them
+        }
+      }
+      
+      // Step 1: Generate post ideas
+      let postIdeas: PostIdea[] = chainState.partialResults.postIdeas || [];
+      if (isStepPending('generating-ideas', chainState.lastCompletedStep)) {
+        try {
+          updateProgress('generating-ideas', 15);
+          console.log('Starting post idea generation');
         
-        postIdeas = await generatePostIdeasStep(
-          params.platformSettings, 
-          orgData.preferences?.industry || 'technology',
-          orgData.preferences?.contentTone || 'professional',
-          params.customPrompt,
-          recentPosts || [],
-          {
-            ...orgData.info || {},
-            customPrompts: orgCustomPrompts // Pass custom prompts to generatePostIdeasStep
+          postIdeas = await generatePostIdeasStep(
+            params.platformSettings, 
+            orgData.preferences?.industry || 'technology',
+            orgData.preferences?.contentTone || 'professional',
+            customPrompt,
+            recentPosts || [],
+            {
+              ...orgData.info || {},
+              customPrompts: orgCustomPrompts // Pass custom prompts to generatePostIdeasStep
+            },
+            llmSettings,
+            performance
+          );
+        
+          if (!postIdeas || postIdeas.length === 0) {
+            console.error('No post ideas were generated');
+            throw new Error('No post ideas were generated');
           }
-        );
         
-        if (!postIdeas || postIdeas.length === 0) {
-          console.error('No post ideas were generated');
-          throw new Error('No post ideas were generated');
+          console.log(`Generated ${postIdeas.length} post ideas`);
+          chainState.partialResults.postIdeas = postIdeas;
+          checkpoint('generating-ideas');
+          updateProgress('generating-ideas', 30);
+        } catch (ideasError) {
+          console.error('Error generating post ideas:', ideasError);
+          throw new Error(ideasError instanceof Error ? 
+            `Failed to generate post ideas: ${ideasError.message}` : 
+            'Failed to generate post ideas');
         }
-        
-        console.log(`Generated ${postIdeas.length} post ideas`);
-        chainState.partialResults.postIdeas = postIdeas;
-        updateProgress('generating-ideas', 30);
-      } catch (ideasError) {
-        console.error('Error generating post ideas:', ideasError);
-        throw new Error(ideasError instanceof Error ? 
-          `Failed to generate post ideas: ${ideasError.message}` : 
-          'Failed to generate post ideas');
       }
       
       // Step 2: Elaborate with content
-      updateProgress('elaborating-content', 35);
-      console.log('Elaborating post content');
-      let elaboratedPosts: ElaboratedPost[] = [];
-      try {
-        elaboratedPosts = await elaboratePostsStep(
-          postIdeas, 
-          orgData.preferences?.contentTone || 'professional',
-          {
-            ...orgData.info || {},
-            customPrompts: orgCustomPrompts // Pass custom prompts to elaboratePostsStep
-          }
-        );
-        
-        if (!elaboratedPosts || elaboratedPosts.length === 0) {
-          throw new Error('Failed to elaborate on post ideas');
-        }
+      let elaboratedPosts: ElaboratedPost[] = chainState.partialResults.elaboratedPosts || [];
+      if (isStepPending('elaborating-content', chainState.lastCompletedStep)) {
+        try {
+          updateProgress('elaborating-content', 35);
+          console.log('Elaborating post content');
         
-        console.log(`Elaborated ${elaboratedPosts.length} posts`);
-        chainState.partialResults.elaboratedPosts = elaboratedPosts;
-        updateProgress('elaborating-content', 55);
-      } catch (elaborationError) {
-        console.error('Error elaborating posts:', elaborationError);
-        // If we have post ideas, we can return simplified posts even if elaboration failed
-        if (postIdeas.length > 0) {
-          const simplifiedPosts = postIdeas.map(idea => transformToFinalPost({
-            ...idea,
-            posted_date: format(new Date(), 'yyyy-MM-dd'),
-            status: 'SUGGESTED' as const,
-            reasonsData: { reasons: [], aiConfidence: 0 },
-            elaboration: {
-              content: idea.concept
+          elaboratedPosts = await elaboratePostsStep(
+            postIdeas, 
+            orgData.preferences?.contentTone || 'professional',
+            {
+              ...orgData.info || {},
+              customPrompts: orgCustomPrompts // Pass custom prompts to elaboratePostsStep
             },
-            seoSuggestions: []
-          } as ScheduledPost, params.organizationId));
+            llmSettings,
+            (postsSoFar) => {
+              // Stream each finished batch so clients can render posts as they arrive
+              chainState.partialResults.elaboratedPosts = postsSoFar;
+              updateProgress('elaborating-content', 35 + Math.round(20 * postsSoFar.length / postIdeas.length));
+            }
+          );
+        
+          if (!elaboratedPosts || elaboratedPosts.length === 0) {
+            throw new Error('Failed to elaborate on post ideas');
+          }
+        
+          console.log(`Elaborated ${elaboratedPosts.length} posts`);
+          chainState.partialResults.elaboratedPosts = elaboratedPosts;
+          checkpoint('elaborating-content');
+          updateProgress('elaborating-content', 55);
+        } catch (elaborationError) {
+          console.error('Error elaborating posts:', elaborationError);
+          // If we have post ideas, we can return simplified posts even if elaboration failed
+          if (postIdeas.length > 0) {
+            const simplifiedPosts = postIdeas.map(idea => transformToFinalPost({
+              ...idea,
+              posted_date: new Date().toISOString(),
+              status: 'SUGGESTED' as const,
+              reasonsData: { reasons: [], aiConfidence: 0 },
+              elaboration: {
+                content: idea.concept
+              },
+              seoSuggestions: []
+            } as ScheduledPost, params.organizationId, params.timezone));
           
-          updateProgress('complete', 100);
-          chainState.partialResults.finalPosts = simplifiedPosts;
-          return simplifiedPosts;
+            chainState.partialResults.finalPosts = simplifiedPosts;
+            updateProgress('complete', 100);
+            return simplifiedPosts;
+          }
+          throw new Error('Failed to create post content');
         }
-        throw new Error('Failed to create post content');
       }
       
       // Step 3: Generate SEO information
-      updateProgress('generating-seo', 60);
-      console.log('Generating SEO information');
-      let postsWithSeo: PostWithSeo[] = [];
-      try {
-        postsWithSeo = await generateSeoInfoStep(
-          elaboratedPosts,
-          {
-            ...orgData.info || {},
-            customPrompts: orgCustomPrompts // Pass custom prompts to generateSeoInfoStep
-          }
-        );
-        console.log(`Added SEO info to ${postsWithSeo.length} posts`);
-        chainState.partialResults.postsWithSeo = postsWithSeo;
-        updateProgress('generating-seo', 75);
-      } catch (seoError) {
-        console.error('Error generating SEO info:', seoError);
-        // Fall back to posts without SEO
-        postsWithSeo = elaboratedPosts.map(post => ({
-          ...post,
-          reasonsData: { 
-            reasons: ['SEO analysis not available'],
-            aiConfidence: 0.5
-          }
-        }));
+      let postsWithSeo: PostWithSeo[] = chainState.partialResults.postsWithSeo || [];
+      if (isStepPending('generating-seo', chainState.lastCompletedStep)) {
+        try {
+          updateProgress('generating-seo', 60);
+          console.log('Generating SEO information');
+        
+          postsWithSeo = await generateSeoInfoStep(
+            elaboratedPosts,
+            {
+              ...orgData.info || {},
+              customPrompts: orgCustomPrompts // Pass custom prompts to generateSeoInfoStep
+            },
+            llmSettings,
+            (postsSoFar) => {
+              chainState.partialResults.postsWithSeo = postsSoFar;
+              updateProgress('generating-seo', 60 + Math.round(15 * postsSoFar.length / elaboratedPosts.length));
+            }
+          );
+          console.log(`Added SEO info to ${postsWithSeo.length} posts`);
+          chainState.partialResults.postsWithSeo = postsWithSeo;
+          checkpoint('generating-seo');
+          updateProgress('generating-seo', 75);
+        } catch (seoError) {
+          console.error('Error generating SEO info:', seoError);
+          // Fall back to posts without SEO
+          postsWithSeo = elaboratedPosts.map(post => ({
+            ...post,
+            reasonsData: { 
+              reasons: ['SEO analysis not available'],
+              aiConfidence: 0.5
+            }
+          }));
+          chainState.partialResults.postsWithSeo = postsWithSeo;
+        }
       }
       
       // Step 4: Schedule posts
-      updateProgress('scheduling-posts', 80);
-      console.log('Scheduling posts');
-      let scheduledPosts: ScheduledPost[] = [];
-      try {
-        // Ensure we have a valid date object for scheduling
-        let schedulingDate: Date;
+      let scheduledPosts: ScheduledPost[] = chainState.partialResults.scheduledPosts || [];
+      if (isStepPending('scheduling-posts', chainState.lastCompletedStep)) {
+        try {
+          updateProgress('scheduling-posts', 80);
+          console.log('Scheduling posts');
         
-        if (typeof params.currentDate === 'string') {
-          // Parse the date string into a Date object
-          try {
-            schedulingDate = new Date(params.currentDate);
+          // Ensure we have a valid date object for scheduling
+          let schedulingDate: Date;
+        
+          if (typeof params.currentDate === 'string') {
+            // Parse the date string into a Date object
+            try {
+              schedulingDate = new Date(params.currentDate);
             
-            // Verify the date is valid
-            if (isNaN(schedulingDate.getTime())) {
-              console.warn(`Invalid date string provided: ${params.currentDate}, using current date`);
+              // Verify the date is valid
+              if (isNaN(schedulingDate.getTime())) {
+                console.warn(`Invalid date string provided: ${params.currentDate}, using current date`);
+                schedulingDate = new Date();
+              } else {
+                // Log the parsed date for debugging
+                console.log(`Using parsed date for scheduling: ${format(schedulingDate, 'yyyy-MM-dd')} (Month: ${schedulingDate.getMonth() + 1})`);
+              }
+            } catch (dateError) {
+              console.error('Error parsing date string:', dateError);
               schedulingDate = new Date();
-            } else {
-              // Log the parsed date for debugging
-              console.log(`Using parsed date for scheduling: ${format(schedulingDate, 'yyyy-MM-dd')} (Month: ${schedulingDate.getMonth() + 1})`);
             }
-          } catch (dateError) {
-            console.error('Error parsing date string:', dateError);
+          } else if (params.currentDate instanceof Date) {
+            schedulingDate = params.currentDate;
+            console.log(`Using Date object for scheduling: ${format(schedulingDate, 'yyyy-MM-dd')} (Month: ${schedulingDate.getMonth() + 1})`);
+          } else {
+            console.warn('No valid date provided, using current date');
             schedulingDate = new Date();
           }
-        } else if (params.currentDate instanceof Date) {
-          schedulingDate = params.currentDate;
-          console.log(`Using Date object for scheduling: ${format(schedulingDate, 'yyyy-MM-dd')} (Month: ${schedulingDate.getMonth() + 1})`);
-        } else {
-          console.warn('No valid date provided, using current date');
-          schedulingDate = new Date();
-        }
         
-        // Execute scheduling with validated date
-        console.log("Attempting to fetch existing scheduled posts for better distribution");
-        const existingPosts: PostWithSeo[] = [];
+          // Posts already on the calendar that the new ones are scheduled around
+          console.log("Fetching existing scheduled and published posts to schedule around");
+          const existingPosts: Booking[] = [];
         
-        try {
-          // Create Supabase client
-          const supabase = createClient(
-            process.env.NEXT_PUBLIC_SUPABASE_URL || '',
-            process.env.NEXT_PUBLIC_SUPABASE_ANON_KEY || ''
-          );
+          try {
+            // Service role client: this runs server side, outside the user's session
+            const supabase = createClient(
+              process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+              process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+            );
           
-          // Fetch existing posts for the organization
-          const { data: existingPostsData, error } = await supabase
-            .from('posts')
-            .select('*')
-            .eq('organization_id', params.organizationId)
-            .eq('status', 'SCHEDULED');
+            // Include some margin around the period so spacing rules see neighbouring posts
+            const { data: existingPostsData, error } = await supabase
+              .from('posts')
+              .select('platform, posted_date')
+              .eq('organization_id', params.organizationId)
+              .in('status', ['SCHEDULED', 'QUEUED', 'PUBLISHING', 'POSTED'])
+              .gte('posted_date', addDays(schedulingDate, -14).toISOString())
+              .lte('posted_date', addDays(schedulingDate, 45).toISOString());
             
-          if (error) {
-            console.error("Error fetching existing posts:", error);
-          } else if (existingPostsData) {
-            console.log(`Found ${existingPostsData.length} existing scheduled posts`);
+            if (error) {
+              console.error("Error fetching existing posts:", error);
+            } else if (existingPostsData) {
+              console.log(`Found ${existingPostsData.length} existing scheduled and published posts`);
             
-            // Transform the database posts to the PostWithSeo format
-            existingPostsData.forEach((post: any) => {
-              existingPosts.push({
-                id: post.id,
-                title: post.title,
-                platform: post.platform,
-                concept: '',
-                format: post.format || '',
-                elaboration: {},
-                reasonsData: {
-                  reasons: [],
-                  aiConfidence: 0
-                },
-                // Add the posted_date as a custom property that our scheduling will use
-                ...(post.posted_date && { posted_date: post.posted_date })
+              existingPostsData.forEach((post: { platform: string | null; posted_date: string | null }) => {
+                if (post.posted_date) {
+                  existingPosts.push({
+                    platform: post.platform || 'Web',
+                    postedAt: parsePostedDate(post.posted_date)
+                  });
+                }
               });
-            });
+            }
+          } catch (fetchError) {
+            console.error("Error in existing posts fetch operation:", fetchError);
           }
-        } catch (fetchError) {
-          console.error("Error in existing posts fetch operation:", fetchError);
-        }
         
-        // Execute scheduling with validated date and existing posts
-        scheduledPosts = await schedulePostsStep(
-          postsWithSeo, 
-          params.timeFrame, 
-          schedulingDate,
-          existingPosts
-        );
-        console.log(`Scheduled ${scheduledPosts.length} posts starting from date: ${format(schedulingDate, 'yyyy-MM-dd')}`);
-        chainState.partialResults.scheduledPosts = scheduledPosts;
-        updateProgress('scheduling-posts', 95);
-      } catch (schedulingError) {
-        console.error('Error scheduling posts:', schedulingError);
-        // Use simple scheduling as fallback
-        scheduledPosts = postsWithSeo.map(post => ({
-          ...post,
-          posted_date: format(new Date(), 'yyyy-MM-dd'),
-          status: 'SUGGESTED' as const
-        }));
+          // Execute scheduling with validated date and existing posts
+          const timezone = getOrganizationTimezone(orgData.preferences, params.timezone);
+          const schedulingResult = await schedulePostsStep(
+            postsWithSeo, 
+            params.timeFrame, 
+            schedulingDate,
+            existingPosts,
+            getPostingWindowsFromPreferences(orgData.preferences, params.timezone),
+            {
+              seed: params.seed || `${params.organizationId}:${params.timeFrame}:${format(schedulingDate, 'yyyy-MM-dd')}`,
+              rules: getSchedulingRulesFromPreferences(orgData.preferences),
+              timezone
+            }
+          );
+          // The past performance of each post's platform, format and weekday backs it
+          scheduledPosts = schedulingResult.posts.map(post => ({
+            ...post,
+            reasonsData: {
+              ...post.reasonsData,
+              reasons: [
+                ...(post.reasonsData?.reasons || []),
+                ...getPerformanceEvidence(performance, { platform: post.platform, format: post.format, postedAt: post.posted_date }, timezone)
+              ]
+            }
+          }));
+          chainState.partialResults.schedulingReport = schedulingResult.report;
+          console.log(`Scheduled ${scheduledPosts.length} posts starting from date: ${format(schedulingDate, 'yyyy-MM-dd')}`);
+          chainState.partialResults.scheduledPosts = scheduledPosts;
+          checkpoint('scheduling-posts');
+          updateProgress('scheduling-posts', 95);
+        } catch (schedulingError) {
+          console.error('Error scheduling posts:', schedulingError);
+          // Use simple scheduling as fallback
+          scheduledPosts = postsWithSeo.map(post => ({
+            ...post,
+            posted_date: new Date().toISOString(),
+            status: 'SUGGESTED' as const
+          }));
+          // The posts get saved either way, so a resume must not schedule them again
+          chainState.partialResults.scheduledPosts = scheduledPosts;
+          checkpoint('scheduling-posts');
+        }
       }
       
       // Transform to final format
       const finalPosts = scheduledPosts.map(post => transformToFinalPost(
         post, 
-        params.organizationId
+        params.organizationId,
+        getOrganizationTimezone(orgData.preferences, params.timezone)
       ));
       
-      // Mark as complete
-      updateProgress('complete', 100);
+      // Mark as complete; the run only finishes once the runner has saved the posts
       chainState.partialResults.finalPosts = finalPosts;
+      updateProgress('complete', 100);
       
       return finalPosts;
     } catch (orgError) {
       console.error('Organization validation error:', orgError);
-      updateProgress('error', 0);
       throw orgError instanceof Error ? orgError : new Error('Failed to validate organization details');
     }
   } catch (error) {
     console.error('Chain execution error:', error);
+    
+    // Return any partial results if available; the runner saves them and finishes the run
+    if (chainState.partialResults.scheduledPosts?.length) {
+      const finalPosts = chainState.partialResults.scheduledPosts.map(post => 
+        transformToFinalPost(post, params.organizationId, params.timezone)
+      );
+      chainState.partialResults.finalPosts = finalPosts;
+      return finalPosts;
+    }
+    
     chainState.isGenerating = false;
     chainState.step = 'error';
     chainState.error = error instanceof Error ? error.message : 'Unknown error';
@@ -412,15 +453,113 @@ export async function executePostGenerationChain(
       onProgressUpdate({...chainState});
     }
     
-    // Return any partial results if available
-    if (chainState.partialResults.scheduledPosts?.length) {
-      return chainState.partialResults.scheduledPosts.map(post => 
-        transformToFinalPost(post, params.organizationId)
+    throw error;
+  }
+}
+
+/**
+ * Re-run elaboration for the posts of a chain that were flagged needsRetry,
+ * reusing the stored ideas, and carry the new content through SEO, scheduling
+ * and the final posts without regenerating anything else.
+ */
+export async function retryFailedElaborations(
+  params: ChainParams,
+  state: ChainState
+): Promise<{ state: ChainState; retriedPosts: ElaboratedPost[]; finalPosts: FinalPost[] }> {
+  const partialResults = { ...state.partialResults };
+  const elaboratedPosts = partialResults.elaboratedPosts || [];
+  const failedPosts = elaboratedPosts.filter(post => post.needsRetry);
+
+  if (failedPosts.length === 0) {
+    return { state, retriedPosts: [], finalPosts: [] };
+  }
+
+  const { data: orgData, error: orgError } = await supabase
+    .from('organizations')
+    .select('preferences, info')
+    .eq('id', params.organizationId)
+    .single();
+
+  if (orgError || !orgData) {
+    console.error('Organization lookup error:', orgError);
+    throw new Error(`Organization lookup failed: ${orgError?.message || 'not found'}`);
+  }
+
+  const llmSettings = getLLMSettingsFromPreferences(orgData.preferences);
+  const organizationInfo = {
+    ...orgData.info || {},
+    customPrompts: orgData.preferences?.customPrompts || {}
+  };
+
+  console.log(`Retrying elaboration for ${failedPosts.length} posts`);
+  const ideas: PostIdea[] = failedPosts.map(post => ({
+    id: post.id,
+    title: post.title,
+    platform: post.platform,
+    concept: post.concept,
+    format: post.format,
+    ...(post.derivedFrom && { derivedFrom: post.derivedFrom })
+  }));
+  const retriedPosts = await elaboratePostsStep(
+    ideas,
+    orgData.preferences?.contentTone || 'professional',
+    organizationInfo,
+    llmSettings
+  );
+
+  const retriedById = new Map(retriedPosts.map(post => [post.id, post]));
+  partialResults.elaboratedPosts = elaboratedPosts.map(post => retriedById.get(post.id) || post);
+
+  // Only posts that elaborated successfully this time get fresh SEO info
+  const succeededPosts = retriedPosts.filter(post => !post.needsRetry);
+  const seoById = new Map<string, PostWithSeo>();
+  if (partialResults.postsWithSeo && succeededPosts.length > 0) {
+    try {
+      const postsWithSeo = await generateSeoInfoStep(succeededPosts, organizationInfo, llmSettings);
+      postsWithSeo.forEach(post => seoById.set(post.id, post));
+    } catch (seoError) {
+      console.error('Error generating SEO info for retried posts:', seoError);
+    }
+  }
+
+  // Carry the new content forward, keeping each post's SEO fallback and schedule
+  const applyRetry = <T extends PostWithSeo>(post: T): T => {
+    const retried = retriedById.get(post.id);
+    if (!retried) {
+      return post;
+    }
+    const seo = seoById.get(post.id);
+    return {
+      ...post,
+      elaboration: retried.elaboration,
+      needsRetry: retried.needsRetry,
+      ...(seo && { reasonsData: seo.reasonsData, seoSuggestions: seo.seoSuggestions })
+    };
+  };
+
+  if (partialResults.postsWithSeo) {
+    partialResults.postsWithSeo = partialResults.postsWithSeo.map(applyRetry);
+  }
+
+  let finalPosts: FinalPost[] = [];
+  if (partialResults.scheduledPosts) {
+    partialResults.scheduledPosts = partialResults.scheduledPosts.map(applyRetry);
+    if (partialResults.finalPosts) {
+      finalPosts = partialResults.scheduledPosts
+        .filter(post => retriedById.has(post.id))
+        .map(post => transformToFinalPost(post, params.organizationId, params.timezone));
+      const finalByUrl = new Map(finalPosts.map(post => [post.url, post]));
+      partialResults.finalPosts = partialResults.finalPosts.map(post =>
+        (post.url && finalByUrl.get(post.url)) || post
       );
     }
-    
-    throw error;
   }
+
+  return {
+    state: { ...state, partialResults },
+    retriedPosts,
+    finalPosts
+  };
 }
 
 // Helper function to update progress - keeping for compatibility but not using directly
@@ -438,7 +577,8 @@ function updateProgress(
 // @ts-ignore - Parameter type issues will be fixed in a separate PR
 function transformToFinalPost(
   post: ScheduledPost, 
-  organizationId: string
+  organizationId: string,
+  timeZone?: string
 ): FinalPost {
   // Add debug logging for the incoming post
   console.log('DEBUG - transformToFinalPost INPUT:', {
@@ -462,6 +602,15 @@ function transformToFinalPost(
     cleanDescription = cleanDescription.replace(/\[Scheduled at \d{1,2}:\d{2}\]\s*/, '');
   }
   
+  // Otherwise read the time from the scheduled instant, as seen in the organization's timezone
+  if (!scheduledTime && post.posted_date && post.posted_date.includes('T')) {
+    const postedAt = new Date(post.posted_date);
+    if (!isNaN(postedAt.getTime())) {
+      const parts = getZonedParts(postedAt, timeZone);
+      scheduledTime = `${String(parts.hour).padStart(2, '0')}:${String(parts.minute).padStart(2, '0')}${timeZone ? ` (${timeZone})` : ''}`;
+    }
+  }
+  
   // If no description is provided, generate one from elaboration data
   if (!post.description) {
     cleanDescription = post.elaboration.content || 
@@ -523,76 +672,4 @@ function transformToFinalPost(
   
   return finalPost;
 }
-
-function schedulePostsForPlatform(
-  posts: PostWithSeo[],
-  platform: Platform,
-  timeFrame: CalendarViewType,
-  currentDate: Date
-): PostWithSeo[] {
-  if (!posts.length) return [];
-
-  // Define platform-specific scheduling constraints
-  const platformConstraints = getPlatformSchedulingConstraints(platform);
-  const { validDays, validHours } = platformConstraints;
-
-  // Calculate available days within the time frame
-  const availableDays = getAvailableDaysInTimeFrame(
-    currentDate,
-    timeFrame,
-    validDays
-  );
-
-  if (availableDays.length === 0) {
-    console.warn(`No valid days found for ${platform} in the selected time frame`);
-    return posts; // Return unscheduled posts
-  }
-
-  console.log(`Platform ${platform} has ${availableDays.length} valid days in the ${timeFrame}`);
-  
-  // Track which days have already been used for scheduling
-  const usedDates = new Map<string, number>();
-  
-  return posts.map((post, index) => {
-    // Convert availableDays to a list of formatted dates
-    const availableDateStrings = availableDays.map(day => 
-      format(day, 'yyyy-MM-dd')
-    );
-    
-    // Find dates that have been used the least
-    let prioritizedDates = [...availableDateStrings];
-    
-    // Sort by usage count (less used dates first)
-    prioritizedDates.sort((a, b) => {
-      const countA = usedDates.get(a) || 0;
-      const countB = usedDates.get(b) || 0;
-      return countA - countB;
-    });
-    
-    // Select the least used date
-    const selectedDate = prioritizedDates[0];
-    
-    // Update usage count
-    const currentCount = usedDates.get(selectedDate) || 0;
-    usedDates.set(selectedDate, currentCount + 1);
-    
-    // Log distribution info
-    if (index === 0) {
-      console.log(`Starting distribution for ${platform} posts`);
-    }
-    
-    // Select an appropriate time within the valid hours
-    const selectedTime = getRandomTimeInRange(validHours);
-    
-    // Add time to description for now (later this will be in the database)
-    const updatedDescription = post.elaboration.content || post.concept;
-    const descriptionWithTime = `[Scheduled at ${selectedTime}] ${updatedDescription}`;
-    
-    return {
-      ...post,
-      posted_date: selectedDate,
-      description: descriptionWithTime,
-      status: 'SUGGESTED'
-    };
-  });
-} 
\ No newline at end of file
+ 
\ No newline at end of file
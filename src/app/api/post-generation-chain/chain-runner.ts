@@ -0,0 +1,111 @@
+import { createClient } from '@supabase/supabase-js';
+
+import { ChainParams, ChainState } from './types';
+import { executePostGenerationChain } from './chain-controller';
+import { updateChainProgress, getChainProgress } from './progress-store';
+
+// Initialize Supabase client
+const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
+const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
+const supabase = createClient(supabaseUrl, supabaseServiceKey);
+
+// Mark a chain as failed while keeping its checkpoint and partial results,
+// so the run can be resumed from the last completed step
+const failChain = async (chainId: string, error: unknown) => {
+  const latestState = await getChainProgress(chainId);
+
+  await updateChainProgress(chainId, {
+    isGenerating: false,
+    step: 'error',
+    progress: latestState?.progress || 0,
+    error: error instanceof Error ? error.message : 'Unknown error',
+    ...(latestState?.lastCompletedStep && { lastCompletedStep: latestState.lastCompletedStep }),
+    partialResults: latestState?.partialResults || {}
+  });
+};
+
+/**
+ * Background execution function that doesn't block the response.
+ * Pass the stored state of a failed run as resumeFrom to skip the steps it already completed.
+ */
+export async function executePostGenerationChainInBackground(
+  params: ChainParams,
+  chainId: string,
+  resumeFrom?: ChainState
+) {
+  console.log(`Starting background execution for chain ${chainId}${resumeFrom ? ` (resuming after ${resumeFrom.lastCompletedStep || 'start'})` : ''}`);
+  
+  // Use a try/catch to prevent failures from stopping execution
+  try {
+    // To improve Vercel serverless compatibility, run this in a non-awaited Promise
+    // This allows the function to detach from the original request lifecycle
+    Promise.resolve().then(async () => {
+      try {
+        // Execute the full chain
+        console.log(`Chain ${chainId}: Executing post generation chain`);
+        const posts = await executePostGenerationChain(
+          params,
+          (state) => {
+            // Update progress in the store whenever there's a change
+            updateChainProgress(chainId, state);
+          },
+          resumeFrom
+        );
+        
+        // Save the results to our database for persistence
+        if (posts && posts.length > 0) {
+          try {
+            console.log(`Chain ${chainId}: Saving ${posts.length} posts to database`);
+            // Insert generated posts with SUGGESTED status for later review
+            const postsToInsert = posts.map(post => ({
+              ...post,
+              created_at: new Date().toISOString(),
+              updated_at: new Date().toISOString()
+            }));
+            
+            const { error: insertError } = await supabase
+              .from('posts')
+              .insert(postsToInsert);
+            
+            if (insertError) {
+              console.error(`Chain ${chainId}: Error inserting posts:`, insertError);
+              // Continue despite insert error - we still return the generated posts
+            } else {
+              console.log(`Chain ${chainId}: Successfully inserted ${posts.length} posts`);
+            }
+          } catch (dbError) {
+            console.error(`Chain ${chainId}: Database error:`, dbError);
+            // Non-fatal error, continue with result
+          }
+        }
+        
+        // Update the chain with the final results, keeping the intermediate
+        // results so the finished job can be inspected and reopened later
+        console.log(`Chain ${chainId}: Updating with final results`);
+        const latestState = await getChainProgress(chainId);
+        await updateChainProgress(chainId, {
+          isGenerating: false,
+          step: 'complete',
+          progress: 100,
+          ...(latestState?.lastCompletedStep && { lastCompletedStep: latestState.lastCompletedStep }),
+          partialResults: { ...(latestState?.partialResults || {}), finalPosts: posts }
+        });
+        
+        console.log(`Chain ${chainId}: Background execution completed successfully`);
+      } catch (error) {
+        console.error(`Chain ${chainId}: Error in background execution:`, error);
+        
+        // Update chain state to error
+        await failChain(chainId, error);
+      }
+    });
+    
+    // Log that we've started the process
+    console.log(`Chain ${chainId}: Background process initiated`);
+  } catch (topLevelError) {
+    console.error(`Chain ${chainId}: Fatal error in background execution:`, topLevelError);
+    
+    // Update chain state to error
+    await failChain(chainId, topLevelError);
+  }
+}
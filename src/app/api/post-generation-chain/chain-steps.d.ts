@@ -2,10 +2,14 @@ import {
   PostIdea, 
   ElaboratedPost, 
   PostWithSeo, 
-  ScheduledPost,
-  PlatformSetting
+  PlatformSetting,
+  SchedulingOptions,
+  SchedulingResult
 } from './types';
+import { LLMSettings } from '@/lib/llm';
+import { Booking, PostingWindows } from '@/lib/scheduling';
 import { CalendarViewType } from '@/components/calendar/CalendarContext';
+import { PerformanceInsights } from '@/lib/metrics/performance';
 
 /**
  * Step 1: Generate post ideas based on platform settings
@@ -15,7 +19,10 @@ export declare function generatePostIdeasStep(
   industry: string,
   contentTone: string,
   customPrompt?: string,
-  recentPosts?: any[]
+  recentPosts?: any[],
+  organizationInfo?: Record<string, unknown>,
+  llmSettings?: LLMSettings,
+  performance?: PerformanceInsights | null
 ): Promise<PostIdea[]>;
 
 /**
@@ -23,14 +30,20 @@ export declare function generatePostIdeasStep(
  */
 export declare function elaboratePostsStep(
   postIdeas: PostIdea[],
-  contentTone: string
+  contentTone: string,
+  organizationInfo?: Record<string, unknown>,
+  llmSettings?: LLMSettings,
+  onBatchComplete?: (postsSoFar: ElaboratedPost[]) => void
 ): Promise<ElaboratedPost[]>;
 
 /**
  * Step 3: Generate SEO information for posts
  */
 export declare function generateSeoInfoStep(
-  elaboratedPosts: ElaboratedPost[]
+  elaboratedPosts: ElaboratedPost[],
+  organizationInfo?: Record<string, unknown>,
+  llmSettings?: LLMSettings,
+  onPostComplete?: (postsSoFar: PostWithSeo[]) => void
 ): Promise<PostWithSeo[]>;
 
 /**
@@ -39,5 +52,8 @@ export declare function generateSeoInfoStep(
 export declare function schedulePostsStep(
   posts: PostWithSeo[],
   timeFrame: CalendarViewType,
-  startDate: Date
-): Promise<ScheduledPost[]>; 
\ No newline at end of file
+  startDate: Date,
+  existingPosts?: Booking[],
+  postingWindows?: PostingWindows,
+  options?: SchedulingOptions
+): Promise<SchedulingResult>; 
\ No newline at end of file
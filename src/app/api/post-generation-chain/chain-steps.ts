@@ -1,19 +1,37 @@
 import { v4 as uuidv4 } from 'uuid';
-import OpenAI from 'openai';
 import { format, addDays } from 'date-fns';
+import { completeLLM, LLMSettings } from '@/lib/llm';
 import { 
   PostIdea, 
   ElaboratedPost, 
   PostWithSeo, 
   ScheduledPost,
-  PlatformSetting
+  PlatformSetting,
+  SchedulingOptions,
+  SchedulingResult
 } from './types';
 import { CalendarViewType } from '@/components/calendar/CalendarContext';
+import {
+  Booking,
+  PostingWindows,
+  getPostingWindow,
+  getPostingInstant,
+  isPostingDay,
+  pickTimeInWindow
+} from '@/lib/scheduling';
+import { createSeededRandom, schedulePosts } from '@/lib/scheduling/scheduler';
+import { describePerformanceForPrompt, PerformanceInsights } from '@/lib/metrics/performance';
 
-// Initialize OpenAI client
-const openai = new OpenAI({
-  apiKey: process.env.OPENAI_API_KEY
-});
+// The evidence an idea cites, as reasons; models return a list or a sentence
+const toEvidence = (value: unknown): string[] => {
+  const items = Array.isArray(value) ? value : (typeof value === 'string' && value.trim() ? [value] : []);
+  return items
+    .filter((item): item is string => typeof item === 'string' && !!item.trim())
+    .map(item => `Past performance: ${item.trim()}`);
+};
+
+// Reasons of a post followed by the past performance its idea cited
+const withEvidence = (reasons: string[], post: PostIdea): string[] => [...reasons, ...(post.evidence || [])];
 
 /**
  * Step 1: Generate post ideas based on platform settings
@@ -24,7 +42,9 @@ export async function generatePostIdeasStep(
   contentTone: string,
   customPrompt?: string,
   recentPosts: any[] = [],
-  organizationInfo?: any
+  organizationInfo?: any,
+  llmSettings?: LLMSettings,
+  performance?: PerformanceInsights | null
 ): Promise<PostIdea[]> {
   // Create focused prompt for just generating titles and basic concepts
   const platformRequests = platformSettings
@@ -120,6 +140,9 @@ export async function generatePostIdeasStep(
     `;
   }
 
+  // What worked and what didn't in the organization's published posts
+  const performanceContext = describePerformanceForPrompt(performance || null);
+
   const prompt = `
     Generate compelling content ideas for the following platforms:
     ${requestSummary}
@@ -130,6 +153,7 @@ export async function generatePostIdeasStep(
     3. BriefConcept - A clear description of what the post will cover
     4. Format - "blog" for Web platform, "social" for social media platforms
     5. DerivedFrom - For social posts that promote a blog post, reference the blog post's title here
+    ${performanceContext ? `6. Evidence - An array naming the past performers or statistics below that this idea builds on (empty if none)` : ''}
     
     IMPORTANT GUIDELINES:
     - PRIORITIZE fulfilling the requested number of posts for each platform (e.g., if ${platformSettings[0].count} ${platformSettings[0].platform} posts are requested, generate exactly ${platformSettings[0].count})
@@ -146,12 +170,14 @@ export async function generatePostIdeasStep(
     
     ${recentPostsContext}
     
+    ${performanceContext ? `${performanceContext}\n\n    Favor the platforms, formats and angles that performed well, and learn from the bottom performers.` : ''}
+    
     IMPORTANT: Your response MUST be a valid JSON object with an array called "ideas" containing all suggested post ideas.
   `;
   
   try {
-    const response = await openai.chat.completions.create({
-      model: "gpt-4", 
+    const response = await completeLLM({
+      task: 'post-ideas',
       messages: [
         {
           role: "system", 
@@ -163,10 +189,10 @@ export async function generatePostIdeasStep(
         }
       ],
       temperature: 0.8,
-    });
+    }, llmSettings);
     
     // Parse the response
-    const content = response.choices[0].message.content;
+    const content = response.content;
     let parsedResponse;
     
     try {
@@ -191,7 +217,8 @@ export async function generatePostIdeasStep(
         platform: idea.TargetPlatform || idea.platform || 'Web',
         concept: idea.BriefConcept || idea.concept || 'Content idea generated by AI',
         format: idea.Format || idea.format || (idea.TargetPlatform === 'Web' ? 'blog' : 'social'),
-        derivedFrom: idea.DerivedFrom || idea.derivedFrom || ''
+        derivedFrom: idea.DerivedFrom || idea.derivedFrom || '',
+        evidence: toEvidence(idea.Evidence || idea.evidence)
       };
       console.log('DEBUG - Transformed post:', {
         title: transformedPost.title,
@@ -217,7 +244,9 @@ export async function generatePostIdeasStep(
 export async function elaboratePostsStep(
   postIdeas: PostIdea[],
   contentTone: string,
-  organizationInfo?: any
+  organizationInfo?: any,
+  llmSettings?: LLMSettings,
+  onBatchComplete?: (postsSoFar: ElaboratedPost[]) => void
 ): Promise<ElaboratedPost[]> {
   // Process in batches to avoid overloading the API
   const batchSize = 3;
@@ -302,8 +331,8 @@ export async function elaboratePostsStep(
         `;
         
         try {
-          const response = await openai.chat.completions.create({
-            model: "gpt-4",
+          const response = await completeLLM({
+            task: 'post-elaboration',
             messages: [
               {
                 role: "system", 
@@ -315,10 +344,10 @@ export async function elaboratePostsStep(
               }
             ],
             temperature: 0.7,
-          });
+          }, llmSettings);
           
           // Parse response
-          const content = response.choices[0].message.content;
+          const content = response.content;
           let elaboration;
           
           try {
@@ -355,6 +384,11 @@ export async function elaboratePostsStep(
     );
     
     results.push(...batchResults);
+    
+    // Report each finished batch so callers can stream partial results
+    if (onBatchComplete) {
+      onBatchComplete([...results]);
+    }
   }
   
   return results;
@@ -365,7 +399,9 @@ export async function elaboratePostsStep(
  */
 export async function generateSeoInfoStep(
   elaboratedPosts: ElaboratedPost[],
-  organizationInfo?: any
+  organizationInfo?: any,
+  llmSettings?: LLMSettings,
+  onPostComplete?: (postsSoFar: PostWithSeo[]) => void
 ): Promise<PostWithSeo[]> {
   const postsWithSeo: PostWithSeo[] = [];
   
@@ -388,7 +424,7 @@ export async function generateSeoInfoStep(
         postsWithSeo.push({
           ...post,
           reasonsData: {
-            reasons: ['Social media post - standard SEO not applicable'],
+            reasons: withEvidence(['Social media post - standard SEO not applicable'], post),
             aiConfidence: 0.8
           }
         });
@@ -431,8 +467,8 @@ export async function generateSeoInfoStep(
         }
       `;
       
-      const response = await openai.chat.completions.create({
-        model: "gpt-4",
+      const response = await completeLLM({
+        task: 'post-seo',
         messages: [
           {
             role: "system", 
@@ -444,10 +480,10 @@ export async function generateSeoInfoStep(
           }
         ],
         temperature: 0.4,
-      });
+      }, llmSettings);
       
       // Parse the response
-      const content = response.choices[0].message.content;
+      const content = response.content;
       let seoData;
       
       try {
@@ -467,7 +503,7 @@ export async function generateSeoInfoStep(
       postsWithSeo.push({
         ...post,
         reasonsData: {
-          reasons: seoData.reasons || [],
+          reasons: withEvidence(seoData.reasons || [], post),
           aiConfidence: seoData.aiConfidence || 0.5
         },
         seoSuggestions: seoData.seoSuggestions || []
@@ -479,10 +515,15 @@ export async function generateSeoInfoStep(
       postsWithSeo.push({
         ...post,
         reasonsData: {
-          reasons: ['Error analyzing SEO potential'],
+          reasons: withEvidence(['Error analyzing SEO potential'], post),
           aiConfidence: 0.5
         }
       });
+    } finally {
+      // Runs for skipped social posts too, so callers can stream partial results
+      if (onPostComplete) {
+        onPostComplete([...postsWithSeo]);
+      }
     }
   }
   
@@ -496,14 +537,19 @@ export async function schedulePostsStep(
   posts: PostWithSeo[],
   timeFrame: CalendarViewType,
   currentDate: Date,
-  existingPosts: PostWithSeo[] = []
-): Promise<ScheduledPost[]> {
+  existingPosts: Booking[] = [],
+  postingWindows?: PostingWindows,
+  options: SchedulingOptions = {}
+): Promise<SchedulingResult> {
   console.log("SCHEDULING DEBUG - Input currentDate:", currentDate);
   console.log("SCHEDULING DEBUG - Input currentDate type:", typeof currentDate);
   console.log("SCHEDULING DEBUG - Input currentDate ISO:", currentDate.toISOString());
   console.log("SCHEDULING DEBUG - Posts count:", posts.length);
   console.log("SCHEDULING DEBUG - Existing posts count:", existingPosts.length);
   
+  // Same inputs and seed give the same schedule
+  const seed = options.seed || `${timeFrame}:${format(currentDate, 'yyyy-MM-dd')}`;
+  
   try {
     // Ensure currentDate is properly handled
     let safeCurrentDate: Date;
@@ -524,32 +570,35 @@ export async function schedulePostsStep(
     // Force the date to noon UTC to avoid timezone issues
     safeCurrentDate.setUTCHours(12, 0, 0, 0);
     
-    const result = schedulePostsEvenly(posts, timeFrame, safeCurrentDate, existingPosts);
-    console.log("SCHEDULING DEBUG - Successfully scheduled posts:", result.length);
+    const result = schedulePostsEvenly(posts, timeFrame, safeCurrentDate, existingPosts, postingWindows, { ...options, seed });
+    console.log("SCHEDULING DEBUG - Successfully scheduled posts:", result.posts.length);
     
-    if (result.length > 0) {
-      console.log("SCHEDULING DEBUG - First post scheduled at:", result[0].posted_date);
-      console.log("SCHEDULING DEBUG - First post title:", result[0].title);
-      console.log("SCHEDULING DEBUG - Last post scheduled at:", result[result.length-1].posted_date);
+    if (result.posts.length > 0) {
+      console.log("SCHEDULING DEBUG - First post scheduled at:", result.posts[0].posted_date);
+      console.log("SCHEDULING DEBUG - First post title:", result.posts[0].title);
+      console.log("SCHEDULING DEBUG - Last post scheduled at:", result.posts[result.posts.length-1].posted_date);
     }
     
     return result;
   } catch (error) {
     console.error("CRITICAL ERROR in schedulePostsStep:", error);
     // Fallback to a simple scheduling approach if the main one fails
-    return fallbackScheduling(posts, timeFrame, currentDate);
+    return fallbackScheduling(posts, timeFrame, currentDate, postingWindows, seed);
   }
 }
 
-// Fallback scheduling function in case the main one fails
+// Fallback scheduling function in case the main one fails. It keeps posts inside
+// their posting windows but doesn't look at spacing, caps or existing posts.
 function fallbackScheduling(
   posts: PostWithSeo[],
   timeFrame: CalendarViewType,
-  currentDate: Date
-): ScheduledPost[] {
+  currentDate: Date,
+  postingWindows: PostingWindows | undefined,
+  seed: string
+): SchedulingResult {
   console.log("USING FALLBACK SCHEDULING");
   
-  // Simple scheduling logic that respects platform constraints
+  const random = createSeededRandom(seed);
   const result: ScheduledPost[] = [];
   const safeDate = new Date(currentDate);
   
@@ -574,7 +623,7 @@ function fallbackScheduling(
   // Schedule posts for each platform
   Object.keys(groupedPosts).forEach(platform => {
     const platformPosts = groupedPosts[platform];
-    const { validDays, validHours } = getPlatformSchedulingConstraints(platform);
+    const postingWindow = getPostingWindow(platform, postingWindows);
     
     // Find valid days within the time frame
     const validDates: Date[] = [];
@@ -583,7 +632,7 @@ function fallbackScheduling(
     endDate.setDate(endDate.getDate() + daysToDistribute - 1);
     
     while (currentDay <= endDate) {
-      if (validDays.includes(currentDay.getDay())) {
+      if (isPostingDay(currentDay, postingWindow)) {
         validDates.push(new Date(currentDay));
       }
       currentDay.setDate(currentDay.getDate() + 1);
@@ -602,12 +651,8 @@ function fallbackScheduling(
     for (let i = 0; i < platformPosts.length; i++) {
       // Distribute posts evenly across valid dates
       const dateIndex = i % validDates.length;
-      const postDate = new Date(validDates[dateIndex]);
-      
-      // Set time within valid hours for the platform
-      const hour = validHours.start + Math.floor(Math.random() * (validHours.end - validHours.start));
-      const minute = Math.floor(Math.random() * 60);
-      postDate.setHours(hour, minute, 0, 0);
+      // Set time within the platform's posting window
+      const postDate = getPostingInstant(validDates[dateIndex], pickTimeInWindow(postingWindow, random), postingWindow);
       
       result.push({
         ...platformPosts[i],
@@ -617,16 +662,26 @@ function fallbackScheduling(
     }
   });
   
-  // Sort by date
-  return result.sort((a, b) => new Date(a.posted_date).getTime() - new Date(b.posted_date).getTime());
+  return {
+    // Sort by date
+    posts: result.sort((a, b) => new Date(a.posted_date).getTime() - new Date(b.posted_date).getTime()),
+    report: {
+      seed,
+      scheduled: result.length,
+      issues: [],
+      usedFallback: true
+    }
+  };
 }
 
 export function schedulePostsEvenly(
   posts: PostWithSeo[],
   timeFrame: CalendarViewType,
   currentDate: Date,
-  existingPosts: PostWithSeo[] = []
-): ScheduledPost[] {
+  existingPosts: Booking[] = [],
+  postingWindows?: PostingWindows,
+  options: SchedulingOptions = {}
+): SchedulingResult {
   console.log("SCHEDULING EVENLY - Start date:", currentDate.toISOString());
   console.log("DEBUG - Posts to schedule:", posts.map(p => ({
     title: p.title,
@@ -634,385 +689,34 @@ export function schedulePostsEvenly(
     format: p.format
   })));
   
-  // Group posts by platform
-  const groupedPosts: Record<string, PostWithSeo[]> = {};
-  
-  for (const post of posts) {
-    if (!groupedPosts[post.platform]) {
-      groupedPosts[post.platform] = [];
-    }
-    groupedPosts[post.platform].push(post);
-    console.log(`DEBUG - Grouping post "${post.title}" under platform: ${post.platform}`);
-  }
-  
-  console.log('DEBUG - Grouped posts by platform:', Object.keys(groupedPosts).map(platform => ({
-    platform,
-    count: groupedPosts[platform].length
-  })));
-  
-  // Get constraints for each platform directly from getPlatformSchedulingConstraints
-  const platformConstraints: Record<string, {
-    validDays: number[],
-    validHours: { start: number, end: number }
-  }> = {};
-  
-  Object.keys(groupedPosts).forEach(platform => {
-    platformConstraints[platform] = getPlatformSchedulingConstraints(platform);
-  });
-  
   // Start and end dates for the planning period - make a proper copy of the date
-  let startDate = new Date(currentDate.getTime());
-  let endDate = getEndDateForTimeFrame(startDate, timeFrame);
-  
-  console.log(`SCHEDULING EVENLY - Planning from ${startDate.toISOString()} to ${endDate.toISOString()}`);
-  
-  const scheduledPosts: ScheduledPost[] = [];
-  const usedPosts = new Set<string>(); // Track which posts have been scheduled to avoid duplicates
-  
-  // Group existing posts by platform and week
-  const existingPostsByPlatformAndWeek: Record<string, Record<number, PostWithSeo[]>> = {};
-  
-  // Process existing posts if available
-  if (existingPosts && existingPosts.length > 0) {
-    console.log(`Processing ${existingPosts.length} existing posts for scheduling consideration`);
-    
-    for (const existingPost of existingPosts) {
-      const platform = existingPost.platform;
-      // Use type assertion to access posted_date, with a fallback
-      const postDate = new Date((existingPost as any).posted_date || currentDate);
-      const weekNumber = getWeekNumberInTimeFrame(postDate, startDate);
-      
-      if (!existingPostsByPlatformAndWeek[platform]) {
-        existingPostsByPlatformAndWeek[platform] = {};
-      }
-      
-      if (!existingPostsByPlatformAndWeek[platform][weekNumber]) {
-        existingPostsByPlatformAndWeek[platform][weekNumber] = [];
-      }
-      
-      existingPostsByPlatformAndWeek[platform][weekNumber].push(existingPost);
-    }
-  }
-  
-  // Divide the time frame into weeks
-  const weeks = groupDaysByWeek(startDate, endDate);
-  const totalWeeks = weeks.length;
-  console.log(`Time frame divided into ${totalWeeks} weeks`);
-  
-  // For each platform, schedule posts
-  Object.keys(groupedPosts).forEach(platform => {
-    const platformType = platform as string;
-    const platformPosts = groupedPosts[platform];
-    const { validDays, validHours } = platformConstraints[platform];
-    
-    console.log(`Platform ${platform} has ${platformPosts.length} posts to schedule`);
-    console.log(`Valid days for ${platform}: ${validDays.join(', ')}`);
-    
-    // Track which weeks already have posts for this platform
-    const postsPerWeek: Record<number, number> = {};
-    const daysWithPostsInWeek: Record<number, Set<number>> = {};
-    
-    // Initialize tracking arrays
-    for (let i = 0; i < totalWeeks; i++) {
-      postsPerWeek[i] = 0;
-      daysWithPostsInWeek[i] = new Set<number>();
-      
-      // Account for existing posts
-      if (existingPostsByPlatformAndWeek[platform] && 
-          existingPostsByPlatformAndWeek[platform][i]) {
-        postsPerWeek[i] = existingPostsByPlatformAndWeek[platform][i].length;
-        
-        for (const existingPost of existingPostsByPlatformAndWeek[platform][i]) {
-          // Use type assertion to access posted_date
-          const existingDate = new Date((existingPost as any).posted_date || currentDate);
-          daysWithPostsInWeek[i].add(existingDate.getDay());
-        }
-      }
-    }
-    
-    // Process each post
-    for (let i = 0; i < platformPosts.length; i++) {
-      const post = platformPosts[i];
-      
-      // Skip if this exact post has already been scheduled
-      const postId = `${post.id || post.title}`; // Use ID if available, otherwise title
-      if (usedPosts.has(postId)) {
-        console.log(`Skipping duplicate post: ${post.title}`);
-        continue;
-      }
-      
-      // Mark this post as used
-      usedPosts.add(postId);
-      
-      // Find the earliest week that doesn't have a post for this platform yet
-      let targetWeek = -1;
-      for (let weekIndex = 0; weekIndex < totalWeeks; weekIndex++) {
-        if (postsPerWeek[weekIndex] === 0) {
-          targetWeek = weekIndex;
-          break;
-        }
-      }
-      
-      // If all weeks have at least one post, find the week with the fewest posts
-      if (targetWeek === -1) {
-        let minPosts = Infinity;
-        for (let weekIndex = 0; weekIndex < totalWeeks; weekIndex++) {
-          if (postsPerWeek[weekIndex] < minPosts) {
-            minPosts = postsPerWeek[weekIndex];
-            targetWeek = weekIndex;
-          }
-        }
-      }
-      
-      // Determine which day to use within the target week
-      const weekStart = weeks[targetWeek].start;
-      const weekEnd = weeks[targetWeek].end;
-      
-      // Find all valid days in this week that match platform constraints
-      const validDatesInWeek: Date[] = [];
-      const currentDay = new Date(weekStart);
-      
-      while (currentDay <= weekEnd) {
-        const dayOfWeek = getDay(currentDay);
-        if (validDays.includes(dayOfWeek) && !daysWithPostsInWeek[targetWeek].has(dayOfWeek)) {
-          validDatesInWeek.push(new Date(currentDay));
-        }
-        currentDay.setDate(currentDay.getDate() + 1);
-      }
-      
-      let selectedDate: Date;
-      
-      if (validDatesInWeek.length > 0) {
-        // Choose the first available valid date
-        selectedDate = validDatesInWeek[0];
-      } else if (validDays.length > 0) {
-        // If no valid dates are available in this week (all taken), 
-        // choose the next day after the current latest scheduled day
-        const latestDayInWeek = Array.from(daysWithPostsInWeek[targetWeek])
-          .sort((a, b) => a - b)
-          .pop() || validDays[0];
-        
-        // Find the next valid day after the latest day
-        let nextDay = latestDayInWeek + 1;
-        while (!validDays.includes(nextDay % 7)) {
-          nextDay++;
-        }
-        nextDay = nextDay % 7;
-        
-        // Create a date for this day in the target week
-        selectedDate = new Date(weekStart);
-        while (getDay(selectedDate) !== nextDay) {
-          selectedDate.setDate(selectedDate.getDate() + 1);
-          if (selectedDate > weekEnd) {
-            // Wrap around to the beginning of the week if necessary
-            selectedDate = new Date(weekStart);
-          }
-        }
-      } else {
-        // Fallback to any day in the week if no valid days specified
-        selectedDate = new Date(weekStart);
-      }
-      
-      // Set a time based on platform's valid hours
-      const hour = validHours.start + Math.floor(Math.random() * (validHours.end - validHours.start));
-      const minute = Math.floor(Math.random() * 60);
-      selectedDate.setHours(hour, minute, 0, 0);
-      
-      // Update tracking for this week
-      postsPerWeek[targetWeek]++;
-      daysWithPostsInWeek[targetWeek].add(getDay(selectedDate));
-      
-      // Create scheduled post
-      scheduledPosts.push({
-        ...post,
-        posted_date: selectedDate.toISOString(), // Convert Date to string
-        status: 'SCHEDULED' // Add default status
-      });
-      
-      console.log(`Scheduled "${post.title}" for ${selectedDate.toISOString()} (Week ${targetWeek + 1})`);
-    }
+  const startDate = new Date(currentDate.getTime());
+  const endDate = getEndDateForTimeFrame(startDate, timeFrame);
+  const seed = options.seed || `${timeFrame}:${format(startDate, 'yyyy-MM-dd')}`;
+  
+  console.log(`SCHEDULING EVENLY - Planning from ${startDate.toISOString()} to ${endDate.toISOString()} (seed ${seed}, ${existingPosts.length} existing posts)`);
+  
+  const { assignments, report } = schedulePosts(posts, {
+    startDate,
+    endDate,
+    seed,
+    postingWindows,
+    rules: options.rules,
+    existing: existingPosts,
+    timezone: options.timezone
   });
   
-  // Sort by date (first convert strings back to Date objects for comparison)
-  return scheduledPosts.sort((a, b) => new Date(a.posted_date).getTime() - new Date(b.posted_date).getTime());
-}
-
-/**
- * Gets the week number within a time frame
- */
-function getWeekNumberInTimeFrame(date: Date, startDate: Date): number {
-  const diffTime = date.getTime() - startDate.getTime();
-  const diffDays = Math.floor(diffTime / (1000 * 60 * 60 * 24));
-  return Math.floor(diffDays / 7);
-}
-
-/**
- * Gets platform-specific scheduling constraints
- */
-function getPlatformSchedulingConstraints(platform: string): {
-  validDays: number[];
-  validHours: { start: number; end: number };
-} {
-  switch (platform.toLowerCase()) {
-    case 'web':
-    case 'blog':
-      return {
-        validDays: [0], // Sunday only
-        validHours: { start: 9, end: 17 } // 9 AM to 5 PM
-      };
-    case 'x':
-      return {
-        validDays: [1, 2], // Monday and Tuesday
-        validHours: { start: 10, end: 13 } // 10 AM to 1 PM
-      };
-      case '𝕏':
-        return {
-          validDays: [1, 2], // Monday and Tuesday
-          validHours: { start: 10, end: 13 } // 10 AM to 1 PM
-        };
-    case 'twitter':
-      return {
-        validDays: [1, 2], // Monday and Tuesday
-        validHours: { start: 10, end: 13 } // 10 AM to 1 PM
-      };
-    case 'linkedin':
-      return {
-        validDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
-        validHours: { start: 10, end: 14 } // 10 AM to 2 PM
-      };
-    case 'instagram':
-      return {
-        validDays: [2, 3, 4], // Tuesday, Wednesday, Thursday
-        validHours: { start: 10, end: 14 } // 10 AM to 2 PM
-      };
-    default:
-      return {
-        validDays: [1, 2, 3, 4, 5], // Weekdays
-        validHours: { start: 9, end: 17 } // 9 AM to 5 PM
-      };
-  }
-}
-
-/**
- * Gets available days within a date range that match the valid days of the week
- */
-function getAvailableDaysInTimeFrame(
-  startDate: Date,
-  endDate: Date,
-  validDays: number[]
-): Date[] {
-  const availableDays: Date[] = [];
-  
-  // Create a copy of the start date to avoid modifying the original
-  const currentDay = new Date(startDate);
-  
-  // Note: We no longer need to adjust the start day here since 
-  // getEndDateForTimeFrame now properly sets the date range for the entire month
+  const scheduledPosts: ScheduledPost[] = assignments.map(({ item, postedAt }) => ({
+    ...item,
+    posted_date: postedAt.toISOString(),
+    status: 'SCHEDULED'
+  }));
   
-  // Log the range we're checking
-  console.log(`Finding available days from ${format(currentDay, 'yyyy-MM-dd')} to ${format(endDate, 'yyyy-MM-dd')} for days: ${validDays.join(', ')}`);
-  
-  // Iterate through each day in the time frame
-  while (currentDay <= endDate) {
-    // Check if the day of the week is in our valid days array
-    if (validDays.includes(getDay(currentDay))) {
-      availableDays.push(new Date(currentDay));
-    }
-    // Move to the next day
-    currentDay.setDate(currentDay.getDate() + 1);
+  if (report.issues.length > 0) {
+    console.warn(`Scheduling broke ${report.issues.length} constraint(s):`, report.issues.map(issue => `${issue.title}: ${issue.message}`));
   }
   
-  return availableDays;
-}
-
-/**
- * Gets a time appropriate for the platform and position in the day
- */
-function getTimeForPlatformAndPosition(
-  platform: string, 
-  position: number,
-  validHours: { start: number; end: number }
-): string {
-  const { start, end } = validHours;
-  const hoursRange = end - start;
-  
-  // If we have more positions than hours, we'll need to use minutes to stagger
-  if (position < hoursRange) {
-    // Simple case: just add the position to the start hour
-    const hour = start + position;
-    return `${hour.toString().padStart(2, '0')}:00`;
-  } else {
-    // Complex case: need to use the same hours but different minutes
-    const innerPosition = position % hoursRange;
-    const hour = start + innerPosition;
-    
-    // Use different minute increments based on how many times we've cycled through the hours
-    const cycleCount = Math.floor(position / hoursRange);
-    const minute = (cycleCount * 15) % 60;
-    
-    return `${hour.toString().padStart(2, '0')}:${minute.toString().padStart(2, '0')}`;
-  }
-}
-
-/**
- * Validates the distribution of posts and logs statistics
- */
-function validateDistribution(scheduledPosts: ScheduledPost[]): void {
-  // Count posts per day
-  const postsPerDay = new Map<string, number>();
-  const postsPerPlatformPerDay = new Map<string, Map<string, number>>();
-  
-  for (const post of scheduledPosts) {
-    const day = post.posted_date;
-    const platform = post.platform.toLowerCase();
-    
-    // Count total posts per day
-    postsPerDay.set(day, (postsPerDay.get(day) || 0) + 1);
-    
-    // Count posts per platform per day
-    if (!postsPerPlatformPerDay.has(day)) {
-      postsPerPlatformPerDay.set(day, new Map<string, number>());
-    }
-    const platformCounts = postsPerPlatformPerDay.get(day)!;
-    platformCounts.set(platform, (platformCounts.get(platform) || 0) + 1);
-  }
-  
-  // Log distribution statistics
-  console.log(`Distribution statistics for ${scheduledPosts.length} posts:`);
-  console.log(`- Distributed across ${postsPerDay.size} unique days`);
-  
-  // Find the maximum posts scheduled on any day
-  let maxPostsOnAnyDay = 0;
-  let dayWithMostPosts = '';
-  
-  for (const [day, count] of postsPerDay.entries()) {
-    if (count > maxPostsOnAnyDay) {
-      maxPostsOnAnyDay = count;
-      dayWithMostPosts = day;
-    }
-  }
-  
-  console.log(`- Maximum posts on any day: ${maxPostsOnAnyDay} (on ${dayWithMostPosts})`);
-  
-  // Log days with multiple posts
-  const daysWithMultiplePosts = Array.from(postsPerDay.entries())
-    .filter(([_, count]) => count > 1)
-    .sort((a, b) => b[1] - a[1]) // Sort by count descending
-    .map(([day, count]) => `${day}: ${count} posts`);
-  
-  if (daysWithMultiplePosts.length > 0) {
-    console.log(`- Days with multiple posts: ${daysWithMultiplePosts.join(', ')}`);
-    
-    // Show platform breakdown for days with multiple posts
-    for (const [day, platformCounts] of postsPerPlatformPerDay.entries()) {
-      if (postsPerDay.get(day)! > 1) {
-        const breakdown = Array.from(platformCounts.entries())
-          .map(([platform, count]) => `${platform}: ${count}`)
-          .join(', ');
-        console.log(`  - ${day} breakdown: ${breakdown}`);
-      }
-    }
-  }
+  return { posts: scheduledPosts, report };
 }
 
 /**
@@ -1050,121 +754,3 @@ function getEndDateForTimeFrame(startDate: Date, timeFrame: CalendarViewType): D
   return endDate;
 }
 
-// Helper function to get the day of the week (0 = Sunday, 1 = Monday, etc.)
-function getDay(date: Date): number {
-  return date.getDay();
-}
-
-/**
- * Divides a date range into weeks
- */
-function groupDaysByWeek(startDate: Date, endDate: Date): { start: Date; end: Date }[] {
-  const weeks: { start: Date; end: Date }[] = [];
-  
-  // Create a copy of the start date
-  let currentDate = new Date(startDate);
-  
-  // Get to the start of the week (Sunday)
-  while (getDay(currentDate) !== 0 && currentDate > new Date(currentDate.getFullYear(), currentDate.getMonth(), 1)) {
-    currentDate.setDate(currentDate.getDate() - 1);
-  }
-  
-  // If we went to previous month, reset to the first day of the month
-  if (currentDate.getMonth() !== startDate.getMonth()) {
-    currentDate = new Date(startDate.getFullYear(), startDate.getMonth(), 1);
-  }
-  
-  // Create week boundaries
-  while (currentDate <= endDate) {
-    const weekStart = new Date(currentDate);
-    
-    // End of week is 6 days after start (or the end date if that comes first)
-    let weekEnd = new Date(currentDate);
-    weekEnd.setDate(weekEnd.getDate() + 6);
-    
-    // If week end is beyond the end date, cap it
-    if (weekEnd > endDate) {
-      weekEnd = new Date(endDate);
-    }
-    
-    weeks.push({ start: weekStart, end: weekEnd });
-    
-    // Move to the next week
-    currentDate.setDate(currentDate.getDate() + 7);
-  }
-  
-  return weeks;
-}
-
-/**
- * Calculates how many posts to schedule in each week
- * Uses the one-per-week-until-last-week strategy
- */
-function calculateWeeklyPostDistribution(
-  totalPosts: number,
-  daysByWeek: Map<number, Date[]>,
-  totalWeeks: number
-): Map<number, number> {
-  const distribution = new Map<number, number>();
-  
-  // First, ensure every week gets at least one post
-  // but only if there are enough posts
-  let remainingPosts = totalPosts;
-  
-  // Initialize distribution with zeros
-  for (let weekIndex = 0; weekIndex < totalWeeks; weekIndex++) {
-    distribution.set(weekIndex, 0);
-  }
-  
-  // One post per week from the beginning, until we run out
-  for (let weekIndex = 0; weekIndex < totalWeeks && remainingPosts > 0; weekIndex++) {
-    const daysInWeek = daysByWeek.get(weekIndex) || [];
-    if (daysInWeek.length > 0) {
-      distribution.set(weekIndex, 1);
-      remainingPosts--;
-    }
-  }
-  
-  // If we still have posts, distribute them starting from the last week
-  // and working backwards
-  if (remainingPosts > 0) {
-    for (let weekIndex = totalWeeks - 1; weekIndex >= 0 && remainingPosts > 0; weekIndex--) {
-      const daysInWeek = daysByWeek.get(weekIndex) || [];
-      const currentPostCount = distribution.get(weekIndex) || 0;
-      
-      // Calculate how many more posts we can put in this week
-      // Limited by either remaining posts or available days
-      const maxAdditionalPosts = Math.min(
-        remainingPosts,
-        Math.max(daysInWeek.length - currentPostCount, 0)
-      );
-      
-      if (maxAdditionalPosts > 0) {
-        distribution.set(weekIndex, currentPostCount + maxAdditionalPosts);
-        remainingPosts -= maxAdditionalPosts;
-      }
-    }
-  }
-  
-  // If we still have posts, we need to add more than one post per day
-  // in some weeks, starting from the last week
-  if (remainingPosts > 0) {
-    for (let weekIndex = totalWeeks - 1; weekIndex >= 0 && remainingPosts > 0; weekIndex--) {
-      const daysInWeek = daysByWeek.get(weekIndex) || [];
-      if (daysInWeek.length > 0) {
-        // Add remaining posts to this week (up to a reasonable limit per day)
-        const currentPostCount = distribution.get(weekIndex) || 0;
-        // Allow up to 3 posts per day in worst case
-        const maxPostsThisWeek = daysInWeek.length * 3;
-        const additionalPosts = Math.min(remainingPosts, maxPostsThisWeek - currentPostCount);
-        
-        if (additionalPosts > 0) {
-          distribution.set(weekIndex, currentPostCount + additionalPosts);
-          remainingPosts -= additionalPosts;
-        }
-      }
-    }
-  }
-  
-  return distribution;
-} 
\ No newline at end of file
@@ -0,0 +1,79 @@
+import { ChainState } from './types';
+
+// List-valued partial results; the scheduling report rides on the final progress message
+type PartialResultKey = Exclude<keyof ChainState['partialResults'], 'schedulingReport'>;
+
+// Partial results streamed to clients, in the order the chain produces them
+const PARTIAL_RESULT_KEYS: PartialResultKey[] = [
+  'postIdeas',
+  'elaboratedPosts',
+  'postsWithSeo',
+  'scheduledPosts',
+  'finalPosts'
+];
+
+// A run is only finished once the runner has saved its posts (or its error) and stopped generating
+export const isChainFinished = (state: ChainState) => !state.isGenerating;
+
+const formatEvent = (data: unknown, event?: string) =>
+  `${event ? `event: ${event}\n` : ''}data: ${JSON.stringify(data)}\n\n`;
+
+/**
+ * Turns chain states into SSE messages, emitting only what changed since the
+ * previous state: a progress message for every transition and a `partial`
+ * event for each partial result that grew or changed.
+ */
+export const createChainStreamEncoder = (chainId: string) => {
+  let lastProgressSignature = '';
+  const lastPartialSignatures = new Map<PartialResultKey, string>();
+
+  return (state: ChainState): string[] => {
+    const messages: string[] = [];
+
+    PARTIAL_RESULT_KEYS.forEach(key => {
+      const items = state.partialResults?.[key];
+      if (!items || items.length === 0) {
+        return;
+      }
+
+      const signature = JSON.stringify(items);
+      if (lastPartialSignatures.get(key) === signature) {
+        return;
+      }
+
+      lastPartialSignatures.set(key, signature);
+      messages.push(formatEvent({ chainId, key, items }, 'partial'));
+    });
+
+    const progressSignature = JSON.stringify([
+      state.step,
+      state.progress,
+      state.isGenerating,
+      state.error || null
+    ]);
+
+    if (progressSignature !== lastProgressSignature) {
+      lastProgressSignature = progressSignature;
+
+      // Final messages also carry the posts so clients can finish from a single event
+      const posts = isChainFinished(state)
+        ? state.partialResults?.finalPosts || state.partialResults?.scheduledPosts
+        : undefined;
+
+      messages.push(formatEvent({
+        chainId,
+        isGenerating: state.isGenerating,
+        step: state.step,
+        progress: state.progress,
+        ...(state.error && { error: state.error }),
+        ...(state.lastCompletedStep && { lastCompletedStep: state.lastCompletedStep }),
+        ...(posts?.length && { posts }),
+        ...(isChainFinished(state) && state.partialResults?.schedulingReport && {
+          schedulingReport: state.partialResults.schedulingReport
+        })
+      }));
+    }
+
+    return messages;
+  };
+};
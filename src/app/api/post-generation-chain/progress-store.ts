@@ -1,50 +1,256 @@
-import { ChainState } from './types';
+import { createClient } from '@supabase/supabase-js';
+import { ChainJob, ChainParams, ChainState } from './types';
 
-interface TimestampedChainState extends ChainState {
-  updatedAt: number; // Timestamp for cleanup
+// Chain progress is persisted in the chain_jobs table so that any server
+// instance can report on a run and finished plans can be reopened later.
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Finished jobs are kept for 30 days
+const RETENTION_MS = 30 * 24 * 60 * 60 * 1000;
+
+// Jobs that haven't reported progress for 30 minutes are considered dead
+const STALE_JOB_MS = 30 * 60 * 1000;
+
+interface ChainJobRow {
+  id: string;
+  organization_id: string | null;
+  user_id: string | null;
+  params: Partial<ChainParams> | null;
+  profile_version: number | null;
+  step: ChainState['step'];
+  is_generating: boolean;
+  progress: number;
+  error: string | null;
+  last_completed_step: ChainState['step'] | null;
+  partial_results: ChainState['partialResults'] | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  expires_at: string | null;
 }
 
-// Simple in-memory store for chain progress
-// In a production app, this would use Redis or a database
-export const chainProgressStore = new Map<string, TimestampedChainState>();
+// Writes for a chain are queued so fire-and-forget progress updates land in order
+const pendingWrites = new Map<string, Promise<void>>();
+
+// In-process subscribers (SSE streams) notified of every progress transition
+type ChainProgressListener = (state: ChainState) => void;
+const progressListeners = new Map<string, Set<ChainProgressListener>>();
+
+const rowToState = (row: ChainJobRow): ChainState => ({
+  isGenerating: row.is_generating,
+  step: row.step,
+  progress: row.progress,
+  ...(row.error && { error: row.error }),
+  ...(row.last_completed_step && { lastCompletedStep: row.last_completed_step }),
+  partialResults: row.partial_results || {}
+});
+
+const rowToJob = (row: ChainJobRow): ChainJob => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  userId: row.user_id,
+  params: row.params || {},
+  profileVersion: row.profile_version ?? null,
+  state: rowToState(row),
+  createdAt: row.created_at,
+  updatedAt: row.updated_at,
+  completedAt: row.completed_at,
+  expiresAt: row.expires_at
+});
+
+const stateToColumns = (state: ChainState) => {
+  const now = new Date();
+  const finished = !state.isGenerating && (state.step === 'complete' || state.step === 'error');
+
+  return {
+    step: state.step,
+    is_generating: state.isGenerating,
+    progress: Math.round(state.progress),
+    error: state.error || null,
+    last_completed_step: state.lastCompletedStep || null,
+    partial_results: state.partialResults || {},
+    updated_at: now.toISOString(),
+    completed_at: finished ? now.toISOString() : null,
+    expires_at: finished ? new Date(now.getTime() + RETENTION_MS).toISOString() : null
+  };
+};
+
+const enqueueWrite = (chainId: string, write: () => Promise<void>): Promise<void> => {
+  const previous = pendingWrites.get(chainId) || Promise.resolve();
+  const next = previous.then(write).catch(error => {
+    console.error(`Chain ${chainId}: failed to persist progress:`, error);
+  });
+
+  pendingWrites.set(chainId, next);
+  next.then(() => {
+    if (pendingWrites.get(chainId) === next) {
+      pendingWrites.delete(chainId);
+    }
+  });
+
+  return next;
+};
+
+const notifyChainProgress = (chainId: string, state: ChainState) => {
+  progressListeners.get(chainId)?.forEach(listener => {
+    try {
+      listener(state);
+    } catch (error) {
+      console.error(`Chain ${chainId}: progress listener failed:`, error);
+    }
+  });
+};
+
+/**
+ * Listen to every progress transition of a chain run by this server instance.
+ * Returns a function that removes the listener.
+ */
+export const subscribeToChainProgress = (chainId: string, listener: ChainProgressListener) => {
+  const listeners = progressListeners.get(chainId) || new Set<ChainProgressListener>();
+  listeners.add(listener);
+  progressListeners.set(chainId, listeners);
+
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0 && progressListeners.get(chainId) === listeners) {
+      progressListeners.delete(chainId);
+    }
+  };
+};
+
+// Create (or reset) the job record for a chain run
+export const createChainJob = async (
+  chainId: string,
+  details: { organizationId: string; userId?: string | null; params: ChainParams; profileVersion?: number | null },
+  state: ChainState
+) => {
+  await cleanupExpiredChainJobs();
 
-// Max age for chain progress data (5 minutes)
-const MAX_AGE_MS = 5 * 60 * 1000;
+  return enqueueWrite(chainId, async () => {
+    const { error } = await supabase
+      .from('chain_jobs')
+      .upsert({
+        id: chainId,
+        organization_id: details.organizationId,
+        user_id: details.userId || null,
+        params: details.params,
+        profile_version: details.profileVersion ?? null,
+        created_at: new Date().toISOString(),
+        ...stateToColumns(state)
+      });
+
+    if (error) {
+      throw new Error(`Failed to create chain job: ${error.message}`);
+    }
+  });
+};
 
 // Helper to update and retrieve chain progress
-export const updateChainProgress = (chainId: string, state: ChainState) => {
+export const updateChainProgress = async (chainId: string, state: ChainState) => {
   console.log(`Chain ${chainId} progress update: ${state.step} - ${state.progress}%`);
-  
-  // Add timestamp for cleanup
-  chainProgressStore.set(chainId, {
-    ...state,
-    updatedAt: Date.now()
+
+  notifyChainProgress(chainId, state);
+
+  return enqueueWrite(chainId, async () => {
+    const { error } = await supabase
+      .from('chain_jobs')
+      .upsert({ id: chainId, ...stateToColumns(state) });
+
+    if (error) {
+      throw new Error(`Failed to update chain job: ${error.message}`);
+    }
   });
-  
-  // Run cleanup on update to prevent memory leaks
-  cleanupOldEntries();
 };
 
-export const getChainProgress = (chainId: string): ChainState | undefined => {
-  const timestampedState = chainProgressStore.get(chainId);
-  
-  if (!timestampedState) {
+export const getChainJob = async (chainId: string): Promise<ChainJob | undefined> => {
+  // Make sure our own queued writes are visible before reading
+  await pendingWrites.get(chainId);
+
+  const { data, error } = await supabase
+    .from('chain_jobs')
+    .select('*')
+    .eq('id', chainId)
+    .maybeSingle();
+
+  if (error) {
+    console.error(`Chain ${chainId}: failed to load job:`, error);
     return undefined;
   }
-  
-  // Return state without the timestamp
-  const { updatedAt, ...state } = timestampedState;
-  return state;
+
+  return data ? rowToJob(data as ChainJobRow) : undefined;
 };
 
-// Clean up old entries to prevent memory leaks in serverless environment
-function cleanupOldEntries() {
-  const now = Date.now();
-  
-  for (const [chainId, state] of chainProgressStore.entries()) {
-    if (now - state.updatedAt > MAX_AGE_MS) {
-      console.log(`Cleaning up stale chain state for ${chainId}`);
-      chainProgressStore.delete(chainId);
+export const getChainProgress = async (chainId: string): Promise<ChainState | undefined> => {
+  const job = await getChainJob(chainId);
+  return job?.state;
+};
+
+// Recent jobs for an organization, newest first, without the heavy partial results
+export const listChainJobs = async (
+  organizationId: string,
+  options: { limit?: number; finishedOnly?: boolean } = {}
+): Promise<ChainJob[]> => {
+  let query = supabase
+    .from('chain_jobs')
+    .select('id, organization_id, user_id, params, profile_version, step, is_generating, progress, error, last_completed_step, created_at, updated_at, completed_at, expires_at')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(options.limit || 20);
+
+  if (options.finishedOnly) {
+    query = query.eq('is_generating', false);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    console.error('Error listing chain jobs:', error);
+    throw new Error(`Failed to list chain jobs: ${error.message}`);
+  }
+
+  return (data || []).map(row => rowToJob({ ...row, partial_results: null } as ChainJobRow));
+};
+
+// Apply the retention policy: fail stale jobs and delete expired ones
+export const cleanupExpiredChainJobs = async () => {
+  const now = new Date();
+
+  try {
+    const { error: staleError } = await supabase
+      .from('chain_jobs')
+      .update({
+        is_generating: false,
+        step: 'error',
+        error: 'Chain job stopped responding',
+        completed_at: now.toISOString(),
+        expires_at: new Date(now.getTime() + RETENTION_MS).toISOString()
+      })
+      .eq('is_generating', true)
+      .lt('updated_at', new Date(now.getTime() - STALE_JOB_MS).toISOString());
+
+    if (staleError) {
+      console.error('Error failing stale chain jobs:', staleError);
+    }
+
+    const { error: deleteError } = await supabase
+      .from('chain_jobs')
+      .delete()
+      .lt('expires_at', now.toISOString());
+
+    if (deleteError) {
+      console.error('Error deleting expired chain jobs:', deleteError);
     }
+  } catch (error) {
+    // Cleanup is best effort and must never block a chain run
+    console.error('Error cleaning up chain jobs:', error);
   }
-} 
\ No newline at end of file
+};
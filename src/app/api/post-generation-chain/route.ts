@@ -1,27 +1,24 @@
 // @ts-ignore - Fix import errors temporarily while module structure is being fixed
 import { NextRequest, NextResponse } from 'next/server';
 import { cookies } from 'next/headers';
-import { createClient } from '@supabase/supabase-js';
 
 import { ChainParams, FinalPost, ChainState } from './types';
-import { executePostGenerationChain } from './chain-controller';
-import { updateChainProgress, getChainProgress } from './progress-store';
+import { executePostGenerationChainInBackground } from './chain-runner';
+import { updateChainProgress, getChainProgress, createChainJob, subscribeToChainProgress } from './progress-store';
+import { createChainStreamEncoder, isChainFinished } from './chain-stream';
+import { getCurrentProfileVersion } from '@/lib/profile-versions';
+import { isValidTimezone } from '@/lib/scheduling';
 
 // Re-export for use in other API routes
 export { getChainProgress };
 
-// Initialize Supabase client
-const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
-const supabaseServiceKey = process.env.SUPABASE_SERVICE_ROLE_KEY || '';
-const supabase = createClient(supabaseUrl, supabaseServiceKey);
-
 // Function to update the chain state with final posts results
-const updateChainWithResults = (chainId: string, posts: FinalPost[]) => {
-  const existingState = getChainProgress(chainId);
+const updateChainWithResults = async (chainId: string, posts: FinalPost[]) => {
+  const existingState = await getChainProgress(chainId);
   
   if (existingState) {
     console.log(`Updating chain ${chainId} with ${posts.length} posts`);
-    updateChainProgress(chainId, {
+    await updateChainProgress(chainId, {
       ...existingState,
       isGenerating: false,
       step: 'complete',
@@ -50,6 +47,9 @@ export async function POST(request: NextRequest) {
       platformSettings, 
       customPrompt, 
       organizationId,
+      userId,
+      timezone,
+      fillGaps,
       clientChainId  // Get the chainId from the client if provided
     } = body;
 
@@ -131,7 +131,9 @@ export async function POST(request: NextRequest) {
       currentDate,
       platformSettings,
       customPrompt,
-      organizationId
+      organizationId,
+      ...(isValidTimezone(timezone) && { timezone }),
+      ...(fillGaps === true && { fillGaps: true })
     };
 
     // Initialize chain state - store it immediately
@@ -141,7 +143,16 @@ export async function POST(request: NextRequest) {
       progress: 0,
       partialResults: {}
     };
-    updateChainProgress(chainId, initialState);
+
+    // Record the profile version the plan is made with; a run without one still goes ahead
+    let profileVersion: number | null = null;
+    try {
+      profileVersion = await getCurrentProfileVersion(organizationId);
+    } catch (error) {
+      console.error(`Chain ${chainId}: failed to read the organization profile version:`, error);
+    }
+
+    await createChainJob(chainId, { organizationId, userId, params, profileVersion }, initialState);
 
     // Start the generation process in the background without awaiting
     // This ensures we don't hit the Vercel function timeout
@@ -159,7 +170,7 @@ export async function POST(request: NextRequest) {
     
     // Update chain state to error if we have a chainId
     if (chainId) {
-      updateChainProgress(chainId, {
+      await updateChainProgress(chainId, {
         isGenerating: false,
         step: 'error',
         progress: 0,
@@ -179,94 +190,9 @@ export async function POST(request: NextRequest) {
   }
 }
 
-// Background execution function that doesn't block the response
-async function executePostGenerationChainInBackground(params: ChainParams, chainId: string) {
-  console.log(`Starting background execution for chain ${chainId}`);
-  
-  // Use a try/catch to prevent failures from stopping execution
-  try {
-    // To improve Vercel serverless compatibility, run this in a non-awaited Promise
-    // This allows the function to detach from the original request lifecycle
-    Promise.resolve().then(async () => {
-      try {
-        // Execute the full chain
-        console.log(`Chain ${chainId}: Executing post generation chain`);
-        const posts = await executePostGenerationChain(
-          params,
-          (state) => {
-            // Update progress in the store whenever there's a change
-            updateChainProgress(chainId, state);
-          }
-        );
-        
-        // Save the results to our database for persistence
-        if (posts && posts.length > 0) {
-          try {
-            console.log(`Chain ${chainId}: Saving ${posts.length} posts to database`);
-            // Insert generated posts with SUGGESTED status for later review
-            const postsToInsert = posts.map(post => ({
-              ...post,
-              created_at: new Date().toISOString(),
-              updated_at: new Date().toISOString()
-            }));
-            
-            const { error: insertError } = await supabase
-              .from('posts')
-              .insert(postsToInsert);
-            
-            if (insertError) {
-              console.error(`Chain ${chainId}: Error inserting posts:`, insertError);
-              // Continue despite insert error - we still return the generated posts
-            } else {
-              console.log(`Chain ${chainId}: Successfully inserted ${posts.length} posts`);
-            }
-          } catch (dbError) {
-            console.error(`Chain ${chainId}: Database error:`, dbError);
-            // Non-fatal error, continue with result
-          }
-        }
-        
-        // Update the chain with the final results
-        console.log(`Chain ${chainId}: Updating with final results`);
-        updateChainProgress(chainId, {
-          isGenerating: false,
-          step: 'complete',
-          progress: 100,
-          partialResults: { finalPosts: posts }
-        });
-        
-        console.log(`Chain ${chainId}: Background execution completed successfully`);
-      } catch (error) {
-        console.error(`Chain ${chainId}: Error in background execution:`, error);
-        
-        // Update chain state to error
-        updateChainProgress(chainId, {
-          isGenerating: false,
-          step: 'error',
-          progress: 0,
-          error: error instanceof Error ? error.message : 'Unknown error',
-          partialResults: {}
-        });
-      }
-    });
-    
-    // Log that we've started the process
-    console.log(`Chain ${chainId}: Background process initiated`);
-  } catch (topLevelError) {
-    console.error(`Chain ${chainId}: Fatal error in background execution:`, topLevelError);
-    
-    // Update chain state to error
-    updateChainProgress(chainId, {
-      isGenerating: false,
-      step: 'error',
-      progress: 0,
-      error: topLevelError instanceof Error ? topLevelError.message : 'Unknown error',
-      partialResults: {}
-    });
-  }
-}
-
 // For streaming progress updates (Server-Sent Events)
+// Every progress transition and each partial result (postIdeas, elaboratedPosts, ...)
+// is pushed as it is produced; partial results use the `partial` event type.
 export async function GET(request: NextRequest) {
   const url = new URL(request.url);
   const chainId = url.searchParams.get('chainId');
@@ -296,198 +222,102 @@ export async function GET(request: NextRequest) {
   
   // Shared state to track stream status
   let streamEnded = false;
+  let stopStream = () => {};
   
   const stream = new ReadableStream({
-    start(controller) {
+    async start(controller) {
       try {
         console.log(`SSE: Starting stream for chain ${chainId}`);
         
-        // Check if chain exists in progress store
-        const initialState = getChainProgress(chainId);
-        if (!initialState) {
-          console.log(`SSE: No chain state found for ${chainId}, sending default initializing`);
-          // If no state exists, create a default one
-          updateChainProgress(chainId, {
-            isGenerating: true,
-            step: 'initializing',
-            progress: 0,
-            partialResults: {}
-          });
-        }
-        
-        // Optimize the SSE stream logic to prevent trying to send after controller is closed
-        // Look for the section handling the SSE connection closing and ensure we properly handle controller state
-
         const safeEnqueue = (data: string): boolean => {
-          if (!controller) {
-            console.log(`SSE: Cannot enqueue data, controller is null`);
+          if (streamEnded) {
             return false;
           }
           
           try {
-            // Check if controller is already closed
-            if ((controller as any)._state === 'closed') {
-              console.log(`SSE: Cannot enqueue data, controller is already closed`);
-              return false;
-            }
-            
             controller.enqueue(data);
             return true;
           } catch (error) {
-            console.error('Failed to enqueue data:', error);
-            
-            // If we get "Controller is already closed" error, clean up
-            if (error instanceof TypeError && error.message.includes('Controller is already closed')) {
-              console.log(`SSE: Controller was already closed when trying to enqueue data`);
-              // No need to call controller.close() again if it's already closed
-            }
-            
+            // The client went away between our check and the write
+            console.error(`SSE: Failed to enqueue data for chain ${chainId}:`, error);
+            stopStream();
             return false;
           }
         };
         
-        const safeClose = () => {
+        const encode = createChainStreamEncoder(chainId);
+        let unsubscribe = () => {};
+        
+        stopStream = () => {
+          if (streamEnded) {
+            return;
+          }
+          streamEnded = true;
+          clearInterval(keepAliveInterval);
+          clearInterval(pollInterval);
+          unsubscribe();
           try {
-            if (controller && (controller as any)._state !== 'closed') {
-              controller.close();
-            }
-          } catch (error) {
-            console.error('Error closing controller:', error);
+            controller.close();
+          } catch {
+            // Already closed by the runtime
           }
         };
         
-        // Send initial message with current chain state
-        try {
-          const currentState = getChainProgress(chainId) || {
-            chainId,
-            step: 'initializing',
-            progress: 0,
-            isGenerating: true
-          };
+        // Send whatever changed since the last message and close once the chain finishes
+        const sendState = (state: ChainState) => {
+          for (const message of encode(state)) {
+            if (!safeEnqueue(message)) {
+              return;
+            }
+          }
           
-          safeEnqueue(`data: ${JSON.stringify({
-            chainId,
-            ...currentState
-          })}\n\n`);
-          console.log(`SSE: Sent initial state for chain ${chainId}: ${currentState.step} - ${currentState.progress}%`);
-        } catch (err) {
-          console.error(`SSE: Error sending initial message for chain ${chainId}:`, err);
-          streamEnded = true;
-          return;
-        }
-        
-        // Send a keep-alive message immediately
-        safeEnqueue(`: keep-alive\n\n`);
-        
-        // Poll for updates
-        let lastProgress = -1;
-        let lastStep = '';
-        let completionCounter = 0;
+          if (isChainFinished(state)) {
+            console.log(`SSE: Chain ${chainId} finished (${state.step}), closing stream`);
+            stopStream();
+          }
+        };
         
-        // Create a timer function that sends periodic keep-alive comments
+        // Keep the connection open through proxies. The timers start before the
+        // first message is sent, since that message may already close the stream.
         const keepAliveInterval = setInterval(() => {
-          if (streamEnded) {
-            clearInterval(keepAliveInterval);
-            return;
-          }
-          
-          // Send a comment as keep-alive
           safeEnqueue(`: keep-alive ${new Date().toISOString()}\n\n`);
-        }, 15000); // Every 15 seconds
+        }, 15000);
         
-        const interval = setInterval(() => {
-          // Don't proceed if the stream is already ended
-          if (streamEnded) {
-            console.log(`SSE: Stream already ended for chain ${chainId}, clearing interval`);
-            clearInterval(interval);
-            return;
-          }
-          
-          // Get current state
-          const currentState = getChainProgress(chainId);
-          if (!currentState) {
-            console.log(`SSE: No state found for chain ${chainId} during polling`);
+        // Chains running on another server instance are followed through chain_jobs
+        let pollInFlight = false;
+        const pollInterval = setInterval(async () => {
+          if (streamEnded || pollInFlight) {
             return;
           }
           
-          // Only send update if there's a change
-          if (currentState.progress !== lastProgress || currentState.step !== lastStep) {
-            console.log(`SSE: Change detected for chain ${chainId}: ${currentState.step} - ${currentState.progress}%`);
-            
-            let messageData = {
-              chainId,
-              ...currentState
-            };
-            
-            // For complete or final states, ensure posts are included if available
-            if (currentState.step === 'complete' || currentState.step === 'error' || !currentState.isGenerating) {
-              // For complete states with final posts, include them in the message
-              if ((currentState.step === 'complete' || !currentState.isGenerating) && 
-                  (currentState.partialResults.finalPosts?.length || 
-                   currentState.partialResults.scheduledPosts?.length)) {
-                
-                const posts = currentState.partialResults.finalPosts || 
-                             currentState.partialResults.scheduledPosts || [];
-                
-                // Add posts to the message data
-                messageData = {
-                  ...messageData,
-                  posts
-                } as any; // Use simple type assertion to fix TypeScript error
-                
-                console.log(`SSE: Sending final results with ${posts.length} posts`);
-              }
-            }
-            
-            // Send the update
-            const success = safeEnqueue(`data: ${JSON.stringify(messageData)}\n\n`);
-            
-            if (!success) {
-              console.log(`SSE: Failed to send update for chain ${chainId}, clearing interval`);
-              clearInterval(interval);
-              clearInterval(keepAliveInterval);
-              return;
-            }
-            
-            lastProgress = currentState.progress;
-            lastStep = currentState.step;
-            
-            // Handle completion states
-            if (currentState.step === 'complete' || currentState.step === 'error' || !currentState.isGenerating) {
-              completionCounter++;
-              
-              // Close after sending a few more updates to ensure client receives completion
-              if (completionCounter >= 3) {
-                console.log(`SSE: Chain ${chainId} complete, clearing intervals`);
-                clearInterval(interval);
-                clearInterval(keepAliveInterval);
-                safeClose();
-                
-                // Clean up store after a delay
-                setTimeout(() => {
-                  const state = getChainProgress(chainId);
-                  if (state) {
-                    updateChainProgress(chainId, {
-                      ...state,
-                      isGenerating: false,
-                      step: 'complete',
-                      progress: 100
-                    });
-                  }
-                  console.log(`Cleaned up chain ${chainId} from progress store`);
-                }, 60000); // Keep for 1 minute for any retry attempts
-              }
+          pollInFlight = true;
+          try {
+            const currentState = await getChainProgress(chainId);
+            if (currentState) {
+              sendState(currentState);
             }
+          } finally {
+            pollInFlight = false;
           }
-        }, 500); // Poll every 500ms
+        }, 2000);
         
-        // Cleanup function when the stream is cancelled/closed
-        return () => {
-          console.log(`SSE: Client disconnected from chain ${chainId}`);
-          streamEnded = true;
-          clearInterval(interval);
-          clearInterval(keepAliveInterval);
-        };
+        // Transitions made by this server instance are pushed as they happen
+        unsubscribe = subscribeToChainProgress(chainId, sendState);
+        
+        // The client opens the stream before starting the chain, so the job
+        // record may not exist yet - report a default initializing state until it does
+        const initialState = await getChainProgress(chainId);
+        if (initialState) {
+          sendState(initialState);
+        } else {
+          console.log(`SSE: No chain state found for ${chainId}, sending default initializing`);
+          safeEnqueue(`data: ${JSON.stringify({
+            chainId,
+            step: 'initializing',
+            progress: 0,
+            isGenerating: true
+          })}\n\n`);
+        }
       } catch (topLevelError) {
         console.error(`SSE: Fatal error in stream for chain ${chainId}:`, topLevelError);
         streamEnded = true;
@@ -497,8 +327,12 @@ export async function GET(request: NextRequest) {
           console.error(`SSE: Could not send error to client for chain ${chainId}:`, finalError);
         }
       }
+    },
+    cancel() {
+      console.log(`SSE: Client disconnected from chain ${chainId}`);
+      stopStream();
     }
   });
   
   return new Response(stream, { headers });
-} 
\ No newline at end of file
+}
@@ -1,4 +1,5 @@
 import { CalendarViewType } from '@/components/calendar/CalendarContext';
+import { SchedulingReport, SchedulingRules } from '@/lib/scheduling';
 
 // Base types for the chain operation
 export type ChainStep = 
@@ -15,11 +16,13 @@ export interface ChainState {
   step: ChainStep;
   progress: number;
   error?: string;
+  lastCompletedStep?: ChainStep; // Checkpoint used to resume a failed chain
   partialResults: {
     postIdeas?: PostIdea[];
     elaboratedPosts?: ElaboratedPost[];
     postsWithSeo?: PostWithSeo[];
     scheduledPosts?: ScheduledPost[];
+    schedulingReport?: SchedulingReport;
     finalPosts?: FinalPost[];
   };
 }
@@ -40,6 +43,9 @@ export interface ChainParams {
   platformSettings: PlatformSetting[];
   customPrompt?: string;
   organizationId: string;
+  timezone?: string; // Requesting user's timezone, used when the organization has none
+  seed?: string;     // Scheduling seed; defaults to one derived from the organization and period
+  fillGaps?: boolean; // Plan for target keywords no post covers and themes that went quiet
 }
 
 // Step 1: Post ideas generation
@@ -50,6 +56,7 @@ export interface PostIdea {
   concept: string;
   format: string;
   derivedFrom?: string; // For social posts derived from web content
+  evidence?: string[];  // Past performers or statistics the idea builds on, added to its reasons
 }
 
 // Step 2: Content elaboration
@@ -85,6 +92,19 @@ export interface ScheduledPost extends PostWithSeo {
   // derivedFrom?: string;
 }
 
+// Options for the scheduling step
+export interface SchedulingOptions {
+  seed?: string;          // same seed and inputs give the same schedule
+  rules?: SchedulingRules;
+  timezone?: string;      // day boundaries for the daily cap
+}
+
+// Step 4 output: the scheduled posts and the constraints that couldn't be met
+export interface SchedulingResult {
+  posts: ScheduledPost[];
+  report: SchedulingReport;
+}
+
 // Final output ready for database
 export interface FinalPost {
   id?: string;
@@ -99,4 +119,17 @@ export interface FinalPost {
   posted_date: string;
   seo_info?: { reasonsData: PostWithSeo['reasonsData'] };
   derivedFrom?: string; // For social posts derived from web content
-} 
\ No newline at end of file
+} 
+// Persisted chain run (chain_jobs table)
+export interface ChainJob {
+  id: string;
+  organizationId: string | null;
+  userId: string | null;
+  params: Partial<ChainParams>;
+  profileVersion: number | null; // Organization profile version when the run started
+  state: ChainState;
+  createdAt: string;
+  updatedAt: string;
+  completedAt: string | null;
+  expiresAt: string | null;
+}
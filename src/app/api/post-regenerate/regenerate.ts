@@ -0,0 +1,149 @@
+import { LLMSettings, completeLLM, getLLMSettingsFromPreferences } from '@/lib/llm';
+
+// Organization fields the regeneration prompt draws on
+export interface RegenerationOrganization {
+  name?: string;
+  preferences?: { contentTone?: string; industry?: string; llm?: LLMSettings } | null;
+  info?: {
+    description?: string;
+    strategy?: string;
+    voice?: string;
+    keywords?: string[];
+    seoStrategy?: string;
+  } | null;
+}
+
+export interface RegenerablePost {
+  title: string;
+  description?: string;
+  platform?: string;
+  format?: string;
+  seo_info?: unknown;
+}
+
+/**
+ * Ask the LLM for a better version of a post. Reviewer feedback, when given,
+ * takes precedence over the generic quality instructions.
+ * Throws when the response can't be parsed.
+ */
+export async function regeneratePost<T extends RegenerablePost>(
+  post: T,
+  orgData: RegenerationOrganization,
+  feedback?: string
+): Promise<T> {
+  // Extract organization context
+  const orgIntent = orgData.info?.description || '';
+  const orgStrategy = orgData.info?.strategy || '';
+  const orgVoice = orgData.info?.voice || '';
+  const orgKeywords = orgData.info?.keywords || [];
+  const orgSeoStrategy = orgData.info?.seoStrategy || '';
+  const contentTone = orgData.preferences?.contentTone || 'professional';
+  const industry = orgData.preferences?.industry || 'technology';
+
+  // Create organization context
+  let organizationContext = '';
+  if (orgData.info && Object.keys(orgData.info).length > 0) {
+    organizationContext = `
+      ORGANIZATION CONTEXT:
+      ${orgIntent ? `Description: ${orgIntent}` : ''}
+      ${orgStrategy ? `Content Strategy: ${orgStrategy}` : ''}
+      ${orgVoice ? `Brand Voice: ${orgVoice}` : ''}
+      ${orgKeywords.length > 0 ? `Target Keywords: ${orgKeywords.join(', ')}` : ''}
+      ${orgSeoStrategy ? `SEO Strategy: ${orgSeoStrategy}` : ''}
+
+      Ensure the content aligns with the organization's intent, strategy, brand voice and SEO strategy.
+      `;
+  }
+
+  const reviewerFeedback = feedback?.trim()
+    ? `
+      REVIEWER FEEDBACK:
+      A reviewer asked for these changes. Address every point, keep what they didn't mention:
+      ${feedback.trim()}
+      `
+    : '';
+
+  // Determine if this is a Web post or social media post
+  const platformType = post.platform === 'Web' ? 'article' : 'social post';
+
+  // Create prompt for regenerating content
+  const prompt = `
+      Regenerate better quality content for this ${platformType}:
+
+      Platform: ${post.platform}
+      Current Title: ${post.title}
+      Current Description: ${post.description || 'None provided'}
+      ${post.format ? `Format: ${post.format}` : ''}
+
+      Industry: ${industry}
+      Content tone: ${contentTone}
+
+      ${organizationContext}
+      ${reviewerFeedback}
+      INSTRUCTIONS:
+      1. Create a more engaging, specific title
+      2. Write a compelling, detailed description appropriate for the platform
+      3. For Web content: Include SEO analysis and recommendations
+      4. For social media: Include hashtag suggestions if appropriate
+
+      FORMAT REQUIREMENTS:
+      Return a valid JSON object with the following structure:
+      {
+        "title": "New engaging title",
+        "description": "New compelling description",
+        "seo_info": {
+          "reasonsData": {
+            "reasons": ["SEO reason 1", "SEO reason 2", "SEO reason 3"],
+            "aiConfidence": 0.85
+          }
+        },
+        "hashtags": ["#tag1", "#tag2"]
+      }
+    `;
+
+  console.log('Sending regeneration request to OpenAI...');
+
+  // Call OpenAI to regenerate content
+  const response = await completeLLM({
+    task: 'post-regenerate',
+    messages: [
+      {
+        role: "system",
+        content: "You are a content creation expert who specializes in creating engaging, platform-specific content. Always return valid JSON."
+      },
+      {
+        role: "user",
+        content: prompt
+      }
+    ],
+    temperature: 0.7,
+  }, getLLMSettingsFromPreferences(orgData.preferences));
+
+  // Parse the response
+  const content = response.content;
+  let regeneratedContent;
+
+  try {
+    regeneratedContent = JSON.parse(content || '{}');
+    console.log('Successfully parsed regenerated content');
+  } catch (parseError) {
+    console.error('Failed to parse regenerated content as JSON:', parseError);
+    console.log('Raw response:', content);
+    throw new Error('Failed to parse AI response');
+  }
+
+  // Prepare the final regenerated post
+  return {
+    ...post,
+    title: regeneratedContent.title || post.title,
+    description: regeneratedContent.description || post.description,
+    seo_info: regeneratedContent.seo_info || post.seo_info,
+    // For social media posts, add hashtags to description if they exist and aren't already there
+    ...(post.platform !== 'Web' && regeneratedContent.hashtags &&
+        regeneratedContent.hashtags.length > 0 && {
+          description: regeneratedContent.description +
+            (regeneratedContent.description.includes('#') ? '' :
+              '\n\n' + regeneratedContent.hashtags.join(' '))
+        })
+  };
+}
@@ -0,0 +1,110 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { checkPostContent, getPostContent } from '@/lib/ingestion/archive';
+import { FETCH_ERROR_STATUS, FetchError } from '@/lib/ingestion/fetch';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user can see the post: a member of its organization, or its owner
+async function checkPostAccess(userId: string, postId: string) {
+  const { data: post, error } = await supabaseAdmin
+    .from('posts')
+    .select('id, organization_id, user_id')
+    .eq('id', postId)
+    .single();
+
+  if (error || !post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  if (!post.organization_id) {
+    return post.user_id === userId
+      ? null
+      : NextResponse.json({ error: 'You do not have access to this post' }, { status: 403 });
+  }
+
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', post.organization_id)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the archived text of a post's page and the list of its versions
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const postId = searchParams.get('postId');
+    const userId = searchParams.get('userId');
+
+    if (!postId || !userId) {
+      return NextResponse.json(
+        { error: 'Post ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const accessResponse = await checkPostAccess(userId, postId);
+    if (accessResponse) return accessResponse;
+
+    return NextResponse.json(await getPostContent(postId));
+  } catch (error) {
+    console.error('Error fetching post content:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a check: fetch the post's page again and archive it if it changed, without re-analyzing the post
+export async function POST(request: NextRequest) {
+  try {
+    const { postId, userId } = await request.json();
+
+    if (!postId || !userId) {
+      return NextResponse.json(
+        { error: 'Post ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const accessResponse = await checkPostAccess(userId, postId);
+    if (accessResponse) return accessResponse;
+
+    const { content, changed } = await checkPostContent(postId);
+    return NextResponse.json({ content, changed });
+  } catch (error) {
+    console.error('Error checking post content:', error);
+    if (error instanceof FetchError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: FETCH_ERROR_STATUS[error.code] }
+      );
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,118 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { findDuplicateGroups, mergeDuplicatePosts } from '@/lib/ingestion/duplicates';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the duplicate posts of an organization, or of the user's own posts and all their organizations
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+
+    if (!userId) {
+      return NextResponse.json({ error: 'User ID is required' }, { status: 400 });
+    }
+
+    if (organizationId) {
+      const membershipResponse = await checkMembership(userId, organizationId);
+      if (membershipResponse) return membershipResponse;
+
+      const groups = await findDuplicateGroups({ organizationId, userId });
+      return NextResponse.json({ groups });
+    }
+
+    const { data: memberships, error: membershipsError } = await supabaseAdmin
+      .from('user_organizations')
+      .select('organization_id')
+      .eq('user_id', userId);
+
+    if (membershipsError) {
+      throw new Error(`Failed to load organizations: ${membershipsError.message}`);
+    }
+
+    const groups = await findDuplicateGroups({ organizationId: null, userId });
+    for (const membership of memberships || []) {
+      groups.push(...await findDuplicateGroups({ organizationId: membership.organization_id, userId }));
+    }
+
+    return NextResponse.json({ groups });
+  } catch (error) {
+    console.error('Error finding duplicate posts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a merge: the posts in mergePostIds are folded into keepPostId and deleted
+export async function POST(request: NextRequest) {
+  try {
+    const { keepPostId, mergePostIds, userId } = await request.json();
+
+    if (!keepPostId || !Array.isArray(mergePostIds) || mergePostIds.length === 0 || !userId) {
+      return NextResponse.json(
+        { error: 'The post to keep, the posts to merge and the user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: kept, error: keptError } = await supabaseAdmin
+      .from('posts')
+      .select('id, organization_id, user_id')
+      .eq('id', keepPostId)
+      .single();
+
+    if (keptError || !kept) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (kept.organization_id) {
+      const membershipResponse = await checkMembership(userId, kept.organization_id);
+      if (membershipResponse) return membershipResponse;
+    } else if (kept.user_id !== userId) {
+      return NextResponse.json({ error: 'You do not have access to this post' }, { status: 403 });
+    }
+
+    // mergeDuplicatePosts checks the merged posts belong with the kept one
+    const post = await mergeDuplicatePosts(keepPostId, mergePostIds);
+    return NextResponse.json({ post });
+  } catch (error) {
+    console.error('Error merging duplicate posts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,188 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getOrganizationMetrics, getPostMetrics, recordPostMetrics, syncPostMetrics } from '@/lib/metrics';
+import { METRICS_CSV_FORMATS, MetricsCsvFormat, parseMetricsCsv } from '@/lib/metrics/csv';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Largest export accepted, as text
+const MAX_CSV_BYTES = 5 * 1024 * 1024;
+
+// Returns an error response unless the user belongs to the organization
+async function checkMembership(userId: string, organizationId: string) {
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// Returns an error response unless the user can see the post: a member of its organization, or its owner
+async function checkPostAccess(userId: string, postId: string) {
+  const { data: post, error } = await supabaseAdmin
+    .from('posts')
+    .select('id, organization_id, user_id')
+    .eq('id', postId)
+    .single();
+
+  if (error || !post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  if (!post.organization_id) {
+    return post.user_id === userId
+      ? null
+      : NextResponse.json({ error: 'You do not have access to this post' }, { status: 403 });
+  }
+
+  return checkMembership(userId, post.organization_id);
+}
+
+const isValidDate = (value: unknown) => typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+// GET the metrics series of a post (postId), or the latest numbers and daily totals of an organization's posts
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const postId = searchParams.get('postId');
+    const organizationId = searchParams.get('organizationId');
+    const userId = searchParams.get('userId');
+    const from = searchParams.get('from');
+    const to = searchParams.get('to');
+
+    if (!userId || (!postId && !organizationId)) {
+      return NextResponse.json(
+        { error: 'Post ID or organization ID, and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (postId) {
+      const accessResponse = await checkPostAccess(userId, postId);
+      if (accessResponse) return accessResponse;
+
+      return NextResponse.json(await getPostMetrics(postId));
+    }
+
+    if ((from && !isValidDate(from)) || (to && !isValidDate(to))) {
+      return NextResponse.json({ error: 'From and to must be dates' }, { status: 400 });
+    }
+
+    const membershipResponse = await checkMembership(userId, organizationId as string);
+    if (membershipResponse) return membershipResponse;
+
+    return NextResponse.json(await getOrganizationMetrics(organizationId as string, {
+      from: from && new Date(from).toISOString(),
+      to: to && new Date(to).toISOString()
+    }));
+  } catch (error) {
+    console.error('Error fetching post metrics:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST the text of a platform's analytics export (csv) to record its numbers, or sync: true to fetch them from the platforms
+export async function POST(request: NextRequest) {
+  try {
+    const { csv, format, recordedAt, sync, userId, organizationId } = await request.json();
+
+    if ((!csv && !sync) || !userId) {
+      return NextResponse.json(
+        { error: 'A CSV export or sync, and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (organizationId) {
+      const membershipResponse = await checkMembership(userId, organizationId);
+      if (membershipResponse) return membershipResponse;
+    }
+
+    if (sync) {
+      if (!organizationId) {
+        return NextResponse.json(
+          { error: 'Metrics are synced with the credentials of an organization' },
+          { status: 400 }
+        );
+      }
+
+      const result = await syncPostMetrics({ organizationId });
+      return NextResponse.json({ success: true, ...result });
+    }
+
+    if (typeof csv !== 'string' || csv.length > MAX_CSV_BYTES) {
+      return NextResponse.json(
+        { error: `CSV files must be text of at most ${MAX_CSV_BYTES / 1024 / 1024} MB` },
+        { status: 400 }
+      );
+    }
+
+    if (format !== undefined && !(format in METRICS_CSV_FORMATS)) {
+      return NextResponse.json(
+        { error: `Format must be one of: ${Object.keys(METRICS_CSV_FORMATS).join(', ')}` },
+        { status: 400 }
+      );
+    }
+
+    if (recordedAt !== undefined && !isValidDate(recordedAt)) {
+      return NextResponse.json({ error: 'The date the numbers are as of is not a date' }, { status: 400 });
+    }
+
+    let parsed;
+    try {
+      parsed = parseMetricsCsv(csv, {
+        format: format as MetricsCsvFormat | undefined,
+        recordedAt: new Date(recordedAt || Date.now()).toISOString()
+      });
+    } catch (parseError) {
+      return NextResponse.json(
+        { error: parseError instanceof Error ? parseError.message : 'Could not read this file' },
+        { status: 400 }
+      );
+    }
+
+    const result = await recordPostMetrics(
+      parsed.readings,
+      { organizationId: organizationId || null, userId },
+      { source: 'csv', sourceName: parsed.format, platform: parsed.platform }
+    );
+
+    return NextResponse.json({
+      success: true,
+      format: parsed.format,
+      recorded: result.recorded,
+      unmatched: result.unmatched,
+      invalid: parsed.invalid,
+      truncated: parsed.truncated
+    });
+  } catch (error) {
+    console.error('Error recording post metrics:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,115 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { getPostTree, repurposePost, RepurposeError } from '@/lib/repurposing';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Returns an error response unless the user can see the post: a member of its organization, or its owner
+async function checkPostAccess(userId: string, postId: string) {
+  const { data: post, error } = await supabaseAdmin
+    .from('posts')
+    .select('id, organization_id, user_id')
+    .eq('id', postId)
+    .single();
+
+  if (error || !post) {
+    return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+  }
+
+  if (!post.organization_id) {
+    return post.user_id === userId
+      ? null
+      : NextResponse.json({ error: 'You do not have access to this post' }, { status: 403 });
+  }
+
+  const { data: membership, error: membershipError } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', post.organization_id)
+    .single();
+
+  if (membershipError || !membership) {
+    return NextResponse.json(
+      { error: 'You do not have access to this organization' },
+      { status: 403 }
+    );
+  }
+
+  return null;
+}
+
+// GET the repurposing tree of a post: the article it comes from and every post derived from it
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const postId = searchParams.get('postId');
+    const userId = searchParams.get('userId');
+
+    if (!postId || !userId) {
+      return NextResponse.json(
+        { error: 'Post ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const accessResponse = await checkPostAccess(userId, postId);
+    if (accessResponse) return accessResponse;
+
+    const tree = await getPostTree(postId);
+    if (!tree) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    return NextResponse.json(tree);
+  } catch (error) {
+    console.error('Error fetching post tree:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST platforms to write social posts for from a published web article, saved as suggestions to review
+export async function POST(request: NextRequest) {
+  try {
+    const { postId, userId, platforms } = await request.json();
+
+    if (!postId || !userId) {
+      return NextResponse.json(
+        { error: 'Post ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    if (!Array.isArray(platforms) || platforms.length === 0) {
+      return NextResponse.json({ error: 'Platforms must be a non-empty list' }, { status: 400 });
+    }
+
+    const accessResponse = await checkPostAccess(userId, postId);
+    if (accessResponse) return accessResponse;
+
+    const posts = await repurposePost(postId, platforms.map(String), { userId });
+    return NextResponse.json({ posts, tree: await getPostTree(postId) });
+  } catch (error) {
+    console.error('Error repurposing post:', error);
+    if (error instanceof RepurposeError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,331 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  APPROVER_ROLES,
+  ApprovalStatus,
+  REVIEW_ACTIONS,
+  ReviewAction,
+  canTakeReviewAction,
+  getAllowedReviewActions
+} from '@/lib/approvals';
+import { regeneratePost } from '../../post-regenerate/regenerate';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+const REVIEWED_POST_COLUMNS =
+  'id, organization_id, title, description, platform, format, seo_info, status, approval_status, reviewer_id, reviewed_by, reviewed_at';
+
+// Statuses a rejected post (or one sent back for changes) is taken off the calendar from
+const UNSCHEDULE_STATUSES = ['SCHEDULED', 'QUEUED'];
+// Statuses where the post is already going out and can no longer be pulled back
+const LOCKED_STATUSES = ['PUBLISHING', 'POSTED'];
+
+const isReviewAction = (value: unknown): value is ReviewAction =>
+  typeof value === 'string' && REVIEW_ACTIONS.includes(value as ReviewAction);
+
+async function getMembershipRole(userId: string, organizationId: string): Promise<string | null> {
+  const { data: membership, error } = await supabaseAdmin
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', organizationId)
+    .single();
+
+  if (error || !membership) return null;
+  return membership.role;
+}
+
+// GET the review history of a post and the members who can review it
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const postId = searchParams.get('postId');
+    const userId = searchParams.get('userId');
+
+    if (!postId || !userId) {
+      return NextResponse.json(
+        { error: 'Post ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    const { data: post, error: postError } = await supabaseAdmin
+      .from('posts')
+      .select(REVIEWED_POST_COLUMNS)
+      .eq('id', postId)
+      .single();
+
+    if (postError || !post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    const role = post.organization_id ? await getMembershipRole(userId, post.organization_id) : null;
+    if (!role) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const [{ data: reviews, error: reviewsError }, { data: approvers, error: approversError }] = await Promise.all([
+      supabaseAdmin
+        .from('post_reviews')
+        .select('id, action, comment, user_id, reviewer_id, created_at')
+        .eq('post_id', postId)
+        .order('created_at', { ascending: false }),
+      supabaseAdmin
+        .from('user_organizations')
+        .select('user_id, role')
+        .eq('organization_id', post.organization_id)
+        .in('role', APPROVER_ROLES)
+    ]);
+
+    if (reviewsError || approversError) {
+      console.error('Error fetching review data:', reviewsError || approversError);
+      return NextResponse.json({ error: 'Failed to fetch review history' }, { status: 500 });
+    }
+
+    // Resolve names for everyone who shows up in the history or can be assigned
+    const userIds = new Set<string>();
+    (approvers || []).forEach(approver => userIds.add(approver.user_id));
+    (reviews || []).forEach(review => {
+      if (review.user_id) userIds.add(review.user_id);
+      if (review.reviewer_id) userIds.add(review.reviewer_id);
+    });
+
+    const users: Record<string, { name: string | null; email: string | null }> = {};
+    if (userIds.size > 0) {
+      const { data: userRows } = await supabaseAdmin
+        .from('users')
+        .select('id, name, email')
+        .in('id', Array.from(userIds));
+      (userRows || []).forEach(user => {
+        users[user.id] = { name: user.name, email: user.email };
+      });
+    }
+
+    const allowedActions = getAllowedReviewActions(post.approval_status as ApprovalStatus | null)
+      .filter(action => canTakeReviewAction(role, action));
+
+    return NextResponse.json({
+      post,
+      role,
+      allowedActions,
+      reviewers: (approvers || []).map(approver => ({
+        id: approver.user_id,
+        role: approver.role,
+        ...users[approver.user_id]
+      })),
+      reviews: reviews || [],
+      users
+    });
+  } catch (error) {
+    console.error('Error fetching post review:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST a review action: assign a reviewer, approve, reject or request changes
+export async function POST(request: NextRequest) {
+  try {
+    const { postId, userId, action, comment, reviewerId } = await request.json();
+    const trimmedComment = typeof comment === 'string' ? comment.trim() : '';
+
+    if (!postId || !userId || !isReviewAction(action)) {
+      return NextResponse.json(
+        { error: `Post ID, user ID and an action (${REVIEW_ACTIONS.join(', ')}) are required` },
+        { status: 400 }
+      );
+    }
+
+    if ((action === 'reject' || action === 'request_changes') && !trimmedComment) {
+      return NextResponse.json(
+        { error: action === 'reject' ? 'Explain why the post is rejected' : 'Describe the changes you want' },
+        { status: 400 }
+      );
+    }
+
+    const { data: post, error: postError } = await supabaseAdmin
+      .from('posts')
+      .select(REVIEWED_POST_COLUMNS)
+      .eq('id', postId)
+      .single();
+
+    if (postError || !post) {
+      return NextResponse.json({ error: 'Post not found' }, { status: 404 });
+    }
+
+    if (!post.organization_id) {
+      return NextResponse.json(
+        { error: 'Only organization posts can be reviewed' },
+        { status: 400 }
+      );
+    }
+
+    const role = await getMembershipRole(userId, post.organization_id);
+    if (!role) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    if (!canTakeReviewAction(role, action)) {
+      return NextResponse.json(
+        { error: `Members with the ${role} role cannot ${action.replace('_', ' ')} posts` },
+        { status: 403 }
+      );
+    }
+
+    if (!getAllowedReviewActions(post.approval_status as ApprovalStatus | null).includes(action)) {
+      return NextResponse.json(
+        { error: `Cannot ${action.replace('_', ' ')} a post whose approval status is ${post.approval_status || 'not set'}` },
+        { status: 409 }
+      );
+    }
+
+    if (action !== 'assign' && action !== 'approve' && LOCKED_STATUSES.includes(post.status)) {
+      return NextResponse.json(
+        { error: 'This post is already being published' },
+        { status: 409 }
+      );
+    }
+
+    const now = new Date().toISOString();
+    let updates: Record<string, string | null> = {};
+
+    switch (action) {
+      case 'assign': {
+        if (!reviewerId) {
+          return NextResponse.json({ error: 'Reviewer ID is required' }, { status: 400 });
+        }
+        const reviewerRole = await getMembershipRole(reviewerId, post.organization_id);
+        if (!reviewerRole || !APPROVER_ROLES.includes(reviewerRole)) {
+          return NextResponse.json(
+            { error: `The reviewer must be an organization member with one of these roles: ${APPROVER_ROLES.join(', ')}` },
+            { status: 400 }
+          );
+        }
+        updates = { reviewer_id: reviewerId };
+        break;
+      }
+      case 'approve':
+        updates = { approval_status: 'approved', reviewed_by: userId, reviewed_at: now };
+        break;
+      case 'reject':
+      case 'request_changes':
+        updates = {
+          approval_status: action === 'reject' ? 'rejected' : 'changes_requested',
+          reviewed_by: userId,
+          reviewed_at: now,
+          // Take the post back off the calendar until it is approved again
+          ...(UNSCHEDULE_STATUSES.includes(post.status) && { status: 'SUGGESTED' })
+        };
+        break;
+    }
+
+    const { data: updatedPost, error: updateError } = await supabaseAdmin
+      .from('posts')
+      .update(updates)
+      .eq('id', postId)
+      .select(REVIEWED_POST_COLUMNS)
+      .single();
+
+    if (updateError || !updatedPost) {
+      console.error('Error updating post review state:', updateError);
+      return NextResponse.json(
+        { error: updateError?.message || 'Failed to update post' },
+        { status: 500 }
+      );
+    }
+
+    const { error: reviewError } = await supabaseAdmin
+      .from('post_reviews')
+      .insert({
+        post_id: postId,
+        organization_id: post.organization_id,
+        user_id: userId,
+        action,
+        comment: trimmedComment || null,
+        reviewer_id: action === 'assign' ? reviewerId : post.reviewer_id
+      });
+
+    if (reviewError) {
+      console.error('Error recording post review:', reviewError);
+    }
+
+    if (action !== 'request_changes') {
+      return NextResponse.json({ post: updatedPost });
+    }
+
+    // Regenerate the post with the feedback and put it back up for review
+    try {
+      const { data: orgData, error: orgError } = await supabaseAdmin
+        .from('organizations')
+        .select('name, preferences, info')
+        .eq('id', post.organization_id)
+        .single();
+
+      if (orgError || !orgData) {
+        throw new Error('Organization not found');
+      }
+
+      const revised = await regeneratePost(updatedPost, orgData, trimmedComment);
+
+      const { data: revisedPost, error: revisedError } = await supabaseAdmin
+        .from('posts')
+        .update({
+          title: revised.title,
+          description: revised.description,
+          seo_info: revised.seo_info,
+          approval_status: 'pending'
+        })
+        .eq('id', postId)
+        .select(REVIEWED_POST_COLUMNS)
+        .single();
+
+      if (revisedError || !revisedPost) {
+        throw new Error(revisedError?.message || 'Failed to save the revised post');
+      }
+
+      await supabaseAdmin
+        .from('post_reviews')
+        .insert({
+          post_id: postId,
+          organization_id: post.organization_id,
+          user_id: null,
+          action: 'revised',
+          comment: 'Regenerated from the reviewer feedback',
+          reviewer_id: post.reviewer_id
+        });
+
+      return NextResponse.json({ post: revisedPost });
+    } catch (regenerateError) {
+      // The change request itself is recorded; the post stays in changes_requested
+      console.error('Error regenerating post from feedback:', regenerateError);
+      return NextResponse.json({
+        post: updatedPost,
+        regenerationError: regenerateError instanceof Error ? regenerateError.message : 'Failed to regenerate post'
+      });
+    }
+  } catch (error) {
+    console.error('Error reviewing post:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'An unexpected error occurred' },
+      { status: 500 }
+    );
+  }
+}
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server';
 import { createClient } from '@supabase/supabase-js';
 import { v4 as uuidv4 } from 'uuid';
 import { cookies } from 'next/headers';
+import { linkDerivedPosts } from '@/lib/repurposing';
 
 // Initialize Supabase client
 const supabaseUrl = process.env.NEXT_PUBLIC_SUPABASE_URL || '';
@@ -250,7 +251,9 @@ export async function POST(request: NextRequest) {
         user_id: userId, // This should now always have a value
         organization_id: finalOrgId,
         status: 'SUGGESTED',
+        approval_status: 'pending', // Suggestions need a review before they can be scheduled
         posted_date: suggestion.date || suggestion.posted_date || new Date().toISOString(),
+        derived_from: suggestion.derivedFrom || null, // Title of the web article a social post was planned from
         seo_info // Use the preserved or default seo_info
       };
     });
@@ -274,6 +277,13 @@ export async function POST(request: NextRequest) {
     }
     
     console.log('DEBUG: Successfully saved suggestions:', data?.length || 0);
+
+    // Link social posts to the web article they were planned from; they stay saved if that fails
+    try {
+      await linkDerivedPosts(data || []);
+    } catch (linkError) {
+      console.error('Error linking derived suggestions:', linkError);
+    }
     
     return NextResponse.json({ 
       success: true, 
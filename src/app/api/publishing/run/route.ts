@@ -0,0 +1,93 @@
+import { createClient } from '@supabase/supabase-js';
+import { NextRequest, NextResponse } from 'next/server';
+import { syncPostMetrics } from '@/lib/metrics';
+import { publishDuePosts } from '@/lib/publishing/worker';
+
+// Create a Supabase client with the service role key
+const supabaseAdmin = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// GET is called by the scheduler (Vercel cron): it publishes due posts of every organization and syncs the metrics of published ones
+export async function GET(request: NextRequest) {
+  try {
+    const cronSecret = process.env.CRON_SECRET;
+    if (!cronSecret) {
+      return NextResponse.json(
+        { error: 'CRON_SECRET is not configured' },
+        { status: 500 }
+      );
+    }
+
+    if (request.headers.get('authorization') !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
+    }
+
+    const summary = await publishDuePosts();
+
+    // Posts were published either way: a failed metrics sync is reported, not turned into a failed run
+    try {
+      const metrics = await syncPostMetrics();
+      return NextResponse.json({ success: true, ...summary, metrics });
+    } catch (metricsError) {
+      console.error('Error syncing post metrics:', metricsError);
+      return NextResponse.json({
+        success: true,
+        ...summary,
+        metrics: null,
+        metricsError: metricsError instanceof Error ? metricsError.message : 'Failed to sync post metrics'
+      });
+    }
+  } catch (error) {
+    console.error('Error running publishing worker:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST publishes the due posts of one organization right away
+export async function POST(request: NextRequest) {
+  try {
+    const { organizationId, userId } = await request.json();
+
+    if (!organizationId || !userId) {
+      return NextResponse.json(
+        { error: 'Organization ID and user ID are required' },
+        { status: 400 }
+      );
+    }
+
+    // Verify the user has access to this organization
+    const { data: membership, error: membershipError } = await supabaseAdmin
+      .from('user_organizations')
+      .select('role')
+      .eq('user_id', userId)
+      .eq('organization_id', organizationId)
+      .single();
+
+    if (membershipError || !membership) {
+      return NextResponse.json(
+        { error: 'You do not have access to this organization' },
+        { status: 403 }
+      );
+    }
+
+    const summary = await publishDuePosts({ organizationId });
+    return NextResponse.json({ success: true, ...summary });
+  } catch (error) {
+    console.error('Error publishing due posts:', error);
+    return NextResponse.json(
+      { error: error instanceof Error ? error.message : 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
@@ -5,6 +5,11 @@ import { useState, useEffect, useRef } from 'react';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/auth-context';
 import { format } from 'date-fns';
+import DeadLetterQueue from '@/components/DeadLetterQueue';
+import DuplicatePostsPanel from '@/components/DuplicatePostsPanel';
+import PostMediaPreview, { formatMediaDuration } from '@/components/PostMediaPreview';
+import { APPROVAL_STATUS_LABELS, ApprovalStatus, isApprovedForScheduling } from '@/lib/approvals';
+import type { PostMedia } from '@/lib/ingestion/media';
 
 // Define the Post type to match our Supabase schema
 type Post = {
@@ -16,11 +21,26 @@ type Post = {
   format: string;
   seo_info?: any;
   seo_score?: any;
-  status: 'POSTED' | 'SCHEDULED' | 'SUGGESTED';
+  status: 'POSTED' | 'SCHEDULED' | 'SUGGESTED' | 'QUEUED' | 'PUBLISHING' | 'FAILED';
   user_id: string;
   organization_id?: string;
   platform: string;
   created_at: string;
+  published_url?: string | null;
+  publish_error?: string | null;
+  attempt_count?: number;
+  approval_status?: ApprovalStatus | null;
+  media?: PostMedia | null;
+};
+
+// Badge colors for each post status
+const STATUS_BADGE_CLASSES: Record<Post['status'], string> = {
+  POSTED: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  SCHEDULED: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  SUGGESTED: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  QUEUED: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  PUBLISHING: 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200',
+  FAILED: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
 };
 
 // Define sort type
@@ -292,7 +312,10 @@ function FilterPanel({
   const statusColorMap: Record<string, string> = {
     'posted': 'bg-green-50 text-green-700 border-green-200 dark:bg-green-900 dark:text-green-200 dark:border-green-800',
     'scheduled': 'bg-blue-50 text-blue-700 border-blue-200 dark:bg-blue-900 dark:text-blue-200 dark:border-blue-800',
-    'suggested': 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900 dark:text-amber-200 dark:border-amber-800'
+    'suggested': 'bg-amber-50 text-amber-700 border-amber-200 dark:bg-amber-900 dark:text-amber-200 dark:border-amber-800',
+    'queued': 'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-800',
+    'publishing': 'bg-indigo-50 text-indigo-700 border-indigo-200 dark:bg-indigo-900 dark:text-indigo-200 dark:border-indigo-800',
+    'failed': 'bg-red-50 text-red-700 border-red-200 dark:bg-red-900 dark:text-red-200 dark:border-red-800'
   };
   
   return (
@@ -415,7 +438,7 @@ export default function Inspector() {
   // Available filter options
   const [availableFormats, setAvailableFormats] = useState<string[]>([]);
   const [availablePlatforms, setAvailablePlatforms] = useState<string[]>([]);
-  const availableStatuses = ['posted', 'scheduled', 'suggested'];
+  const availableStatuses = ['posted', 'scheduled', 'suggested', 'queued', 'publishing', 'failed'];
   
   // Filtered posts
   const [filteredPosts, setFilteredPosts] = useState<Post[]>([]);
@@ -787,6 +810,7 @@ export default function Inspector() {
           .from('posts')
           .select('*')
           .or(`user_id.eq.${user.id},organization_id.not.is.null`)
+          .is('deleted_at', null) // Merged duplicates are soft-deleted
           .order('posted_date', { ascending: false })
           .order('created_at', { ascending: false });
 
@@ -961,6 +985,37 @@ export default function Inspector() {
     }
   };
   
+  // Put a post the publishing worker gave up on back in the queue with fresh attempts
+  const handleRequeue = async (postId: string) => {
+    const now = new Date().toISOString();
+    const { error } = await supabase
+      .from('posts')
+      .update({
+        status: 'QUEUED',
+        attempt_count: 0,
+        next_attempt_at: now,
+        publish_error: null,
+        updated_at: now
+      })
+      .eq('id', postId)
+      .eq('status', 'FAILED');
+
+    if (error) {
+      throw new Error(`Failed to requeue post: ${error.message}`);
+    }
+
+    setPosts(prevPosts =>
+      prevPosts.map(post =>
+        post.id === postId ? { ...post, status: 'QUEUED', attempt_count: 0, publish_error: null } : post
+      )
+    );
+  };
+  
+  // Drop the posts merged into another one from the list
+  const handleDuplicatesMerged = (mergedPostIds: string[]) => {
+    setPosts(prevPosts => prevPosts.filter(post => !mergedPostIds.includes(post.id)));
+  };
+  
   // Handle form field changes
   const handleInputChange = (e: React.ChangeEvent<HTMLInputElement | HTMLTextAreaElement | HTMLSelectElement>) => {
     if (!editingPost) return;
@@ -1159,6 +1214,17 @@ export default function Inspector() {
         </div>
       ) : (
         <>
+          {/* Dead-letter queue: posts that could not be published */}
+          <DeadLetterQueue
+            posts={posts.filter(post => post.status === 'FAILED')}
+            onRequeue={handleRequeue}
+          />
+          
+          {/* Posts saved more than once under different URLs */}
+          {user && (
+            <DuplicatePostsPanel userId={user.id} onMerged={handleDuplicatesMerged} />
+          )}
+          
           {/* Filter panel */}
           <FilterPanel
             filters={filters}
@@ -1327,6 +1393,11 @@ export default function Inspector() {
                           >
                             {truncateText(post.title, 60) || 'Untitled'}
                           </a>
+                          {post.media && (
+                            <div className="mt-1">
+                              <PostMediaPreview media={post.media} />
+                            </div>
+                          )}
                         </td>
                         <td className="px-4 py-4 text-sm text-gray-600 dark:text-gray-300">
                           {formatDate(post.posted_date)}
@@ -1339,11 +1410,14 @@ export default function Inspector() {
                         </td>
                         <td className="px-4 py-4 text-sm">
                           <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium
-                            ${post.status === 'POSTED' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 
-                              post.status === 'SCHEDULED' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 
-                              'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'}`}>
+                            ${STATUS_BADGE_CLASSES[post.status] || STATUS_BADGE_CLASSES.SUGGESTED}`}>
                             {post.status}
                           </span>
+                          {post.approval_status && post.approval_status !== 'approved' && (
+                            <span className="block mt-1 text-xs text-gray-500 dark:text-gray-400">
+                              {APPROVAL_STATUS_LABELS[post.approval_status]}
+                            </span>
+                          )}
                         </td>
                         <td className="px-4 py-4 text-sm text-gray-600 dark:text-gray-300">
                           {truncateText(post.description, 80) || 'No description'}
@@ -1487,9 +1561,7 @@ export default function Inspector() {
                           <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">Status</h4>
                           <p className="text-gray-900 dark:text-white">
                             <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium
-                              ${currentInfoPost.status === 'POSTED' ? 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200' : 
-                                currentInfoPost.status === 'SCHEDULED' ? 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200' : 
-                                'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200'}`}>
+                              ${STATUS_BADGE_CLASSES[currentInfoPost.status] || STATUS_BADGE_CLASSES.SUGGESTED}`}>
                               {currentInfoPost.status}
                             </span>
                           </p>
@@ -1501,6 +1573,35 @@ export default function Inspector() {
                         </div>
                       </div>
                       
+                      {currentInfoPost.media && currentInfoPost.media.assets.length > 0 && (
+                        <div>
+                          <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400 mb-1">Media</h4>
+                          <PostMediaPreview media={currentInfoPost.media} thumbnailClassName="w-32 h-20" />
+                          <ul className="mt-2 space-y-1 text-sm">
+                            {currentInfoPost.media.assets.map(asset => (
+                              <li key={`${asset.kind}:${asset.url}`} className="flex gap-2 text-gray-900 dark:text-white">
+                                <span className="shrink-0 capitalize text-gray-500 dark:text-gray-400">{asset.kind}</span>
+                                <a
+                                  href={asset.url}
+                                  target="_blank"
+                                  rel="noopener noreferrer"
+                                  className="truncate text-blue-600 hover:underline dark:text-blue-400"
+                                >
+                                  {asset.provider && asset.providerId ? `${asset.provider} ${asset.providerId}` : asset.url}
+                                </a>
+                                <span className="shrink-0 text-gray-500 dark:text-gray-400">
+                                  {[
+                                    asset.width && asset.height && `${asset.width}×${asset.height}`,
+                                    asset.duration && formatMediaDuration(asset.duration),
+                                    asset.mimeType
+                                  ].filter(Boolean).join(' · ')}
+                                </span>
+                              </li>
+                            ))}
+                          </ul>
+                        </div>
+                      )}
+                      
                       {currentInfoPost.seo_score && (
                         <div>
                           <h4 className="text-sm font-medium text-gray-500 dark:text-gray-400">SEO Score</h4>
@@ -1634,9 +1735,13 @@ export default function Inspector() {
                             onChange={handleInputChange}
                             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md shadow-sm focus:outline-none focus:ring-blue-500 focus:border-blue-500 dark:bg-gray-700 dark:text-white"
                           >
-                            <option value="POSTED">Posted</option>
-                            <option value="SCHEDULED">Scheduled</option>
+                            {/* Suggestions have to be approved (from the calendar) before they can be scheduled */}
+                            <option value="POSTED" disabled={!isApprovedForScheduling(editingPost.approval_status)}>Posted</option>
+                            <option value="SCHEDULED" disabled={!isApprovedForScheduling(editingPost.approval_status)}>Scheduled</option>
                             <option value="SUGGESTED">Suggested</option>
+                            <option value="QUEUED" disabled>Queued</option>
+                            <option value="PUBLISHING" disabled>Publishing</option>
+                            <option value="FAILED" disabled>Failed</option>
                           </select>
                         </div>
                       </div>
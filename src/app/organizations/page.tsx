@@ -7,6 +7,8 @@ import { useAuth } from "../../lib/auth-context";
 // Import the shared supabase client instead
 import { supabase } from "../../lib/supabase";
 import { syncUserToDatabase } from "../../lib/user-utils";
+import ProfileHistory from "../../components/ProfileHistory";
+import OrganizationMembers from "../../components/OrganizationMembers";
 // Remove the supabaseAdmin import as we're using the API now
 // import { supabaseAdmin } from "../../lib/supabase-admin";
 
@@ -594,6 +596,7 @@ export default function OrganizationsPage() {
         body: JSON.stringify({
           organizationId: orgId,
           organizationName: organization.name, // Send the name as well
+          userId: user.id, // Author of the profile version the analysis is saved as
           posts: postData
         }),
       });
@@ -774,6 +777,20 @@ export default function OrganizationsPage() {
                         <p className="text-gray-600 dark:text-gray-400 text-sm mt-1">Click "Analyze Posts" to generate insights about this organization.</p>
                       </div>
                     )}
+
+                    <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
+                      <OrganizationMembers organizationId={org.id} canManage={org.role === 'admin'} />
+                    </div>
+
+                    <div className="mt-4 pt-3 border-t border-gray-200 dark:border-gray-600">
+                      <ProfileHistory
+                        organizationId={org.id}
+                        canRollback={org.role === 'admin'}
+                        onRolledBack={(profile) => setMyOrganizations(prev => prev.map(existing =>
+                          existing.id === org.id ? { ...existing, info: profile.info as Organization['info'] } : existing
+                        ))}
+                      />
+                    </div>
                   </div>
                 )}
               </div>
@@ -1,7 +1,9 @@
 'use client';
-import { useEffect, useState, useRef } from 'react';
+import { useEffect, useState } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
+import ImportJobs from '@/components/ImportJobs';
+import type { IngestionJobDetails } from '@/lib/ingestion/jobs';
 
 // Add Organization type
 type Organization = {
@@ -16,31 +18,22 @@ export default function Home() {
   const [url, setUrl] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // URL found already in the library, which can be analyzed again to replace its post
+  const [duplicateUrl, setDuplicateUrl] = useState<string | null>(null);
   
-  // Add state for CSV file upload
+  // Add state for CSV file upload; the batch itself runs as a server-side import job
   const [isProcessingCSV, setIsProcessingCSV] = useState(false);
   const [csvError, setCsvError] = useState<string | null>(null);
   const [csvFileName, setCsvFileName] = useState<string | null>(null);
-  const [csvPrepared, setCsvPrepared] = useState(false);
+  const [csvContent, setCsvContent] = useState<string | null>(null);
+  const [replaceExisting, setReplaceExisting] = useState(false);
+  const [startedJob, setStartedJob] = useState<IngestionJobDetails | null>(null);
   
   // Add state for organizations and selected organization
   const [organizations, setOrganizations] = useState<Organization[]>([]);
   const [selectedOrganizationId, setSelectedOrganizationId] = useState<string | null>(null);
   const [isLoadingOrganizations, setIsLoadingOrganizations] = useState(false);
   
-  // Add state for duplicate URLs tracking and confirmation dialog
-  const [urlsToProcess, setUrlsToProcess] = useState<string[]>([]);
-  const [duplicateUrls, setDuplicateUrls] = useState<string[]>([]);
-  const [currentDuplicateIndex, setCurrentDuplicateIndex] = useState<number>(-1);
-  const [showDuplicateDialog, setShowDuplicateDialog] = useState(false);
-  const [processingProgress, setProcessingProgress] = useState<number>(0);
-  const [urlErrors, setUrlErrors] = useState<Record<string, string>>({});
-  const [processedResults, setProcessedResults] = useState<Record<string, {success: boolean; message: string; title?: string}>>({});
-  const [replaceUrlMap, setReplaceUrlMap] = useState<Record<string, boolean>>({});
-  const [showBrokenLinkError, setShowBrokenLinkError] = useState<{url: string; error: string} | null>(null);
-  
-  // Ref to store file reader between renders
-  const fileReaderRef = useRef<FileReader | null>(null);
   
   // Get user information for saving posts
   const { user } = useAuth();
@@ -125,6 +118,7 @@ export default function Home() {
     
     // Clear previous messages
     setMessage(null);
+    setDuplicateUrl(null);
     
     // Check if user is logged in
     if (!user) {
@@ -132,13 +126,9 @@ export default function Home() {
       return;
     }
     
-    // Check if we're processing a prepared CSV or a single URL
-    if (csvPrepared && urlsToProcess.length > 0) {
-      // Process the prepared CSV file
-      processBatchUrls(urlsToProcess, replaceUrlMap as Record<string, boolean>);
-      // Reset CSV states after processing
-      setCsvFileName(null);
-      setCsvPrepared(false);
+    // Check if we're importing a CSV or analyzing a single URL
+    if (csvFileName && csvContent) {
+      await startCsvImport();
     } else {
       // Process a single URL
       // Validate URL format
@@ -160,6 +150,10 @@ export default function Home() {
       try {
         const result = await processUrl(url);
         
+        if (result.duplicate) {
+          setDuplicateUrl(url);
+        }
+        
         if (result.success) {
           setMessage({
             type: 'success',
@@ -186,7 +180,7 @@ export default function Home() {
   };
   
   // Process a single URL with the API
-  const processUrl = async (url: string, replace: boolean = false): Promise<{success: boolean; message: string; title?: string}> => {
+  const processUrl = async (url: string, replace: boolean = false): Promise<{success: boolean; message: string; title?: string; duplicate?: boolean}> => {
     try {
       // Call the API to analyze the URL
       const response = await fetch('/api/analyze-url', {
@@ -208,12 +202,15 @@ export default function Home() {
         return {
           success: false,
           message: data.error || 'Failed to analyze URL',
+          duplicate: response.status === 409,
         };
       }
       
       return {
         success: true,
-        message: `Successfully analyzed and saved "${data.post.title}"`,
+        message: data.replaced
+          ? `Successfully analyzed "${data.post.title}" again and updated its post${data.contentChanged ? ' (the page changed since it was last analyzed)' : ''}`
+          : `Successfully analyzed and saved "${data.post.title}"`,
         title: data.post.title,
       };
     } catch (error: any) {
@@ -224,73 +221,80 @@ export default function Home() {
     }
   };
   
-  // Process all URLs in the batch
-  const processBatchUrls = async (urlsToProcess: string[], replaceMap: Record<string, boolean> = {}) => {
-    setIsProcessingCSV(true);
-    setProcessingProgress(0);
+  // Analyze a URL already in the library again, replacing its post
+  const replaceDuplicate = async () => {
+    if (!duplicateUrl) return;
     
-    const results: Record<string, {success: boolean; message: string; title?: string}> = {};
-    let currentProgress = 0;
+    setIsLoading(true);
+    setMessage(null);
+    try {
+      const result = await processUrl(duplicateUrl, true);
+      setMessage({ type: result.success ? 'success' : 'error', text: result.message });
+      setDuplicateUrl(null);
+    } finally {
+      setIsLoading(false);
+    }
+  };
+  
+  // Queue the uploaded CSV as a server-side import job; ImportJobs runs it and shows each URL's outcome
+  const startCsvImport = async () => {
+    setIsProcessingCSV(true);
     
-    // Process URLs one by one
-    for (const url of urlsToProcess) {
-      // Check if this URL should replace an existing one
-      const shouldReplace = replaceMap[url] || false;
+    try {
+      const response = await fetch('/api/ingestion', {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+        },
+        body: JSON.stringify({
+          csv: csvContent,
+          fileName: csvFileName,
+          replaceExisting,
+          userId: user?.id,
+          organizationId: selectedOrganizationId === '' ? null : selectedOrganizationId,
+        }),
+      });
       
-      // Process the URL
-      const result = await processUrl(url, shouldReplace);
-      results[url] = result;
+      if (!response.ok) {
+        const { error } = await response.json();
+        setMessage({ type: 'error', text: error || 'Failed to import the CSV file' });
+        return;
+      }
       
-      // Update progress
-      currentProgress++;
-      setProcessingProgress(Math.floor((currentProgress / urlsToProcess.length) * 100));
+      const data: IngestionJobDetails = await response.json();
       
-      // If there was an error and it's a broken link, show the dialog
-      if (!result.success && result.message.includes('Failed to analyze URL')) {
-        setShowBrokenLinkError({url, error: result.message});
-        
-        // Wait for user to dismiss the error before continuing
-        await new Promise<void>((resolve) => {
-          const handleDismiss = () => {
-            setShowBrokenLinkError(null);
-            resolve();
-          };
-          
-          // Store the handler in a ref to access it later
-          window.dismissBrokenLinkError = handleDismiss;
-        });
-      }
+      const notes = [
+        data.counts.skipped > 0 && `${data.counts.skipped} already in your library`,
+        data.counts.failed > 0 && `${data.counts.failed} invalid`,
+        data.job.truncated && 'only the first ones were queued'
+      ].filter(Boolean);
+      
+      setMessage({
+        type: 'success',
+        text: `Queued ${data.counts.pending} URLs for import${notes.length ? ` (${notes.join(', ')})` : ''}`
+      });
+      setStartedJob(data);
+      
+      // Reset CSV states once the job exists
+      setCsvFileName(null);
+      setCsvContent(null);
+      setReplaceExisting(false);
+    } catch (error) {
+      setMessage({
+        type: 'error',
+        text: error instanceof Error ? error.message : 'An error occurred while importing the CSV file',
+      });
+    } finally {
+      setIsProcessingCSV(false);
     }
-    
-    // Update results state
-    setProcessedResults(results);
-    
-    // Determine overall status to display appropriate message
-    const totalSuccess = Object.values(results).filter(r => r.success).length;
-    
-    setMessage({
-      type: totalSuccess > 0 ? 'success' : 'error',
-      text: totalSuccess === urlsToProcess.length
-        ? `Successfully processed all ${totalSuccess} URLs`
-        : `Processed ${totalSuccess} of ${urlsToProcess.length} URLs successfully`
-    });
-    
-    setIsProcessingCSV(false);
-    setProcessingProgress(0);
   };
   
-  // Handle CSV file upload
+  // Handle CSV file upload; the URLs are read on the server when the import starts
   const handleCsvUpload = (e: React.ChangeEvent<HTMLInputElement>) => {
     // Clear previous messages and states
     setMessage(null);
     setCsvError(null);
-    setUrlsToProcess([]);
-    setDuplicateUrls([]);
-    setCurrentDuplicateIndex(-1);
-    setShowDuplicateDialog(false);
-    setProcessingProgress(0);
-    setUrlErrors({});
-    setCsvPrepared(false);
+    setCsvContent(null);
     
     const file = e.target.files?.[0];
     if (!file) return;
@@ -313,118 +317,22 @@ export default function Home() {
     // Store the file name
     setCsvFileName(file.name);
     
-    // Set loading state
-    setIsProcessingCSV(true);
-    
-    // Create a FileReader to read the CSV file
     const reader = new FileReader();
-    fileReaderRef.current = reader;
     
-    reader.onload = async (event) => {
-      try {
-        const csvContent = event.target?.result as string;
-        if (!csvContent) {
-          throw new Error('Could not read file');
-        }
-        
-        // Parse CSV content to extract URLs
-        // We support both comma-separated and newline-separated formats
-        let extractedUrls: string[] = [];
-        
-        // First try splitting by newlines
-        const linesSplit = csvContent.split(/\r?\n/).map(line => line.trim()).filter(Boolean);
-        
-        if (linesSplit.length > 0) {
-          // If we have lines, check if any contain commas
-          const hasCommas = linesSplit.some(line => line.includes(','));
-          
-          if (hasCommas) {
-            // Parse as comma-separated values
-            extractedUrls = csvContent
-              .split(/\r?\n/)
-              .flatMap(line => line.split(','))
-              .map(url => url.trim())
-              .filter(Boolean);
-          } else {
-            // Use the line-split result
-            extractedUrls = linesSplit;
-          }
-        }
-        
-        // Validate URLs and remove duplicates within the file
-        const validatedUrls: string[] = [];
-        const invalidUrls: Record<string, string> = {};
-        const seenUrls = new Set<string>();
-        
-        for (const rawUrl of extractedUrls) {
-          try {
-            // Try to create a URL object to validate
-            new URL(rawUrl);
-            
-            // Check for duplicates within the file
-            if (!seenUrls.has(rawUrl)) {
-              seenUrls.add(rawUrl);
-              validatedUrls.push(rawUrl);
-            }
-          } catch (error) {
-            invalidUrls[rawUrl] = 'Invalid URL format';
-          }
-        }
-        
-        // Limit to 100 URLs
-        const limitedUrls = validatedUrls.slice(0, 100);
-        
-        // Set a message if we had to limit the URLs
-        if (validatedUrls.length > 100) {
-          setMessage({
-            type: 'success',
-            text: 'First 100 URLs processed :)'
-          });
-        }
-        
-        // Set the URLs to process
-        setUrlsToProcess(limitedUrls);
-        
-        // Set any validation errors
-        setUrlErrors(invalidUrls);
-        
-        // Check for duplicates against existing URLs in the system
-        // This would normally involve checking against the database
-        // For now, we'll simulate this with a sample list
-        const sampleExistingUrls = [
-          'https://example.com/article1',
-          'https://example.com/article2'
-        ];
-        
-        // In a real implementation, you'd query the database here
-        const foundDuplicates = limitedUrls.filter(url => 
-          sampleExistingUrls.includes(url)
-        );
-        
-        if (foundDuplicates.length > 0) {
-          // We found duplicates, set them up for confirmation
-          setDuplicateUrls(foundDuplicates);
-          setCurrentDuplicateIndex(0);
-          setShowDuplicateDialog(true);
-        } else {
-          // No duplicates, mark as ready to process but don't process yet
-          setCsvPrepared(true);
-        }
-        
-      } catch (error) {
-        console.error('Error parsing CSV:', error);
-        setCsvError('Failed to parse CSV file. Please check the format.');
+    reader.onload = (event) => {
+      const content = event.target?.result as string;
+      if (!content || !content.trim()) {
+        setCsvError('The CSV file is empty');
         setCsvFileName(null);
-      } finally {
-        setIsProcessingCSV(false);
-        // Reset file input
-        e.target.value = '';
+      } else {
+        setCsvContent(content);
       }
+      // Reset file input
+      e.target.value = '';
     };
     
     reader.onerror = () => {
       setCsvError('Error reading file');
-      setIsProcessingCSV(false);
       setCsvFileName(null);
       e.target.value = '';
     };
@@ -432,39 +340,6 @@ export default function Home() {
     // Start reading the file
     reader.readAsText(file);
   };
-  
-  // Handle duplicate URL confirmation
-  const handleDuplicateConfirmation = (replace: boolean) => {
-    if (currentDuplicateIndex >= 0 && currentDuplicateIndex < duplicateUrls.length) {
-      const currentUrl = duplicateUrls[currentDuplicateIndex];
-      
-      // Update the replace map
-      setReplaceUrlMap(prev => ({
-        ...prev,
-        [currentUrl]: replace
-      }));
-      
-      // Move to the next duplicate URL or finish if we're done
-      if (currentDuplicateIndex < duplicateUrls.length - 1) {
-        setCurrentDuplicateIndex(currentDuplicateIndex + 1);
-      } else {
-        // No more duplicates to check
-        setShowDuplicateDialog(false);
-        setCurrentDuplicateIndex(-1);
-        
-        // Mark as ready to process but don't process yet
-        setCsvPrepared(true);
-      }
-    }
-  };
-
-  // Handle dismissing broken link error
-  const handleDismissBrokenLink = () => {
-    if (window.dismissBrokenLinkError) {
-      window.dismissBrokenLinkError();
-      window.dismissBrokenLinkError = undefined;
-    }
-  };
 
   return (
     <div className="flex flex-col items-center justify-center min-h-screen py-2">
@@ -499,18 +374,13 @@ export default function Home() {
                     <div className="truncate">
                       <span className="text-blue-600 dark:text-blue-400 font-medium mr-2">CSV:</span>
                       {csvFileName}
-                      {csvPrepared && (
-                        <span className="ml-2 text-green-600 dark:text-green-400">
-                          ({urlsToProcess.length} URLs ready)
-                        </span>
-                      )}
                     </div>
                     <button
                       type="button"
                       onClick={() => {
                         setCsvFileName(null);
-                        setCsvPrepared(false);
-                        setUrlsToProcess([]);
+                        setCsvContent(null);
+                        setReplaceExisting(false);
                       }}
                       className="text-gray-500 hover:text-gray-700 dark:text-gray-400 dark:hover:text-gray-200"
                     >
@@ -561,101 +431,18 @@ export default function Home() {
                 </div>
               )}
               
-              {/* Display CSV progress if processing */}
-              {isProcessingCSV && (
-                <div className="mt-2 p-3 bg-blue-100 dark:bg-blue-900 rounded-md">
-                  <div className="mb-2 text-blue-800 dark:text-blue-200">
-                    Processing URLs: {processingProgress}%
-                  </div>
-                  <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5">
-                    <div 
-                      className="bg-blue-600 h-2.5 rounded-full" 
-                      style={{ width: `${processingProgress}%` }}
-                    ></div>
-                  </div>
-                </div>
-              )}
-              
-              {/* Display URL validation errors if any */}
-              {Object.keys(urlErrors).length > 0 && (
-                <div className="mt-2 p-3 bg-red-100 dark:bg-red-900 rounded-md">
-                  <div className="font-medium text-red-800 dark:text-red-200 mb-2">
-                    Some URLs could not be processed:
-                  </div>
-                  <ul className="text-sm text-red-700 dark:text-red-300 list-disc pl-5 space-y-1">
-                    {Object.entries(urlErrors).slice(0, 5).map(([url, error]) => (
-                      <li key={url}>{url}: {error}</li>
-                    ))}
-                    {Object.keys(urlErrors).length > 5 && (
-                      <li>And {Object.keys(urlErrors).length - 5} more...</li>
-                    )}
-                  </ul>
-                </div>
-              )}
-              
-              {/* Duplicate URL confirmation dialog */}
-              {showDuplicateDialog && currentDuplicateIndex >= 0 && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full shadow-xl">
-                    <h3 className="text-lg font-medium text-gray-900 dark:text-white mb-4">
-                      Duplicate URL Detected
-                    </h3>
-                    <p className="text-gray-600 dark:text-gray-300 mb-6">
-                      Hey, I notice we already have:
-                      <br />
-                      <span className="font-mono text-sm break-all bg-gray-100 dark:bg-gray-700 p-1 rounded mt-2 block">
-                        {duplicateUrls[currentDuplicateIndex]}
-                      </span>
-                      <br />
-                      Do you want to replace the current article?
-                    </p>
-                    <div className="flex justify-end space-x-3">
-                      <button
-                        onClick={() => handleDuplicateConfirmation(false)}
-                        className="px-4 py-2 bg-gray-200 hover:bg-gray-300 dark:bg-gray-700 dark:hover:bg-gray-600 rounded-md text-gray-800 dark:text-gray-200"
-                      >
-                        Skip
-                      </button>
-                      <button
-                        onClick={() => handleDuplicateConfirmation(true)}
-                        className="px-4 py-2 bg-blue-600 hover:bg-blue-700 rounded-md text-white"
-                      >
-                        Replace
-                      </button>
-                    </div>
-                  </div>
-                </div>
-              )}
-              
-              {/* Broken Link Error Dialog */}
-              {showBrokenLinkError && (
-                <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50">
-                  <div className="bg-white dark:bg-gray-800 rounded-lg p-6 max-w-md w-full shadow-xl">
-                    <div className="flex justify-between items-start mb-4">
-                      <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-                        Broken Link
-                      </h3>
-                      <button
-                        onClick={handleDismissBrokenLink}
-                        className="text-gray-400 hover:text-gray-500 dark:hover:text-gray-300"
-                      >
-                        <span className="sr-only">Close</span>
-                        <svg className="h-6 w-6" fill="none" viewBox="0 0 24 24" stroke="currentColor">
-                          <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M6 18L18 6M6 6l12 12" />
-                        </svg>
-                      </button>
-                    </div>
-                    <p className="text-gray-600 dark:text-gray-300 mb-6">
-                      Unable to process URL:
-                      <br />
-                      <span className="font-mono text-sm break-all bg-gray-100 dark:bg-gray-700 p-1 rounded mt-2 block">
-                        {showBrokenLinkError.url}
-                      </span>
-                      <br />
-                      Error: {showBrokenLinkError.error}
-                    </p>
-                  </div>
-                </div>
+              {/* CSV imports skip URLs already in the library unless asked to analyze them again */}
+              {csvFileName && (
+                <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300 text-left">
+                  <input
+                    type="checkbox"
+                    checked={replaceExisting}
+                    onChange={(e) => setReplaceExisting(e.target.checked)}
+                    disabled={isProcessingCSV}
+                    className="rounded border-gray-300 dark:border-gray-600"
+                  />
+                  Re-analyze URLs already in the library and update their posts
+                </label>
               )}
               
               {/* Add Organization Dropdown */}
@@ -691,16 +478,16 @@ export default function Home() {
               <div className="flex justify-center">
                 <button
                   type="submit"
-                  disabled={isLoading || isProcessingCSV || !!(csvFileName && !csvPrepared)}
+                  disabled={isLoading || isProcessingCSV || !!(csvFileName && !csvContent)}
                   className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md transition-colors duration-200 focus:outline-none focus:ring-2 focus:ring-blue-500 disabled:opacity-50 disabled:cursor-not-allowed"
                 >
                   {isLoading || isProcessingCSV ? (
                     <div className="flex items-center justify-center">
                       <div className="animate-spin h-5 w-5 border-2 border-white border-t-transparent rounded-full mr-2"></div>
-                      {isProcessingCSV ? 'Processing...' : 'Analyzing...'}
+                      {isProcessingCSV ? 'Starting import...' : 'Analyzing...'}
                     </div>
                   ) : (
-                    'Analyze'
+                    csvFileName ? 'Import' : 'Analyze'
                   )}
                 </button>
               </div>
@@ -714,6 +501,16 @@ export default function Home() {
                   : 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
               }`}>
                 {message.text}
+                {duplicateUrl && (
+                  <button
+                    type="button"
+                    onClick={replaceDuplicate}
+                    disabled={isLoading}
+                    className="ml-2 underline font-medium disabled:opacity-50"
+                  >
+                    Analyze again and replace
+                  </button>
+                )}
               </div>
             )}
             
@@ -725,6 +522,11 @@ export default function Home() {
           </form>
         </div>
 
+        {/* Imports run on the server: sitemaps, feeds and the CSV uploads above */}
+        {user && (
+          <ImportJobs userId={user.id} organizationId={selectedOrganizationId} startedJob={startedJob} />
+        )}
+
         <style jsx>{`
           .glowing-sphere-container {
             perspective: 1200px;
@@ -803,10 +605,3 @@ export default function Home() {
     </div>
   );
 }
-
-// Add global declaration for dismissBrokenLinkError
-declare global {
-  interface Window {
-    dismissBrokenLinkError?: () => void;
-  }
-}
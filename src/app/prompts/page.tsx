@@ -3,6 +3,15 @@
 import { useState, useEffect } from 'react';
 import { useAuth } from '@/lib/auth-context';
 import { supabase } from '@/lib/supabase';
+import type { LLMProviderName, LLMSettings, LLMTask } from '@/lib/llm/types';
+import type { PostingPlatform, PostingWindows, SchedulingRules } from '@/lib/scheduling/types';
+import { isValidTimezone } from '@/lib/scheduling/timezone';
+import { DEFAULT_SCHEDULING_RULES } from '@/lib/scheduling/scheduler';
+import PostingWindowsEditor from '@/components/PostingWindowsEditor';
+import PublishingConnectionsEditor from '@/components/PublishingConnectionsEditor';
+import WatchedSourcesEditor from '@/components/WatchedSourcesEditor';
+import SiteCrawler from '@/components/SiteCrawler';
+import MetricsUpload from '@/components/MetricsUpload';
 
 // Define types for organization and preferences
 type Organization = {
@@ -20,8 +29,25 @@ type Preferences = {
   customPrompts?: {
     [key: string]: string;
   };
+  llm?: LLMSettings;
+  postingWindows?: PostingWindows;
+  timezone?: string;
+  schedulingRules?: SchedulingRules;
 };
 
+// Tasks whose model can be overridden per organization
+const LLM_TASK_LABELS: { task: LLMTask; label: string }[] = [
+  { task: 'post-ideas', label: 'Post ideas' },
+  { task: 'post-elaboration', label: 'Post elaboration' },
+  { task: 'post-seo', label: 'SEO analysis' },
+  { task: 'content-plan', label: 'Content plan' },
+  { task: 'post-title', label: 'URL titles' },
+  { task: 'post-description', label: 'URL descriptions' },
+  { task: 'organization-analysis', label: 'Organization analysis' },
+  { task: 'post-regenerate', label: 'Post regeneration' },
+  { task: 'post-repurpose', label: 'Post repurposing' }
+];
+
 export default function PromptsPage() {
   const { user } = useAuth();
   const [isLoading, setIsLoading] = useState(true);
@@ -172,6 +198,32 @@ export default function PromptsPage() {
     }
   };
 
+  // Handle changing the model used for a task
+  const handleModelChange = (task: LLMTask, model: string) => {
+    setPreferences(prev => {
+      const models = { ...(prev.llm?.models || {}) };
+      if (model.trim()) {
+        models[task] = model.trim();
+      } else {
+        delete models[task];
+      }
+      return { ...prev, llm: { ...(prev.llm || {}), models } };
+    });
+  };
+
+  // Scheduling rules with defaults filled in for anything not configured yet
+  const schedulingRules: SchedulingRules = {
+    dailyCap: preferences.schedulingRules?.dailyCap ?? DEFAULT_SCHEDULING_RULES.dailyCap,
+    minSpacingHours: {
+      ...DEFAULT_SCHEDULING_RULES.minSpacingHours,
+      ...(preferences.schedulingRules?.minSpacingHours || {})
+    }
+  };
+
+  const handleSchedulingRulesChange = (changes: Partial<SchedulingRules>) => {
+    setPreferences(prev => ({ ...prev, schedulingRules: { ...schedulingRules, ...changes } }));
+  };
+
   // Handle adding a custom prompt
   const handleAddCustomPrompt = () => {
     if (!customPromptKey.trim() || !customPromptValue.trim()) {
@@ -339,6 +391,161 @@ export default function PromptsPage() {
             </div>
           </div>
           
+          {/* AI Model */}
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-3">AI Model</h3>
+            <div className="mb-4">
+              <label htmlFor="llmProvider" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Provider
+              </label>
+              <select
+                id="llmProvider"
+                value={preferences.llm?.provider || ''}
+                onChange={(e) => setPreferences(prev => ({
+                  ...prev,
+                  llm: { ...(prev.llm || {}), provider: (e.target.value || undefined) as LLMProviderName | undefined }
+                }))}
+                className="w-full px-4 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+              >
+                <option value="">-- Server default --</option>
+                <option value="openai">OpenAI</option>
+                <option value="anthropic">Anthropic</option>
+                <option value="mock">Offline mock (no API calls)</option>
+              </select>
+            </div>
+            <div className="grid grid-cols-1 gap-3 sm:grid-cols-2">
+              {LLM_TASK_LABELS.map(({ task, label }) => (
+                <div key={task}>
+                  <label htmlFor={`model-${task}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    {label}
+                  </label>
+                  <input
+                    id={`model-${task}`}
+                    type="text"
+                    value={preferences.llm?.models?.[task] || ''}
+                    onChange={(e) => handleModelChange(task, e.target.value)}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                    placeholder="Provider default"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {/* Posting Windows */}
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Posting Windows</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              Days, hours and blackout dates in which the planner may schedule posts for each platform.
+            </p>
+            <div className="mb-4">
+              <label htmlFor="organizationTimezone" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Organization timezone
+              </label>
+              <input
+                id="organizationTimezone"
+                type="text"
+                value={preferences.timezone || ''}
+                onChange={(e) => setPreferences(prev => ({ ...prev, timezone: e.target.value }))}
+                className={`w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white ${
+                  preferences.timezone && !isValidTimezone(preferences.timezone) ? 'border-red-500' : ''
+                }`}
+                placeholder="Planner's timezone, e.g. Europe/Amsterdam"
+              />
+              <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                Posting hours are read in this timezone unless a platform sets its own.
+              </p>
+            </div>
+            <PostingWindowsEditor
+              value={preferences.postingWindows || {}}
+              onChange={(postingWindows) => setPreferences(prev => ({ ...prev, postingWindows }))}
+            />
+          </div>
+          
+          {/* Scheduling Rules */}
+          <div className="mb-6">
+            <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Scheduling Rules</h3>
+            <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+              Limits the planner keeps to when spreading posts over the calendar, including posts already scheduled.
+            </p>
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-4">
+              <div>
+                <label htmlFor="dailyCap" className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Posts per day
+                </label>
+                <input
+                  id="dailyCap"
+                  type="number"
+                  min={1}
+                  value={schedulingRules.dailyCap}
+                  onChange={(e) => handleSchedulingRulesChange({ dailyCap: parseInt(e.target.value, 10) || 1 })}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                />
+              </div>
+              {(Object.keys(DEFAULT_SCHEDULING_RULES.minSpacingHours) as PostingPlatform[]).map(platform => (
+                <div key={platform}>
+                  <label htmlFor={`minSpacing-${platform}`} className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Hours between {platform} posts
+                  </label>
+                  <input
+                    id={`minSpacing-${platform}`}
+                    type="number"
+                    min={0}
+                    value={schedulingRules.minSpacingHours[platform] ?? 0}
+                    onChange={(e) => handleSchedulingRulesChange({
+                      minSpacingHours: { ...schedulingRules.minSpacingHours, [platform]: parseFloat(e.target.value) || 0 }
+                    })}
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+                  />
+                </div>
+              ))}
+            </div>
+          </div>
+          
+          {/* Publishing */}
+          {user && selectedOrganizationId && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Publishing</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Accounts scheduled posts are published to once their time has come. Credentials are saved right away and stored encrypted.
+              </p>
+              <PublishingConnectionsEditor organizationId={selectedOrganizationId} userId={user.id} />
+            </div>
+          )}
+          
+          {/* Watched Sources */}
+          {user && selectedOrganizationId && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Watched Sources</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Feeds, sitemaps and profile pages checked for new content, which is added to the library as posted. A scheduled or suggested post with a matching title is marked as posted instead.
+              </p>
+              <WatchedSourcesEditor organizationId={selectedOrganizationId} userId={user.id} />
+            </div>
+          )}
+          
+          {/* Site Crawl */}
+          {user && selectedOrganizationId && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Site Crawl</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Crawl the organization&apos;s website from its homepage to find every page. Pages are sorted into articles, landing pages and product pages; review them and import the articles you choose as posted content.
+              </p>
+              <SiteCrawler organizationId={selectedOrganizationId} userId={user.id} />
+            </div>
+          )}
+          
+          {/* Performance Metrics */}
+          {user && selectedOrganizationId && (
+            <div className="mb-6">
+              <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-1">Performance Metrics</h3>
+              <p className="text-sm text-gray-500 dark:text-gray-400 mb-3">
+                Upload the analytics export of X, LinkedIn, Instagram or Facebook to record how your posts performed; rows are matched to posts by their URL. Posts published to X are also synced automatically with the organization&apos;s publishing credentials.
+              </p>
+              <MetricsUpload organizationId={selectedOrganizationId} userId={user.id} />
+            </div>
+          )}
+          
           {/* Custom Prompts */}
           <div className="mb-6">
             <h3 className="text-lg font-medium text-gray-800 dark:text-gray-200 mb-3">Custom Prompts</h3>
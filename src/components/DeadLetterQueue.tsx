@@ -0,0 +1,163 @@
+'use client';
+
+import React, { useState } from 'react';
+import { format } from 'date-fns';
+import { supabase } from '@/lib/supabase';
+
+interface FailedPost {
+  id: string;
+  title: string;
+  platform: string;
+  posted_date: string;
+  publish_error?: string | null;
+  attempt_count?: number;
+}
+
+interface PublishAttempt {
+  id: string;
+  attempt: number;
+  connector: string | null;
+  outcome: 'published' | 'retry' | 'failed';
+  error: string | null;
+  started_at: string;
+  next_attempt_at: string | null;
+}
+
+interface DeadLetterQueueProps {
+  posts: FailedPost[];
+  onRequeue: (postId: string) => Promise<void>;
+}
+
+/**
+ * Posts the publishing worker gave up on (status FAILED), with the attempts
+ * made for each and a way to put them back in the queue.
+ */
+export default function DeadLetterQueue({ posts, onRequeue }: DeadLetterQueueProps) {
+  const [expandedPostId, setExpandedPostId] = useState<string | null>(null);
+  const [attempts, setAttempts] = useState<Record<string, PublishAttempt[]>>({});
+  const [requeueingPostId, setRequeueingPostId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  if (posts.length === 0) {
+    return null;
+  }
+
+  const toggleAttempts = async (postId: string) => {
+    if (expandedPostId === postId) {
+      setExpandedPostId(null);
+      return;
+    }
+
+    setExpandedPostId(postId);
+    if (attempts[postId]) return;
+
+    const { data, error: attemptsError } = await supabase
+      .from('publish_attempts')
+      .select('id, attempt, connector, outcome, error, started_at, next_attempt_at')
+      .eq('post_id', postId)
+      .order('started_at', { ascending: false });
+
+    if (attemptsError) {
+      console.error('Error fetching publish attempts:', attemptsError);
+      setError(`Failed to load attempts: ${attemptsError.message}`);
+      return;
+    }
+
+    setAttempts(prev => ({ ...prev, [postId]: data || [] }));
+  };
+
+  const handleRequeue = async (postId: string) => {
+    setRequeueingPostId(postId);
+    setError(null);
+    try {
+      await onRequeue(postId);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to requeue post');
+    } finally {
+      setRequeueingPostId(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 p-5 rounded-md shadow-sm border-l-4 border-red-500">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Failed to publish ({posts.length})
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        These posts ran out of publishing attempts. Fix the cause (usually the platform connection) and requeue them.
+      </p>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {posts.map(post => (
+          <li key={post.id} className="py-3">
+            <div className="flex items-start justify-between gap-4">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">{post.title || 'Untitled'}</p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  <span className="capitalize">{post.platform || 'Website'}</span>
+                  {post.posted_date && ` · due ${format(new Date(post.posted_date), 'MMM d, yyyy HH:mm')}`}
+                  {` · ${post.attempt_count || 0} attempts`}
+                </p>
+                {post.publish_error && (
+                  <p className="text-sm text-red-600 dark:text-red-400 mt-1 break-words">{post.publish_error}</p>
+                )}
+              </div>
+              <div className="flex shrink-0 space-x-3 text-sm">
+                <button
+                  onClick={() => toggleAttempts(post.id)}
+                  className="text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                >
+                  {expandedPostId === post.id ? 'Hide attempts' : 'Attempts'}
+                </button>
+                <button
+                  onClick={() => handleRequeue(post.id)}
+                  disabled={requeueingPostId === post.id}
+                  className="text-green-600 hover:text-green-800 dark:text-green-400 disabled:opacity-50"
+                >
+                  {requeueingPostId === post.id ? 'Requeueing…' : 'Requeue'}
+                </button>
+              </div>
+            </div>
+
+            {expandedPostId === post.id && (
+              <table className="mt-3 w-full text-xs text-left text-gray-600 dark:text-gray-300">
+                <thead className="text-gray-500 dark:text-gray-400">
+                  <tr>
+                    <th className="py-1 pr-3">#</th>
+                    <th className="py-1 pr-3">Started</th>
+                    <th className="py-1 pr-3">Connector</th>
+                    <th className="py-1 pr-3">Outcome</th>
+                    <th className="py-1">Error</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {(attempts[post.id] || []).map(attempt => (
+                    <tr key={attempt.id} className="align-top">
+                      <td className="py-1 pr-3">{attempt.attempt}</td>
+                      <td className="py-1 pr-3 whitespace-nowrap">{format(new Date(attempt.started_at), 'MMM d HH:mm:ss')}</td>
+                      <td className="py-1 pr-3">{attempt.connector || '-'}</td>
+                      <td className="py-1 pr-3">
+                        {attempt.outcome}
+                        {attempt.next_attempt_at && ` (retry ${format(new Date(attempt.next_attempt_at), 'HH:mm')})`}
+                      </td>
+                      <td className="py-1 break-words">{attempt.error || '-'}</td>
+                    </tr>
+                  ))}
+                  {attempts[post.id]?.length === 0 && (
+                    <tr>
+                      <td colSpan={5} className="py-1 text-gray-500">No attempts recorded</td>
+                    </tr>
+                  )}
+                </tbody>
+              </table>
+            )}
+          </li>
+        ))}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,128 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import type { DuplicateGroup } from '@/lib/ingestion/duplicates';
+
+interface DuplicatePostsPanelProps {
+  userId: string;
+  onMerged: (mergedPostIds: string[]) => void;
+}
+
+/**
+ * Posts saved more than once under different URLs of the same page (see
+ * canonicalizeUrl), with a way to merge each group into the post to keep.
+ */
+export default function DuplicatePostsPanel({ userId, onMerged }: DuplicatePostsPanelProps) {
+  const [groups, setGroups] = useState<DuplicateGroup[]>([]);
+  const [keptPostIds, setKeptPostIds] = useState<Record<string, string>>({});
+  const [mergingGroup, setMergingGroup] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchGroups = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/posts/duplicates?userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to look for duplicates');
+      }
+      setGroups(data.groups || []);
+    } catch (err) {
+      console.error('Error fetching duplicate posts:', err);
+      setError(err instanceof Error ? err.message : 'Failed to look for duplicates');
+    }
+  }, [userId]);
+
+  useEffect(() => {
+    fetchGroups();
+  }, [fetchGroups]);
+
+  if (groups.length === 0 && !error) {
+    return null;
+  }
+
+  // Groups are keyed by canonical URL and scope, since two organizations may both have the page
+  const groupKey = (group: DuplicateGroup) => `${group.posts[0].organization_id || 'personal'}:${group.canonicalUrl}`;
+
+  const handleMerge = async (group: DuplicateGroup) => {
+    const key = groupKey(group);
+    // The oldest post is kept unless another one was chosen
+    const keepPostId = keptPostIds[key] || group.posts[0].id;
+    const mergePostIds = group.posts.map(post => post.id).filter(id => id !== keepPostId);
+
+    setMergingGroup(key);
+    setError(null);
+    try {
+      const response = await fetch('/api/posts/duplicates', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ keepPostId, mergePostIds, userId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to merge the posts');
+      }
+      setGroups(prev => prev.filter(other => groupKey(other) !== key));
+      onMerged(mergePostIds);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to merge the posts');
+    } finally {
+      setMergingGroup(null);
+    }
+  };
+
+  return (
+    <div className="mb-6 bg-white dark:bg-gray-800 p-5 rounded-md shadow-sm border-l-4 border-yellow-500">
+      <h2 className="text-lg font-semibold text-gray-900 dark:text-white mb-1">
+        Possible duplicates ({groups.length})
+      </h2>
+      <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+        These posts point to the same page under different URLs. Choose the one to keep; the others are merged into it and deleted.
+      </p>
+
+      {error && (
+        <p className="mb-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      <ul className="divide-y divide-gray-200 dark:divide-gray-700">
+        {groups.map(group => {
+          const key = groupKey(group);
+          const keepPostId = keptPostIds[key] || group.posts[0].id;
+
+          return (
+            <li key={key} className="py-3">
+              <div className="flex items-start justify-between gap-4 mb-2">
+                <p className="text-sm text-gray-700 dark:text-gray-300 truncate">{group.canonicalUrl}</p>
+                <button
+                  onClick={() => handleMerge(group)}
+                  disabled={mergingGroup === key}
+                  className="shrink-0 text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50"
+                >
+                  {mergingGroup === key ? 'Merging…' : 'Merge'}
+                </button>
+              </div>
+              {group.posts.map(post => (
+                <label key={post.id} className="flex items-start gap-2 py-1 text-sm cursor-pointer">
+                  <input
+                    type="radio"
+                    name={`keep-${key}`}
+                    checked={keepPostId === post.id}
+                    onChange={() => setKeptPostIds(prev => ({ ...prev, [key]: post.id }))}
+                    className="mt-1"
+                  />
+                  <span className="min-w-0">
+                    <span className="block font-medium text-gray-900 dark:text-white truncate">{post.title || 'Untitled'}</span>
+                    <span className="block text-xs text-gray-500 dark:text-gray-400 truncate">
+                      {post.url} · {post.status}
+                      {` · added ${format(new Date(post.created_at), 'MMM d, yyyy')}`}
+                    </span>
+                  </span>
+                </label>
+              ))}
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+}
@@ -0,0 +1,266 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { IngestionItemStatus, IngestionJob, IngestionJobDetails } from '@/lib/ingestion/jobs';
+
+interface ImportJobsProps {
+  userId: string;
+  organizationId: string | null;
+  // A job started elsewhere on the page (CSV upload); shown and run as soon as it changes
+  startedJob?: IngestionJobDetails | null;
+}
+
+const ITEM_STATUS_CLASSES: Record<IngestionItemStatus, string> = {
+  pending: 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300',
+  processing: 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200',
+  imported: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  skipped: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  failed: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+// Wait before asking again when another run is busy with the remaining items
+const IDLE_POLL_MS = 3000;
+
+const describeJob = (job: IngestionJob) => {
+  const source = job.source_type === 'csv' ? job.source_name || 'CSV upload' : job.source_url;
+  return `${job.watched_source_id ? 'Watched ' : ''}${job.source_type.toUpperCase()}: ${source}`;
+};
+
+/**
+ * Server-side imports: a sitemap, RSS or Atom feed entered here, or a CSV
+ * uploaded on the page. The server queues the URLs; while this page is open it
+ * keeps importing them a few at a time and shows the outcome of each one (the
+ * cron finishes the job otherwise). Recent imports can be reopened from any session.
+ */
+export default function ImportJobs({ userId, organizationId, startedJob }: ImportJobsProps) {
+  const [sourceUrl, setSourceUrl] = useState('');
+  const [jobs, setJobs] = useState<IngestionJob[]>([]);
+  const [details, setDetails] = useState<IngestionJobDetails | null>(null);
+  const [isStarting, setIsStarting] = useState(false);
+  const [isRunning, setIsRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  // Bumped to stop the loop of a job that is no longer shown
+  const runIdRef = useRef(0);
+  const stopRunning = useCallback(() => {
+    runIdRef.current++;
+  }, []);
+
+  const fetchJobs = useCallback(async (): Promise<IngestionJob[]> => {
+    const params = new URLSearchParams({ userId });
+    if (organizationId) params.set('organizationId', organizationId);
+    const response = await fetch(`/api/ingestion?${params.toString()}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || 'Failed to load imports');
+    }
+    setJobs(data.jobs || []);
+    return data.jobs || [];
+  }, [userId, organizationId]);
+
+  const runJob = useCallback(async (jobId: string) => {
+    const runId = ++runIdRef.current;
+    setIsRunning(true);
+    try {
+      while (runIdRef.current === runId) {
+        const response = await fetch('/api/ingestion/run', {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ jobId, userId })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || 'Import failed');
+        }
+        if (runIdRef.current !== runId) break;
+
+        setDetails({ job: data.job, items: data.items, counts: data.counts });
+        if (data.job.status === 'completed') {
+          fetchJobs().catch(err => console.error('Error loading imports:', err));
+          break;
+        }
+        if (data.run.processed === 0) {
+          await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+        }
+      }
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Import failed');
+    } finally {
+      if (runIdRef.current === runId) setIsRunning(false);
+    }
+  }, [userId, fetchJobs]);
+
+  const showJob = useCallback((jobDetails: IngestionJobDetails) => {
+    stopRunning();
+    setIsRunning(false);
+    setError(null);
+    setDetails(jobDetails);
+    if (jobDetails.job.status === 'running') runJob(jobDetails.job.id);
+  }, [runJob, stopRunning]);
+
+  const openJob = async (jobId: string) => {
+    try {
+      const response = await fetch(`/api/ingestion?jobId=${jobId}&userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to load import');
+      }
+      showJob(data);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to load import');
+    }
+  };
+
+  // Pick up the latest import of this organization, and keep it going if it's unfinished
+  useEffect(() => {
+    stopRunning();
+    setDetails(null);
+    setError(null);
+    let cancelled = false;
+
+    const loadLatestJob = async () => {
+      try {
+        const recentJobs = await fetchJobs();
+        if (!recentJobs.length || cancelled) return;
+
+        const response = await fetch(`/api/ingestion?jobId=${recentJobs[0].id}&userId=${userId}`);
+        const data = await response.json();
+        if (!response.ok || cancelled) return;
+
+        showJob(data);
+      } catch (err) {
+        console.error('Error loading imports:', err);
+      }
+    };
+
+    loadLatestJob();
+    return () => {
+      cancelled = true;
+      stopRunning();
+    };
+  }, [userId, fetchJobs, showJob, stopRunning]);
+
+  useEffect(() => {
+    if (!startedJob) return;
+    showJob(startedJob);
+    fetchJobs().catch(err => console.error('Error loading imports:', err));
+  }, [startedJob, showJob, fetchJobs]);
+
+  const startFeedImport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!sourceUrl.trim()) return;
+
+    setIsStarting(true);
+    setError(null);
+    try {
+      const response = await fetch('/api/ingestion', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceUrl: sourceUrl.trim(), userId, organizationId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Could not read this sitemap or feed');
+      }
+      setSourceUrl('');
+      showJob(data);
+      await fetchJobs();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read this sitemap or feed');
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const done = details ? details.counts.imported + details.counts.skipped + details.counts.failed : 0;
+  const percent = details && details.job.total_items > 0 ? Math.round((done / details.job.total_items) * 100) : 0;
+
+  return (
+    <div className="w-full max-w-2xl mt-8 p-6 bg-white dark:bg-gray-800 rounded-lg shadow-md text-left">
+      <h2 className="text-2xl font-semibold mb-2 dark:text-white text-center">Import a Sitemap or Feed</h2>
+      <p className="mb-4 text-gray-600 dark:text-gray-300 text-center">
+        Every page listed in a sitemap.xml, RSS or Atom feed, or in an uploaded CSV, is analyzed and added to your library. Pages you already have are skipped.
+      </p>
+
+      <form onSubmit={startFeedImport} className="flex gap-2">
+        <input
+          type="text"
+          placeholder="https://example.com/sitemap.xml"
+          value={sourceUrl}
+          onChange={(e) => setSourceUrl(e.target.value)}
+          disabled={isStarting || isRunning}
+          className="flex-1 px-4 py-3 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+        />
+        <button
+          type="submit"
+          disabled={isStarting || isRunning || !sourceUrl.trim()}
+          className="px-6 py-3 bg-blue-600 hover:bg-blue-700 text-white font-medium rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {isStarting ? 'Reading…' : 'Import'}
+        </button>
+      </form>
+
+      {error && (
+        <p className="mt-3 text-sm text-red-600 dark:text-red-400">{error}</p>
+      )}
+
+      {jobs.length > 1 && (
+        <div className="mt-4 flex items-center gap-2 text-sm">
+          <label htmlFor="import-job" className="text-gray-600 dark:text-gray-300 shrink-0">Recent imports:</label>
+          <select
+            id="import-job"
+            value={details?.job.id || ''}
+            onChange={(e) => openJob(e.target.value)}
+            className="flex-1 min-w-0 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            {jobs.map(job => (
+              <option key={job.id} value={job.id}>
+                {new Date(job.created_at).toLocaleString()} · {describeJob(job)}{job.status === 'running' ? ' (running)' : ''}
+              </option>
+            ))}
+          </select>
+        </div>
+      )}
+
+      {details && (
+        <div className="mt-4">
+          <div className="flex justify-between text-sm text-gray-700 dark:text-gray-300 mb-1">
+            <span className="truncate mr-4" title={details.job.source_url || details.job.source_name || ''}>
+              {describeJob(details.job)}
+            </span>
+            <span className="shrink-0">
+              {details.job.status === 'completed' ? 'Done' : isRunning ? 'Importing…' : 'Queued'} · {done}/{details.job.total_items}
+            </span>
+          </div>
+          <div className="w-full bg-gray-200 dark:bg-gray-700 rounded-full h-2.5 mb-2">
+            <div className="bg-blue-600 h-2.5 rounded-full" style={{ width: `${percent}%` }}></div>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+            {details.counts.imported} {details.job.replace_existing ? 'imported or replaced' : 'imported'} · {details.counts.skipped} skipped · {details.counts.failed} failed
+            {details.job.truncated && ' · the source lists more pages than one import takes, only the first ones were queued'}
+          </p>
+
+          <ul className="max-h-72 overflow-y-auto divide-y divide-gray-200 dark:divide-gray-700 text-sm">
+            {details.items.map(item => (
+              <li key={item.id} className="py-2 flex items-start gap-3">
+                <span className={`shrink-0 inline-flex px-2 py-0.5 rounded-full text-xs font-medium ${ITEM_STATUS_CLASSES[item.status]}`}>
+                  {item.status}
+                </span>
+                <div className="min-w-0">
+                  <a href={item.url} target="_blank" rel="noopener noreferrer" className="block truncate text-blue-600 hover:underline dark:text-blue-400">
+                    {item.title || item.url}
+                  </a>
+                  {item.matched_planned_post && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Marked the planned post with this title as posted</p>
+                  )}
+                  {item.error && item.status !== 'skipped' && (
+                    <p className="text-xs text-red-600 dark:text-red-400 break-words">{item.error}</p>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,197 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { MetricName, OrganizationMetrics } from '@/lib/metrics';
+import type { MetricsCsvFormat } from '@/lib/metrics/csv';
+
+interface MetricsUploadProps {
+  organizationId: string;
+  userId: string;
+}
+
+// Labels of the exports; the server knows their columns (see METRICS_CSV_FORMATS)
+const FORMAT_OPTIONS: { value: MetricsCsvFormat | ''; label: string }[] = [
+  { value: '', label: 'Detect from the columns' },
+  { value: 'x', label: 'X post analytics' },
+  { value: 'linkedin', label: 'LinkedIn page content export' },
+  { value: 'instagram', label: 'Instagram (Meta Business Suite)' },
+  { value: 'facebook', label: 'Facebook (Meta Business Suite)' },
+  { value: 'generic', label: 'Generic (url, date, impressions, ...)' }
+];
+
+const METRIC_LABELS: Record<MetricName, string> = {
+  impressions: 'Impressions',
+  clicks: 'Clicks',
+  likes: 'Likes',
+  shares: 'Shares',
+  comments: 'Comments',
+  saves: 'Saves'
+};
+
+const inputClassName = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * Record how published posts performed: upload a platform's analytics export,
+ * or fetch the numbers from the platforms the organization publishes to.
+ * Shows the organization's totals so far.
+ */
+export default function MetricsUpload({ organizationId, userId }: MetricsUploadProps) {
+  const [format, setFormat] = useState<MetricsCsvFormat | ''>('');
+  const [asOf, setAsOf] = useState(today);
+  const [metrics, setMetrics] = useState<OrganizationMetrics | null>(null);
+  const [isUploading, setIsUploading] = useState(false);
+  const [isSyncing, setIsSyncing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchMetrics = useCallback(async () => {
+    const response = await fetch(`/api/posts/metrics?organizationId=${organizationId}&userId=${userId}`);
+    const data = await response.json();
+    if (!response.ok) throw new Error(data.error || 'Failed to load metrics');
+    setMetrics(data);
+  }, [organizationId, userId]);
+
+  useEffect(() => {
+    fetchMetrics().catch(error => console.error('Error loading metrics:', error));
+  }, [fetchMetrics]);
+
+  const upload = async (csv: string, fileName: string) => {
+    setIsUploading(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/posts/metrics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          csv,
+          format: format || undefined,
+          // Noon keeps the day the same in every time zone
+          recordedAt: `${asOf}T12:00:00.000Z`,
+          organizationId,
+          userId
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to upload metrics');
+
+      const notes = [
+        data.unmatched.length > 0 && `${data.unmatched.length} URL${data.unmatched.length === 1 ? '' : 's'} matched no post`,
+        data.invalid > 0 && `${data.invalid} row${data.invalid === 1 ? '' : 's'} without a URL or numbers`,
+        data.truncated && 'only the first rows were read'
+      ].filter(Boolean);
+      setMessage({
+        type: 'success',
+        text: `${fileName}: recorded ${data.recorded} post${data.recorded === 1 ? '' : 's'}${notes.length ? ` (${notes.join('; ')})` : ''}.`
+      });
+      await fetchMetrics();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to upload metrics' });
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const handleFile = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    if (!file.name.toLowerCase().endsWith('.csv')) {
+      setMessage({ type: 'error', text: 'CSV files only, please' });
+      return;
+    }
+
+    const reader = new FileReader();
+    reader.onload = (event) => {
+      const content = event.target?.result as string;
+      if (!content || !content.trim()) {
+        setMessage({ type: 'error', text: 'The CSV file is empty' });
+      } else {
+        upload(content, file.name);
+      }
+    };
+    reader.onerror = () => setMessage({ type: 'error', text: 'Error reading file' });
+    reader.readAsText(file);
+  };
+
+  const sync = async () => {
+    setIsSyncing(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/posts/metrics', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sync: true, organizationId, userId })
+      });
+      const data = await response.json();
+      if (!response.ok) throw new Error(data.error || 'Failed to sync metrics');
+
+      if (data.errors.length > 0) {
+        setMessage({ type: 'error', text: data.errors.map((error: { platform: string; error: string }) => `${error.platform}: ${error.error}`).join('; ') });
+      } else {
+        setMessage({
+          type: 'success',
+          text: `Synced ${data.synced} post${data.synced === 1 ? '' : 's'}${data.skipped ? `; ${data.skipped} skipped without platform credentials` : ''}.`
+        });
+      }
+      await fetchMetrics();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to sync metrics' });
+    } finally {
+      setIsSyncing(false);
+    }
+  };
+
+  const busy = isUploading || isSyncing;
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap items-end gap-3 text-sm">
+        <label className="flex flex-col gap-1 text-gray-700 dark:text-gray-300">
+          Export format
+          <select value={format} onChange={(e) => setFormat(e.target.value as MetricsCsvFormat | '')} className={inputClassName} disabled={busy}>
+            {FORMAT_OPTIONS.map(option => (
+              <option key={option.value} value={option.value}>{option.label}</option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-col gap-1 text-gray-700 dark:text-gray-300">
+          Numbers as of
+          <input type="date" value={asOf} max={today()} onChange={(e) => setAsOf(e.target.value || today())} className={inputClassName} disabled={busy} />
+        </label>
+        <label className={`px-3 py-1.5 border border-gray-300 dark:border-gray-600 rounded-md cursor-pointer bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200 hover:bg-gray-200 dark:hover:bg-gray-600 ${busy ? 'opacity-50 cursor-not-allowed' : ''}`}>
+          {isUploading ? 'Uploading...' : 'Upload CSV'}
+          <input type="file" accept=".csv" className="hidden" onChange={handleFile} disabled={busy} />
+        </label>
+        <button
+          onClick={sync}
+          disabled={busy}
+          className="px-3 py-1.5 bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+        >
+          {isSyncing ? 'Syncing...' : 'Sync from connected platforms'}
+        </button>
+      </div>
+
+      {metrics && metrics.posts.length > 0 && (
+        <div className="grid grid-cols-3 sm:grid-cols-6 gap-2">
+          {(Object.keys(METRIC_LABELS) as MetricName[]).map(metric => (
+            <div key={metric} className="p-2 rounded-md bg-gray-50 dark:bg-gray-700">
+              <div className="text-xs text-gray-500 dark:text-gray-400">{METRIC_LABELS[metric]}</div>
+              <div className="text-lg font-semibold text-gray-800 dark:text-gray-100">{metrics.totals[metric].toLocaleString()}</div>
+            </div>
+          ))}
+          <p className="col-span-full text-xs text-gray-500 dark:text-gray-400">
+            Latest numbers of {metrics.posts.length} post{metrics.posts.length === 1 ? '' : 's'}.
+          </p>
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
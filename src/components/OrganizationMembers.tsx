@@ -0,0 +1,125 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { useAuth } from '@/lib/auth-context';
+import { MEMBER_ROLE_LABELS, MEMBER_ROLES, MemberRole } from '@/lib/approvals';
+
+interface OrganizationMembersProps {
+  organizationId: string;
+  canManage: boolean; // Only admins may change roles
+}
+
+interface Member {
+  userId: string;
+  role: string;
+  name: string | null;
+  email: string | null;
+}
+
+/**
+ * The members of an organization and their roles. Admins approve join
+ * requests and make members reviewers (who approve suggested posts) or
+ * editors (who assign reviewers) here.
+ */
+export default function OrganizationMembers({ organizationId, canManage }: OrganizationMembersProps) {
+  const { user } = useAuth();
+  const [members, setMembers] = useState<Member[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [savingMemberId, setSavingMemberId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchMembers = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/members?organizationId=${organizationId}&userId=${user.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load members');
+      }
+      setMembers(data.members || []);
+    } catch (error) {
+      console.error('Error fetching organization members:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load members');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, organizationId]);
+
+  useEffect(() => {
+    fetchMembers();
+  }, [fetchMembers]);
+
+  const changeRole = async (memberId: string, role: MemberRole) => {
+    if (!user) return;
+
+    setSavingMemberId(memberId);
+    setError(null);
+    try {
+      const response = await fetch('/api/organizations/members', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, userId: user.id, memberId, role })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to change the role');
+      }
+      setMembers(prev => prev.map(member => member.userId === memberId ? { ...member, role } : member));
+    } catch (error) {
+      console.error('Error changing member role:', error);
+      setError(error instanceof Error ? error.message : 'Failed to change the role');
+    } finally {
+      setSavingMemberId(null);
+    }
+  };
+
+  const roleLabel = (role: string) => MEMBER_ROLE_LABELS[role as MemberRole] || role;
+
+  return (
+    <div>
+      <h4 className="font-semibold dark:text-white mb-2">Members</h4>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+
+      {isLoading && members.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading members...</p>
+      ) : (
+        <ul className="divide-y divide-gray-200 dark:divide-gray-600 text-sm">
+          {members.map(member => (
+            <li key={member.userId} className="py-2 flex justify-between items-center gap-4">
+              <div>
+                <p className="text-gray-900 dark:text-white">
+                  {member.name || member.email || 'Unknown user'}
+                  {member.userId === user?.id && <span className="text-gray-500 dark:text-gray-400"> (you)</span>}
+                </p>
+                {member.name && member.email && (
+                  <p className="text-xs text-gray-500 dark:text-gray-400">{member.email}</p>
+                )}
+              </div>
+              {canManage ? (
+                <select
+                  value={member.role}
+                  onChange={(e) => changeRole(member.userId, e.target.value as MemberRole)}
+                  disabled={savingMemberId !== null}
+                  className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white disabled:opacity-50"
+                >
+                  {!MEMBER_ROLES.includes(member.role as MemberRole) && <option value={member.role}>{member.role}</option>}
+                  {MEMBER_ROLES.map(role => <option key={role} value={role}>{MEMBER_ROLE_LABELS[role]}</option>)}
+                </select>
+              ) : (
+                <span className="text-gray-600 dark:text-gray-300">{roleLabel(member.role)}</span>
+              )}
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <p className="text-xs text-gray-500 dark:text-gray-400 mt-2">
+        Admins and reviewers approve, reject and request changes to suggested posts; editors assign them a reviewer.
+      </p>
+    </div>
+  );
+}
@@ -1,7 +1,9 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import { CalendarViewType } from '@/components/calendar/CalendarContext';
-import { ChainStep } from '@/app/api/post-generation-chain/types';
+import { ChainStep, PostIdea } from '@/app/api/post-generation-chain/types';
+import { subscribeToChainStream } from '@/utils/chainStream';
+import { getLocalTimezone } from '@/lib/scheduling/timezone';
 
 interface PlatformSetting {
   platform: string;
@@ -45,6 +47,8 @@ export default function PlannerChainModal({
   
   // Custom prompt state
   const [customPrompt, setCustomPrompt] = useState('');
+  // Plan for the topics the organization's posts haven't covered
+  const [fillGaps, setFillGaps] = useState(false);
   
   // Chain state
   const [chainState, setChainState] = useState<ChainState>({
@@ -56,6 +60,10 @@ export default function PlannerChainModal({
   // Generated posts
   const [generatedPosts, setGeneratedPosts] = useState<any[]>([]);
   
+  // Ideas streamed while the chain runs (later steps replace earlier ones)
+  const [streamedIdeas, setStreamedIdeas] = useState<PostIdea[]>([]);
+  const stopStreamRef = useRef<(() => void) | null>(null);
+  
   // Handle count change for platforms
   const handleCountChange = (platform: string, newCount: number) => {
     setPlatformSettings(prev => 
@@ -65,6 +73,7 @@ export default function PlannerChainModal({
   
   // Generate posts using the chain API
   const handleGeneratePlan = async () => {
+    setStreamedIdeas([]);
     setChainState({
       isGenerating: true,
       step: 'initializing',
@@ -98,7 +107,9 @@ export default function PlannerChainModal({
           currentDate: currentDate.toISOString(),
           platformSettings: activePlatforms,
           customPrompt: customPrompt || undefined,
-          organizationId
+          fillGaps: fillGaps || undefined,
+          organizationId,
+          timezone: getLocalTimezone()
         })
       });
       
@@ -109,9 +120,9 @@ export default function PlannerChainModal({
       
       const data = await response.json();
       
-      // Start polling for results using the chainId
+      // Stream progress and partial results using the chainId
       if (data.chainId) {
-        startResultPolling(data.chainId);
+        followChain(data.chainId);
       } else {
         throw new Error('No chain ID returned from API');
       }
@@ -127,60 +138,45 @@ export default function PlannerChainModal({
     }
   };
   
-  // Poll for chain results
-  const startResultPolling = (chainId: string) => {
-    // Set up polling interval
-    const pollInterval = setInterval(async () => {
-      try {
-        // Fetch current state from the chain-results endpoint
-        const response = await fetch(`/api/chain-results?chainId=${chainId}`);
+  // Follow the chain over SSE, showing each partial result as it is produced
+  const followChain = (chainId: string) => {
+    stopStreamRef.current?.();
+    
+    stopStreamRef.current = subscribeToChainStream(chainId, {
+      onProgress: (data) => {
+        setChainState({
+          isGenerating: data.isGenerating,
+          step: data.step,
+          progress: data.progress,
+          error: data.error
+        });
         
-        if (!response.ok) {
-          throw new Error('Failed to fetch chain results');
+        // Final messages carry the generated posts
+        if (!data.isGenerating && data.step === 'complete' && data.posts) {
+          setGeneratedPosts(data.posts);
         }
-        
-        const data = await response.json();
-        
-        if (data && data.chainState) {
-          // Update local chain state
-          setChainState({
-            isGenerating: data.chainState.isGenerating,
-            step: data.chainState.step,
-            progress: data.chainState.progress,
-            error: data.chainState.error
-          });
-          
-          // If we have final results, update posts and stop polling
-          if (data.chainState.step === 'complete' && 
-              data.chainState.partialResults?.finalPosts) {
-            setGeneratedPosts(data.chainState.partialResults.finalPosts);
-            clearInterval(pollInterval);
-          }
-          
-          // If there's an error, stop polling
-          if (data.chainState.step === 'error') {
-            clearInterval(pollInterval);
-          }
+      },
+      onPartialResult: (key, items) => {
+        if (key !== 'finalPosts') {
+          setStreamedIdeas(items as PostIdea[]);
         }
-      } catch (error) {
-        console.error('Error polling for results:', error);
-        
-        // Stop polling on error
-        clearInterval(pollInterval);
-        
-        setChainState({
+      },
+      onConnectionError: () => {
+        setChainState(prev => ({
+          ...prev,
           isGenerating: false,
           step: 'error',
-          progress: 0,
-          error: error instanceof Error ? error.message : 'Failed to fetch results'
-        });
+          error: 'Lost connection to the post generator'
+        }));
       }
-    }, 2000); // Poll every 2 seconds
-    
-    // Clean up interval on component unmount
-    return () => clearInterval(pollInterval);
+    });
   };
   
+  // Close the stream when the modal unmounts
+  useEffect(() => {
+    return () => stopStreamRef.current?.();
+  }, []);
+  
   // Save generated posts to the database
   const handleSavePlan = async () => {
     try {
@@ -282,6 +278,15 @@ export default function PlannerChainModal({
             className="w-full border dark:border-gray-600 rounded p-2 h-24 dark:bg-gray-700 dark:text-white dark:placeholder-gray-400"
             disabled={chainState.isGenerating}
           />
+          <label className="mt-2 flex items-center gap-2 text-sm dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={fillGaps}
+              onChange={(e) => setFillGaps(e.target.checked)}
+              disabled={chainState.isGenerating}
+            />
+            Fill content gaps: plan for target keywords no post covers yet and themes that went quiet
+          </label>
         </div>
         
         {/* Progress indicator */}
@@ -302,6 +307,25 @@ export default function PlannerChainModal({
           </div>
         )}
         
+        {/* Ideas produced so far */}
+        {chainState.isGenerating && streamedIdeas.length > 0 && (
+          <div className="mb-6">
+            <h3 className="text-lg font-semibold mb-2 dark:text-white">
+              {streamedIdeas.length} ideas so far
+            </h3>
+            <ul className="max-h-48 overflow-y-auto border dark:border-gray-700 rounded p-3 dark:bg-gray-700 space-y-2">
+              {streamedIdeas.map((idea) => (
+                <li key={idea.id} className="flex justify-between text-sm">
+                  <span className="dark:text-white">{idea.title}</span>
+                  <span className="text-xs bg-gray-200 dark:bg-gray-600 dark:text-gray-200 px-2 py-1 rounded">
+                    {idea.platform}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          </div>
+        )}
+        
         {/* Error message */}
         {chainState.error && (
           <div className="mb-6 p-3 bg-red-100 dark:bg-red-900/20 border border-red-300 dark:border-red-700 rounded text-red-700 dark:text-red-300">
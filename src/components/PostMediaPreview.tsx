@@ -0,0 +1,98 @@
+'use client';
+
+import React from 'react';
+import Image from 'next/image';
+import type { MediaAsset, MediaKind, PostMedia } from '@/lib/ingestion/media';
+
+const MEDIA_LABELS: Record<MediaKind, string> = {
+  video: 'Video',
+  audio: 'Audio',
+  image: 'Image'
+};
+
+const MEDIA_BADGE_CLASSES: Record<MediaKind, string> = {
+  video: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200',
+  audio: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200',
+  image: 'bg-sky-100 text-sky-800 dark:bg-sky-900 dark:text-sky-200'
+};
+
+const PROVIDER_LABELS: Record<string, string> = {
+  youtube: 'YouTube',
+  vimeo: 'Vimeo',
+  tiktok: 'TikTok',
+  wistia: 'Wistia',
+  spotify: 'Spotify',
+  soundcloud: 'SoundCloud',
+  'apple-podcasts': 'Apple Podcasts'
+};
+
+// 75 -> "1:15", 3725 -> "1:02:05"
+export const formatMediaDuration = (seconds: number) => {
+  const total = Math.round(seconds);
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, '0');
+  return hours > 0 ? `${hours}:${String(minutes).padStart(2, '0')}:${secs}` : `${minutes}:${secs}`;
+};
+
+// One badge per kind of media: how many there are and the provider or length of the first
+const summarize = (assets: MediaAsset[]) =>
+  (['video', 'audio', 'image'] as MediaKind[])
+    .map(kind => {
+      const ofKind = assets.filter(asset => asset.kind === kind);
+      const first = ofKind[0];
+      if (!first) return null;
+
+      const detail = kind === 'image'
+        ? ''
+        : [first.provider && PROVIDER_LABELS[first.provider], first.duration && formatMediaDuration(first.duration)]
+          .filter(Boolean)
+          .join(' · ');
+      return { kind, count: ofKind.length, detail };
+    })
+    .filter((badge): badge is { kind: MediaKind; count: number; detail: string } => !!badge);
+
+interface PostMediaPreviewProps {
+  media?: PostMedia | null;
+  // Badges only, for cards too small for a thumbnail
+  compact?: boolean;
+  thumbnailClassName?: string;
+}
+
+/**
+ * The thumbnail of a post and a badge per kind of media its page embeds
+ * (videos, audio, images), from the media found when it was analyzed.
+ * Renders nothing for posts without media.
+ */
+export default function PostMediaPreview({ media, compact = false, thumbnailClassName = 'w-16 h-10' }: PostMediaPreviewProps) {
+  const badges = summarize(media?.assets || []);
+  if (!media || (badges.length === 0 && !media.thumbnailUrl)) return null;
+
+  return (
+    <div className={`flex items-center gap-2 ${compact ? 'shrink-0' : 'min-w-0'}`}>
+      {!compact && media.thumbnailUrl && (
+        <Image
+          src={media.thumbnailUrl}
+          alt=""
+          width={160}
+          height={90}
+          unoptimized
+          className={`shrink-0 object-cover rounded ${thumbnailClassName}`}
+        />
+      )}
+      <div className="flex flex-wrap gap-1 min-w-0">
+        {badges.map(badge => (
+          <span
+            key={badge.kind}
+            className={`inline-flex items-center px-1.5 rounded text-[10px] font-medium leading-4 ${MEDIA_BADGE_CLASSES[badge.kind]}`}
+            title={`${badge.count} ${MEDIA_LABELS[badge.kind].toLowerCase()}${badge.count === 1 ? '' : 's'}`}
+          >
+            {MEDIA_LABELS[badge.kind]}
+            {badge.count > 1 && ` ×${badge.count}`}
+            {!compact && badge.detail && ` · ${badge.detail}`}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
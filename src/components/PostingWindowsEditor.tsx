@@ -0,0 +1,204 @@
+'use client';
+
+import React, { useState } from 'react';
+import {
+  DAY_NAMES,
+  DEFAULT_POSTING_WINDOWS,
+  POSTING_PLATFORMS,
+  PostingPlatform,
+  PostingWindow,
+  PostingWindows,
+  isValidTimezone
+} from '@/lib/scheduling';
+
+interface PostingWindowsEditorProps {
+  value: PostingWindows;
+  onChange: (windows: PostingWindows) => void;
+}
+
+const PLATFORM_LABELS: Record<PostingPlatform, string> = {
+  web: 'Web',
+  x: '𝕏',
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+};
+
+const inputClassName = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function PostingWindowsEditor({ value, onChange }: PostingWindowsEditorProps) {
+  // Blackout date being typed for each platform
+  const [newBlackoutDates, setNewBlackoutDates] = useState<Partial<Record<PostingPlatform, string>>>({});
+
+  const updateWindow = (platform: PostingPlatform, window: PostingWindow | null) => {
+    const next = { ...value };
+    if (window) {
+      next[platform] = window;
+    } else {
+      delete next[platform];
+    }
+    onChange(next);
+  };
+
+  const toggleDay = (platform: PostingPlatform, window: PostingWindow, day: number) => {
+    const days = window.days.includes(day)
+      ? window.days.filter(d => d !== day)
+      : [...window.days, day].sort((a, b) => a - b);
+    updateWindow(platform, { ...window, days });
+  };
+
+  const updateHourRange = (platform: PostingPlatform, window: PostingWindow, index: number, field: 'start' | 'end', hour: number) => {
+    const hours = window.hours.map((range, i) => i === index ? { ...range, [field]: hour } : range);
+    updateWindow(platform, { ...window, hours });
+  };
+
+  const addBlackoutDate = (platform: PostingPlatform, window: PostingWindow) => {
+    const date = newBlackoutDates[platform];
+    if (!date || window.blackoutDates?.includes(date)) return;
+
+    updateWindow(platform, { ...window, blackoutDates: [...(window.blackoutDates || []), date].sort() });
+    setNewBlackoutDates(prev => ({ ...prev, [platform]: '' }));
+  };
+
+  return (
+    <div className="space-y-4">
+      {POSTING_PLATFORMS.map(platform => {
+        const customWindow = value[platform];
+        const window = customWindow || DEFAULT_POSTING_WINDOWS[platform];
+        const timezoneInvalid = !!window.timezone && !isValidTimezone(window.timezone);
+
+        return (
+          <div key={platform} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-medium text-gray-800 dark:text-gray-200">{PLATFORM_LABELS[platform]}</h4>
+              <label className="flex items-center text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={!!customWindow}
+                  onChange={(e) => updateWindow(platform, e.target.checked ? { ...DEFAULT_POSTING_WINDOWS[platform] } : null)}
+                  className="mr-2 h-4 w-4 text-blue-600 border-gray-300 rounded focus:ring-blue-500"
+                />
+                Custom window
+              </label>
+            </div>
+
+            <fieldset disabled={!customWindow} className={customWindow ? '' : 'opacity-60'}>
+              {/* Days */}
+              <div className="flex flex-wrap gap-1 mb-3">
+                {DAY_NAMES.map((name, day) => (
+                  <button
+                    key={name}
+                    type="button"
+                    onClick={() => toggleDay(platform, window, day)}
+                    className={`px-2 py-1 text-xs rounded ${
+                      window.days.includes(day)
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-gray-100 text-gray-600 dark:bg-gray-700 dark:text-gray-300'
+                    }`}
+                  >
+                    {name.slice(0, 3)}
+                  </button>
+                ))}
+              </div>
+
+              {/* Hour ranges */}
+              <div className="space-y-2 mb-3">
+                {window.hours.map((range, index) => (
+                  <div key={index} className="flex items-center space-x-2 text-sm text-gray-700 dark:text-gray-300">
+                    <span>From</span>
+                    <input
+                      type="number"
+                      min={0}
+                      max={23}
+                      value={range.start}
+                      onChange={(e) => updateHourRange(platform, window, index, 'start', parseInt(e.target.value, 10) || 0)}
+                      className={`w-16 ${inputClassName}`}
+                    />
+                    <span>to</span>
+                    <input
+                      type="number"
+                      min={1}
+                      max={24}
+                      value={range.end}
+                      onChange={(e) => updateHourRange(platform, window, index, 'end', parseInt(e.target.value, 10) || 0)}
+                      className={`w-16 ${inputClassName}`}
+                    />
+                    <span>h</span>
+                    {window.hours.length > 1 && (
+                      <button
+                        type="button"
+                        onClick={() => updateWindow(platform, { ...window, hours: window.hours.filter((_, i) => i !== index) })}
+                        className="text-red-600 hover:text-red-800 dark:text-red-400"
+                      >
+                        Remove
+                      </button>
+                    )}
+                  </div>
+                ))}
+                <button
+                  type="button"
+                  onClick={() => updateWindow(platform, { ...window, hours: [...window.hours, { start: 18, end: 21 }] })}
+                  className="text-sm text-blue-600 hover:text-blue-800 dark:text-blue-400"
+                >
+                  + Add hour range
+                </button>
+              </div>
+
+              {/* Timezone */}
+              <div className="mb-3">
+                <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Timezone</label>
+                <input
+                  type="text"
+                  value={window.timezone || ''}
+                  onChange={(e) => updateWindow(platform, { ...window, timezone: e.target.value || undefined })}
+                  placeholder="Organization timezone, e.g. Europe/Amsterdam"
+                  className={`w-full ${inputClassName} ${timezoneInvalid ? 'border-red-500' : ''}`}
+                />
+                {timezoneInvalid && (
+                  <p className="text-xs text-red-600 mt-1">Unknown timezone, it will be ignored when saving</p>
+                )}
+              </div>
+
+              {/* Blackout dates */}
+              <div>
+                <label className="block text-sm text-gray-700 dark:text-gray-300 mb-1">Blackout dates</label>
+                <div className="flex items-center space-x-2 mb-2">
+                  <input
+                    type="date"
+                    value={newBlackoutDates[platform] || ''}
+                    onChange={(e) => setNewBlackoutDates(prev => ({ ...prev, [platform]: e.target.value }))}
+                    className={inputClassName}
+                  />
+                  <button
+                    type="button"
+                    onClick={() => addBlackoutDate(platform, window)}
+                    className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 rounded-md"
+                  >
+                    Add
+                  </button>
+                </div>
+                {window.blackoutDates && window.blackoutDates.length > 0 && (
+                  <div className="flex flex-wrap gap-1">
+                    {window.blackoutDates.map(date => (
+                      <span key={date} className="inline-flex items-center px-2 py-1 text-xs bg-red-50 text-red-700 dark:bg-red-900/30 dark:text-red-300 rounded">
+                        {date}
+                        <button
+                          type="button"
+                          onClick={() => updateWindow(platform, { ...window, blackoutDates: window.blackoutDates?.filter(d => d !== date) })}
+                          className="ml-1"
+                          aria-label={`Remove ${date}`}
+                        >
+                          ×
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            </fieldset>
+          </div>
+        );
+      })}
+    </div>
+  );
+}
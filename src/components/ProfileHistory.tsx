@@ -0,0 +1,237 @@
+'use client';
+
+import { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/lib/auth-context';
+import type { ProfileChange, ProfileSnapshot, ProfileSource, ProfileVersionSummary } from '@/lib/profile-versions';
+
+interface ProfileHistoryProps {
+  organizationId: string;
+  canRollback: boolean; // Only admins may roll the profile back
+  onRolledBack?: (profile: ProfileSnapshot) => void;
+}
+
+const SOURCE_LABELS: Record<ProfileSource, string> = {
+  baseline: 'History started',
+  analysis: 'Post analysis',
+  preferences: 'Preferences edited',
+  rollback: 'Rolled back'
+};
+
+// Values longer than this are cut in the diff
+const MAX_VALUE_CHARS = 300;
+
+const formatValue = (value: unknown) => {
+  if (value === undefined || value === null) return '';
+  const text = typeof value === 'string' ? value : JSON.stringify(value);
+  return text.length > MAX_VALUE_CHARS ? `${text.slice(0, MAX_VALUE_CHARS)}…` : text;
+};
+
+/**
+ * Every version of an organization's info and preferences, who made it and
+ * what it changed, with a diff between any two versions and rollback
+ */
+export default function ProfileHistory({ organizationId, canRollback, onRolledBack }: ProfileHistoryProps) {
+  const { user } = useAuth();
+  const [versions, setVersions] = useState<ProfileVersionSummary[]>([]);
+  const [users, setUsers] = useState<Record<string, { name: string | null; email: string | null }>>({});
+  const [currentVersion, setCurrentVersion] = useState<number | null>(null);
+  const [comparison, setComparison] = useState<{ from: number; to: number; changes: ProfileChange[] } | null>(null);
+  const [compareFrom, setCompareFrom] = useState<number | null>(null);
+  const [compareTo, setCompareTo] = useState<number | null>(null);
+  const [isLoading, setIsLoading] = useState(false);
+  const [rollingBack, setRollingBack] = useState<number | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchHistory = useCallback(async () => {
+    if (!user) return;
+
+    setIsLoading(true);
+    setError(null);
+    try {
+      const response = await fetch(`/api/organizations/profile-versions?organizationId=${organizationId}&userId=${user.id}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to load profile history');
+      }
+      setVersions(data.versions || []);
+      setUsers(data.users || {});
+      setCurrentVersion(data.currentVersion);
+      setCompareTo(data.currentVersion);
+      setCompareFrom(data.currentVersion > 1 ? data.currentVersion - 1 : data.currentVersion);
+    } catch (error) {
+      console.error('Error fetching profile history:', error);
+      setError(error instanceof Error ? error.message : 'Failed to load profile history');
+    } finally {
+      setIsLoading(false);
+    }
+  }, [user, organizationId]);
+
+  useEffect(() => {
+    fetchHistory();
+  }, [fetchHistory]);
+
+  const compare = async (from: number, to: number) => {
+    if (!user) return;
+
+    setError(null);
+    try {
+      const query = new URLSearchParams({ organizationId, userId: user.id, from: String(from), to: String(to) });
+      const response = await fetch(`/api/organizations/profile-versions?${query.toString()}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to compare versions');
+      }
+      setCompareFrom(from);
+      setCompareTo(to);
+      setComparison({ from, to, changes: data.changes });
+    } catch (error) {
+      console.error('Error comparing profile versions:', error);
+      setError(error instanceof Error ? error.message : 'Failed to compare versions');
+    }
+  };
+
+  const rollback = async (version: number) => {
+    if (!user || !window.confirm(`Restore the organization info and preferences of version ${version}? The current profile stays in the history.`)) {
+      return;
+    }
+
+    setRollingBack(version);
+    setError(null);
+    try {
+      const response = await fetch('/api/organizations/profile-versions', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, userId: user.id, version })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to roll back the profile');
+      }
+      if (data.profile) {
+        onRolledBack?.({ info: data.profile.info, preferences: data.profile.preferences });
+      }
+      setComparison(null);
+      await fetchHistory();
+    } catch (error) {
+      console.error('Error rolling back profile:', error);
+      setError(error instanceof Error ? error.message : 'Failed to roll back the profile');
+    } finally {
+      setRollingBack(null);
+    }
+  };
+
+  const authorName = (userId: string | null) =>
+    userId ? users[userId]?.name || users[userId]?.email || 'Unknown user' : 'System';
+
+  return (
+    <div>
+      <h4 className="font-semibold dark:text-white mb-2">Profile history</h4>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400 mb-2">{error}</p>}
+
+      {isLoading && versions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">Loading history...</p>
+      ) : versions.length === 0 ? (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No profile changes recorded yet.</p>
+      ) : (
+        <>
+          <ul className="divide-y divide-gray-200 dark:divide-gray-600 text-sm mb-3">
+            {versions.map(version => (
+              <li key={version.version} className="py-2 flex justify-between items-start gap-4">
+                <div>
+                  <p className="text-gray-900 dark:text-white">
+                    v{version.version} · {SOURCE_LABELS[version.source] || version.source}
+                    {version.restoredVersion && ` to v${version.restoredVersion}`}
+                    {version.version === currentVersion && (
+                      <span className="ml-2 px-1.5 py-0.5 rounded text-xs bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200">current</span>
+                    )}
+                  </p>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {authorName(version.userId)} · {format(new Date(version.createdAt), 'MMM d, yyyy h:mm a')}
+                  </p>
+                  {version.changedPaths.length > 0 && (
+                    <p className="text-xs text-gray-500 dark:text-gray-400">Changed {version.changedPaths.join(', ')}</p>
+                  )}
+                </div>
+                <div className="flex gap-2 shrink-0">
+                  {version.version > 1 && (
+                    <button
+                      onClick={() => compare(version.version - 1, version.version)}
+                      className="text-xs px-2 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-600 dark:text-gray-200 dark:hover:bg-gray-500"
+                    >
+                      Changes
+                    </button>
+                  )}
+                  {canRollback && version.version !== currentVersion && (
+                    <button
+                      onClick={() => rollback(version.version)}
+                      disabled={rollingBack !== null}
+                      className="text-xs px-2 py-1 rounded bg-amber-100 text-amber-800 hover:bg-amber-200 dark:bg-amber-900 dark:text-amber-200 disabled:opacity-50"
+                    >
+                      {rollingBack === version.version ? 'Restoring...' : 'Restore'}
+                    </button>
+                  )}
+                </div>
+              </li>
+            ))}
+          </ul>
+
+          <div className="flex items-center gap-2 text-sm mb-3">
+            <span className="text-gray-600 dark:text-gray-300">Compare</span>
+            <select
+              value={compareFrom ?? ''}
+              onChange={(e) => setCompareFrom(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+            </select>
+            <span className="text-gray-600 dark:text-gray-300">with</span>
+            <select
+              value={compareTo ?? ''}
+              onChange={(e) => setCompareTo(Number(e.target.value))}
+              className="px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              {versions.map(version => <option key={version.version} value={version.version}>v{version.version}</option>)}
+            </select>
+            <button
+              onClick={() => compareFrom && compareTo && compare(compareFrom, compareTo)}
+              disabled={!compareFrom || !compareTo}
+              className="px-3 py-1 bg-blue-600 hover:bg-blue-700 text-white rounded-md text-sm disabled:opacity-50"
+            >
+              Show diff
+            </button>
+          </div>
+        </>
+      )}
+
+      {comparison && (
+        <div className="border border-gray-200 dark:border-gray-600 rounded-md overflow-x-auto">
+          <p className="px-3 py-2 text-xs text-gray-500 dark:text-gray-400 border-b border-gray-200 dark:border-gray-600">
+            v{comparison.from} → v{comparison.to}: {comparison.changes.length === 0 ? 'no differences' : `${comparison.changes.length} fields differ`}
+          </p>
+          {comparison.changes.length > 0 && (
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left text-gray-600 dark:text-gray-300">
+                  <th className="px-3 py-1 font-medium">Field</th>
+                  <th className="px-3 py-1 font-medium">v{comparison.from}</th>
+                  <th className="px-3 py-1 font-medium">v{comparison.to}</th>
+                </tr>
+              </thead>
+              <tbody>
+                {comparison.changes.map(change => (
+                  <tr key={change.path} className="align-top border-t border-gray-100 dark:border-gray-700">
+                    <td className="px-3 py-1 font-mono text-gray-800 dark:text-gray-200 whitespace-nowrap">{change.path}</td>
+                    <td className="px-3 py-1 text-red-700 dark:text-red-300 break-words">{formatValue(change.before)}</td>
+                    <td className="px-3 py-1 text-green-700 dark:text-green-300 break-words">{formatValue(change.after)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,226 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { PublishingPlatform } from '@/lib/publishing/types';
+
+interface PublishingConnectionsEditorProps {
+  organizationId: string;
+  userId: string;
+}
+
+interface Connection {
+  platform: PublishingPlatform;
+  updatedAt: string;
+}
+
+const PLATFORMS: { platform: PublishingPlatform; label: string; fields: { name: string; label: string; optional?: boolean; secret?: boolean }[] }[] = [
+  { platform: 'x', label: '𝕏', fields: [{ name: 'accessToken', label: 'Access token', secret: true }] },
+  {
+    platform: 'linkedin',
+    label: 'LinkedIn',
+    fields: [
+      { name: 'accessToken', label: 'Access token', secret: true },
+      { name: 'authorUrn', label: 'Author URN (urn:li:organization:…)' }
+    ]
+  },
+  {
+    platform: 'instagram',
+    label: 'Instagram',
+    fields: [
+      { name: 'accessToken', label: 'Access token', secret: true },
+      { name: 'businessAccountId', label: 'Business account ID' },
+      { name: 'defaultImageUrl', label: 'Default image URL', optional: true }
+    ]
+  },
+  {
+    platform: 'web',
+    label: 'Web / CMS',
+    fields: [
+      { name: 'endpoint', label: 'Webhook URL' },
+      { name: 'apiKey', label: 'API key', optional: true, secret: true }
+    ]
+  }
+];
+
+const inputClassName = 'w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+export default function PublishingConnectionsEditor({ organizationId, userId }: PublishingConnectionsEditorProps) {
+  const [connections, setConnections] = useState<Connection[]>([]);
+  const [isMock, setIsMock] = useState(false);
+  // Credentials being typed; stored secrets are never sent back to the browser
+  const [drafts, setDrafts] = useState<Partial<Record<PublishingPlatform, Record<string, string>>>>({});
+  const [busyPlatform, setBusyPlatform] = useState<PublishingPlatform | null>(null);
+  const [isPublishing, setIsPublishing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchConnections = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/organizations/publishing-credentials?organizationId=${organizationId}&userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to load publishing connections');
+      }
+      setConnections(data.connections || []);
+      setIsMock(!!data.mock);
+    } catch (error) {
+      console.error('Error loading publishing connections:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load publishing connections' });
+    }
+  }, [organizationId, userId]);
+
+  useEffect(() => {
+    setDrafts({});
+    setMessage(null);
+    fetchConnections();
+  }, [fetchConnections]);
+
+  const updateDraft = (platform: PublishingPlatform, field: string, value: string) => {
+    setDrafts(prev => ({ ...prev, [platform]: { ...(prev[platform] || {}), [field]: value } }));
+  };
+
+  const saveConnection = async (platform: PublishingPlatform) => {
+    setBusyPlatform(platform);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/organizations/publishing-credentials', {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, userId, platform, credentials: drafts[platform] || {} })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to save credentials');
+      }
+      setDrafts(prev => ({ ...prev, [platform]: {} }));
+      setMessage({ type: 'success', text: 'Connection saved' });
+      await fetchConnections();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to save credentials' });
+    } finally {
+      setBusyPlatform(null);
+    }
+  };
+
+  const removeConnection = async (platform: PublishingPlatform) => {
+    setBusyPlatform(platform);
+    setMessage(null);
+    try {
+      const response = await fetch(
+        `/api/organizations/publishing-credentials?organizationId=${organizationId}&userId=${userId}&platform=${platform}`,
+        { method: 'DELETE' }
+      );
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to remove connection');
+      }
+      await fetchConnections();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove connection' });
+    } finally {
+      setBusyPlatform(null);
+    }
+  };
+
+  const publishDuePosts = async () => {
+    setIsPublishing(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/publishing/run', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ organizationId, userId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to publish posts');
+      }
+      setMessage({
+        type: data.failed > 0 || data.retrying > 0 ? 'error' : 'success',
+        text: `Published ${data.published} of ${data.attempted} due posts` +
+          (data.retrying > 0 ? `, ${data.retrying} will be retried` : '') +
+          (data.failed > 0 ? `, ${data.failed} failed (see the inspector)` : '')
+      });
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to publish posts' });
+    } finally {
+      setIsPublishing(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {isMock && (
+        <p className="text-sm text-yellow-700 dark:text-yellow-300">
+          Mock publishing is on (PUBLISHING_CONNECTOR=mock): posts are written to local files instead of being sent to the platforms.
+        </p>
+      )}
+
+      {PLATFORMS.map(({ platform, label, fields }) => {
+        const connection = connections.find(c => c.platform === platform);
+        const draft = drafts[platform] || {};
+
+        return (
+          <div key={platform} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+            <div className="flex justify-between items-center mb-2">
+              <h4 className="font-medium text-gray-800 dark:text-gray-200">{label}</h4>
+              <span className={`text-xs ${connection ? 'text-green-600 dark:text-green-400' : 'text-gray-500 dark:text-gray-400'}`}>
+                {connection ? `Connected, updated ${new Date(connection.updatedAt).toLocaleDateString()}` : 'Not connected'}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-1 sm:grid-cols-2 gap-2 mb-2">
+              {fields.map(field => (
+                <input
+                  key={field.name}
+                  type={field.secret ? 'password' : 'text'}
+                  value={draft[field.name] || ''}
+                  onChange={(e) => updateDraft(platform, field.name, e.target.value)}
+                  placeholder={`${field.label}${field.optional ? ' (optional)' : ''}`}
+                  autoComplete="off"
+                  className={inputClassName}
+                />
+              ))}
+            </div>
+
+            <div className="flex space-x-3 text-sm">
+              <button
+                type="button"
+                onClick={() => saveConnection(platform)}
+                disabled={busyPlatform === platform}
+                className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50"
+              >
+                {connection ? 'Replace credentials' : 'Connect'}
+              </button>
+              {connection && (
+                <button
+                  type="button"
+                  onClick={() => removeConnection(platform)}
+                  disabled={busyPlatform === platform}
+                  className="text-red-600 hover:text-red-800 dark:text-red-400 disabled:opacity-50"
+                >
+                  Disconnect
+                </button>
+              )}
+            </div>
+          </div>
+        );
+      })}
+
+      <div className="flex items-center justify-between">
+        <button
+          type="button"
+          onClick={publishDuePosts}
+          disabled={isPublishing}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 rounded-md disabled:opacity-50"
+        >
+          {isPublishing ? 'Publishing…' : 'Publish due posts now'}
+        </button>
+        {message && (
+          <p className={`text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+            {message.text}
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -12,7 +12,8 @@ import {
   Search, 
   Calendar as CalendarIcon, 
   Users, 
-  MessageSquare 
+  MessageSquare,
+  BarChart3
 } from "lucide-react";
 import { useAuth } from "../lib/auth-context";
 import { useTheme } from "../lib/theme-context";
@@ -21,6 +22,7 @@ const navItems = [
   { name: "Home", path: "/", icon: Home },
   { name: "Inspector", path: "/inspector", icon: Search },
   { name: "Calendar", path: "/calendar", icon: CalendarIcon },
+  { name: "Analytics", path: "/analytics", icon: BarChart3 },
   { name: "Organizations", path: "/organizations", icon: Users },
   { name: "Prompts", path: "/prompts", icon: MessageSquare },
 ];
@@ -0,0 +1,393 @@
+'use client';
+
+import React, { useCallback, useEffect, useRef, useState } from 'react';
+import type { CrawlPageType, SiteCrawl, SiteCrawlDetails } from '@/lib/ingestion/crawl';
+
+interface SiteCrawlerProps {
+  organizationId: string;
+  userId: string;
+}
+
+const PAGE_TYPE_LABELS: Record<CrawlPageType, string> = {
+  article: 'Article',
+  landing: 'Landing',
+  product: 'Product'
+};
+
+const PAGE_TYPE_COLORS: Record<CrawlPageType, string> = {
+  article: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  landing: 'bg-gray-100 text-gray-800 dark:bg-gray-700 dark:text-gray-200',
+  product: 'bg-purple-100 text-purple-800 dark:bg-purple-900 dark:text-purple-200'
+};
+
+const STATUS_LABELS: Record<SiteCrawl['status'], string> = {
+  crawling: 'Crawling',
+  review: 'Ready for review',
+  committed: 'Imported'
+};
+
+const inputClassName = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+// Wait before asking again when another run is busy with the remaining pages
+const IDLE_POLL_MS = 3000;
+
+/**
+ * Map the organization's site: crawl it from its homepage, review what each
+ * page was classified as, and import the selected articles as posted content.
+ * While the page is open it keeps crawling a few pages at a time (the cron
+ * finishes the crawl otherwise).
+ */
+export default function SiteCrawler({ organizationId, userId }: SiteCrawlerProps) {
+  const [crawls, setCrawls] = useState<SiteCrawl[]>([]);
+  const [details, setDetails] = useState<SiteCrawlDetails | null>(null);
+  const [seedUrl, setSeedUrl] = useState('');
+  const [maxDepth, setMaxDepth] = useState(3);
+  const [maxPages, setMaxPages] = useState(100);
+  const [includePatterns, setIncludePatterns] = useState('');
+  const [excludePatterns, setExcludePatterns] = useState('');
+  const [isStarting, setIsStarting] = useState(false);
+  const [isCrawling, setIsCrawling] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+  // Bumped to stop the loop of a crawl that is no longer shown
+  const runIdRef = useRef(0);
+  const stopRunning = useCallback(() => {
+    runIdRef.current++;
+  }, []);
+
+  const fetchCrawls = useCallback(async () => {
+    const response = await fetch(`/api/ingestion/crawl?organizationId=${organizationId}&userId=${userId}`);
+    const data = await response.json();
+    if (!response.ok) {
+      throw new Error(data?.error || 'Failed to load crawls');
+    }
+    setCrawls(data.crawls || []);
+    return (data.crawls || []) as SiteCrawl[];
+  }, [organizationId, userId]);
+
+  const runCrawl = useCallback(async (crawlId: string) => {
+    const runId = ++runIdRef.current;
+    setIsCrawling(true);
+    try {
+      while (runIdRef.current === runId) {
+        const response = await fetch('/api/ingestion/crawl', {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ crawlId, userId, crawl: true })
+        });
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data?.error || 'Crawl failed');
+        }
+        if (runIdRef.current !== runId) break;
+
+        setDetails({ crawl: data.crawl, pages: data.pages, counts: data.counts });
+        if (data.crawl.status !== 'crawling') {
+          fetchCrawls().catch(err => console.error('Error loading crawls:', err));
+          break;
+        }
+        if (!data.run || data.run.fetched + data.run.failed === 0) {
+          await new Promise(resolve => setTimeout(resolve, IDLE_POLL_MS));
+        }
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Crawl failed' });
+    } finally {
+      if (runIdRef.current === runId) setIsCrawling(false);
+    }
+  }, [userId, fetchCrawls]);
+
+  const showCrawl = useCallback((crawlDetails: SiteCrawlDetails) => {
+    stopRunning();
+    setIsCrawling(false);
+    setDetails(crawlDetails);
+    if (crawlDetails.crawl.status === 'crawling') runCrawl(crawlDetails.crawl.id);
+  }, [runCrawl, stopRunning]);
+
+  const openCrawl = async (crawlId: string) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/ingestion/crawl?crawlId=${crawlId}&userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to load the crawl');
+      }
+      showCrawl(data);
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load the crawl' });
+    }
+  };
+
+  useEffect(() => {
+    stopRunning();
+    setDetails(null);
+    setMessage(null);
+    fetchCrawls().catch(error => {
+      console.error('Error loading crawls:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load crawls' });
+    });
+    return () => {
+      stopRunning();
+    };
+  }, [fetchCrawls, stopRunning]);
+
+  const startCrawl = async () => {
+    if (!seedUrl.trim()) return;
+
+    setIsStarting(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/ingestion/crawl', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          url: seedUrl.trim(),
+          maxDepth,
+          maxPages,
+          includePatterns,
+          excludePatterns,
+          organizationId,
+          userId
+        })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to start the crawl');
+      }
+      setSeedUrl('');
+      showCrawl(data);
+      await fetchCrawls();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to start the crawl' });
+    } finally {
+      setIsStarting(false);
+    }
+  };
+
+  const updateCrawl = async (update: { selection?: Record<string, boolean>; commit?: boolean }) => {
+    if (!details) return;
+
+    setIsSaving(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/ingestion/crawl', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ crawlId: details.crawl.id, userId, ...update })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to update the crawl');
+      }
+      setDetails({ crawl: data.crawl, pages: data.pages, counts: data.counts });
+      if (data.job) {
+        setMessage({ type: 'success', text: `${data.job.job.total_items} pages are being imported. Follow the import on the home page.` });
+        await fetchCrawls();
+      }
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update the crawl' });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const removeCrawl = async (crawlId: string) => {
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/ingestion/crawl?crawlId=${crawlId}&userId=${userId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to remove the crawl');
+      }
+      if (details?.crawl.id === crawlId) {
+        stopRunning();
+        setIsCrawling(false);
+        setDetails(null);
+      }
+      await fetchCrawls();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove the crawl' });
+    }
+  };
+
+  const fetchedPages = details?.pages.filter(page => page.status === 'fetched') || [];
+  const selectedCount = fetchedPages.filter(page => page.selected).length;
+  const isReview = details?.crawl.status === 'review';
+
+  const selectType = (pageType: CrawlPageType, selected: boolean) => {
+    const selection: Record<string, boolean> = {};
+    fetchedPages
+      .filter(page => page.page_type === pageType && !page.existing_post_id)
+      .forEach(page => {
+        selection[page.id] = selected;
+      });
+    updateCrawl({ selection });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-md space-y-2">
+        <input
+          type="text"
+          value={seedUrl}
+          onChange={(e) => setSeedUrl(e.target.value)}
+          placeholder="https://example.com"
+          className={`w-full ${inputClassName}`}
+        />
+        <div className="flex flex-wrap items-center gap-3 text-sm text-gray-700 dark:text-gray-300">
+          <label className="flex items-center gap-1">
+            Depth
+            <input
+              type="number"
+              min={0}
+              max={5}
+              value={maxDepth}
+              onChange={(e) => setMaxDepth(parseInt(e.target.value, 10) || 0)}
+              className={`w-16 ${inputClassName}`}
+            />
+          </label>
+          <label className="flex items-center gap-1">
+            Max pages
+            <input
+              type="number"
+              min={1}
+              max={500}
+              value={maxPages}
+              onChange={(e) => setMaxPages(parseInt(e.target.value, 10) || 1)}
+              className={`w-20 ${inputClassName}`}
+            />
+          </label>
+        </div>
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+          <input
+            type="text"
+            value={includePatterns}
+            onChange={(e) => setIncludePatterns(e.target.value)}
+            placeholder="Only paths starting with, e.g. /blog, /resources"
+            className={inputClassName}
+          />
+          <input
+            type="text"
+            value={excludePatterns}
+            onChange={(e) => setExcludePatterns(e.target.value)}
+            placeholder="Skip paths, e.g. /tag/*, /careers"
+            className={inputClassName}
+          />
+        </div>
+        <button
+          type="button"
+          onClick={startCrawl}
+          disabled={isStarting || !seedUrl.trim()}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 rounded-md disabled:opacity-50"
+        >
+          {isStarting ? 'Starting…' : 'Crawl site'}
+        </button>
+      </div>
+
+      {crawls.length > 0 && (
+        <ul className="space-y-1 text-sm">
+          {crawls.map(crawl => (
+            <li key={crawl.id} className="flex justify-between items-center gap-3">
+              <button
+                type="button"
+                onClick={() => openCrawl(crawl.id)}
+                className={`truncate text-left hover:underline ${details?.crawl.id === crawl.id ? 'font-medium text-blue-700 dark:text-blue-300' : 'text-blue-600 dark:text-blue-400'}`}
+              >
+                {crawl.seed_url}
+              </button>
+              <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+                {STATUS_LABELS[crawl.status]} · {new Date(crawl.created_at).toLocaleDateString()}
+                <button
+                  type="button"
+                  onClick={() => removeCrawl(crawl.id)}
+                  className="ml-2 text-red-600 hover:text-red-800 dark:text-red-400"
+                >
+                  Remove
+                </button>
+              </span>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      {details && (
+        <div className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+          <p className="text-sm text-gray-700 dark:text-gray-300 mb-2">
+            {STATUS_LABELS[details.crawl.status]}{isCrawling && '…'} · {details.counts.fetched} pages crawled
+            {details.counts.queued + details.counts.processing > 0 && `, ${details.counts.queued + details.counts.processing} to go`}
+            {details.counts.failed > 0 && `, ${details.counts.failed} failed`}
+          </p>
+          {details.crawl.truncated && (
+            <p className="text-xs text-yellow-700 dark:text-yellow-400 mb-2">
+              The site has more pages than this crawl&apos;s limit of {details.crawl.max_pages}; narrow it with path patterns to reach the rest.
+            </p>
+          )}
+
+          {isReview && (
+            <div className="flex flex-wrap items-center gap-3 text-sm mb-2">
+              <button type="button" onClick={() => selectType('article', true)} disabled={isSaving} className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50">
+                Select all articles
+              </button>
+              <button type="button" onClick={() => selectType('article', false)} disabled={isSaving} className="text-gray-600 hover:text-gray-800 dark:text-gray-300 disabled:opacity-50">
+                Clear articles
+              </button>
+            </div>
+          )}
+
+          <ul className="max-h-96 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+            {details.pages.map(page => (
+              <li key={page.id} className="py-1 flex items-center gap-2 text-sm">
+                {isReview && page.status === 'fetched' ? (
+                  <input
+                    type="checkbox"
+                    checked={page.selected}
+                    disabled={isSaving || !!page.existing_post_id}
+                    onChange={(e) => updateCrawl({ selection: { [page.id]: e.target.checked } })}
+                  />
+                ) : (
+                  <span className="w-4" />
+                )}
+                {page.page_type ? (
+                  <span className={`shrink-0 px-1.5 text-xs rounded ${PAGE_TYPE_COLORS[page.page_type]}`}>
+                    {PAGE_TYPE_LABELS[page.page_type]}
+                  </span>
+                ) : (
+                  <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">{page.status}</span>
+                )}
+                <a
+                  href={page.url}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  title={page.error || page.url}
+                  className={`truncate hover:underline ${page.status === 'failed' ? 'text-red-600 dark:text-red-400' : 'text-gray-800 dark:text-gray-200'}`}
+                >
+                  {page.title || page.url}
+                </a>
+                {page.existing_post_id && (
+                  <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">in library</span>
+                )}
+              </li>
+            ))}
+          </ul>
+
+          {isReview && (
+            <button
+              type="button"
+              onClick={() => updateCrawl({ commit: true })}
+              disabled={isSaving || selectedCount === 0}
+              className="mt-3 px-3 py-1 text-sm bg-blue-600 hover:bg-blue-700 text-white rounded-md disabled:opacity-50"
+            >
+              {isSaving ? 'Saving…' : `Import ${selectedCount} selected ${selectedCount === 1 ? 'page' : 'pages'}`}
+            </button>
+          )}
+        </div>
+      )}
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,173 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/lib/auth-context';
+import type { TopicAnalysis } from '@/lib/topics';
+
+interface TopicClustersProps {
+  organizationId: string;
+}
+
+const monthLabel = (month: string) => format(new Date(`${month}-01T00:00:00`), 'MMM yy');
+
+/**
+ * The themes an organization's posts fall into, charted per month, and the
+ * target keywords no post covers yet
+ */
+export default function TopicClusters({ organizationId }: TopicClustersProps) {
+  const { user } = useAuth();
+  const [analysis, setAnalysis] = useState<TopicAnalysis | null>(null);
+  const [months, setMonths] = useState(12);
+  // Embeddings cost an API call over every post, so they are only used when asked for
+  const [useEmbeddings, setUseEmbeddings] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!user) return;
+
+    let cancelled = false;
+    const fetchTopics = async () => {
+      setIsLoading(true);
+      setError(null);
+      try {
+        const query = new URLSearchParams({
+          organizationId,
+          userId: user.id,
+          months: String(months),
+          ...(useEmbeddings && { method: 'embeddings' }),
+          timezone: Intl.DateTimeFormat().resolvedOptions().timeZone
+        });
+        const response = await fetch(`/api/analytics/topics?${query.toString()}`);
+        const data = await response.json();
+        if (!response.ok) {
+          throw new Error(data.error || 'Failed to analyze topics');
+        }
+        if (!cancelled) setAnalysis(data);
+      } catch (error) {
+        console.error('Error fetching topics:', error);
+        if (!cancelled) setError(error instanceof Error ? error.message : 'Failed to analyze topics');
+      } finally {
+        if (!cancelled) setIsLoading(false);
+      }
+    };
+
+    fetchTopics();
+    return () => {
+      cancelled = true;
+    };
+  }, [user, organizationId, months, useEmbeddings]);
+
+  const maxCount = Math.max(1, ...(analysis?.frequency.flatMap(entry => Object.values(entry.counts)) || []));
+
+  return (
+    <div className="bg-white dark:bg-gray-800 rounded-lg shadow-md p-6">
+      <div className="flex justify-between items-center mb-1">
+        <h2 className="text-xl font-semibold dark:text-white">Topics</h2>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-1 text-sm text-gray-600 dark:text-gray-300" title="Group posts by meaning with your LLM provider's embeddings; each refresh embeds every post">
+            <input
+              type="checkbox"
+              checked={useEmbeddings}
+              onChange={(e) => setUseEmbeddings(e.target.checked)}
+            />
+            Use embeddings
+          </label>
+          <select
+            value={months}
+            onChange={(e) => setMonths(Number(e.target.value))}
+            className="px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+          >
+            <option value={6}>Last 6 months</option>
+            <option value={12}>Last 12 months</option>
+            <option value={24}>Last 24 months</option>
+          </select>
+        </div>
+      </div>
+
+      {error && <p className="text-sm text-red-600 dark:text-red-400">{error}</p>}
+
+      {isLoading && !analysis ? (
+        <div className="flex justify-center items-center h-32">
+          <div className="animate-spin h-6 w-6 border-4 border-blue-500 border-t-transparent rounded-full"></div>
+        </div>
+      ) : analysis && (
+        <div className={isLoading ? 'opacity-60' : ''}>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            {analysis.themes.length > 0
+              ? `${analysis.posts} posts grouped into ${analysis.themes.length} themes (${analysis.method === 'embeddings' ? 'embeddings' : 'keyword similarity'}). Darker cells mean more posts that month.`
+              : 'There are too few posts to group into themes yet.'}
+          </p>
+
+          {analysis.themes.length > 0 && (
+            <div className="overflow-x-auto mb-6">
+              <table className="text-xs w-full">
+                <thead>
+                  <tr>
+                    <th className="text-left font-medium text-gray-600 dark:text-gray-300 pr-4 pb-1">Theme</th>
+                    {analysis.months.map(month => (
+                      <th key={month} className="font-normal text-gray-500 dark:text-gray-400 px-0.5 pb-1 whitespace-nowrap">
+                        {monthLabel(month)}
+                      </th>
+                    ))}
+                    <th className="text-right font-medium text-gray-600 dark:text-gray-300 pl-4 pb-1">Posts</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {analysis.themes.map(theme => (
+                    <tr key={theme.id}>
+                      <td className="pr-4 py-0.5 text-gray-800 dark:text-gray-200 whitespace-nowrap" title={`${theme.terms.join(', ')}\ne.g. ${theme.samples.map(sample => sample.title).join('; ')}`}>
+                        {theme.label}
+                      </td>
+                      {analysis.frequency.map(entry => {
+                        const count = entry.counts[theme.id] || 0;
+                        return (
+                          <td key={entry.month} className="px-0.5 py-0.5">
+                            <div
+                              className="h-5 rounded-sm bg-blue-600"
+                              style={{ opacity: count > 0 ? 0.15 + 0.85 * (count / maxCount) : 0.05 }}
+                              title={`${theme.label}, ${monthLabel(entry.month)}: ${count} posts`}
+                            />
+                          </td>
+                        );
+                      })}
+                      <td className="pl-4 py-0.5 text-right text-gray-600 dark:text-gray-300">{theme.posts}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          )}
+
+          <h3 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">Target keywords</h3>
+          {analysis.keywords.length === 0 ? (
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              The organization has no target keywords. Analyze it from the Organizations page to suggest some.
+            </p>
+          ) : (
+            <div className="flex flex-wrap gap-2">
+              {analysis.keywords.map(entry => (
+                <span
+                  key={entry.keyword}
+                  className={`px-2 py-1 rounded-full text-xs ${entry.posts === 0
+                    ? 'bg-amber-100 text-amber-800 dark:bg-amber-900 dark:text-amber-200'
+                    : 'bg-gray-100 text-gray-700 dark:bg-gray-700 dark:text-gray-300'}`}
+                >
+                  {entry.keyword}: {entry.posts === 0 ? 'not covered' : `${entry.posts} posts`}
+                </span>
+              ))}
+            </div>
+          )}
+
+          {(analysis.uncoveredKeywords.length > 0 || analysis.staleThemes.length > 0) && (
+            <p className="mt-4 text-sm text-gray-600 dark:text-gray-300">
+              {analysis.staleThemes.length > 0 && `Gone quiet: ${analysis.staleThemes.map(theme => theme.label).join('; ')}. `}
+              Turn on &quot;Fill content gaps&quot; in the planner to plan posts for these topics.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,229 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import type { WatchedSource, WatchedSourcePollResult } from '@/lib/ingestion/watched';
+
+interface WatchedSourcesEditorProps {
+  organizationId: string;
+  userId: string;
+}
+
+const INTERVALS: { minutes: number; label: string }[] = [
+  { minutes: 15, label: 'Every 15 minutes' },
+  { minutes: 60, label: 'Every hour' },
+  { minutes: 360, label: 'Every 6 hours' },
+  { minutes: 1440, label: 'Once a day' }
+];
+
+const SOURCE_TYPE_LABELS: Record<WatchedSource['source_type'], string> = {
+  sitemap: 'Sitemap',
+  rss: 'RSS',
+  atom: 'Atom',
+  page: 'Page'
+};
+
+const inputClassName = 'px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white';
+
+const intervalLabel = (minutes: number) =>
+  INTERVALS.find(interval => interval.minutes === minutes)?.label || `Every ${minutes} minutes`;
+
+export default function WatchedSourcesEditor({ organizationId, userId }: WatchedSourcesEditorProps) {
+  const [sources, setSources] = useState<WatchedSource[]>([]);
+  const [newUrl, setNewUrl] = useState('');
+  const [newInterval, setNewInterval] = useState(60);
+  const [isAdding, setIsAdding] = useState(false);
+  const [busySourceId, setBusySourceId] = useState<string | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchSources = useCallback(async () => {
+    try {
+      const response = await fetch(`/api/ingestion/watched?organizationId=${organizationId}&userId=${userId}`);
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to load watched sources');
+      }
+      setSources(data.sources || []);
+    } catch (error) {
+      console.error('Error loading watched sources:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load watched sources' });
+    }
+  }, [organizationId, userId]);
+
+  useEffect(() => {
+    setMessage(null);
+    fetchSources();
+  }, [fetchSources]);
+
+  const addSource = async () => {
+    if (!newUrl.trim()) return;
+
+    setIsAdding(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/ingestion/watched', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ url: newUrl.trim(), pollIntervalMinutes: newInterval, organizationId, userId })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to add the source');
+      }
+      setNewUrl('');
+      setMessage({ type: 'success', text: 'Source added. Content published from now on will be imported.' });
+      await fetchSources();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to add the source' });
+    } finally {
+      setIsAdding(false);
+    }
+  };
+
+  const updateSource = async (sourceId: string, update: { isActive?: boolean; pollIntervalMinutes?: number; pollNow?: boolean }) => {
+    setBusySourceId(sourceId);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/ingestion/watched', {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ sourceId, userId, ...update })
+      });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to update the source');
+      }
+
+      const poll: WatchedSourcePollResult | null = data.poll;
+      if (poll) {
+        setMessage(poll.error
+          ? { type: 'error', text: poll.error }
+          : { type: 'success', text: poll.newItems > 0 ? `Found ${poll.newItems} new items, they are being imported` : 'Nothing new' });
+      }
+      await fetchSources();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to update the source' });
+    } finally {
+      setBusySourceId(null);
+    }
+  };
+
+  const removeSource = async (sourceId: string) => {
+    setBusySourceId(sourceId);
+    setMessage(null);
+    try {
+      const response = await fetch(`/api/ingestion/watched?sourceId=${sourceId}&userId=${userId}`, { method: 'DELETE' });
+      const data = await response.json();
+      if (!response.ok) {
+        throw new Error(data?.error || 'Failed to remove the source');
+      }
+      await fetchSources();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to remove the source' });
+    } finally {
+      setBusySourceId(null);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      {sources.map(source => (
+        <div key={source.id} className="p-3 border border-gray-200 dark:border-gray-700 rounded-md">
+          <div className="flex justify-between items-center gap-3 mb-1">
+            <a
+              href={source.url}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="truncate text-sm text-blue-600 hover:underline dark:text-blue-400"
+            >
+              {source.url}
+            </a>
+            <span className="shrink-0 text-xs text-gray-500 dark:text-gray-400">
+              {SOURCE_TYPE_LABELS[source.source_type]}{source.is_active ? '' : ' · paused'}
+            </span>
+          </div>
+
+          <p className="text-xs text-gray-500 dark:text-gray-400 mb-2">
+            {source.last_polled_at ? `Last checked ${new Date(source.last_polled_at).toLocaleString()}` : 'Not checked yet'}
+            {source.is_active && ` · next check ${new Date(source.next_poll_at).toLocaleString()}`}
+          </p>
+          {source.last_error && (
+            <p className="text-xs text-red-600 dark:text-red-400 mb-2 break-words">{source.last_error}</p>
+          )}
+
+          <div className="flex flex-wrap items-center gap-3 text-sm">
+            <select
+              value={source.poll_interval_minutes}
+              onChange={(e) => updateSource(source.id, { pollIntervalMinutes: parseInt(e.target.value, 10) })}
+              disabled={busySourceId === source.id}
+              className={inputClassName}
+            >
+              {!INTERVALS.some(interval => interval.minutes === source.poll_interval_minutes) && (
+                <option value={source.poll_interval_minutes}>{intervalLabel(source.poll_interval_minutes)}</option>
+              )}
+              {INTERVALS.map(interval => (
+                <option key={interval.minutes} value={interval.minutes}>{interval.label}</option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => updateSource(source.id, { pollNow: true })}
+              disabled={busySourceId === source.id}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50"
+            >
+              {busySourceId === source.id ? 'Checking…' : 'Check now'}
+            </button>
+            <button
+              type="button"
+              onClick={() => updateSource(source.id, { isActive: !source.is_active })}
+              disabled={busySourceId === source.id}
+              className="text-gray-600 hover:text-gray-800 dark:text-gray-300 disabled:opacity-50"
+            >
+              {source.is_active ? 'Pause' : 'Resume'}
+            </button>
+            <button
+              type="button"
+              onClick={() => removeSource(source.id)}
+              disabled={busySourceId === source.id}
+              className="text-red-600 hover:text-red-800 dark:text-red-400 disabled:opacity-50"
+            >
+              Remove
+            </button>
+          </div>
+        </div>
+      ))}
+
+      <div className="flex flex-col sm:flex-row gap-2">
+        <input
+          type="text"
+          value={newUrl}
+          onChange={(e) => setNewUrl(e.target.value)}
+          placeholder="https://example.com/feed.xml, a sitemap or a profile page"
+          className={`flex-1 ${inputClassName}`}
+        />
+        <select
+          value={newInterval}
+          onChange={(e) => setNewInterval(parseInt(e.target.value, 10))}
+          className={inputClassName}
+        >
+          {INTERVALS.map(interval => (
+            <option key={interval.minutes} value={interval.minutes}>{interval.label}</option>
+          ))}
+        </select>
+        <button
+          type="button"
+          onClick={addSource}
+          disabled={isAdding || !newUrl.trim()}
+          className="px-3 py-1 text-sm bg-gray-100 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-200 rounded-md disabled:opacity-50"
+        >
+          {isAdding ? 'Reading…' : 'Watch'}
+        </button>
+      </div>
+
+      {message && (
+        <p className={`text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
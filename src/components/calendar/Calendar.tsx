@@ -19,10 +19,12 @@ import DayView from './DayView';
 import YearView from './YearView';
 import PlannerModal from './PlannerModal';
 import CalendarExportMenu from './CalendarExportMenu';
+import TimezoneSelector from './TimezoneSelector';
 
 export default function Calendar() {
-  const { currentDate, setCurrentDate, view, setView, getPostsForDate, getPostsForMonth, getPostsForWeek } = useCalendar();
+  const { currentDate, setCurrentDate, view, setView, timezone, getToday, getPostsForDate, getPostsForMonth, getPostsForWeek } = useCalendar();
   const [isPlannerOpen, setIsPlannerOpen] = useState(false);
+  const [isTimezoneOpen, setIsTimezoneOpen] = useState(false);
   
   // Effect to sync with URL params (optional enhancement for sharable links)
   useEffect(() => {
@@ -67,10 +69,8 @@ export default function Calendar() {
   };
   
   const resetToToday = () => {
-    // Create a new date and set it to UTC midnight
-    const nowUTC = new Date();
-    nowUTC.setUTCHours(0, 0, 0, 0);
-    setCurrentDate(nowUTC);
+    // Today as seen in the calendar's display timezone
+    setCurrentDate(getToday());
   };
   
   // Format the header title based on the current view
@@ -205,6 +205,19 @@ export default function Calendar() {
           
           {/* Right action buttons */}
           <div className="sm:w-1/4 flex justify-end items-center gap-2">
+            <div className="relative">
+              <button
+                onClick={() => setIsTimezoneOpen(!isTimezoneOpen)}
+                className="px-3 py-1.5 text-sm font-medium text-gray-700 dark:text-gray-200 border border-gray-300 dark:border-gray-600 rounded-md hover:bg-gray-50 dark:hover:bg-gray-700 max-w-40 truncate"
+                title="Times are shown in this timezone"
+              >
+                {timezone.replace(/_/g, ' ')}
+              </button>
+              {isTimezoneOpen && (
+                <TimezoneSelector onClose={() => setIsTimezoneOpen(false)} />
+              )}
+            </div>
+            
             {view !== 'year' && (
               <button
                 onClick={() => setIsPlannerOpen(true)}
@@ -1,28 +1,60 @@
 'use client';
 
 import React, { createContext, useContext, useState, useEffect, useRef } from 'react';
-import { startOfMonth, endOfMonth, eachDayOfInterval, format, parseISO, parse, startOfWeek, endOfWeek } from 'date-fns';
+import { eachDayOfInterval, format, parseISO, parse, startOfWeek, endOfWeek } from 'date-fns';
 import { supabase } from '@/lib/supabase';
 import { useAuth } from '@/lib/auth-context';
 import { hasBeenExported, resetExportedEvents } from '@/utils/icsGenerator';
+import type { ApprovalStatus } from '@/lib/approvals';
+import type { PostMedia } from '@/lib/ingestion/media';
+import {
+  ZonedParts,
+  getLocalTimezone,
+  getZonedDateKey,
+  getZonedParts,
+  isValidTimezone,
+  parsePostedDate,
+  zonedTimeToUtc
+} from '@/lib/scheduling/timezone';
 
 export type CalendarViewType = 'day' | 'week' | 'month' | 'year';
 
+// QUEUED, PUBLISHING and FAILED are set by the publishing worker once a scheduled post is due
+export type PostStatus = 'POSTED' | 'SCHEDULED' | 'SUGGESTED' | 'QUEUED' | 'PUBLISHING' | 'FAILED';
+
+const STATUS_COLORS: Record<PostStatus, string> = {
+  POSTED: '#10b981', // green
+  SCHEDULED: '#4f46e5', // indigo
+  SUGGESTED: '#f59e0b', // amber
+  QUEUED: '#6366f1', // lighter indigo, still on its way out
+  PUBLISHING: '#6366f1',
+  FAILED: '#ef4444' // red, needs attention
+};
+
 // Update Post interface to match our Supabase schema
 export interface Post {
   id: string;
   url: string;
   title: string;
   description: string;
-  posted_date?: string;
+  posted_date?: string; // Instant (ISO string); the calendar shows it in its display timezone
   format: string;
-  status: 'POSTED' | 'SCHEDULED' | 'SUGGESTED';
+  status: PostStatus;
   platform?: string;
   color?: string;
   hasVideo?: boolean;
   hasInfographic?: boolean;
   hasPodcast?: boolean;
-  derivedFrom?: string; // For social posts derived from web content
+  media?: PostMedia | null; // Videos, audio and images found on the page when it was analyzed
+  derived_from?: string | null; // Title of the web article a social post was derived from
+  parent_post_id?: string | null; // Post it was repurposed from
+  published_url?: string | null; // Set by the publishing worker
+  published_at?: string | null;
+  publish_error?: string | null; // Last failed publishing attempt
+  attempt_count?: number;
+  next_attempt_at?: string | null;
+  approval_status?: ApprovalStatus | null; // Review state of AI suggestions; null for hand-written posts
+  reviewer_id?: string | null;
   seo_info?: {
     reasonsData: {
       reasons: string[];
@@ -31,20 +63,29 @@ export interface Post {
   };
 }
 
+// Calendar days (currentDate and the days the views render) are Dates at local
+// midnight whose year/month/day fields name a day in the display timezone.
+// Post instants are converted to that timezone before they are placed on a day.
 interface CalendarContextType {
   currentDate: Date;
   view: CalendarViewType;
+  timezone: string;
   posts: Post[];
   loading: boolean;
   error: string | null;
   setCurrentDate: (date: Date) => void;
   setView: (view: CalendarViewType) => void;
+  setTimezone: (timezone: string) => void;
   addPost: (post: Omit<Post, 'id'>) => Promise<void>;
   updatePost: (id: string, postData: Partial<Post>) => Promise<void>;
   deletePost: (id: string) => Promise<void>;
   getPostsForDate: (date: Date) => Post[];
   getPostsForMonth: (date: Date) => Post[];
   getPostsForWeek: (date: Date) => Post[];
+  getPostTime: (post: Post) => ZonedParts | null;
+  getSlotInstant: (day: Date, hour: number, minute?: number) => Date;
+  getToday: () => Date;
+  isCalendarToday: (day: Date) => boolean;
   refreshPosts: () => Promise<void>;
   isExported: (postId: string) => boolean;
 }
@@ -59,29 +100,51 @@ export function useCalendar() {
   return context;
 }
 
+// Calendar day (local midnight) for a yyyy-MM-dd key
+const dayFromKey = (dateKey: string): Date => {
+  const [year, month, day] = dateKey.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
 // Helper to get stored date from localStorage
 const getStoredDate = (): Date => {
   // For server-side rendering, use a fixed date to prevent hydration errors
   if (typeof window === 'undefined') {
     // Use the first day of the current month to avoid date-specific issues
     const now = new Date();
-    // Use UTC date to ensure GMT timezone
-    return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+    return new Date(now.getFullYear(), now.getMonth(), 1);
   }
   
   try {
     const storedDate = localStorage.getItem('calendarCurrentDate');
-    if (storedDate) {
-      return new Date(storedDate);
+    // Older versions stored an ISO timestamp at UTC midnight, its date part is the day
+    if (storedDate && /^\d{4}-\d{2}-\d{2}/.test(storedDate)) {
+      return dayFromKey(storedDate.slice(0, 10));
     }
   } catch (error) {
     console.error('Error reading date from localStorage:', error);
   }
   
-  // For client-side with no stored date, use the first day of current month in UTC
+  // For client-side with no stored date, use the first day of current month
   // to maintain consistency with server-side rendering
   const now = new Date();
-  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+  return new Date(now.getFullYear(), now.getMonth(), 1);
+};
+
+// Helper to get the display timezone from localStorage, defaulting to the browser's
+const getStoredTimezone = (): string => {
+  if (typeof window === 'undefined') return 'UTC';
+  
+  try {
+    const storedTimezone = localStorage.getItem('calendarTimezone');
+    if (isValidTimezone(storedTimezone)) {
+      return storedTimezone;
+    }
+  } catch (error) {
+    console.error('Error reading timezone from localStorage:', error);
+  }
+  
+  return getLocalTimezone();
 };
 
 // Helper to get stored view from localStorage
@@ -104,6 +167,7 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
   const [hydrated, setHydrated] = useState(false);
   const [currentDate, setCurrentDateState] = useState<Date>(getStoredDate());
   const [view, setViewState] = useState<CalendarViewType>(getStoredView());
+  const [timezone, setTimezoneState] = useState<string>(getStoredTimezone());
   const [posts, setPosts] = useState<Post[]>([]);
   const [loading, setLoading] = useState<boolean>(true);
   const [error, setError] = useState<string | null>(null);
@@ -117,17 +181,13 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
 
   // Override setCurrentDate to also persist to localStorage
   const setCurrentDate = (date: Date) => {
-    // Normalize date by setting it to midnight in UTC to avoid time-based issues
-    const normalizedDate = new Date(Date.UTC(
-      date.getUTCFullYear(),
-      date.getUTCMonth(),
-      date.getUTCDate()
-    ));
+    // Normalize to the start of the calendar day to avoid time-based issues
+    const normalizedDate = new Date(date.getFullYear(), date.getMonth(), date.getDate());
     
     setCurrentDateState(normalizedDate);
     
     try {
-      localStorage.setItem('calendarCurrentDate', normalizedDate.toISOString());
+      localStorage.setItem('calendarCurrentDate', format(normalizedDate, 'yyyy-MM-dd'));
     } catch (error) {
       console.error('Error writing date to localStorage:', error);
     }
@@ -143,6 +203,21 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
     }
   };
 
+  // Override setTimezone to also persist to localStorage
+  const setTimezone = (newTimezone: string) => {
+    if (!isValidTimezone(newTimezone)) {
+      console.error('Ignoring unknown timezone:', newTimezone);
+      return;
+    }
+    
+    setTimezoneState(newTimezone);
+    try {
+      localStorage.setItem('calendarTimezone', newTimezone);
+    } catch (error) {
+      console.error('Error writing timezone to localStorage:', error);
+    }
+  };
+
   // Check if a post has been exported
   const isExported = (postId: string): boolean => {
     return hasBeenExported(postId);
@@ -167,6 +242,7 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
         .from('posts')
         .select('*')
         .or(`user_id.eq.${user.id},organization_id.not.is.null`)
+        .is('deleted_at', null) // Merged duplicates are soft-deleted
         .order('posted_date', { ascending: false });
 
       if (fetchError) {
@@ -176,11 +252,7 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
       // Assign colors based on post status
       const postsWithColors = data?.map(post => ({
         ...post,
-        color: post.status === 'POSTED' 
-          ? '#10b981' // green for posted
-          : post.status === 'SCHEDULED' 
-            ? '#4f46e5' // indigo for scheduled
-            : '#f59e0b' // amber for suggested
+        color: getPostColor(post)
       })) || [];
       
       setPosts(postsWithColors);
@@ -347,76 +419,51 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
 
   // Helper function to determine post color based on status
   const getPostColor = (post: Post) => {
-    return post.status === 'POSTED' 
-      ? '#10b981' // green for posted
-      : post.status === 'SCHEDULED' 
-        ? '#4f46e5' // indigo for scheduled
-        : '#f59e0b'; // amber for suggested
+    return STATUS_COLORS[post.status] || STATUS_COLORS.SUGGESTED;
+  };
+
+  // Calendar day (yyyy-MM-dd) of a post in the display timezone
+  const getPostDateKey = (post: Post) => {
+    if (!post.posted_date) return null;
+    
+    const postedAt = parsePostedDate(post.posted_date);
+    return isNaN(postedAt.getTime()) ? null : getZonedDateKey(postedAt, timezone);
+  };
+
+  // Wall-clock time of a post in the display timezone
+  const getPostTime = (post: Post): ZonedParts | null => {
+    if (!post.posted_date) return null;
+    
+    const postedAt = parsePostedDate(post.posted_date);
+    return isNaN(postedAt.getTime()) ? null : getZonedParts(postedAt, timezone);
   };
 
+  // Instant of a time slot on a calendar day, read in the display timezone
+  const getSlotInstant = (day: Date, hour: number, minute: number = 0) => {
+    return zonedTimeToUtc(format(day, 'yyyy-MM-dd'), hour, minute, timezone);
+  };
+
+  // Today as a calendar day in the display timezone
+  const getToday = () => dayFromKey(getZonedDateKey(new Date(), timezone));
+
+  const isCalendarToday = (day: Date) => format(day, 'yyyy-MM-dd') === getZonedDateKey(new Date(), timezone);
+
   const getPostsForDate = (date: Date) => {
-    // Create UTC date for consistent comparison
-    const utcDate = new Date(Date.UTC(
-      date.getUTCFullYear(),
-      date.getUTCMonth(),
-      date.getUTCDate()
-    ));
-    const dateString = format(utcDate, 'yyyy-MM-dd');
+    const dateString = format(date, 'yyyy-MM-dd');
     
-    return posts.filter(post => {
-      if (!post.posted_date) return false;
-      
-      // Convert post date to UTC for consistent comparison
-      const postDateObj = new Date(post.posted_date);
-      const utcPostDate = new Date(Date.UTC(
-        postDateObj.getUTCFullYear(),
-        postDateObj.getUTCMonth(),
-        postDateObj.getUTCDate()
-      ));
-      const postDateString = format(utcPostDate, 'yyyy-MM-dd');
-      
-      return postDateString === dateString;
-    });
+    return posts.filter(post => getPostDateKey(post) === dateString);
   };
 
   const getPostsForMonth = (date: Date) => {
-    // Create UTC date for the current date
-    const utcDate = new Date(Date.UTC(
-      date.getUTCFullYear(),
-      date.getUTCMonth(),
-      date.getUTCDate()
-    ));
-    
-    // Get month boundaries in UTC
-    const monthStart = startOfMonth(utcDate);
-    const monthEnd = endOfMonth(utcDate);
+    const monthString = format(date, 'yyyy-MM');
     
-    return posts.filter(post => {
-      if (!post.posted_date) return false;
-      
-      // Convert post date to UTC for comparison
-      const postDateObj = new Date(post.posted_date);
-      const utcPostDate = new Date(Date.UTC(
-        postDateObj.getUTCFullYear(), 
-        postDateObj.getUTCMonth(), 
-        postDateObj.getUTCDate()
-      ));
-      
-      return utcPostDate >= monthStart && utcPostDate <= monthEnd;
-    });
+    return posts.filter(post => getPostDateKey(post)?.slice(0, 7) === monthString);
   };
 
   const getPostsForWeek = (date: Date) => {
-    // Create UTC date for the current date
-    const utcDate = new Date(Date.UTC(
-      date.getUTCFullYear(),
-      date.getUTCMonth(),
-      date.getUTCDate()
-    ));
-    
-    // Get week boundaries in UTC
-    const weekStart = startOfWeek(utcDate, { weekStartsOn: 0 });
-    const weekEnd = endOfWeek(utcDate, { weekStartsOn: 0 });
+    // Get week boundaries
+    const weekStart = startOfWeek(date, { weekStartsOn: 0 });
+    const weekEnd = endOfWeek(date, { weekStartsOn: 0 });
     
     // Get all days in the week
     const weekDays = eachDayOfInterval({
@@ -445,14 +492,20 @@ export function CalendarProvider({ children }: { children: React.ReactNode }) {
         posts,
         loading,
         error,
+        timezone,
         setCurrentDate,
         setView,
+        setTimezone,
         addPost,
         updatePost,
         deletePost,
         getPostsForDate,
         getPostsForMonth,
         getPostsForWeek,
+        getPostTime,
+        getSlotInstant,
+        getToday,
+        isCalendarToday,
         refreshPosts: fetchPosts,
         isExported
       }}
@@ -1,14 +1,15 @@
 'use client';
 
 import React, { useState } from 'react';
-import { format, set, isToday } from 'date-fns';
+import { format, set } from 'date-fns';
 import { useCalendar, Post } from './CalendarContext';
 import PostForm from './PostForm';
 import { getPlatformColors, getFormatColors } from './colorUtils';
+import PostMediaPreview from '@/components/PostMediaPreview';
 import { downloadDayCalendar } from '@/utils/icsGenerator';
 
 export default function DayView() {
-  const { currentDate, getPostsForDate, isExported } = useCalendar();
+  const { currentDate, getPostsForDate, getPostTime, isCalendarToday, isExported } = useCalendar();
   const [selectedTime, setSelectedTime] = useState<Date | null>(null);
   const [showPostForm, setShowPostForm] = useState(false);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
@@ -16,6 +17,18 @@ export default function DayView() {
   // Time slots for the day (from 6 AM to 9 PM)
   const timeSlots = Array.from({ length: 16 }, (_, i) => i + 6);
 
+  // Slot a post belongs in; earlier and later posts go in the first and last slot
+  const getPostSlot = (post: Post) => {
+    const time = getPostTime(post);
+    return time ? Math.min(Math.max(time.hour, timeSlots[0]), timeSlots[timeSlots.length - 1]) : null;
+  };
+
+  // Post time (HH:mm) in the calendar's timezone
+  const formatPostTime = (post: Post) => {
+    const time = getPostTime(post);
+    return time ? `${String(time.hour).padStart(2, '0')}:${String(time.minute).padStart(2, '0')}` : null;
+  };
+
   const handleTimeSlotClick = (hour: number) => {
     const newDate = set(currentDate, { hours: hour, minutes: 0, seconds: 0, milliseconds: 0 });
     setSelectedTime(newDate);
@@ -46,7 +59,7 @@ export default function DayView() {
       <div className="p-3 border-b dark:border-gray-700 w-full">
         <div className="text-center">
           <div className="text-lg text-gray-700 dark:text-gray-300">{format(currentDate, 'EEEE')}</div>
-          <div className={`text-3xl font-bold ${isToday(currentDate) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-900 dark:text-white'}`}>
+          <div className={`text-3xl font-bold ${isCalendarToday(currentDate) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-900 dark:text-white'}`}>
             {format(currentDate, 'MMMM d, yyyy')}
           </div>
         </div>
@@ -56,11 +69,7 @@ export default function DayView() {
       <div className="overflow-auto flex-1 w-full">
         {timeSlots.map((hour) => {
           const timeSlotDate = set(currentDate, { hours: hour });
-          const posts = getPostsForDate(currentDate).filter(post => {
-            if (!post.posted_date) return false;
-            const postDateTime = new Date(post.posted_date);
-            return postDateTime.getHours() === hour;
-          });
+          const posts = getPostsForDate(currentDate).filter(post => getPostSlot(post) === hour);
           
           return (
             <div 
@@ -89,11 +98,21 @@ export default function DayView() {
                         <div className="font-medium text-gray-800 dark:text-gray-100">
                           {post.title || 'Untitled Post'}
                         </div>
+                        {formatPostTime(post) && (
+                          <div className="text-xs text-gray-600 dark:text-gray-400">
+                            {formatPostTime(post)}
+                          </div>
+                        )}
                         {post.description && (
                           <div className="text-gray-700 dark:text-gray-300 text-sm mt-1 line-clamp-2">
                             {post.description}
                           </div>
                         )}
+                        {post.media && (
+                          <div className="mt-2">
+                            <PostMediaPreview media={post.media} thumbnailClassName="w-24 h-14" />
+                          </div>
+                        )}
                         
                         {/* Export indicator */}
                         {isExported(post.id) && (
@@ -10,12 +10,12 @@ import {
   isSameDay,
   addDays,
   startOfWeek,
-  endOfWeek,
-  isToday
+  endOfWeek
 } from 'date-fns';
 import { useCalendar, Post } from './CalendarContext';
 import PostForm from './PostForm';
 import { getPlatformColors, getFormatColors } from './colorUtils';
+import PostMediaPreview from '@/components/PostMediaPreview';
 import { downloadMonthCalendar } from '@/utils/icsGenerator';
 
 // Function to get status badge styles
@@ -27,6 +27,11 @@ const getStatusStyles = (status: string) => {
       return { bg: 'bg-blue-100 dark:bg-blue-900', text: 'text-blue-800 dark:text-blue-200' };
     case 'SUGGESTED':
       return { bg: 'bg-yellow-100 dark:bg-yellow-900', text: 'text-yellow-800 dark:text-yellow-200' };
+    case 'QUEUED':
+    case 'PUBLISHING':
+      return { bg: 'bg-indigo-100 dark:bg-indigo-900', text: 'text-indigo-800 dark:text-indigo-200' };
+    case 'FAILED':
+      return { bg: 'bg-red-100 dark:bg-red-900', text: 'text-red-800 dark:text-red-200' };
     default:
       return { bg: 'bg-gray-100 dark:bg-gray-800', text: 'text-gray-800 dark:text-gray-200' };
   }
@@ -38,6 +43,7 @@ export default function MonthView() {
     setCurrentDate, 
     getPostsForDate,
     getPostsForMonth,
+    isCalendarToday,
     loading,
     error 
   } = useCalendar();
@@ -128,7 +134,7 @@ export default function MonthView() {
           {calendarDays.map((day) => {
             const isCurrentMonth = isSameMonth(day, currentDate);
             const isSelected = selectedDate && isSameDay(day, selectedDate);
-            const isTodayDate = isToday(day);
+            const isTodayDate = isCalendarToday(day);
             const dayPosts = getPostsForDate(day);
             
             return (
@@ -180,7 +186,10 @@ export default function MonthView() {
                         `}
                         title={`${post.title || 'Untitled'} - ${post.platform || 'Website'} - ${post.format || 'Article'}`}
                       >
-                        {post.title || 'Untitled Post'}
+                        <div className="flex items-center gap-1 min-w-0">
+                          <span className="truncate">{post.title || 'Untitled Post'}</span>
+                          {post.media && <PostMediaPreview media={post.media} compact />}
+                        </div>
                       </div>
                     );
                   })}
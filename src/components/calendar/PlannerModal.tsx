@@ -7,6 +7,9 @@ import { useAuth } from '../../lib/auth-context';
 import { supabase } from '../../lib/supabase';
 import { ChainStep } from '@/app/api/post-generation-chain/types';
 import { Modal } from '../../components/ui/modal';
+import { subscribeToChainStream } from '@/utils/chainStream';
+import { parsePostedDate } from '@/lib/scheduling/timezone';
+import type { SchedulingIssue } from '@/lib/scheduling/types';
 
 interface PlatformSettings {
   platform: string;
@@ -32,6 +35,20 @@ interface PostSuggestion {
   };
 }
 
+// Post as streamed while the chain is still running
+interface StreamedPost {
+  id: string;
+  title: string;
+  platform: string;
+  concept: string;
+  format: string;
+  elaboration?: {
+    content?: string;
+    bulletPoints?: string[];
+  };
+  needsRetry?: boolean;
+}
+
 interface PlannerModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -51,12 +68,30 @@ interface ChainState {
   error?: string;
 }
 
+// Summary of a previous chain run returned by /api/chain-jobs
+interface RecentPlan {
+  id: string;
+  step: ChainStep;
+  error?: string;
+  params: {
+    timeFrame?: CalendarViewType;
+    currentDate?: string;
+    customPrompt?: string;
+    fillGaps?: boolean;
+  };
+  profileVersion: number | null;
+  createdAt: string;
+  completedAt: string | null;
+}
+
 export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }: PlannerModalProps) {
   // Custom prompt state
   const [customPrompt, setCustomPrompt] = useState('');
+  // Plan for the topics the organization's posts haven't covered
+  const [fillGaps, setFillGaps] = useState(false);
   
   // Get calendar context for refreshing posts
-  const { refreshPosts } = useCalendar();
+  const { refreshPosts, timezone } = useCalendar();
   
   // Loading and error states
   const [error, setError] = useState<string | null>(null);
@@ -80,6 +115,9 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
   // Preview suggestions
   const [suggestions, setSuggestions] = useState<PostSuggestion[]>([]);
   
+  // Scheduling constraints the scheduler could not satisfy for the current plan
+  const [schedulingIssues, setSchedulingIssues] = useState<SchedulingIssue[]>([]);
+  
   // Get the authenticated user
   const { user } = useAuth();
   
@@ -92,9 +130,17 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
   const [regeneratingPostIndex, setRegeneratingPostIndex] = useState<number | null>(null);
   const [regenerationError, setRegenerationError] = useState<string | null>(null);
   
-  // Polling mechanism as fallback
-  const [pollingActive, setPollingActive] = useState(false);
-  const pollingIntervalRef = useRef<NodeJS.Timeout | null>(null);
+  // Previously generated plans that can be reopened
+  const [recentPlans, setRecentPlans] = useState<RecentPlan[]>([]);
+  const [reopeningPlanId, setReopeningPlanId] = useState<string | null>(null);
+  
+  // Chain behind the current plan, used to resume or retry it after a failure
+  const [activeChainId, setActiveChainId] = useState<string | null>(null);
+  const [recoveringChain, setRecoveringChain] = useState(false);
+  
+  // Progress stream for the running chain and the posts it has produced so far
+  const chainStreamRef = useRef<(() => void) | null>(null);
+  const [streamedPosts, setStreamedPosts] = useState<StreamedPost[]>([]);
   
   // Helper function for internal logging only
   const logDebug = (message: string) => {
@@ -176,6 +222,139 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
     fetchUserOrganizations();
   }, [user]);
   
+  // Fetch recent finished plans for the selected organization
+  useEffect(() => {
+    if (!isOpen || !user || !selectedOrganization) return;
+    
+    const fetchRecentPlans = async () => {
+      try {
+        const response = await fetch(
+          `/api/chain-jobs?organizationId=${selectedOrganization.id}&userId=${user.id}&finished=true&limit=5`
+        );
+        
+        if (!response.ok) {
+          logDebug(`Failed to fetch recent plans: ${response.status}`);
+          return;
+        }
+        
+        const data = await response.json();
+        setRecentPlans((data.jobs || []).filter((job: RecentPlan) => job.step === 'complete'));
+      } catch (error) {
+        console.error('Error fetching recent plans:', error);
+      }
+    };
+    
+    fetchRecentPlans();
+  }, [isOpen, user, selectedOrganization]);
+  
+  // Reopen a previously generated plan from its stored chain job
+  const handleReopenPlan = async (planId: string) => {
+    setReopeningPlanId(planId);
+    setError(null);
+    
+    try {
+      const response = await fetch(`/api/chain-results?chainId=${planId}`);
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data?.error || `Failed to load plan: ${response.status}`);
+      }
+      
+      if (!data.posts || data.posts.length === 0) {
+        throw new Error('This plan has no posts to show.');
+      }
+      
+      setSchedulingIssues(data.chainState?.partialResults?.schedulingReport?.issues || []);
+      setSuggestions(data.posts.map((post: PostSuggestion) => ({
+        ...post,
+        description: typeof post.description === 'object' 
+          ? safeStringify(post.description) 
+          : post.description || ''
+      })));
+      
+      setChainState({
+        isGenerating: false,
+        step: 'complete',
+        progress: 100
+      });
+      setActiveChainId(planId);
+    } catch (error) {
+      console.error('Error reopening plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to reopen plan');
+    } finally {
+      setReopeningPlanId(null);
+    }
+  };
+  
+  // Resume a failed chain from its last completed step
+  const handleResumePlan = async () => {
+    if (!activeChainId) return;
+    
+    setRecoveringChain(true);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/chain-resume', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chainId: activeChainId, userId: user?.id })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data?.error || `Failed to resume plan: ${response.status}`);
+      }
+      
+      setChainState({
+        isGenerating: true,
+        step: 'initializing',
+        progress: 5
+      });
+      followChain(activeChainId);
+    } catch (error) {
+      console.error('Error resuming plan:', error);
+      setError(error instanceof Error ? error.message : 'Failed to resume plan');
+    } finally {
+      setRecoveringChain(false);
+    }
+  };
+  
+  // Regenerate only the posts whose content failed to generate
+  const handleRetryFailedPosts = async () => {
+    if (!activeChainId) return;
+    
+    setRecoveringChain(true);
+    setError(null);
+    
+    try {
+      const response = await fetch('/api/chain-retry', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ chainId: activeChainId, userId: user?.id })
+      });
+      const data = await response.json();
+      
+      if (!response.ok) {
+        throw new Error(data?.error || `Failed to retry posts: ${response.status}`);
+      }
+      
+      // Pick up the refreshed posts if the plan had already finished
+      if (data.finalPosts?.length > 0) {
+        await handleReopenPlan(activeChainId);
+        refreshPosts();
+      }
+      
+      if (data.stillFailing > 0) {
+        setError(`${data.stillFailing} of ${data.retried} posts still failed to generate.`);
+      }
+    } catch (error) {
+      console.error('Error retrying failed posts:', error);
+      setError(error instanceof Error ? error.message : 'Failed to retry posts');
+    } finally {
+      setRecoveringChain(false);
+    }
+  };
+  
   // Function to handle organization change
   const handleOrganizationChange = (e: React.ChangeEvent<HTMLSelectElement>) => {
     const orgId = e.target.value;
@@ -238,6 +417,7 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
       
       // Clear any previous suggestions and errors
       setSuggestions([]);
+      setSchedulingIssues([]);
       setError(null);
       
       // Start by showing the loading UI immediately
@@ -249,113 +429,11 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
       
       // Generate a unique chainId that will be used for both SSE and the API request
       const chainId = Date.now().toString();
+      setActiveChainId(chainId);
       logDebug(`Generated chainId: ${chainId}`);
       
-      // Establish SSE connection first, before making the POST request
-      logDebug('Setting up SSE connection for post generation...');
-      
-      // Create EventSource with our generated chainId
-      const eventSource = new EventSource(`/api/post-generation-chain?chainId=${chainId}`);
-      
-      // Add an open event handler
-      eventSource.onopen = () => {
-        logDebug(`SSE connection opened successfully for chainId: ${chainId}`);
-      };
-      
-      // Enhanced message event handler with debugging
-      eventSource.onmessage = (event) => {
-        try {
-          logDebug(`SSE message received: ${event.data.slice(0, 100)}...`);
-          const data = JSON.parse(event.data);
-          
-          // Verify this is for our chain
-          if (data.chainId && data.chainId !== chainId) {
-            logDebug(`Warning: Received update for wrong chain: ${data.chainId}, expected: ${chainId}`);
-            return;
-          }
-          
-          logDebug(`Chain update: ${data.step} - ${data.progress}%`);
-          
-          // Update chain state in UI with a callback to ensure it's applied
-          setChainState(prevState => {
-            const newState = {
-              isGenerating: data.isGenerating !== false,
-              step: data.step || prevState.step,
-              progress: typeof data.progress === 'number' ? data.progress : prevState.progress,
-              error: data.error
-            };
-            
-            logDebug(`UI state updated: ${newState.step} - ${newState.progress}%`);
-            return newState;
-          });
-          
-          // If we have posts directly in the update, save them
-          if (data.posts && Array.isArray(data.posts) && data.posts.length > 0) {
-            logDebug(`Received ${data.posts.length} posts in SSE update`);
-            
-            // Process posts to ensure all object properties are stringified
-            const processedPosts = data.posts.map((post: PostSuggestion) => ({
-              ...post,
-              description: typeof post.description === 'object' 
-                ? safeStringify(post.description) 
-                : post.description || ''
-            }));
-            
-            setSuggestions(processedPosts);
-          }
-          
-          // Handle completion
-          if (data.step === 'complete' || !data.isGenerating) {
-            logDebug('Chain process complete, closing SSE connection');
-            
-            // Close the connection
-            eventSource.close();
-            
-            // Make sure the UI reflects completion
-            setChainState({
-              isGenerating: false,
-              step: 'complete',
-              progress: 100
-            });
-            
-            // If we still don't have posts, make a final check with the API
-            if (!suggestions.length) {
-              logDebug('No posts received yet, fetching from API');
-              fetchFinalPosts(chainId);
-            }
-          }
-          
-          // Handle error
-          if (data.step === 'error' || data.error) {
-            logDebug(`Error in chain: ${data.error || 'Unknown error'}`);
-            setError(data.error || 'An error occurred during post generation');
-            eventSource.close();
-          }
-        } catch (error) {
-          console.error('Error processing SSE message:', error, event.data);
-          logDebug(`Error processing SSE: ${error}`);
-        }
-      };
-      
-      // Enhanced error event handler
-      eventSource.onerror = (error) => {
-        console.error('SSE connection error:', error);
-        logDebug(`SSE connection error: ${(error as any)?.message || 'Unknown error'}`);
-        
-        // Fall back to polling if SSE fails
-        if (!pollingActive && chainId) {
-          logDebug('Falling back to polling mechanism after SSE error');
-          startPollingForResults(chainId);
-        }
-        
-        // Only handle serious errors (e.g., when the connection fails completely)
-        if ((error as any).target?.readyState === EventSource.CLOSED) {
-          if (!pollingActive && chainId) {
-            logDebug('EventSource closed, starting polling');
-            startPollingForResults(chainId);
-          }
-        }
-      };
+      // Follow the chain over SSE before starting it so no transition is missed
+      followChain(chainId);
       
       // Now make the POST request to start the chain process, passing our chainId
       logDebug(`Making POST request with chainId: ${chainId}`);
@@ -369,7 +447,10 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
           currentDate: format(currentDate, 'yyyy-MM-dd'),
           platformSettings: activePlatforms,
           customPrompt: customPrompt || undefined,
+          fillGaps: fillGaps || undefined,
           organizationId: selectedOrganization.id,
+          userId: user?.id,
+          timezone,
           clientChainId: chainId // Pass the same chainId we're using for SSE
         }),
       });
@@ -412,12 +493,13 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
         });
         
         // Close the SSE connection since we're done
-        eventSource.close();
+        stopChainStream();
       }
     } catch (err) {
       console.error('Error generating plan:', err);
       logDebug(`Error: ${err}`);
       setError(err instanceof Error ? err.message : 'Failed to generate post ideas');
+      stopChainStream();
       
       // Update chain state to error
       setChainState({
@@ -465,6 +547,7 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
           }));
           
           setSuggestions(processedPosts);
+          setSchedulingIssues(data.chainState?.partialResults?.schedulingReport?.issues || []);
           
           // Update chain state to complete
           setChainState({
@@ -702,90 +785,95 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
     }
   };
   
-  // Polling mechanism as fallback
-  const startPollingForResults = (chainId: string) => {
-    if (pollingActive) return;
-    
-    setPollingActive(true);
-    logDebug('Starting polling mechanism as fallback');
-    
-    const pollInterval = 2000; // Poll every 2 seconds
+  // Follow a chain's progress over SSE, showing posts as each step produces them
+  const followChain = (chainId: string) => {
+    stopChainStream();
+    setStreamedPosts([]);
     
-    pollingIntervalRef.current = setInterval(async () => {
-      try {
-        const response = await fetch(`/api/chain-results?chainId=${chainId}`);
-        if (!response.ok) {
-          logDebug(`Polling error: ${response.status}`);
-          return;
-        }
+    chainStreamRef.current = subscribeToChainStream(chainId, {
+      onProgress: (data) => {
+        logDebug(`Chain update: ${data.step} - ${data.progress}%`);
         
-        const data = await response.json();
-        if (!data?.chainState) {
-          logDebug('No chain state in polling response');
-          return;
-        }
-        
-        logDebug(`Polling update: ${data.chainState.step} - ${data.chainState.progress}%`);
-        
-        // Update chain state in UI
         setChainState(prevState => ({
-          isGenerating: data.chainState.isGenerating !== false,
-          step: data.chainState.step || prevState.step,
-          progress: typeof data.chainState.progress === 'number' ? data.chainState.progress : prevState.progress,
-          error: data.chainState.error
+          isGenerating: data.isGenerating !== false,
+          step: data.step || prevState.step,
+          progress: typeof data.progress === 'number' ? data.progress : prevState.progress,
+          error: data.error
         }));
         
-        // Check for posts
-        if (data.chainState.partialResults?.finalPosts?.length > 0) {
-          logDebug(`Received ${data.chainState.partialResults.finalPosts.length} posts from polling`);
-          const processedPosts = data.chainState.partialResults.finalPosts.map((post: PostSuggestion) => ({
-            ...post,
-            description: typeof post.description === 'object' 
-              ? safeStringify(post.description) 
-              : post.description || ''
-          }));
-          
-          setSuggestions(processedPosts);
+        // Handle error
+        if (data.step === 'error' || data.error) {
+          logDebug(`Error in chain: ${data.error || 'Unknown error'}`);
+          setError(data.error || 'An error occurred during post generation');
+          chainStreamRef.current = null;
+          return;
         }
         
-        // Check for completion
-        if (data.chainState.step === 'complete' || data.chainState.progress >= 100 || !data.chainState.isGenerating) {
-          logDebug('Polling detected completion, stopping');
-          stopPolling();
+        // Handle completion
+        if (!data.isGenerating) {
+          logDebug('Chain process complete');
+          chainStreamRef.current = null;
           
           setChainState({
             isGenerating: false,
             step: 'complete',
             progress: 100
           });
+          
+          if (data.schedulingReport) {
+            setSchedulingIssues(data.schedulingReport.issues);
+          }
+          
+          if (data.posts && data.posts.length > 0) {
+            logDebug(`Received ${data.posts.length} posts in SSE update`);
+            
+            // Process posts to ensure all object properties are stringified
+            setSuggestions(data.posts.map((post: PostSuggestion) => ({
+              ...post,
+              description: typeof post.description === 'object' 
+                ? safeStringify(post.description) 
+                : post.description || ''
+            })));
+          } else {
+            logDebug('No posts received in the stream, fetching from API');
+            fetchFinalPosts(chainId);
+          }
         }
-        
-        // Check for error
-        if (data.chainState.step === 'error' || data.chainState.error) {
-          logDebug(`Polling detected error: ${data.chainState.error || 'Unknown error'}`);
-          stopPolling();
-          setError(data.chainState.error || 'An error occurred during post generation');
-        }
-      } catch (error) {
-        logDebug(`Polling fetch error: ${error}`);
+      },
+      onPartialResult: (key, items) => {
+        // Later steps carry everything earlier ones produced, so the newest list wins
+        if (key === 'finalPosts') return;
+        logDebug(`Received ${items.length} ${key} in SSE update`);
+        setStreamedPosts((items as StreamedPost[]).map(item => ({
+          id: item.id,
+          title: item.title,
+          platform: item.platform,
+          concept: item.concept,
+          format: item.format,
+          elaboration: item.elaboration,
+          needsRetry: item.needsRetry
+        })));
+      },
+      onConnectionError: () => {
+        chainStreamRef.current = null;
+        setError('Lost connection to the post generator. Reopen the plan from the recent plans list once it finishes.');
+        setChainState(prevState => ({ ...prevState, isGenerating: false }));
       }
-    }, pollInterval);
+    });
   };
-
-  const stopPolling = () => {
-    if (pollingIntervalRef.current) {
-      clearInterval(pollingIntervalRef.current);
-      pollingIntervalRef.current = null;
+  
+  const stopChainStream = () => {
+    if (chainStreamRef.current) {
+      chainStreamRef.current();
+      chainStreamRef.current = null;
     }
-    setPollingActive(false);
-    logDebug('Polling stopped');
   };
-
-  // Cleanup on unmount
+  
+  // Close the stream on unmount
   useEffect(() => {
     return () => {
-      if (pollingIntervalRef.current) {
-        clearInterval(pollingIntervalRef.current);
+      if (chainStreamRef.current) {
+        chainStreamRef.current();
       }
     };
   }, []);
@@ -803,6 +891,24 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
         {error && (
           <div className="bg-red-50 border border-red-200 text-red-700 px-4 py-3 rounded">
             {error}
+            {activeChainId && !chainState.isGenerating && (
+              <div className="mt-2 flex space-x-2">
+                <button
+                  onClick={handleResumePlan}
+                  disabled={recoveringChain}
+                  className="px-3 py-1 text-sm bg-red-600 text-white rounded hover:bg-red-700 disabled:opacity-50"
+                >
+                  Resume from last step
+                </button>
+                <button
+                  onClick={handleRetryFailedPosts}
+                  disabled={recoveringChain}
+                  className="px-3 py-1 text-sm border border-red-300 rounded hover:bg-red-100 disabled:opacity-50"
+                >
+                  Retry failed posts
+                </button>
+              </div>
+            )}
           </div>
         )}
         
@@ -931,6 +1037,30 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
                 })}
               </div>
               
+              {/* Posts produced so far, updated as the stream delivers them */}
+              {streamedPosts.length > 0 && (
+                <div className="w-full max-w-md mt-4 border border-gray-100 dark:border-gray-700 rounded-lg p-4 shadow-sm">
+                  <h4 className="text-sm font-medium mb-2 dark:text-white">
+                    {streamedPosts.length} post ideas so far
+                  </h4>
+                  <ul className="space-y-2 max-h-60 overflow-y-auto">
+                    {streamedPosts.map((post) => (
+                      <li key={post.id} className="text-sm">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium dark:text-white truncate mr-2">{post.title}</span>
+                          <span className="text-xs bg-gray-100 dark:bg-gray-700 dark:text-gray-300 px-2 py-0.5 rounded">
+                            {post.platform}
+                          </span>
+                        </div>
+                        <p className={`text-xs truncate ${post.needsRetry ? 'text-red-500' : 'text-gray-500 dark:text-gray-400'}`}>
+                          {post.elaboration?.content || post.elaboration?.bulletPoints?.[0] || post.concept}
+                        </p>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
+              
               {/* Loading spinner */}
               <div className="relative w-16 h-16 mt-6">
                 <svg className="animate-spin w-16 h-16 text-blue-600" xmlns="http://www.w3.org/2000/svg" fill="none" viewBox="0 0 24 24">
@@ -947,6 +1077,19 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
               <p>Created {suggestions.length} post ideas for {selectedOrganization?.name}</p>
             </div>
 
+            {schedulingIssues.length > 0 && (
+              <div className="mb-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-md text-sm text-yellow-800 dark:text-yellow-200">
+                <p className="font-medium mb-1">
+                  {schedulingIssues.length} scheduling {schedulingIssues.length === 1 ? 'constraint' : 'constraints'} could not be met
+                </p>
+                <ul className="list-disc list-inside space-y-0.5">
+                  {schedulingIssues.map((issue, index) => (
+                    <li key={`${issue.postId}-${issue.constraint}-${index}`}><span className="font-medium">{issue.title}</span>: {issue.message}</li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {suggestions.map((post, index) => (
                 <div key={index} className="bg-white dark:bg-gray-700 rounded-lg shadow-sm border border-gray-200 dark:border-gray-600 p-4">
@@ -987,7 +1130,7 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
                     <div className="text-xs text-gray-500 dark:text-gray-400">
                       {post.posted_date && (
                         <span>
-                          Scheduled: {format(new Date(post.posted_date), 'MMM d, yyyy')}
+                          Scheduled: {parsePostedDate(post.posted_date).toLocaleString('en-US', { timeZone: timezone, dateStyle: 'medium', timeStyle: 'short' })}
                         </span>
                       )}
                     </div>
@@ -1095,7 +1238,47 @@ export default function PlannerModal({ isOpen, onClose, timeFrame, currentDate }
                   onChange={(e) => setCustomPrompt(e.target.value)}
                   disabled={chainState.isGenerating}
                 ></textarea>
+                <label className="mt-2 flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={fillGaps}
+                    onChange={(e) => setFillGaps(e.target.checked)}
+                    disabled={chainState.isGenerating}
+                  />
+                  Fill content gaps: plan for target keywords no post covers yet and themes that went quiet
+                </label>
               </div>
+              
+              {recentPlans.length > 0 && (
+                <div className="mb-4">
+                  <h3 className="text-lg font-medium mb-2">Or reopen a recent plan</h3>
+                  <ul className="divide-y divide-gray-200 dark:divide-gray-700 border border-gray-200 dark:border-gray-700 rounded-lg">
+                    {recentPlans.map(plan => (
+                      <li key={plan.id} className="flex items-center justify-between px-4 py-2">
+                        <div className="text-sm">
+                          <p className="text-gray-900 dark:text-white">
+                            {plan.params.timeFrame ? `${plan.params.timeFrame.charAt(0).toUpperCase()}${plan.params.timeFrame.slice(1)} plan` : 'Plan'}
+                            {plan.params.currentDate && ` from ${format(new Date(plan.params.currentDate), 'MMM d, yyyy')}`}
+                          </p>
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Generated {format(new Date(plan.completedAt || plan.createdAt), 'MMM d, yyyy h:mm a')}
+                            {plan.params.customPrompt && ` · ${plan.params.customPrompt.slice(0, 60)}`}
+                            {plan.params.fillGaps && ' · filling gaps'}
+                            {plan.profileVersion && ` · profile v${plan.profileVersion}`}
+                          </p>
+                        </div>
+                        <button
+                          onClick={() => handleReopenPlan(plan.id)}
+                          disabled={reopeningPlanId !== null}
+                          className="text-xs px-3 py-1 rounded bg-gray-100 text-gray-700 hover:bg-gray-200 dark:bg-gray-700 dark:text-gray-300 dark:hover:bg-gray-600 disabled:opacity-50"
+                        >
+                          {reopeningPlanId === plan.id ? 'Opening...' : 'Open'}
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                </div>
+              )}
             </div>
           </div>
         )}
@@ -2,9 +2,14 @@
 
 import React, { useState, useEffect } from 'react';
 import { format as dateFormat } from 'date-fns';
-import { useCalendar, Post } from './CalendarContext';
+import { useCalendar, Post, PostStatus } from './CalendarContext';
 import { downloadPostCalendar } from '@/utils/icsGenerator';
 import CalendarExportMenu from './CalendarExportMenu';
+import { parsePostedDate } from '@/lib/scheduling/timezone';
+import { APPROVAL_STATUS_LABELS, isApprovedForScheduling } from '@/lib/approvals';
+import PostReviewPanel from './PostReviewPanel';
+import PostRepurposingPanel from './PostRepurposingPanel';
+import PostMediaPreview from '@/components/PostMediaPreview';
 
 interface PostFormProps {
   date: Date | null;
@@ -47,7 +52,7 @@ const DeleteConfirmationModal = ({ onConfirm, onCancel, title }: DeleteConfirmat
 );
 
 export default function PostForm({ date, post, onClose }: PostFormProps) {
-  const { addPost, updatePost, deletePost, refreshPosts } = useCalendar();
+  const { addPost, updatePost, deletePost, refreshPosts, getSlotInstant } = useCalendar();
   
   const [isViewMode, setIsViewMode] = useState(!!post);
   const [isSubmitting, setIsSubmitting] = useState(false);
@@ -57,10 +62,12 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
   const [title, setTitle] = useState(post?.title || '');
   const [url, setUrl] = useState(post?.url || '');
   const [description, setDescription] = useState(post?.description || '');
-  const [status, setStatus] = useState<'POSTED' | 'SCHEDULED' | 'SUGGESTED'>(
+  const [status, setStatus] = useState<PostStatus>(
     post?.status || 'SCHEDULED'
   );
   const [format, setFormat] = useState(post?.format || 'article');
+  // AI suggestions can only be scheduled once a reviewer approved them
+  const canSchedule = isApprovedForScheduling(post?.approval_status);
   
   const handleClose = (e: React.MouseEvent<HTMLButtonElement>) => {
     e.preventDefault();
@@ -88,15 +95,27 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
       return;
     }
 
+    if (!canSchedule && (status === 'SCHEDULED' || status === 'POSTED')) {
+      setFormError('This post must be approved before it can be scheduled');
+      return;
+    }
+
     try {
       setIsSubmitting(true);
       setFormError(null);
       
+      // The clicked slot is a wall-clock time in the calendar's timezone. Days picked
+      // without a time (month view) are stored at noon.
+      const hasTime = date && (date.getHours() !== 0 || date.getMinutes() !== 0);
+      const postedAt = date
+        ? getSlotInstant(date, hasTime ? date.getHours() : 12, hasTime ? date.getMinutes() : 0)
+        : null;
+      
       const postData = {
         title,
         url,
         description,
-        posted_date: date ? dateFormat(date, 'yyyy-MM-dd') : undefined,
+        posted_date: postedAt ? postedAt.toISOString() : undefined,
         status,
         format
       };
@@ -156,6 +175,11 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
         return 'bg-blue-100 text-blue-800 dark:bg-blue-900 dark:text-blue-200';
       case 'SUGGESTED':
         return 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200';
+      case 'QUEUED':
+      case 'PUBLISHING':
+        return 'bg-indigo-100 text-indigo-800 dark:bg-indigo-900 dark:text-indigo-200';
+      case 'FAILED':
+        return 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200';
       default:
         return 'bg-gray-100 text-gray-800 dark:bg-gray-800 dark:text-gray-200';
     }
@@ -215,7 +239,7 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
           {post.posted_date && isViewMode && (
             <CalendarExportMenu
               type="post"
-              date={new Date(post.posted_date)}
+              date={parsePostedDate(post.posted_date)}
               posts={post}
               className="ml-auto"
             />
@@ -223,6 +247,31 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
         </div>
       )}
 
+      {post?.media && (
+        <div className="mb-4">
+          <PostMediaPreview media={post.media} thumbnailClassName="w-40 h-24" />
+        </div>
+      )}
+
+      {/* Publishing result */}
+      {post?.published_url && (
+        <p className="mb-4 text-sm text-gray-600 dark:text-gray-300">
+          Published{post.published_at ? ` on ${parsePostedDate(post.published_at).toLocaleString()}` : ''}:{' '}
+          <a href={post.published_url} target="_blank" rel="noopener noreferrer" className="text-blue-600 hover:underline dark:text-blue-400 break-all">
+            {post.published_url}
+          </a>
+        </p>
+      )}
+      {post && (post.status === 'QUEUED' || post.status === 'FAILED') && post.publish_error && (
+        <div className="mb-4 bg-yellow-50 border border-yellow-300 text-yellow-800 px-4 py-3 rounded text-sm dark:bg-yellow-900/30 dark:border-yellow-700 dark:text-yellow-200">
+          <p>
+            {post.status === 'FAILED'
+              ? `Publishing failed after ${post.attempt_count || 0} attempts: ${post.publish_error}. Set the status back to Scheduled to try again.`
+              : `Publishing attempt ${post.attempt_count || 0} failed: ${post.publish_error}. It will be retried${post.next_attempt_at ? ` at ${parsePostedDate(post.next_attempt_at).toLocaleString()}` : ''}.`}
+          </p>
+        </div>
+      )}
+
       {/* Error message */}
       {formError && (
         <div className="mb-4 bg-red-100 border border-red-400 text-red-700 px-4 py-3 rounded dark:bg-red-900 dark:border-red-600 dark:text-red-100">
@@ -255,6 +304,18 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
             </div>
           )}
           
+          {post?.approval_status && (
+            <PostReviewPanel postId={post.id} onReviewed={refreshPosts} />
+          )}
+
+          {post && (
+            <PostRepurposingPanel
+              postId={post.id}
+              canRepurpose={post.status === 'POSTED' && (!post.platform || post.platform.toLowerCase() === 'web')}
+              onRepurposed={refreshPosts}
+            />
+          )}
+
           {/* SEO Information Display */}
           {post?.seo_info && (
             <div className="mt-4 bg-gray-50 dark:bg-gray-700 p-3 rounded-md border border-gray-200 dark:border-gray-600">
@@ -350,13 +411,22 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
             </label>
             <select
               value={status}
-              onChange={(e) => setStatus(e.target.value as 'POSTED' | 'SCHEDULED' | 'SUGGESTED')}
+              onChange={(e) => setStatus(e.target.value as PostStatus)}
               className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
             >
-              <option value="POSTED">Posted</option>
-              <option value="SCHEDULED">Scheduled</option>
+              <option value="POSTED" disabled={!canSchedule}>Posted</option>
+              <option value="SCHEDULED" disabled={!canSchedule}>Scheduled</option>
               <option value="SUGGESTED">Suggested</option>
+              {/* Set by the publishing worker, shown so the select reflects the current state */}
+              <option value="QUEUED" disabled>Queued</option>
+              <option value="PUBLISHING" disabled>Publishing</option>
+              <option value="FAILED" disabled>Failed</option>
             </select>
+            {!canSchedule && post?.approval_status && (
+              <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+                {APPROVAL_STATUS_LABELS[post.approval_status]}: this suggestion can be scheduled once a reviewer approves it.
+              </p>
+            )}
           </div>
           
           <div>
@@ -376,10 +446,10 @@ export default function PostForm({ date, post, onClose }: PostFormProps) {
             </select>
           </div>
           
-          {post?.derivedFrom && (
+          {post?.derived_from && (
             <div className="mt-4">
               <div className="text-sm text-blue-600 dark:text-blue-400 italic font-medium">
-                Derived from blog post: "{post.derivedFrom}"
+                Derived from blog post: "{post.derived_from}"
               </div>
             </div>
           )}
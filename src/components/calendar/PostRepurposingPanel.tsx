@@ -0,0 +1,165 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/lib/auth-context';
+import type { PostTree, PostTreeNode } from '@/lib/repurposing';
+import { getPlatformColors } from './colorUtils';
+
+interface PostRepurposingPanelProps {
+  postId: string;
+  // Published web articles can be repurposed
+  canRepurpose: boolean;
+  // Called after derivatives were created
+  onRepurposed: () => Promise<void> | void;
+}
+
+// Platforms an article can be repurposed for (REPURPOSE_PLATFORMS on the server)
+const PLATFORM_OPTIONS = [
+  { key: 'x', label: 'X' },
+  { key: 'linkedin', label: 'LinkedIn' },
+  { key: 'instagram', label: 'Instagram' },
+  { key: 'facebook', label: 'Facebook' }
+];
+
+function TreeNode({ node, currentPostId }: { node: PostTreeNode; currentPostId: string }) {
+  const isCurrent = node.id === currentPostId;
+
+  return (
+    <li>
+      <div className={`flex items-center gap-2 text-sm py-0.5 ${isCurrent ? 'font-semibold text-gray-900 dark:text-white' : 'text-gray-700 dark:text-gray-300'}`}>
+        <span
+          className="inline-block w-2 h-2 rounded-full flex-shrink-0 border border-gray-300"
+          style={{ backgroundColor: getPlatformColors(node.platform || 'website').hex }}
+        />
+        <span className="truncate">{node.title}</span>
+        <span className="flex-shrink-0 text-xs text-gray-500 dark:text-gray-400">
+          {node.platform || 'Web'} · {node.status.toLowerCase()}
+          {node.postedDate ? ` · ${format(new Date(node.postedDate), 'MMM d')}` : ''}
+        </span>
+      </div>
+      {node.children.length > 0 && (
+        <ul className="ml-3 pl-3 border-l border-gray-200 dark:border-gray-600">
+          {node.children.map(child => (
+            <TreeNode key={child.id} node={child} currentPostId={currentPostId} />
+          ))}
+        </ul>
+      )}
+    </li>
+  );
+}
+
+/**
+ * The repurposing tree a post belongs to (the article and everything derived
+ * from it) and, for published web articles, the action that writes new social
+ * posts from the article's archived content.
+ */
+export default function PostRepurposingPanel({ postId, canRepurpose, onRepurposed }: PostRepurposingPanelProps) {
+  const { user } = useAuth();
+  const [tree, setTree] = useState<PostTree | null>(null);
+  const [platforms, setPlatforms] = useState<string[]>([]);
+  const [isRepurposing, setIsRepurposing] = useState(false);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchTree = useCallback(async () => {
+    if (!user) return;
+    try {
+      const response = await fetch(`/api/posts/repurpose?postId=${postId}&userId=${user.id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to load derived posts');
+      }
+      setTree(result);
+    } catch (error) {
+      console.error('Error loading post tree:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load derived posts' });
+    }
+  }, [postId, user]);
+
+  useEffect(() => {
+    fetchTree();
+  }, [fetchTree]);
+
+  const togglePlatform = (key: string) => {
+    setPlatforms(current => current.includes(key) ? current.filter(platform => platform !== key) : [...current, key]);
+  };
+
+  const repurpose = async () => {
+    if (!user || platforms.length === 0) return;
+    setIsRepurposing(true);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/posts/repurpose', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ postId, userId: user.id, platforms })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to repurpose the post');
+      }
+      setTree(result.tree);
+      setPlatforms([]);
+      setMessage({ type: 'success', text: `Created ${result.posts.length} suggested ${result.posts.length === 1 ? 'post' : 'posts'} to review` });
+      await onRepurposed();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to repurpose the post' });
+    } finally {
+      setIsRepurposing(false);
+    }
+  };
+
+  // Nothing to show for a post that is neither part of a tree nor repurposable
+  if (!canRepurpose && (!tree || tree.size < 2)) {
+    return message?.type === 'error' ? <p className="text-sm text-red-600 dark:text-red-400">{message.text}</p> : null;
+  }
+
+  return (
+    <div className="mt-4 p-3 rounded-md border border-gray-200 dark:border-gray-600">
+      <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200 mb-2">Repurposing</h3>
+
+      {tree && tree.size > 1 ? (
+        <ul className="mb-3">
+          <TreeNode node={tree.root} currentPostId={postId} />
+        </ul>
+      ) : (
+        <p className="mb-3 text-sm text-gray-500 dark:text-gray-400">No posts have been derived from this article yet.</p>
+      )}
+
+      {canRepurpose && (
+        <div>
+          <p className="text-sm text-gray-600 dark:text-gray-300 mb-2">
+            Repurpose this post: write suggested posts from the article&apos;s archived content for
+          </p>
+          <div className="flex flex-wrap gap-3 mb-2">
+            {PLATFORM_OPTIONS.map(option => (
+              <label key={option.key} className="flex items-center gap-1 text-sm text-gray-700 dark:text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={platforms.includes(option.key)}
+                  onChange={() => togglePlatform(option.key)}
+                  disabled={isRepurposing}
+                />
+                {option.label}
+              </label>
+            ))}
+          </div>
+          <button
+            type="button"
+            onClick={repurpose}
+            disabled={isRepurposing || platforms.length === 0}
+            className="px-3 py-1 text-sm bg-blue-600 text-white rounded-md hover:bg-blue-700 disabled:opacity-50"
+          >
+            {isRepurposing ? 'Repurposing…' : 'Repurpose this post'}
+          </button>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mt-2 text-sm ${message.type === 'error' ? 'text-red-600 dark:text-red-400' : 'text-green-600 dark:text-green-400'}`}>
+          {message.text}
+        </p>
+      )}
+    </div>
+  );
+}
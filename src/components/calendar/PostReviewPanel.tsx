@@ -0,0 +1,237 @@
+'use client';
+
+import React, { useCallback, useEffect, useState } from 'react';
+import { format } from 'date-fns';
+import { useAuth } from '@/lib/auth-context';
+import { APPROVAL_STATUS_LABELS, ApprovalStatus, ReviewAction } from '@/lib/approvals';
+
+interface PostReviewPanelProps {
+  postId: string;
+  // Called after a review action changed the post
+  onReviewed: () => Promise<void> | void;
+}
+
+interface ReviewEntry {
+  id: string;
+  action: ReviewAction | 'revised';
+  comment: string | null;
+  user_id: string | null;
+  reviewer_id: string | null;
+  created_at: string;
+}
+
+interface Reviewer {
+  id: string;
+  role: string;
+  name?: string | null;
+  email?: string | null;
+}
+
+interface ReviewData {
+  post: { approval_status: ApprovalStatus | null; reviewer_id: string | null };
+  allowedActions: ReviewAction[];
+  reviewers: Reviewer[];
+  reviews: ReviewEntry[];
+  users: Record<string, { name: string | null; email: string | null }>;
+}
+
+const APPROVAL_BADGE_CLASSES: Record<ApprovalStatus, string> = {
+  pending: 'bg-yellow-100 text-yellow-800 dark:bg-yellow-900 dark:text-yellow-200',
+  changes_requested: 'bg-orange-100 text-orange-800 dark:bg-orange-900 dark:text-orange-200',
+  approved: 'bg-green-100 text-green-800 dark:bg-green-900 dark:text-green-200',
+  rejected: 'bg-red-100 text-red-800 dark:bg-red-900 dark:text-red-200'
+};
+
+const HISTORY_LABELS: Record<ReviewEntry['action'], string> = {
+  assign: 'assigned',
+  approve: 'approved',
+  reject: 'rejected',
+  request_changes: 'requested changes',
+  revised: 'regenerated'
+};
+
+/**
+ * Review state of an AI-suggested post: who reviews it, the actions the current
+ * member's role allows, and the review history.
+ */
+export default function PostReviewPanel({ postId, onReviewed }: PostReviewPanelProps) {
+  const { user } = useAuth();
+  const [data, setData] = useState<ReviewData | null>(null);
+  const [comment, setComment] = useState('');
+  const [selectedReviewerId, setSelectedReviewerId] = useState('');
+  const [busyAction, setBusyAction] = useState<ReviewAction | null>(null);
+  const [message, setMessage] = useState<{ type: 'success' | 'error'; text: string } | null>(null);
+
+  const fetchReview = useCallback(async () => {
+    if (!user) return;
+    try {
+      const response = await fetch(`/api/posts/review?postId=${postId}&userId=${user.id}`);
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Failed to load review');
+      }
+      setData(result);
+      setSelectedReviewerId(result.post.reviewer_id || '');
+    } catch (error) {
+      console.error('Error loading post review:', error);
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Failed to load review' });
+    }
+  }, [postId, user]);
+
+  useEffect(() => {
+    fetchReview();
+  }, [fetchReview]);
+
+  if (!data || !data.post.approval_status) {
+    return message ? <p className="text-sm text-red-600 dark:text-red-400">{message.text}</p> : null;
+  }
+
+  const userLabel = (id: string | null) => {
+    if (!id) return 'ContentSage';
+    const entry = data.users[id];
+    return entry?.name || entry?.email || 'Unknown member';
+  };
+
+  const takeAction = async (action: ReviewAction) => {
+    if (!user) return;
+    setBusyAction(action);
+    setMessage(null);
+    try {
+      const response = await fetch('/api/posts/review', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          postId,
+          userId: user.id,
+          action,
+          comment,
+          reviewerId: action === 'assign' ? selectedReviewerId : undefined
+        })
+      });
+      const result = await response.json();
+      if (!response.ok) {
+        throw new Error(result?.error || 'Review action failed');
+      }
+      setComment('');
+      setMessage(result.regenerationError
+        ? { type: 'error', text: `Changes requested, but the post could not be regenerated: ${result.regenerationError}` }
+        : { type: 'success', text: action === 'request_changes' ? 'Post regenerated from your feedback' : 'Review saved' });
+      await fetchReview();
+      await onReviewed();
+    } catch (error) {
+      setMessage({ type: 'error', text: error instanceof Error ? error.message : 'Review action failed' });
+    } finally {
+      setBusyAction(null);
+    }
+  };
+
+  const can = (action: ReviewAction) => data.allowedActions.includes(action);
+  const canDecide = can('approve') || can('reject') || can('request_changes');
+  const status = data.post.approval_status;
+
+  return (
+    <div className="mt-4 p-3 rounded-md border border-gray-200 dark:border-gray-600">
+      <div className="flex items-center justify-between mb-2">
+        <h3 className="text-sm font-medium text-gray-700 dark:text-gray-200">Review</h3>
+        <span className={`inline-flex items-center px-2.5 py-1 rounded-full text-xs font-medium ${APPROVAL_BADGE_CLASSES[status]}`}>
+          {APPROVAL_STATUS_LABELS[status]}
+        </span>
+      </div>
+
+      <div className="flex items-center gap-2 mb-3 text-sm">
+        <label className="text-gray-600 dark:text-gray-300">Reviewer:</label>
+        {can('assign') ? (
+          <>
+            <select
+              value={selectedReviewerId}
+              onChange={(e) => setSelectedReviewerId(e.target.value)}
+              className="flex-1 px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-md dark:bg-gray-700 dark:text-white"
+            >
+              <option value="">Unassigned</option>
+              {data.reviewers.map(reviewer => (
+                <option key={reviewer.id} value={reviewer.id}>
+                  {reviewer.name || reviewer.email || reviewer.id} ({reviewer.role})
+                </option>
+              ))}
+            </select>
+            <button
+              type="button"
+              onClick={() => takeAction('assign')}
+              disabled={!selectedReviewerId || selectedReviewerId === data.post.reviewer_id || busyAction !== null}
+              className="text-blue-600 hover:text-blue-800 dark:text-blue-400 disabled:opacity-50"
+            >
+              Assign
+            </button>
+          </>
+        ) : (
+          <span className="text-gray-800 dark:text-gray-200">
+            {data.post.reviewer_id ? userLabel(data.post.reviewer_id) : 'Unassigned'}
+          </span>
+        )}
+      </div>
+
+      {canDecide && (
+        <div className="space-y-2 mb-3">
+          <textarea
+            value={comment}
+            onChange={(e) => setComment(e.target.value)}
+            rows={2}
+            placeholder="Comment (required to reject or request changes)"
+            className="w-full px-2 py-1 text-sm border border-gray-300 dark:border-gray-600 rounded-md focus:outline-none focus:ring-2 focus:ring-blue-500 dark:bg-gray-700 dark:text-white"
+          />
+          <div className="flex gap-2 text-sm">
+            {can('approve') && (
+              <button
+                type="button"
+                onClick={() => takeAction('approve')}
+                disabled={busyAction !== null}
+                className="px-3 py-1 bg-green-600 text-white rounded-md hover:bg-green-700 disabled:opacity-50"
+              >
+                {busyAction === 'approve' ? 'Approving…' : 'Approve'}
+              </button>
+            )}
+            {can('request_changes') && (
+              <button
+                type="button"
+                onClick={() => takeAction('request_changes')}
+                disabled={busyAction !== null || !comment.trim()}
+                className="px-3 py-1 bg-orange-500 text-white rounded-md hover:bg-orange-600 disabled:opacity-50"
+              >
+                {busyAction === 'request_changes' ? 'Regenerating…' : 'Request changes'}
+              </button>
+            )}
+            {can('reject') && (
+              <button
+                type="button"
+                onClick={() => takeAction('reject')}
+                disabled={busyAction !== null || !comment.trim()}
+                className="px-3 py-1 bg-red-600 text-white rounded-md hover:bg-red-700 disabled:opacity-50"
+              >
+                {busyAction === 'reject' ? 'Rejecting…' : 'Reject'}
+              </button>
+            )}
+          </div>
+        </div>
+      )}
+
+      {message && (
+        <p className={`mb-3 text-sm ${message.type === 'success' ? 'text-green-600 dark:text-green-400' : 'text-red-600 dark:text-red-400'}`}>
+          {message.text}
+        </p>
+      )}
+
+      {data.reviews.length > 0 && (
+        <ul className="space-y-1 text-xs text-gray-600 dark:text-gray-300">
+          {data.reviews.map(review => (
+            <li key={review.id}>
+              <span className="text-gray-500 dark:text-gray-400">{format(new Date(review.created_at), 'MMM d HH:mm')}</span>{' '}
+              {userLabel(review.user_id)} {HISTORY_LABELS[review.action]}
+              {review.action === 'assign' && review.reviewer_id && ` ${userLabel(review.reviewer_id)}`}
+              {review.comment && <span className="block pl-4 italic whitespace-pre-line">{review.comment}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
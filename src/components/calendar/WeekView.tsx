@@ -7,7 +7,6 @@ import {
   endOfWeek,
   eachDayOfInterval,
   isSameDay,
-  isToday,
   addHours,
   isBefore,
   isAfter,
@@ -17,10 +16,11 @@ import {
 import { useCalendar, Post } from './CalendarContext';
 import PostForm from './PostForm';
 import { getPlatformColors, getFormatColors } from './colorUtils';
+import PostMediaPreview from '@/components/PostMediaPreview';
 import { downloadWeekCalendar } from '@/utils/icsGenerator';
 
 export default function WeekView() {
-  const { currentDate, getPostsForDate } = useCalendar();
+  const { currentDate, getPostsForDate, getPostTime, isCalendarToday } = useCalendar();
   const [selectedDate, setSelectedDate] = useState<Date | null>(null);
   const [showPostForm, setShowPostForm] = useState(false);
   const [selectedPost, setSelectedPost] = useState<Post | null>(null);
@@ -38,6 +38,12 @@ export default function WeekView() {
   // Time slots for the day (from 6 AM to 9 PM)
   const timeSlots = Array.from({ length: 16 }, (_, i) => i + 6);
 
+  // Slot a post belongs in; earlier and later posts go in the first and last slot
+  const getPostSlot = (post: Post) => {
+    const time = getPostTime(post);
+    return time ? Math.min(Math.max(time.hour, timeSlots[0]), timeSlots[timeSlots.length - 1]) : null;
+  };
+
   const handleTimeSlotClick = (day: Date, hour: number) => {
     const newDate = set(day, { hours: hour, minutes: 0, seconds: 0, milliseconds: 0 });
     setSelectedDate(newDate);
@@ -86,11 +92,11 @@ export default function WeekView() {
             key={day.toString()} 
             className={`
               p-2 text-center border-r dark:border-gray-700
-              ${isToday(day) ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}
+              ${isCalendarToday(day) ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}
             `}
           >
             <div className="font-medium text-gray-700 dark:text-gray-300">{format(day, 'EEE')}</div>
-            <div className={`text-xl font-bold ${isToday(day) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-800 dark:text-white'}`}>
+            <div className={`text-xl font-bold ${isCalendarToday(day) ? 'text-indigo-600 dark:text-indigo-400' : 'text-gray-800 dark:text-white'}`}>
               {format(day, 'd')}
             </div>
           </div>
@@ -107,18 +113,14 @@ export default function WeekView() {
             
             {weekDays.map((day) => {
               const timeSlotDate = set(day, { hours: hour });
-              const posts = getPostsForDate(day).filter(post => {
-                if (!post.posted_date) return false;
-                const postDateTime = new Date(post.posted_date);
-                return postDateTime.getHours() === hour;
-              });
+              const posts = getPostsForDate(day).filter(post => getPostSlot(post) === hour);
               
               return (
                 <div 
                   key={day.toString()} 
                   className={`
                     p-1 border-r dark:border-gray-700 relative
-                    ${isToday(day) ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}
+                    ${isCalendarToday(day) ? 'bg-indigo-50 dark:bg-indigo-900/30' : ''}
                     cursor-pointer
                   `}
                   onClick={() => handleTimeSlotClick(day, hour)}
@@ -134,6 +136,11 @@ export default function WeekView() {
                       {post.description && (
                         <div className="truncate text-gray-700 dark:text-gray-300">{post.description}</div>
                       )}
+                      {post.media && (
+                        <div className="mt-1">
+                          <PostMediaPreview media={post.media} thumbnailClassName="w-10 h-6" />
+                        </div>
+                      )}
                     </div>
                   ))}
                   
@@ -10,7 +10,6 @@ import {
   getMonth,
   isSameMonth,
   isSameDay,
-  isToday,
   eachDayOfInterval,
   startOfWeek,
   endOfWeek
@@ -19,7 +18,7 @@ import { useCalendar } from './CalendarContext';
 import { getPlatformColors, getFormatColors } from './colorUtils';
 
 export default function YearView() {
-  const { currentDate, setCurrentDate, setView, getPostsForMonth, getPostsForDate } = useCalendar();
+  const { currentDate, setCurrentDate, setView, getPostsForMonth, getPostsForDate, isCalendarToday } = useCalendar();
   
   const year = currentDate.getFullYear();
   const firstDayOfYear = startOfYear(currentDate);
@@ -61,7 +60,7 @@ export default function YearView() {
         <div className="grid grid-cols-7 grid-rows-6 gap-x-0.5 gap-y-1 flex-grow">
           {daysInCalendar.map((day) => {
             const isCurrentMonth = isSameMonth(day, date);
-            const isTodayDate = isToday(day);
+            const isTodayDate = isCalendarToday(day);
             const dayPosts = getPostsForDate(day);
             const hasPost = dayPosts.length > 0;
             
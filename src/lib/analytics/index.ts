@@ -0,0 +1,311 @@
+import { createClient } from '@supabase/supabase-js';
+import { format, startOfWeek } from 'date-fns';
+import { getZonedParts, normalizePostingPlatform, PostingPlatform } from '@/lib/scheduling';
+
+// Posts read per report
+const MAX_POSTS = 10000;
+// Rows read per page; Supabase returns at most 1000
+const PAGE_SIZE = 1000;
+// Ranges longer than this are charted by month instead of by week
+const WEEKLY_RANGE_DAYS = 180;
+
+export const DEFAULT_GAP_DAYS = 14;
+
+/**
+ * Format categories of the calendar (see getFormatColors); blog posts count
+ * as articles and formats outside the list as "other"
+ */
+export const FORMAT_CATEGORIES = ['article', 'social', 'video', 'podcast', 'infographic', 'gallery', 'pdf', 'other'] as const;
+export type FormatCategory = typeof FORMAT_CATEGORIES[number];
+
+const PLATFORM_LABELS: Record<PostingPlatform, string> = {
+  web: 'Web',
+  x: 'X',
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+};
+
+// Statuses of posts that made it onto the calendar; SUGGESTED posts are still ideas
+const PLANNED_STATUSES = ['SCHEDULED', 'QUEUED', 'PUBLISHING', 'FAILED', 'POSTED'];
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+export interface ContentAnalyticsOptions {
+  from: Date;
+  to: Date;
+  gapDays?: number;
+  timezone?: string; // Day boundaries of periods and gaps; server time when omitted
+}
+
+export interface ContentGap {
+  platform: string | null; // null for a gap in all publishing
+  from: string; // Last post before the gap, or the start of the range
+  to: string; // First post after it, or the end of the range (or now)
+  days: number;
+}
+
+export interface ContentAnalytics {
+  from: string;
+  to: string;
+  period: 'week' | 'month';
+  periods: string[]; // Week starts (Monday, yyyy-MM-dd) or months (yyyy-MM), oldest first
+  platforms: string[];
+  // Published posts per period and platform
+  cadence: { period: string; counts: Record<string, number>; total: number }[];
+  formatMix: { format: FormatCategory; count: number }[];
+  // Posts put on the calendar for each period, and how many of them were published
+  plannedVsPublished: { period: string; planned: number; published: number }[];
+  suggestions: {
+    total: number;
+    accepted: number; // Approved, or scheduled and beyond
+    dropped: number; // Rejected, or deleted before being accepted
+    pending: number;
+  };
+  gapDays: number;
+  gaps: ContentGap[]; // Longest first
+  derivatives: {
+    webPosts: number;
+    withDerivatives: number;
+    share: number; // 0 to 1
+    // Published web posts no social post was planned from, newest first
+    withoutDerivatives: { id: string; title: string; postedDate: string }[];
+  };
+}
+
+interface AnalyticsPostRow {
+  id: string;
+  title: string | null;
+  platform: string | null;
+  format: string | null;
+  status: string;
+  posted_date: string | null;
+  approval_status: string | null;
+  deleted_at: string | null;
+  derived_from: string | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const platformLabel = (platform: string | null) => {
+  const key = platform ? normalizePostingPlatform(platform) : 'web';
+  return key ? PLATFORM_LABELS[key] : (platform as string);
+};
+
+export const toFormatCategory = (value: string | null): FormatCategory => {
+  const formatName = (value || '').trim().toLowerCase();
+  if (formatName === 'blog') return 'article';
+  return (FORMAT_CATEGORIES as readonly string[]).includes(formatName) ? formatName as FormatCategory : 'other';
+};
+
+const titleKey = (title: string | null) => (title || '').trim().toLowerCase();
+
+// Period of an instant, in the timezone
+const periodOf = (date: Date, period: ContentAnalytics['period'], timezone?: string) => {
+  const parts = getZonedParts(date, timezone);
+  const day = new Date(parts.year, parts.month - 1, parts.day);
+  return period === 'week' ? format(startOfWeek(day, { weekStartsOn: 1 }), 'yyyy-MM-dd') : format(day, 'yyyy-MM');
+};
+
+// Every period of the range, so quiet weeks and months show up as zeros
+const periodsBetween = (from: Date, to: Date, period: ContentAnalytics['period'], timezone?: string) => {
+  const periods: string[] = [];
+  for (let time = from.getTime(); time <= to.getTime(); time += DAY_MS) {
+    const key = periodOf(new Date(time), period, timezone);
+    if (periods[periods.length - 1] !== key) periods.push(key);
+  }
+  // Stepping by days can skip the last one when to is earlier in the day than from
+  const last = periodOf(to, period, timezone);
+  if (periods[periods.length - 1] !== last) periods.push(last);
+  return periods;
+};
+
+// Stretches of more than gapDays without a post, between the range bounds
+const findGaps = (dates: Date[], from: Date, to: Date, gapDays: number, platform: string | null): ContentGap[] => {
+  const bounds = [from, ...dates, to];
+  const gaps: ContentGap[] = [];
+  for (let i = 1; i < bounds.length; i++) {
+    const days = Math.floor((bounds[i].getTime() - bounds[i - 1].getTime()) / DAY_MS);
+    if (days > gapDays) {
+      gaps.push({ platform, from: bounds[i - 1].toISOString(), to: bounds[i].toISOString(), days });
+    }
+  }
+  return gaps;
+};
+
+async function loadPosts(organizationId: string, from: Date, to: Date): Promise<AnalyticsPostRow[]> {
+  const posts: AnalyticsPostRow[] = [];
+
+  for (let offset = 0; offset < MAX_POSTS; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('id, title, platform, format, status, posted_date, approval_status, deleted_at, derived_from')
+      .eq('organization_id', organizationId)
+      .gte('posted_date', from.toISOString())
+      .lte('posted_date', to.toISOString())
+      .order('posted_date', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load posts: ${error.message}`);
+    }
+
+    posts.push(...((data || []) as AnalyticsPostRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return posts;
+}
+
+// Titles social posts of the organization were planned from, whatever their date
+async function loadDerivedFromTitles(organizationId: string): Promise<Set<string>> {
+  const { data, error } = await supabase
+    .from('posts')
+    .select('derived_from')
+    .eq('organization_id', organizationId)
+    .not('derived_from', 'is', null)
+    .is('deleted_at', null)
+    .limit(MAX_POSTS);
+
+  if (error) {
+    throw new Error(`Failed to load derived posts: ${error.message}`);
+  }
+
+  return new Set((data || []).map(post => titleKey(post.derived_from)).filter(Boolean));
+}
+
+/**
+ * How an organization's content program did over a range: publishing cadence
+ * per platform, format mix, planned vs published posts, what became of the
+ * AI suggestions, stretches without posts, and how many web articles were
+ * repurposed into social posts.
+ */
+export async function getContentAnalytics(
+  organizationId: string,
+  options: ContentAnalyticsOptions
+): Promise<ContentAnalytics> {
+  const { from, to, timezone } = options;
+  const gapDays = options.gapDays || DEFAULT_GAP_DAYS;
+  const period: ContentAnalytics['period'] = (to.getTime() - from.getTime()) / DAY_MS > WEEKLY_RANGE_DAYS ? 'month' : 'week';
+
+  const [posts, derivedFrom] = await Promise.all([
+    loadPosts(organizationId, from, to),
+    loadDerivedFromTitles(organizationId)
+  ]);
+
+  const live = posts.filter(post => !post.deleted_at && post.posted_date);
+  const published = live.filter(post => post.status === 'POSTED');
+  const periods = periodsBetween(from, to, period, timezone);
+  const platforms = Array.from(new Set(published.map(post => platformLabel(post.platform)))).sort();
+
+  const cadence = periods.map(key => ({ period: key, counts: {} as Record<string, number>, total: 0 }));
+  const plannedVsPublished = periods.map(key => ({ period: key, planned: 0, published: 0 }));
+  const periodIndex = new Map(periods.map((key, index) => [key, index]));
+
+  live.forEach(post => {
+    const index = periodIndex.get(periodOf(new Date(post.posted_date as string), period, timezone));
+    if (index === undefined) return;
+
+    if (PLANNED_STATUSES.includes(post.status)) plannedVsPublished[index].planned++;
+    if (post.status === 'POSTED') {
+      const platform = platformLabel(post.platform);
+      plannedVsPublished[index].published++;
+      cadence[index].counts[platform] = (cadence[index].counts[platform] || 0) + 1;
+      cadence[index].total++;
+    }
+  });
+
+  const formatCounts = new Map<FormatCategory, number>();
+  published.forEach(post => {
+    const category = toFormatCategory(post.format);
+    formatCounts.set(category, (formatCounts.get(category) || 0) + 1);
+  });
+
+  // Suggestions are the posts that went through review (see migration 34)
+  const suggested = posts.filter(post => post.approval_status);
+  const accepted = suggested.filter(post => !post.deleted_at && (post.approval_status === 'approved' || post.status !== 'SUGGESTED')).length;
+  const dropped = suggested.filter(post => post.approval_status === 'rejected' || (post.deleted_at && post.status === 'SUGGESTED')).length;
+
+  // Gaps end now for ranges that reach into the future
+  const gapEnd = new Date(Math.min(to.getTime(), Date.now()));
+  const publishedDates = (platform: string | null) => published
+    .filter(post => platform === null || platformLabel(post.platform) === platform)
+    .map(post => new Date(post.posted_date as string))
+    .filter(date => date <= gapEnd);
+  const gaps = [
+    ...findGaps(publishedDates(null), from, gapEnd, gapDays, null),
+    ...platforms.flatMap(platform => findGaps(publishedDates(platform), from, gapEnd, gapDays, platform))
+  ].sort((a, b) => b.days - a.days);
+
+  const webPosts = published.filter(post => platformLabel(post.platform) === PLATFORM_LABELS.web);
+  const withoutDerivatives = webPosts.filter(post => !derivedFrom.has(titleKey(post.title)));
+
+  return {
+    from: from.toISOString(),
+    to: to.toISOString(),
+    period,
+    periods,
+    platforms,
+    cadence,
+    formatMix: FORMAT_CATEGORIES
+      .map(category => ({ format: category, count: formatCounts.get(category) || 0 }))
+      .filter(entry => entry.count > 0),
+    plannedVsPublished,
+    suggestions: {
+      total: suggested.length,
+      accepted,
+      dropped,
+      pending: suggested.length - accepted - dropped
+    },
+    gapDays,
+    gaps,
+    derivatives: {
+      webPosts: webPosts.length,
+      withDerivatives: webPosts.length - withoutDerivatives.length,
+      share: webPosts.length > 0 ? (webPosts.length - withoutDerivatives.length) / webPosts.length : 0,
+      withoutDerivatives: withoutDerivatives
+        .reverse()
+        .map(post => ({ id: post.id, title: post.title || 'Untitled post', postedDate: post.posted_date as string }))
+    }
+  };
+}
+
+const csvCell = (value: string | number) => {
+  const text = String(value);
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * The report as one CSV table: a row per number, named by section, period,
+ * platform and metric
+ */
+export function contentAnalyticsToCsv(analytics: ContentAnalytics): string {
+  const rows: (string | number)[][] = [['section', 'period', 'platform', 'metric', 'value']];
+
+  analytics.cadence.forEach(entry => {
+    analytics.platforms.forEach(platform => rows.push(['cadence', entry.period, platform, 'published', entry.counts[platform] || 0]));
+  });
+  analytics.formatMix.forEach(entry => rows.push(['format_mix', '', '', entry.format, entry.count]));
+  analytics.plannedVsPublished.forEach(entry => {
+    rows.push(['planned_vs_published', entry.period, '', 'planned', entry.planned]);
+    rows.push(['planned_vs_published', entry.period, '', 'published', entry.published]);
+  });
+  (['total', 'accepted', 'dropped', 'pending'] as const).forEach(metric =>
+    rows.push(['suggestions', '', '', metric, analytics.suggestions[metric]]));
+  analytics.gaps.forEach(gap =>
+    rows.push(['gaps', `${gap.from.slice(0, 10)} to ${gap.to.slice(0, 10)}`, gap.platform || 'All', 'days', gap.days]));
+  rows.push(['derivatives', '', PLATFORM_LABELS.web, 'web_posts', analytics.derivatives.webPosts]);
+  rows.push(['derivatives', '', PLATFORM_LABELS.web, 'with_derivatives', analytics.derivatives.withDerivatives]);
+  rows.push(['derivatives', '', PLATFORM_LABELS.web, 'share', analytics.derivatives.share.toFixed(3)]);
+
+  return rows.map(row => row.map(csvCell).join(',')).join('\n') + '\n';
+}
@@ -0,0 +1,72 @@
+/**
+ * Approval workflow for AI-suggested posts.
+ *
+ * Suggestions start out pending. A reviewer approves them (after which they can be
+ * scheduled), rejects them, or requests changes, which regenerates the post with the
+ * feedback and puts it back up for review. Who may do what depends on the member's
+ * user_organizations.role, which admins set on the organizations page.
+ */
+
+export type ApprovalStatus = 'pending' | 'changes_requested' | 'approved' | 'rejected';
+
+export type ReviewAction = 'assign' | 'approve' | 'reject' | 'request_changes';
+
+// Roles an admin can give members on the organizations page
+export type MemberRole = 'admin' | 'reviewer' | 'editor' | 'pending';
+
+export const MEMBER_ROLES: MemberRole[] = ['admin', 'reviewer', 'editor', 'pending'];
+
+export const MEMBER_ROLE_LABELS: Record<MemberRole, string> = {
+  admin: 'Admin',
+  reviewer: 'Reviewer',
+  editor: 'Editor',
+  pending: 'Pending (asked to join)'
+};
+
+// Roles allowed to take each review action
+const REVIEW_PERMISSIONS: Record<ReviewAction, string[]> = {
+  assign: ['admin', 'reviewer', 'editor'],
+  approve: ['admin', 'reviewer'],
+  reject: ['admin', 'reviewer'],
+  request_changes: ['admin', 'reviewer']
+};
+
+// Roles that can be assigned as a post's reviewer
+export const APPROVER_ROLES = REVIEW_PERMISSIONS.approve;
+
+export const REVIEW_ACTIONS = Object.keys(REVIEW_PERMISSIONS) as ReviewAction[];
+
+export const APPROVAL_STATUS_LABELS: Record<ApprovalStatus, string> = {
+  pending: 'Awaiting review',
+  changes_requested: 'Changes requested',
+  approved: 'Approved',
+  rejected: 'Rejected'
+};
+
+export function canTakeReviewAction(role: string | null | undefined, action: ReviewAction): boolean {
+  return !!role && REVIEW_PERMISSIONS[action].includes(role);
+}
+
+/**
+ * Whether a post in this review state may become SCHEDULED.
+ * Posts without an approval status were written by hand and need no review.
+ */
+export function isApprovedForScheduling(approvalStatus?: ApprovalStatus | null): boolean {
+  return !approvalStatus || approvalStatus === 'approved';
+}
+
+// Actions that make sense for a post in the given review state
+export function getAllowedReviewActions(approvalStatus?: ApprovalStatus | null): ReviewAction[] {
+  switch (approvalStatus) {
+    case 'pending':
+      return ['assign', 'approve', 'reject', 'request_changes'];
+    case 'changes_requested':
+      return ['assign', 'approve', 'reject'];
+    case 'rejected':
+      return ['approve'];
+    case 'approved':
+      return ['reject', 'request_changes'];
+    default:
+      return [];
+  }
+}
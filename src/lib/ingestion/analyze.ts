@@ -0,0 +1,194 @@
+import { completeLLM, LLMSettings } from '@/lib/llm';
+import { parsePostedDate } from '@/lib/scheduling';
+import { resolveCanonicalUrl } from './canonical';
+import { extractPageContent, PageContent } from './content';
+import { extractInfoFromHtml } from './extract';
+import { fetchUrlContent } from './fetch';
+import { extractPageMedia, PostMedia } from './media';
+import { extractPageMetadata, PageMetadata } from './metadata';
+
+// Post fields derived from a page, before the owner and organization are added
+export interface AnalyzedUrl {
+  url: string;
+  canonical_url: string;
+  title: string;
+  description: string;
+  posted_date: string;
+  format: string;
+  platform: string;
+  has_video: boolean;
+  has_infographic: boolean;
+  has_podcast: boolean;
+  page_metadata: PageMetadata;
+  media: PostMedia;
+}
+
+// An analyzed page: the post fields and the content archived for it (see archive.ts)
+export interface AnalyzedPage {
+  post: AnalyzedUrl;
+  content: PageContent;
+}
+
+// Function to generate title using OpenAI
+export async function generateTitle(content: string, platform: string, llmSettings?: LLMSettings) {
+  try {
+    console.log('==== GENERATING TITLE ====');
+    console.log('Platform:', platform);
+    console.log('Content for title generation:', content);
+    
+    const prompt = `
+      Generate a concise, catchy title (1-9 words) for this ${platform} post.
+      The title should accurately represent the post's main point or message.
+      Don't use hashtags or @mentions in the title.
+      Don't use quotes around the title.
+      
+      Original ${platform} post content: 
+      ${content.slice(0, 1000)}
+      
+      Title:
+    `;
+    
+    console.log('Using prompt for title generation:', prompt);
+    
+    const response = await completeLLM({
+      task: 'post-title',
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: 30,
+      temperature: 0.7
+    }, llmSettings);
+    
+    let generatedTitle = response.content.trim();
+    
+    // Remove any quotation marks, hashtags, or unnecessary prefixes that might have been added
+    generatedTitle = generatedTitle
+      .replace(/["']/g, '')
+      .replace(/^title:?\s*/i, '')
+      .replace(/^["']|["']$/g, '')
+      .replace(/#\w+/g, '')
+      .trim();
+    
+    console.log('Generated title:', generatedTitle);
+    console.log('==== END TITLE GENERATION ====');
+    
+    return generatedTitle;
+  } catch (error) {
+    console.error('Error generating title with OpenAI:', error);
+    return `Post from ${platform}`;
+  }
+}
+
+// Function to get description using OpenAI
+export async function generateDescription(title: string, content: string, format: string = 'article', platform: string = 'website', llmSettings?: LLMSettings) {
+  try {
+    console.log('==== GENERATING DESCRIPTION ====');
+    console.log('Title:', title);
+    console.log('Format:', format);
+    console.log('Platform:', platform);
+    console.log('Content preview for description:', content.substring(0, 100) + '...');
+    
+    let prompt;
+    
+    if (format === 'social') {
+      // Special prompt for social media posts
+      prompt = `
+        Write a brief description (40-60 words) summarizing this ${platform} post.
+        Focus on the key points or message of the post.
+        Keep it factual and concise.
+        
+        Post title: ${title}
+        
+        Post content: ${content.slice(0, 2000)}
+        
+        Description:
+      `;
+    } else {
+      // Original prompt for articles and other content
+      prompt = `
+        Please write a concise description (max 150 words) for this content based on the following information:
+        
+        Title: ${title}
+        
+        Content: ${content.slice(0, 3000)}
+        
+        Keep the description factual and informative. Focus on the main points and avoid subjective opinions.
+      `;
+    }
+    
+    console.log('Using prompt for description generation:', prompt);
+    
+    const response = await completeLLM({
+      task: 'post-description',
+      messages: [{ role: 'user', content: prompt }],
+      maxTokens: format === 'social' ? 100 : 250,
+      temperature: format === 'social' ? 0.5 : 0.3
+    }, llmSettings);
+    
+    const description = response.content.trim()
+      .replace(/^description:?\s*/i, '')  // Remove any "Description:" prefix
+      .replace(/^["']|["']$/g, '');       // Remove surrounding quotes
+    
+    console.log('Generated description:', description);
+    console.log('==== END DESCRIPTION GENERATION ====');
+    
+    return description;
+  } catch (error) {
+    console.error('Error generating description with OpenAI:', error);
+    return '';
+  }
+}
+
+/**
+ * Fetch a page, read its structured metadata (JSON-LD, OpenGraph, Twitter
+ * cards, oEmbed), extract its title, date, format, platform and media, and have the LLM
+ * write the description (and the title, for social posts that have none).
+ * The page's full text comes back alongside, to be archived with the post.
+ * Shared by /api/analyze-url and the feed import jobs.
+ */
+export async function analyzeUrl(url: string, llmSettings?: LLMSettings): Promise<AnalyzedPage> {
+  // Fetch content from URL
+  const htmlContent = await fetchUrlContent(url);
+  
+  // Extract information, from structured metadata where the page has it
+  const metadata = await extractPageMetadata(htmlContent, url);
+  const extractedInfo = extractInfoFromHtml(htmlContent, url, metadata);
+  const { title: extractedTitle, postedDate, format, platform, content, needsAiTitle, hasVideo, hasInfographic, hasPodcast } = extractedInfo;
+  const media = extractPageMedia(htmlContent, url, metadata);
+  
+  console.log('Detected format:', format);
+  console.log('Detected platform:', platform);
+  console.log('Needs AI title:', needsAiTitle);
+  console.log('Has video:', hasVideo);
+  console.log('Has infographic:', hasInfographic);
+  console.log('Has podcast:', hasPodcast);
+  console.log('Media assets:', media.assets.length);
+  console.log('Post date before database insertion:', postedDate);
+  
+  // Generate title for social posts if needed
+  let title = extractedTitle;
+  if (needsAiTitle) {
+    console.log('Generating AI title for social post');
+    title = await generateTitle(content, platform, llmSettings);
+    console.log('Generated title:', title);
+  }
+  
+  // Generate description using OpenAI
+  const description = await generateDescription(title, content, format, platform, llmSettings);
+  
+  const post: AnalyzedUrl = {
+    url,
+    canonical_url: resolveCanonicalUrl(url, metadata.canonicalUrl?.value),
+    title,
+    description,
+    posted_date: parsePostedDate(postedDate).toISOString(), // Publication day (YYYY-MM-DD in UTC) stored at noon UTC
+    format,
+    platform,
+    // Embedded players and audio files count too, not only the page's own format
+    has_video: hasVideo || media.assets.some(asset => asset.kind === 'video'),
+    has_infographic: hasInfographic || false,
+    has_podcast: hasPodcast || media.assets.some(asset => asset.kind === 'audio'),
+    page_metadata: metadata,
+    media
+  };
+  
+  return { post, content: extractPageContent(htmlContent, url) };
+}
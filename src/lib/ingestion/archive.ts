@@ -0,0 +1,158 @@
+import { createClient } from '@supabase/supabase-js';
+import { extractPageContent, PageContent } from './content';
+import { fetchUrlContent } from './fetch';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+export interface PostContent {
+  id: string;
+  post_id: string;
+  url: string;
+  text: string;
+  word_count: number;
+  headings: PageContent['headings'];
+  links: PageContent['links'];
+  content_hash: string;
+  first_seen_at: string;
+  last_seen_at: string;
+}
+
+// Versions are listed without their text
+export type PostContentVersion = Omit<PostContent, 'text' | 'headings' | 'links'>;
+
+export interface SavedPostContent {
+  content: PostContent;
+  // The page differs from the version archived before; false for the first version
+  changed: boolean;
+}
+
+const VERSION_COLUMNS = 'id, post_id, url, word_count, content_hash, first_seen_at, last_seen_at';
+
+const getLatestContent = async (postId: string): Promise<PostContent | null> => {
+  const { data, error } = await supabase
+    .from('post_contents')
+    .select('*')
+    .eq('post_id', postId)
+    .order('first_seen_at', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load the archived content: ${error.message}`);
+  }
+
+  return data as PostContent | null;
+};
+
+/**
+ * Archive what a post's page says. Content identical to the latest version
+ * only moves its last_seen_at; anything else is a new version, and if there
+ * was one before, the post's content_changed_at is set.
+ */
+export async function savePostContent(postId: string, url: string, page: PageContent): Promise<SavedPostContent> {
+  const latest = await getLatestContent(postId);
+  const now = new Date().toISOString();
+
+  if (latest && latest.content_hash === page.contentHash) {
+    const { error } = await supabase
+      .from('post_contents')
+      .update({ last_seen_at: now })
+      .eq('id', latest.id);
+
+    if (error) {
+      throw new Error(`Failed to update the archived content: ${error.message}`);
+    }
+    return { content: { ...latest, last_seen_at: now }, changed: false };
+  }
+
+  const { data: content, error } = await supabase
+    .from('post_contents')
+    .insert({
+      post_id: postId,
+      url,
+      text: page.text,
+      word_count: page.wordCount,
+      headings: page.headings,
+      links: page.links,
+      content_hash: page.contentHash,
+      first_seen_at: now,
+      last_seen_at: now
+    })
+    .select('*')
+    .single();
+
+  if (error || !content) {
+    throw new Error(`Failed to archive the content: ${error?.message || 'unknown error'}`);
+  }
+
+  if (latest) {
+    const { error: postError } = await supabase
+      .from('posts')
+      .update({ content_changed_at: now })
+      .eq('id', postId);
+
+    if (postError) {
+      throw new Error(`Failed to flag the post as changed: ${postError.message}`);
+    }
+  }
+
+  return { content: content as PostContent, changed: !!latest };
+}
+
+// savePostContent for imports: failing to archive is logged and doesn't lose the analysis
+export async function archivePostContent(postId: string, url: string, page: PageContent): Promise<SavedPostContent | null> {
+  try {
+    return await savePostContent(postId, url, page);
+  } catch (error) {
+    console.error(`[Ingestion] Failed to archive the content of post ${postId}:`, error);
+    return null;
+  }
+}
+
+// The latest archived content of a post and the list of its versions, newest first
+export async function getPostContent(postId: string): Promise<{ content: PostContent | null; versions: PostContentVersion[] }> {
+  const content = await getLatestContent(postId);
+
+  const { data: versions, error } = await supabase
+    .from('post_contents')
+    .select(VERSION_COLUMNS)
+    .eq('post_id', postId)
+    .order('first_seen_at', { ascending: false });
+
+  if (error) {
+    throw new Error(`Failed to load the content versions: ${error.message}`);
+  }
+
+  return { content, versions: (versions || []) as PostContentVersion[] };
+}
+
+/**
+ * Fetch a post's page again and archive it, without re-analyzing the post.
+ * `changed` tells whether the page differs from what was archived before.
+ */
+export async function checkPostContent(postId: string): Promise<SavedPostContent> {
+  const { data: post, error } = await supabase
+    .from('posts')
+    .select('id, url')
+    .eq('id', postId)
+    .single();
+
+  if (error || !post) {
+    throw new Error('Post not found');
+  }
+  if (!post.url) {
+    throw new Error('This post has no URL to check');
+  }
+
+  const html = await fetchUrlContent(post.url);
+  return savePostContent(postId, post.url, extractPageContent(html, post.url));
+}
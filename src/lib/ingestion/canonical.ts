@@ -0,0 +1,120 @@
+// Query parameters that only track where a visit came from
+const TRACKING_PARAMS = new Set([
+  'fbclid', 'gclid', 'dclid', 'gbraid', 'wbraid', 'msclkid', 'yclid', 'twclid', 'ttclid', 'li_fat_id',
+  'mc_cid', 'mc_eid', 'igshid', 'igsh', '_hsenc', '_hsmi', 'mkt_tok', 'trk', 'trackingid', 'lipi',
+  'ref', 'ref_src', 'ref_url', 'share', 'feature'
+]);
+
+// Hosts that serve the same content, mapped to the one used in canonical URLs
+const HOST_ALIASES: Record<string, string> = {
+  'twitter.com': 'x.com',
+  'mobile.twitter.com': 'x.com',
+  'mobile.x.com': 'x.com',
+  'm.youtube.com': 'youtube.com',
+  'music.youtube.com': 'youtube.com',
+  'youtube-nocookie.com': 'youtube.com',
+  'm.facebook.com': 'facebook.com',
+  'mbasic.facebook.com': 'facebook.com',
+  'fb.com': 'facebook.com',
+  'instagr.am': 'instagram.com',
+  'mobile.threads.net': 'threads.net'
+};
+
+// Hosts whose posts are identified by their path alone
+const PATH_ONLY_HOSTS = new Set(['x.com', 'instagram.com', 'threads.net', 'tiktok.com']);
+
+// YouTube video ID of youtu.be links and of /shorts/, /embed/, /live/ and /v/ paths
+const youTubeVideoId = (url: URL): string | null => {
+  if (url.hostname === 'youtu.be') {
+    return url.pathname.split('/')[1] || null;
+  }
+  const match = url.pathname.match(/^\/(?:shorts|embed|live|v)\/([^/]+)/);
+  return match ? match[1] : null;
+};
+
+/**
+ * The URL posts are deduplicated by. Two URLs of the same page get the same
+ * canonical URL: https instead of http, no "www.", host aliases unified
+ * (twitter.com is x.com, youtu.be links become youtube.com/watch?v=…), no
+ * fragment, trailing slash or tracking parameters (utm_*, fbclid, …), and the
+ * remaining query parameters sorted. Values that aren't URLs are returned trimmed.
+ */
+export function canonicalizeUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value.trim());
+  } catch {
+    return value.trim();
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    url.hash = '';
+    return url.toString();
+  }
+
+  url.protocol = 'https:';
+  url.hash = '';
+  url.username = '';
+  url.password = '';
+
+  let hostname = url.hostname.replace(/\.$/, '').replace(/^www\./, '');
+  hostname = HOST_ALIASES[hostname] || hostname;
+
+  const videoId = (hostname === 'youtu.be' || hostname === 'youtube.com') ? youTubeVideoId(url) : null;
+  if (videoId) {
+    url.search = `?v=${videoId}`;
+    url.pathname = '/watch';
+    hostname = 'youtube.com';
+  }
+  url.hostname = hostname;
+
+  if (PATH_ONLY_HOSTS.has(hostname)) {
+    url.search = '';
+  } else if (hostname === 'youtube.com' && url.pathname === '/watch') {
+    // Only the video counts; t, list, index and si don't make it another page
+    const id = url.searchParams.get('v');
+    url.search = id ? `?v=${id}` : '';
+  } else {
+    const params = Array.from(url.searchParams.entries())
+      .filter(([key]) => !key.toLowerCase().startsWith('utm_') && !TRACKING_PARAMS.has(key.toLowerCase()))
+      .sort(([a], [b]) => a.localeCompare(b));
+    url.search = new URLSearchParams(params).toString();
+  }
+
+  url.pathname = url.pathname.replace(/\/{2,}/g, '/');
+  if (url.pathname.length > 1 && url.pathname.endsWith('/')) {
+    url.pathname = url.pathname.replace(/\/+$/, '');
+  }
+
+  // Drop the slash URL adds after a bare host when there's nothing else
+  const canonical = url.toString();
+  return url.pathname === '/' && !url.search ? canonical.replace(/\/$/, '') : canonical;
+}
+
+/**
+ * Canonical URL of an analyzed page: the one it declares with
+ * <link rel="canonical"> (or og:url, JSON-LD) when that is a web URL, and
+ * otherwise its own. A declared canonical pointing at the site's home page is
+ * ignored unless the page is the home page, since that is usually a CMS default.
+ */
+export function resolveCanonicalUrl(pageUrl: string, declared?: string | null): string {
+  const page = canonicalizeUrl(pageUrl);
+  if (!declared) return page;
+
+  try {
+    const target = new URL(declared, pageUrl);
+    if (target.protocol !== 'http:' && target.protocol !== 'https:') return page;
+
+    const canonical = canonicalizeUrl(target.toString());
+    const isHomePage = (value: string) => {
+      try {
+        return new URL(value).pathname === '/';
+      } catch {
+        return false;
+      }
+    };
+    return isHomePage(canonical) && !isHomePage(page) ? page : canonical;
+  } catch {
+    return page;
+  }
+}
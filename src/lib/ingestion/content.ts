@@ -0,0 +1,109 @@
+import { createHash } from 'crypto';
+import { JSDOM } from 'jsdom';
+
+// Longest text archived per page
+const MAX_TEXT_LENGTH = 500000;
+// Headings and links kept per page
+const MAX_HEADINGS = 200;
+const MAX_LINKS = 500;
+
+// Elements that never hold the article text
+const NON_CONTENT_SELECTOR = 'script, style, noscript, template, svg, iframe, form, button, nav, aside, [role="navigation"], [aria-hidden="true"]';
+// Site chrome, removed when the page has no article or main element to read from
+const CHROME_SELECTOR = 'header, footer, [role="banner"], [role="contentinfo"]';
+// Elements whose text starts on a line of its own
+const BLOCK_SELECTOR = 'p, div, section, article, main, header, footer, h1, h2, h3, h4, h5, h6, li, ul, ol, dl, dt, dd, blockquote, pre, figure, figcaption, table, tr, br, hr';
+
+export interface ContentHeading {
+  level: number;
+  text: string;
+}
+
+export interface ContentLink {
+  url: string;
+  text: string;
+}
+
+// What a page said when it was analyzed
+export interface PageContent {
+  text: string;
+  wordCount: number;
+  headings: ContentHeading[];
+  links: ContentLink[]; // Links of the content to other sites
+  contentHash: string;
+}
+
+const collapse = (value: string | null | undefined) => (value || '').replace(/\s+/g, ' ').trim();
+
+const hostKey = (hostname: string) => hostname.toLowerCase().replace(/^www\./, '');
+
+const countWords = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+/**
+ * Hash pages are compared by. Whitespace is collapsed first, so a reindented
+ * template doesn't count as a change.
+ */
+const hashContent = (text: string) => createHash('sha256').update(collapse(text)).digest('hex');
+
+/**
+ * The readable content of a page: the text of its article (or main element,
+ * or body without the site's header, footer and navigation) with paragraphs on
+ * their own lines, its headings outline, the links it makes to other sites and
+ * the hash of the text.
+ */
+export function extractPageContent(html: string, url: string): PageContent {
+  const { document } = new JSDOM(html, { url }).window;
+
+  const container = document.querySelector('article') || document.querySelector('main, [role="main"]');
+  const root = (container || document.body || document.documentElement).cloneNode(true) as Element;
+
+  root.querySelectorAll(NON_CONTENT_SELECTOR).forEach(element => element.remove());
+  if (!container) {
+    root.querySelectorAll(CHROME_SELECTOR).forEach(element => element.remove());
+  }
+
+  const headings = Array.from(root.querySelectorAll('h1, h2, h3, h4, h5, h6'))
+    .map(heading => ({ level: parseInt(heading.tagName.slice(1), 10), text: collapse(heading.textContent) }))
+    .filter(heading => heading.text)
+    .slice(0, MAX_HEADINGS);
+
+  const pageHost = hostKey(new URL(url).hostname);
+  const links: ContentLink[] = [];
+  const seenLinks = new Set<string>();
+  root.querySelectorAll('a[href]').forEach(anchor => {
+    let target: URL;
+    try {
+      target = new URL(anchor.getAttribute('href') || '', url);
+    } catch {
+      return;
+    }
+    if ((target.protocol !== 'http:' && target.protocol !== 'https:') || hostKey(target.hostname) === pageHost) return;
+
+    target.hash = '';
+    const href = target.toString();
+    if (seenLinks.has(href) || links.length >= MAX_LINKS) return;
+    seenLinks.add(href);
+    links.push({ url: href, text: collapse(anchor.textContent) });
+  });
+
+  // Line breaks around block elements keep paragraphs apart in textContent
+  root.querySelectorAll(BLOCK_SELECTOR).forEach(element => {
+    element.before(document.createTextNode('\n'));
+    element.after(document.createTextNode('\n'));
+  });
+
+  const text = (root.textContent || '')
+    .split('\n')
+    .map(line => line.replace(/[ \t\u00a0]+/g, ' ').trim())
+    .filter(Boolean)
+    .join('\n')
+    .slice(0, MAX_TEXT_LENGTH);
+
+  return {
+    text,
+    wordCount: countWords(text),
+    headings,
+    links,
+    contentHash: hashContent(text)
+  };
+}
@@ -0,0 +1,566 @@
+import { createClient } from '@supabase/supabase-js';
+import { JSDOM } from 'jsdom';
+import { canonicalizeUrl } from './canonical';
+import { findExistingPosts } from './duplicates';
+import { extractInfoFromHtml } from './extract';
+import { fetchUrlContent } from './fetch';
+import { NON_PAGE_EXTENSIONS } from './feeds';
+import { createCrawlImportJob, IngestionJobDetails } from './jobs';
+import { extractPageMetadata, jsonLdNodes, PageMetadata } from './metadata';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Limits of a crawl, and the defaults used when none are given
+export const DEFAULT_CRAWL_DEPTH = 3;
+export const MAX_CRAWL_DEPTH = 5;
+export const DEFAULT_CRAWL_PAGES = 100;
+export const MAX_CRAWL_PAGES = 500;
+
+// Pages fetched per run. Requests to the site are spaced by the fetcher's politeness delay.
+const CRAWL_BATCH_SIZE = 10;
+
+// A page stays claimed this long before another run may fetch it again
+const PAGE_LEASE_MS = 2 * 60 * 1000;
+const MAX_PAGE_ATTEMPTS = 3;
+
+// Path patterns a crawl accepts, each at most this long
+const MAX_PATTERNS = 20;
+
+// JSON-LD types and paths of product pages, and paths of posts
+const PRODUCT_TYPES = ['Product', 'ProductGroup', 'ProductModel', 'IndividualProduct'];
+const PRODUCT_PATH = /\/(products?|shop|store|catalog)\/[^/]+/i;
+const ARTICLE_PATH = /\/(blog|news|articles?|posts?|insights|stories|updates|press|resources|podcasts?|videos?|episodes?)\/[^/]+/i;
+// Formats of the format detection that are content pieces whatever the path
+const CONTENT_FORMATS = ['video', 'podcast', 'infographic'];
+
+export type SiteCrawlStatus = 'crawling' | 'review' | 'committed';
+export type CrawlPageStatus = 'queued' | 'processing' | 'fetched' | 'failed';
+export type CrawlPageType = 'article' | 'landing' | 'product';
+
+export interface SiteCrawl {
+  id: string;
+  organization_id: string;
+  user_id: string | null;
+  seed_url: string;
+  max_depth: number;
+  max_pages: number;
+  include_patterns: string[];
+  exclude_patterns: string[];
+  status: SiteCrawlStatus;
+  truncated: boolean;
+  job_id: string | null;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+  committed_at: string | null;
+}
+
+export interface SiteCrawlPage {
+  id: string;
+  crawl_id: string;
+  url: string;
+  canonical_url: string;
+  depth: number;
+  status: CrawlPageStatus;
+  page_type: CrawlPageType | null;
+  format: string | null;
+  title: string | null;
+  published_at: string | null;
+  existing_post_id: string | null;
+  selected: boolean;
+  error: string | null;
+  attempt_count: number;
+  lease_expires_at: string | null;
+}
+
+export interface SiteCrawlDetails {
+  crawl: SiteCrawl;
+  pages: SiteCrawlPage[];
+  counts: Record<CrawlPageStatus, number>;
+}
+
+export interface SiteCrawlRunSummary {
+  fetched: number;
+  failed: number;
+  discovered: number;
+}
+
+const hostKey = (url: URL) => url.hostname.toLowerCase().replace(/^www\./, '');
+
+// Path patterns from a list or text with one per line or comma, each starting with a slash
+const cleanPatterns = (patterns: string[] | string | undefined): string[] =>
+  (Array.isArray(patterns) ? patterns : (patterns || '').split(/[\n,]/))
+    .map(pattern => pattern.trim())
+    .filter(Boolean)
+    .map(pattern => (pattern.startsWith('/') || pattern.startsWith('*') ? pattern : `/${pattern}`))
+    .slice(0, MAX_PATTERNS);
+
+// A pattern matches a path that starts with it; * matches anything
+const matchesPattern = (pattern: string, path: string) => {
+  const source = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}`, 'i').test(path);
+};
+
+const isCrawlable = (crawl: SiteCrawl, url: URL) => {
+  const path = `${url.pathname}${url.search}`;
+  if (crawl.exclude_patterns.some(pattern => matchesPattern(pattern, path))) return false;
+  return crawl.include_patterns.length === 0 || crawl.include_patterns.some(pattern => matchesPattern(pattern, path));
+};
+
+const countPages = (pages: Pick<SiteCrawlPage, 'status'>[]): Record<CrawlPageStatus, number> => {
+  const counts: Record<CrawlPageStatus, number> = { queued: 0, processing: 0, fetched: 0, failed: 0 };
+  pages.forEach(page => {
+    counts[page.status]++;
+  });
+  return counts;
+};
+
+/**
+ * Whether a page is a post (article, including videos and podcasts), a
+ * product page or a landing page. Structured metadata decides first, then the
+ * format detection, then the shape of the path; the homepage is always a
+ * landing page.
+ */
+const classifyPage = (url: URL, document: Document, metadata: PageMetadata, format: string): CrawlPageType => {
+  if (url.pathname === '/' || url.pathname === '') return 'landing';
+
+  const ogType = document.querySelector('meta[property="og:type"]')?.getAttribute('content') || '';
+  const isProduct = ogType.toLowerCase().startsWith('product') ||
+    jsonLdNodes(document).some(node => [node['@type']].flat().some(type => PRODUCT_TYPES.includes(String(type))));
+  if (isProduct || PRODUCT_PATH.test(url.pathname)) return 'product';
+
+  if (metadata.type || metadata.publishedAt || CONTENT_FORMATS.includes(format) || ARTICLE_PATH.test(url.pathname)) {
+    return 'article';
+  }
+  return 'landing';
+};
+
+// Same-site links of a page the crawl may follow, absolute and without fragments
+const findCrawlLinks = (crawl: SiteCrawl, document: Document, pageUrl: string): URL[] => {
+  const site = hostKey(new URL(crawl.seed_url));
+  const links: URL[] = [];
+
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    let link: URL;
+    try {
+      link = new URL(anchor.getAttribute('href') || '', pageUrl);
+    } catch {
+      return;
+    }
+    if (link.protocol !== 'http:' && link.protocol !== 'https:') return;
+    if (hostKey(link) !== site || NON_PAGE_EXTENSIONS.test(link.pathname) || anchor.getAttribute('rel')?.includes('nofollow')) return;
+
+    link.hash = '';
+    if (isCrawlable(crawl, link)) links.push(link);
+  });
+
+  return links;
+};
+
+/**
+ * Start crawling a site from its homepage (or any seed page). Pages of the
+ * same site are followed breadth first up to maxDepth links away from the seed
+ * and maxPages pages in total; include patterns limit the pages crawled and
+ * exclude patterns leave pages out.
+ */
+export async function createSiteCrawl(params: {
+  seedUrl: string;
+  organizationId: string;
+  userId: string;
+  maxDepth?: number;
+  maxPages?: number;
+  includePatterns?: string[] | string;
+  excludePatterns?: string[] | string;
+}): Promise<SiteCrawlDetails> {
+  const { data: crawl, error } = await supabase
+    .from('site_crawls')
+    .insert({
+      organization_id: params.organizationId,
+      user_id: params.userId,
+      seed_url: params.seedUrl,
+      max_depth: Math.min(Math.max(params.maxDepth ?? DEFAULT_CRAWL_DEPTH, 0), MAX_CRAWL_DEPTH),
+      max_pages: Math.min(Math.max(params.maxPages ?? DEFAULT_CRAWL_PAGES, 1), MAX_CRAWL_PAGES),
+      include_patterns: cleanPatterns(params.includePatterns),
+      exclude_patterns: cleanPatterns(params.excludePatterns)
+    })
+    .select('*')
+    .single();
+
+  if (error || !crawl) {
+    throw new Error(`Failed to start the crawl: ${error?.message || 'unknown error'}`);
+  }
+
+  const { error: seedError } = await supabase
+    .from('site_crawl_pages')
+    .insert({ crawl_id: crawl.id, url: params.seedUrl, canonical_url: canonicalizeUrl(params.seedUrl), depth: 0 });
+
+  if (seedError) {
+    await supabase.from('site_crawls').delete().eq('id', crawl.id);
+    throw new Error(`Failed to queue the seed page: ${seedError.message}`);
+  }
+
+  const details = await getSiteCrawl(crawl.id);
+  if (!details) {
+    throw new Error('Crawl disappeared after it was created');
+  }
+  return details;
+}
+
+/**
+ * A crawl with its pages, breadth first, and the number of pages per status
+ */
+export async function getSiteCrawl(crawlId: string): Promise<SiteCrawlDetails | null> {
+  const { data: crawl, error } = await supabase
+    .from('site_crawls')
+    .select('*')
+    .eq('id', crawlId)
+    .single();
+
+  if (error || !crawl) {
+    return null;
+  }
+
+  const { data: pages, error: pagesError } = await supabase
+    .from('site_crawl_pages')
+    .select('*')
+    .eq('crawl_id', crawlId)
+    .order('depth', { ascending: true })
+    .order('created_at', { ascending: true });
+
+  if (pagesError) {
+    throw new Error(`Failed to load crawled pages: ${pagesError.message}`);
+  }
+
+  return { crawl, pages: pages || [], counts: countPages(pages || []) };
+}
+
+// The most recent crawls of an organization
+export async function listSiteCrawls(organizationId: string, limit = 10): Promise<SiteCrawl[]> {
+  const { data, error } = await supabase
+    .from('site_crawls')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: false })
+    .limit(limit);
+
+  if (error) {
+    throw new Error(`Failed to load crawls: ${error.message}`);
+  }
+  return data || [];
+}
+
+// Pages left processing past their lease belong to a run that stopped mid-page
+const recoverExpiredPages = async (now: Date, crawlId?: string) => {
+  let query = supabase
+    .from('site_crawl_pages')
+    .select('id, attempt_count')
+    .eq('status', 'processing')
+    .lt('lease_expires_at', now.toISOString());
+
+  if (crawlId) {
+    query = query.eq('crawl_id', crawlId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[Crawl] Failed to load expired pages:', error);
+    return;
+  }
+
+  for (const page of data || []) {
+    const giveUp = page.attempt_count >= MAX_PAGE_ATTEMPTS;
+    await supabase
+      .from('site_crawl_pages')
+      .update({
+        status: giveUp ? 'failed' : 'queued',
+        error: giveUp ? 'The page could not be crawled after several attempts' : null,
+        lease_expires_at: null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', page.id)
+      .eq('status', 'processing');
+  }
+};
+
+// Take a queued page for this run; false when another run got to it first
+const claimPage = async (page: SiteCrawlPage, now: Date): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('site_crawl_pages')
+    .update({
+      status: 'processing',
+      attempt_count: page.attempt_count + 1,
+      lease_expires_at: new Date(now.getTime() + PAGE_LEASE_MS).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', page.id)
+    .eq('status', 'queued')
+    .select('id');
+
+  if (error) {
+    console.error(`[Crawl] Failed to claim page ${page.id}:`, error);
+    return false;
+  }
+
+  return (data?.length || 0) > 0;
+};
+
+// Queue the links of a page the crawl hasn't seen, up to its page limit. Returns how many were queued.
+const queueLinks = async (crawl: SiteCrawl, links: URL[], depth: number): Promise<number> => {
+  const { count, error } = await supabase
+    .from('site_crawl_pages')
+    .select('id', { count: 'exact', head: true })
+    .eq('crawl_id', crawl.id);
+
+  if (error) {
+    throw new Error(`Failed to count crawled pages: ${error.message}`);
+  }
+
+  const byCanonical = new Map<string, string>();
+  links.forEach(link => {
+    const canonical = canonicalizeUrl(link.toString());
+    if (!byCanonical.has(canonical)) byCanonical.set(canonical, link.toString());
+  });
+
+  const { data: known, error: knownError } = await supabase
+    .from('site_crawl_pages')
+    .select('canonical_url')
+    .eq('crawl_id', crawl.id)
+    .in('canonical_url', Array.from(byCanonical.keys()));
+
+  if (knownError) {
+    throw new Error(`Failed to check crawled pages: ${knownError.message}`);
+  }
+  (known || []).forEach(page => byCanonical.delete(page.canonical_url));
+
+  const room = Math.max(crawl.max_pages - (count || 0), 0);
+  const rows = Array.from(byCanonical.entries())
+    .slice(0, room)
+    .map(([canonical, url]) => ({ crawl_id: crawl.id, url, canonical_url: canonical, depth }));
+
+  if (byCanonical.size > room && !crawl.truncated) {
+    crawl.truncated = true;
+    await supabase.from('site_crawls').update({ truncated: true, updated_at: new Date().toISOString() }).eq('id', crawl.id);
+  }
+  if (rows.length === 0) return 0;
+
+  const { error: insertError } = await supabase
+    .from('site_crawl_pages')
+    .upsert(rows, { onConflict: 'crawl_id,canonical_url', ignoreDuplicates: true });
+
+  if (insertError) {
+    throw new Error(`Failed to queue links: ${insertError.message}`);
+  }
+  return rows.length;
+};
+
+// Fetch one claimed page: classify it, note whether it is already a post, and queue its links
+const crawlPage = async (page: SiteCrawlPage, crawl: SiteCrawl): Promise<{ fetched: boolean; discovered: number }> => {
+  const finish = async (update: Partial<SiteCrawlPage>) => {
+    const { error } = await supabase
+      .from('site_crawl_pages')
+      .update({ ...update, lease_expires_at: null, updated_at: new Date().toISOString() })
+      .eq('id', page.id);
+
+    if (error) {
+      console.error(`[Crawl] Failed to record page ${page.id}:`, error);
+    }
+  };
+
+  try {
+    const html = await fetchUrlContent(page.url);
+    if (!/<(html|body|head)[\s>]/i.test(html)) {
+      await finish({ status: 'failed', error: 'Not an HTML page' });
+      return { fetched: false, discovered: 0 };
+    }
+
+    const url = new URL(page.url);
+    const document = new JSDOM(html, { url: page.url }).window.document;
+    const metadata = await extractPageMetadata(html, page.url);
+    const { title, format } = extractInfoFromHtml(html, page.url, metadata);
+    const pageType = classifyPage(url, document, metadata, format);
+
+    const existing = await findExistingPosts([page.url], { organizationId: crawl.organization_id, userId: crawl.user_id });
+    const existingPostId = existing.get(page.url) || null;
+
+    const discovered = page.depth < crawl.max_depth
+      ? await queueLinks(crawl, findCrawlLinks(crawl, document, page.url), page.depth + 1)
+      : 0;
+
+    await finish({
+      status: 'fetched',
+      page_type: pageType,
+      format,
+      title: title.replace(/\s+/g, ' ').trim() || null,
+      published_at: metadata.publishedAt?.value || null,
+      existing_post_id: existingPostId,
+      // Articles that aren't in the library yet are imported unless deselected
+      selected: pageType === 'article' && !existingPostId,
+      error: null
+    });
+    return { fetched: true, discovered };
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Crawl] Failed to crawl ${page.url}:`, message);
+    await finish({ status: 'failed', error: message });
+    return { fetched: false, discovered: 0 };
+  }
+};
+
+// Crawls with nothing left queued are ready for review
+const completeFinishedCrawls = async (crawlIds: string[]) => {
+  for (const crawlId of crawlIds) {
+    const { count, error } = await supabase
+      .from('site_crawl_pages')
+      .select('id', { count: 'exact', head: true })
+      .eq('crawl_id', crawlId)
+      .in('status', ['queued', 'processing']);
+
+    if (error || (count || 0) > 0) continue;
+
+    const now = new Date().toISOString();
+    await supabase
+      .from('site_crawls')
+      .update({ status: 'review', completed_at: now, updated_at: now })
+      .eq('id', crawlId)
+      .eq('status', 'crawling');
+  }
+};
+
+/**
+ * Fetch the next queued pages, shallowest first, one at a time. Each page is
+ * claimed with a lease, classified and has its links queued; crawls move to
+ * review once no page is left to fetch.
+ */
+export async function runSiteCrawls(
+  options: { crawlId?: string; limit?: number; now?: Date } = {}
+): Promise<SiteCrawlRunSummary> {
+  const now = options.now || new Date();
+  await recoverExpiredPages(now, options.crawlId);
+
+  let query = supabase
+    .from('site_crawl_pages')
+    .select('*')
+    .eq('status', 'queued')
+    .order('depth', { ascending: true })
+    .order('created_at', { ascending: true })
+    .limit(options.limit || CRAWL_BATCH_SIZE);
+
+  if (options.crawlId) {
+    query = query.eq('crawl_id', options.crawlId);
+  }
+
+  const { data: queued, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load queued pages: ${error.message}`);
+  }
+
+  const pages = (queued || []) as SiteCrawlPage[];
+  const crawlIds = Array.from(new Set(pages.map(page => page.crawl_id)));
+  const crawls = new Map<string, SiteCrawl>();
+  if (crawlIds.length > 0) {
+    const { data: crawlRows, error: crawlsError } = await supabase
+      .from('site_crawls')
+      .select('*')
+      .in('id', crawlIds)
+      .eq('status', 'crawling');
+    if (crawlsError) {
+      throw new Error(`Failed to load crawls: ${crawlsError.message}`);
+    }
+    (crawlRows || []).forEach(crawl => crawls.set(crawl.id, crawl));
+  }
+
+  const summary: SiteCrawlRunSummary = { fetched: 0, failed: 0, discovered: 0 };
+  for (const page of pages) {
+    const crawl = crawls.get(page.crawl_id);
+    if (!crawl || !await claimPage(page, now)) continue;
+
+    const result = await crawlPage(page, crawl);
+    summary[result.fetched ? 'fetched' : 'failed']++;
+    summary.discovered += result.discovered;
+  }
+
+  await completeFinishedCrawls(options.crawlId ? [options.crawlId] : crawlIds);
+  return summary;
+}
+
+// Select or deselect pages of a crawl in review for import
+export async function updateCrawlSelection(crawlId: string, pageIds: string[], selected: boolean): Promise<void> {
+  if (pageIds.length === 0) return;
+
+  const { error } = await supabase
+    .from('site_crawl_pages')
+    .update({ selected, updated_at: new Date().toISOString() })
+    .eq('crawl_id', crawlId)
+    .eq('status', 'fetched')
+    .in('id', pageIds);
+
+  if (error) {
+    throw new Error(`Failed to update the selection: ${error.message}`);
+  }
+}
+
+/**
+ * Queue the selected pages of a crawl as an import job, which imports them as
+ * POSTED posts like any other import. A crawl is committed once.
+ */
+export async function commitSiteCrawl(crawlId: string, userId: string): Promise<IngestionJobDetails> {
+  const details = await getSiteCrawl(crawlId);
+  if (!details) {
+    throw new Error('Crawl not found');
+  }
+  if (details.crawl.status !== 'review') {
+    throw new Error(details.crawl.status === 'crawling' ? 'The crawl is still running' : 'This crawl was already imported');
+  }
+
+  const selected = details.pages.filter(page => page.status === 'fetched' && page.selected);
+  if (selected.length === 0) {
+    throw new Error('Select at least one page to import');
+  }
+
+  const job = await createCrawlImportJob({
+    sourceUrl: details.crawl.seed_url,
+    entries: selected.map(page => ({
+      url: page.url,
+      title: page.title || undefined,
+      publishedAt: page.published_at || undefined
+    })),
+    userId,
+    organizationId: details.crawl.organization_id
+  });
+
+  const now = new Date().toISOString();
+  const { error } = await supabase
+    .from('site_crawls')
+    .update({ status: 'committed', job_id: job.job.id, committed_at: now, updated_at: now })
+    .eq('id', crawlId);
+
+  if (error) {
+    console.error(`[Crawl] Failed to mark crawl ${crawlId} as committed:`, error);
+  }
+
+  return job;
+}
+
+// Discard a crawl and its pages; pages already imported stay in the library
+export async function deleteSiteCrawl(crawlId: string): Promise<void> {
+  const { error } = await supabase
+    .from('site_crawls')
+    .delete()
+    .eq('id', crawlId);
+
+  if (error) {
+    throw new Error(`Failed to delete the crawl: ${error.message}`);
+  }
+}
@@ -0,0 +1,36 @@
+import { canonicalizeUrl } from './canonical';
+import { isFetchableUrl } from './fetch';
+
+export interface ParsedCsvUrls {
+  urls: string[];
+  invalid: string[]; // Values that aren't importable URLs
+  truncated: boolean; // More than `limit` URLs were listed
+}
+
+/**
+ * Read the URLs of an uploaded CSV. One URL per line and comma separated
+ * values are both accepted; duplicates (URLs with the same canonical form)
+ * are dropped and at most `limit` URLs are kept.
+ */
+export function parseCsvUrls(content: string, limit: number): ParsedCsvUrls {
+  const values = content
+    .split(/\r?\n/)
+    .flatMap(line => line.split(','))
+    // Spreadsheet exports often quote every cell
+    .map(value => value.trim().replace(/^"(.*)"$/, '$1').trim())
+    // Skip empty cells and a "url" header
+    .filter(value => value && !/^urls?$/i.test(value));
+
+  const urls: string[] = [];
+  const invalid: string[] = [];
+  const seen = new Set<string>();
+
+  for (const value of values) {
+    const key = canonicalizeUrl(value);
+    if (seen.has(key)) continue;
+    seen.add(key);
+    (isFetchableUrl(value) ? urls : invalid).push(value);
+  }
+
+  return { urls: urls.slice(0, limit), invalid, truncated: urls.length > limit };
+}
@@ -0,0 +1,327 @@
+import { createClient } from '@supabase/supabase-js';
+import { canonicalizeUrl } from './canonical';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Size of the URL and ID lists sent to Supabase in one .in() filter
+const URL_CHUNK_SIZE = 100;
+// Rows read per page; Supabase returns at most 1000
+const PAGE_SIZE = 1000;
+// Canonical URLs stored at once for posts saved before they were
+const BACKFILL_BATCH_SIZE = 20;
+
+// Posts are deduplicated within the organization, or among the user's own posts outside one
+export interface PostScope {
+  organizationId: string | null;
+  userId: string | null;
+}
+
+export interface DuplicatePost {
+  id: string;
+  url: string;
+  canonical_url: string | null;
+  title: string | null;
+  status: string;
+  posted_date: string | null;
+  created_at: string;
+  organization_id: string | null;
+  user_id: string | null;
+}
+
+export interface DuplicateGroup {
+  canonicalUrl: string;
+  posts: DuplicatePost[];
+}
+
+const DUPLICATE_POST_COLUMNS = 'id, url, canonical_url, title, status, posted_date, created_at, organization_id, user_id';
+
+// Canonical URLs a post is known by: the stored one (which may come from the page's rel=canonical) and its own URL's
+const postKeys = (post: Pick<DuplicatePost, 'url' | 'canonical_url'>): string[] =>
+  Array.from(new Set([post.canonical_url, post.url && canonicalizeUrl(post.url)].filter((key): key is string => !!key)));
+
+/**
+ * Existing posts for any of these URLs, mapped URL -> post ID. URLs match when
+ * their canonical forms do (see canonicalizeUrl), so tracking parameters,
+ * trailing slashes and host aliases don't hide a duplicate.
+ */
+export async function findExistingPosts(urls: string[], scope: PostScope): Promise<Map<string, string>> {
+  const existing = new Map<string, string>();
+  if (urls.length === 0) return existing;
+
+  const canonicalByUrl = new Map(urls.map(url => [url, canonicalizeUrl(url)]));
+  const candidates = Array.from(new Set([...urls, ...Array.from(canonicalByUrl.values())]));
+  const postIdByKey = new Map<string, string>();
+
+  for (let i = 0; i < candidates.length; i += URL_CHUNK_SIZE) {
+    const chunk = candidates.slice(i, i + URL_CHUNK_SIZE);
+
+    // Posts saved before canonical URLs were stored are found by their URL
+    for (const column of ['canonical_url', 'url']) {
+      let query = supabase
+        .from('posts')
+        .select('id, url, canonical_url')
+        .in(column, chunk)
+        .is('deleted_at', null);
+
+      query = scope.organizationId
+        ? query.eq('organization_id', scope.organizationId)
+        : query.eq('user_id', scope.userId).is('organization_id', null);
+
+      const { data, error } = await query;
+
+      if (error) {
+        throw new Error(`Failed to check existing posts: ${error.message}`);
+      }
+      (data || []).forEach(post => postKeys(post).forEach(key => {
+        if (!postIdByKey.has(key)) postIdByKey.set(key, post.id);
+      }));
+    }
+  }
+
+  canonicalByUrl.forEach((canonical, url) => {
+    const postId = postIdByKey.get(canonical);
+    if (postId) existing.set(url, postId);
+  });
+
+  return existing;
+}
+
+/**
+ * The soft-deleted post of the scope saved under exactly this URL, if any.
+ * Post URLs are unique, so a page whose post was deleted or merged into a
+ * duplicate is saved into that row again instead of a new one.
+ */
+export async function findDeletedPost(url: string, scope: PostScope): Promise<string | null> {
+  let query = supabase
+    .from('posts')
+    .select('id')
+    .eq('url', url)
+    .not('deleted_at', 'is', null);
+
+  query = scope.organizationId
+    ? query.eq('organization_id', scope.organizationId)
+    : query.eq('user_id', scope.userId).is('organization_id', null);
+
+  const { data, error } = await query.maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to check deleted posts: ${error.message}`);
+  }
+
+  return data?.id || null;
+}
+
+// Store the canonical URL of posts saved before canonical URLs were. Grouping
+// works on the computed URLs either way, so failures are only logged.
+async function backfillCanonicalUrls(posts: DuplicatePost[]) {
+  let failed = 0;
+
+  for (let i = 0; i < posts.length; i += BACKFILL_BATCH_SIZE) {
+    const results = await Promise.all(posts.slice(i, i + BACKFILL_BATCH_SIZE).map(post => {
+      post.canonical_url = canonicalizeUrl(post.url);
+      return supabase.from('posts').update({ canonical_url: post.canonical_url }).eq('id', post.id);
+    }));
+    failed += results.filter(result => result.error).length;
+  }
+
+  if (failed > 0) {
+    console.error(`Failed to store the canonical URL of ${failed} of ${posts.length} posts`);
+  }
+}
+
+/**
+ * Posts of a scope that are the same page under different URLs, grouped by
+ * canonical URL, oldest post first. Posts saved before canonical URLs were
+ * stored get theirs filled in along the way.
+ */
+export async function findDuplicateGroups(scope: PostScope): Promise<DuplicateGroup[]> {
+  const posts: DuplicatePost[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('posts')
+      .select(DUPLICATE_POST_COLUMNS)
+      .is('deleted_at', null)
+      .not('url', 'is', null)
+      .order('created_at', { ascending: true })
+      .order('id', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    query = scope.organizationId
+      ? query.eq('organization_id', scope.organizationId)
+      : query.eq('user_id', scope.userId).is('organization_id', null);
+
+    const { data, error } = await query;
+
+    if (error) {
+      throw new Error(`Failed to load posts: ${error.message}`);
+    }
+
+    posts.push(...((data || []) as DuplicatePost[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  await backfillCanonicalUrls(posts.filter(post => !post.canonical_url && post.url));
+
+  // Posts sharing any key end up in one group (union-find over the post indexes)
+  const parent = posts.map((_, index) => index);
+  const root = (index: number): number => (parent[index] === index ? index : (parent[index] = root(parent[index])));
+  const firstPostByKey = new Map<string, number>();
+  posts.forEach((post, index) => postKeys(post).forEach(key => {
+    const first = firstPostByKey.get(key);
+    if (first === undefined) {
+      firstPostByKey.set(key, index);
+    } else {
+      parent[root(index)] = root(first);
+    }
+  }));
+
+  const groupByRoot = new Map<number, DuplicatePost[]>();
+  posts.forEach((post, index) => {
+    const group = groupByRoot.get(root(index)) || [];
+    group.push(post);
+    groupByRoot.set(root(index), group);
+  });
+  const groups = Array.from(groupByRoot.values());
+
+  return groups
+    .filter(group => group.length > 1)
+    .map(group => ({
+      canonicalUrl: group[0].canonical_url || canonicalizeUrl(group[0].url),
+      posts: group
+    }));
+}
+
+// Move the metrics samples of merged posts to the kept post. A sample for a
+// source and time the kept post already has stays with its merged post, as
+// only one sample per post, source and time is stored.
+async function moveMetricsToKeptPost(keepPostId: string, mergedPostIds: string[]) {
+  const { data: samples, error } = await supabase
+    .from('post_metrics')
+    .select('id, post_id, source, recorded_at')
+    .in('post_id', [keepPostId, ...mergedPostIds])
+    .order('recorded_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load the metrics of the merged posts: ${error.message}`);
+  }
+
+  const sampleKey = (sample: { source: string; recorded_at: string }) => `${sample.source}|${new Date(sample.recorded_at).toISOString()}`;
+  const taken = new Set((samples || []).filter(sample => sample.post_id === keepPostId).map(sampleKey));
+  const movedIds: string[] = [];
+  (samples || []).filter(sample => sample.post_id !== keepPostId).forEach(sample => {
+    if (taken.has(sampleKey(sample))) return;
+    taken.add(sampleKey(sample));
+    movedIds.push(sample.id);
+  });
+
+  for (let i = 0; i < movedIds.length; i += URL_CHUNK_SIZE) {
+    const { error: moveError } = await supabase
+      .from('post_metrics')
+      .update({ post_id: keepPostId })
+      .in('id', movedIds.slice(i, i + URL_CHUNK_SIZE));
+
+    if (moveError) {
+      throw new Error(`Failed to move metrics to the kept post: ${moveError.message}`);
+    }
+  }
+}
+
+/**
+ * Merge duplicate posts into the one kept: fields the kept post lacks are
+ * taken from the duplicates, imports, performance metrics and derived posts
+ * of a duplicate move to the kept post, and the duplicates are soft-deleted, which keeps their review,
+ * publishing and content history. All posts must be in the same scope.
+ */
+export async function mergeDuplicatePosts(keepPostId: string, mergePostIds: string[]): Promise<DuplicatePost> {
+  const ids = Array.from(new Set(mergePostIds.filter(id => id !== keepPostId)));
+  if (ids.length === 0) {
+    throw new Error('Choose at least one other post to merge');
+  }
+
+  const { data: posts, error } = await supabase
+    .from('posts')
+    .select('*')
+    .in('id', [keepPostId, ...ids]);
+
+  if (error) {
+    throw new Error(`Failed to load posts: ${error.message}`);
+  }
+
+  const kept = (posts || []).find(post => post.id === keepPostId);
+  const merged = (posts || []).filter(post => post.id !== keepPostId);
+  if (!kept || merged.length !== ids.length) {
+    throw new Error('Some of these posts no longer exist');
+  }
+  if (merged.some(post => post.organization_id !== kept.organization_id ||
+    (!kept.organization_id && post.user_id !== kept.user_id))) {
+    throw new Error('Only posts of the same organization can be merged');
+  }
+
+  // Oldest duplicates first, so their values win when several have one
+  merged.sort((a, b) => String(a.created_at).localeCompare(String(b.created_at)));
+  const fill: Record<string, unknown> = {};
+  ['description', 'page_metadata', 'canonical_url', 'platform', 'format'].forEach(field => {
+    if (kept[field] === null || kept[field] === undefined || kept[field] === '') {
+      const source = merged.find(post => post[field] !== null && post[field] !== undefined && post[field] !== '');
+      if (source) fill[field] = source[field];
+    }
+  });
+  if (!kept.canonical_url && !fill.canonical_url && kept.url) {
+    fill.canonical_url = canonicalizeUrl(kept.url);
+  }
+
+  const now = new Date().toISOString();
+  const { data: updated, error: updateError } = await supabase
+    .from('posts')
+    .update({ ...fill, updated_at: now })
+    .eq('id', keepPostId)
+    .select(DUPLICATE_POST_COLUMNS)
+    .single();
+
+  if (updateError || !updated) {
+    throw new Error(`Failed to update the kept post: ${updateError?.message || 'unknown error'}`);
+  }
+
+  const { error: itemsError } = await supabase
+    .from('ingestion_items')
+    .update({ post_id: keepPostId, updated_at: now })
+    .in('post_id', ids);
+
+  if (itemsError) {
+    throw new Error(`Failed to move imports to the kept post: ${itemsError.message}`);
+  }
+
+  await moveMetricsToKeptPost(keepPostId, ids);
+
+  // Posts repurposed from a duplicate now derive from the kept post
+  const { error: derivativesError } = await supabase
+    .from('posts')
+    .update({ parent_post_id: keepPostId, updated_at: now })
+    .in('parent_post_id', ids)
+    .neq('id', keepPostId);
+
+  if (derivativesError) {
+    throw new Error(`Failed to move derived posts to the kept post: ${derivativesError.message}`);
+  }
+
+  const { error: deleteError } = await supabase
+    .from('posts')
+    .update({ deleted_at: now, updated_at: now })
+    .in('id', ids);
+
+  if (deleteError) {
+    throw new Error(`Failed to delete the merged posts: ${deleteError.message}`);
+  }
+
+  return updated as DuplicatePost;
+}
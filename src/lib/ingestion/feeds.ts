@@ -0,0 +1,252 @@
+import { JSDOM } from 'jsdom';
+import { canonicalizeUrl } from './canonical';
+import { fetchUrlContent, isFetchableUrl } from './fetch';
+
+export type FeedType = 'sitemap' | 'rss' | 'atom';
+
+// Sources that can be watched: feeds, or a web page listing posts (a blog index or profile page)
+export type SourceType = FeedType | 'page';
+
+export interface FeedEntry {
+  url: string;
+  title?: string;
+  publishedAt?: string; // ISO instant from an RSS or Atom entry
+}
+
+export interface ParsedFeed {
+  type: FeedType | 'sitemapindex';
+  entries: FeedEntry[];
+  sitemaps: string[]; // Child sitemaps of a sitemap index
+}
+
+export interface DiscoveredFeed {
+  type: FeedType;
+  entries: FeedEntry[];
+  truncated: boolean; // More entries than MAX_FEED_ENTRIES were found
+}
+
+export interface DiscoveredSource {
+  type: SourceType;
+  entries: FeedEntry[];
+  truncated: boolean;
+}
+
+// Entries taken from one source, so a huge sitemap doesn't queue thousands of LLM calls
+export const MAX_FEED_ENTRIES = 500;
+
+// Child sitemaps followed from a sitemap index
+const MAX_CHILD_SITEMAPS = 20;
+
+// Feed formats a page can advertise with <link rel="alternate">
+const FEED_CONTENT_TYPES = ['application/rss+xml', 'application/atom+xml', 'application/rdf+xml'];
+
+// Links to files rather than pages
+export const NON_PAGE_EXTENSIONS = /\.(css|js|json|xml|rss|atom|png|jpe?g|gif|svg|webp|ico|pdf|zip|mp3|mp4)$/i;
+
+// Children of an element with the given local name, whatever their namespace prefix
+const childElements = (parent: Element, localName: string): Element[] =>
+  Array.from(parent.children).filter(child => child.localName === localName);
+
+const childText = (parent: Element, localName: string): string | undefined => {
+  const text = childElements(parent, localName)[0]?.textContent?.trim();
+  return text || undefined;
+};
+
+const toIsoDate = (value?: string): string | undefined => {
+  if (!value) return undefined;
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+// Resolve an entry link against the feed URL; only web pages (and fixtures, when allowed) are kept
+const resolveEntryUrl = (raw: string | undefined, baseUrl: string): string | null => {
+  if (!raw) return null;
+  try {
+    const resolved = new URL(raw.trim(), baseUrl);
+    resolved.hash = '';
+    return isFetchableUrl(resolved.toString()) ? resolved.toString() : null;
+  } catch {
+    return null;
+  }
+};
+
+const atomEntryLink = (entry: Element): string | undefined => {
+  const links = childElements(entry, 'link');
+  const alternate = links.find(link => (link.getAttribute('rel') || 'alternate') === 'alternate');
+  return (alternate || links[0])?.getAttribute('href') || undefined;
+};
+
+/**
+ * Parse a sitemap (or sitemap index), RSS 2.0 / RSS 1.0 or Atom document.
+ * Relative links are resolved against sourceUrl. Throws when the document
+ * isn't XML or isn't one of these formats.
+ */
+export function parseFeed(xml: string, sourceUrl: string): ParsedFeed {
+  let document: Document;
+  try {
+    document = new JSDOM(xml, { contentType: 'text/xml' }).window.document;
+  } catch {
+    throw new Error('The source is not valid XML');
+  }
+
+  const root = document.documentElement;
+  const entries: FeedEntry[] = [];
+  const addEntry = (rawUrl: string | undefined, title?: string, publishedAt?: string) => {
+    const url = resolveEntryUrl(rawUrl, sourceUrl);
+    if (url) entries.push({ url, title, publishedAt: toIsoDate(publishedAt) });
+  };
+
+  switch (root.localName) {
+    case 'urlset':
+      // <lastmod> is when the page last changed, not when it was published, so it isn't used
+      childElements(root, 'url').forEach(url => addEntry(childText(url, 'loc')));
+      return { type: 'sitemap', entries, sitemaps: [] };
+
+    case 'sitemapindex': {
+      const sitemaps = childElements(root, 'sitemap')
+        .map(sitemap => resolveEntryUrl(childText(sitemap, 'loc'), sourceUrl))
+        .filter((url): url is string => !!url);
+      return { type: 'sitemapindex', entries, sitemaps };
+    }
+
+    case 'rss':
+    case 'RDF': {
+      // RSS 2.0 nests items in <channel>, RSS 1.0 puts them next to it
+      const channel = childElements(root, 'channel')[0];
+      const items = [...(channel ? childElements(channel, 'item') : []), ...childElements(root, 'item')];
+      items.forEach(item => {
+        // Fall back to a permalink guid when an item has no <link>
+        const guid = childElements(item, 'guid')[0];
+        const guidLink = guid && guid.getAttribute('isPermaLink') !== 'false' ? guid.textContent?.trim() : undefined;
+        addEntry(
+          childText(item, 'link') || guidLink,
+          childText(item, 'title'),
+          childText(item, 'pubDate') || childText(item, 'date')
+        );
+      });
+      return { type: 'rss', entries, sitemaps: [] };
+    }
+
+    case 'feed':
+      childElements(root, 'entry').forEach(entry => addEntry(
+        atomEntryLink(entry),
+        childText(entry, 'title'),
+        childText(entry, 'published') || childText(entry, 'updated')
+      ));
+      return { type: 'atom', entries, sitemaps: [] };
+
+    default:
+      throw new Error(`Not a sitemap, RSS or Atom feed (root element <${root.localName}>)`);
+  }
+}
+
+// Deduplicate entries by canonical URL and keep at most MAX_FEED_ENTRIES
+const capEntries = <T extends string>(type: T, entries: FeedEntry[]) => {
+  const seen = new Set<string>();
+  const unique = entries.filter(entry => {
+    const key = canonicalizeUrl(entry.url);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  });
+
+  return {
+    type,
+    entries: unique.slice(0, MAX_FEED_ENTRIES),
+    truncated: unique.length > MAX_FEED_ENTRIES
+  };
+};
+
+// Entries of a parsed feed, reading the child sitemaps of a sitemap index
+const collectFeedEntries = async (parsed: ParsedFeed): Promise<DiscoveredFeed> => {
+  let entries = parsed.entries;
+
+  if (parsed.type === 'sitemapindex') {
+    entries = [];
+    for (const sitemapUrl of parsed.sitemaps.slice(0, MAX_CHILD_SITEMAPS)) {
+      if (entries.length > MAX_FEED_ENTRIES) break;
+      try {
+        const child = parseFeed(await fetchUrlContent(sitemapUrl), sitemapUrl);
+        entries.push(...child.entries);
+      } catch (error) {
+        // One broken child sitemap shouldn't stop the import
+        console.error(`[Ingestion] Skipping sitemap ${sitemapUrl}:`, error);
+      }
+    }
+  }
+
+  return capEntries(parsed.type === 'sitemapindex' ? 'sitemap' : parsed.type, entries);
+};
+
+/**
+ * Fetch a sitemap, RSS or Atom feed and list its entries, following the child
+ * sitemaps of a sitemap index. Entries are deduplicated by URL and capped at
+ * MAX_FEED_ENTRIES.
+ */
+export async function discoverFeedEntries(sourceUrl: string): Promise<DiscoveredFeed> {
+  return collectFeedEntries(parseFeed(await fetchUrlContent(sourceUrl), sourceUrl));
+}
+
+const isHtml = (content: string) => /^\s*(<!doctype html|<html[\s>])/i.test(content);
+
+/**
+ * Read an HTML page that lists posts, such as a blog index or a profile page:
+ * the feed it advertises, if any, and the links to other pages of the same
+ * site. Links in navigation, headers, footers and sidebars are left out.
+ */
+export function parsePageLinks(html: string, pageUrl: string): { feedUrl?: string; entries: FeedEntry[] } {
+  const document = new JSDOM(html).window.document;
+
+  const feedLink = Array.from(document.querySelectorAll('link[rel~="alternate"][href]'))
+    .find(link => FEED_CONTENT_TYPES.includes((link.getAttribute('type') || '').toLowerCase()));
+  const feedUrl = resolveEntryUrl(feedLink?.getAttribute('href') || undefined, pageUrl) || undefined;
+
+  const page = new URL(pageUrl);
+  const entries: FeedEntry[] = [];
+  document.querySelectorAll('a[href]').forEach(anchor => {
+    if (anchor.closest('nav, header, footer, aside')) return;
+
+    const url = resolveEntryUrl(anchor.getAttribute('href') || undefined, pageUrl);
+    if (!url) return;
+
+    const link = new URL(url);
+    if (
+      link.protocol !== page.protocol ||
+      link.host !== page.host ||
+      link.pathname === '/' ||
+      (link.pathname === page.pathname && link.search === page.search) ||
+      NON_PAGE_EXTENSIONS.test(link.pathname)
+    ) {
+      return;
+    }
+
+    const title = anchor.textContent?.replace(/\s+/g, ' ').trim();
+    entries.push({ url, title: title || undefined });
+  });
+
+  return { feedUrl, entries };
+}
+
+/**
+ * List the entries of a watched source: a sitemap, RSS or Atom feed, or a web
+ * page. A page that advertises a feed is read through that feed (the result
+ * has the feed's type); otherwise its same-site links are the entries.
+ */
+export async function discoverSourceEntries(sourceUrl: string): Promise<DiscoveredSource> {
+  const content = await fetchUrlContent(sourceUrl);
+  if (!isHtml(content)) {
+    return collectFeedEntries(parseFeed(content, sourceUrl));
+  }
+
+  const { feedUrl, entries } = parsePageLinks(content, sourceUrl);
+  if (feedUrl) {
+    try {
+      return await discoverFeedEntries(feedUrl);
+    } catch (error) {
+      // Fall back to the links on the page when the advertised feed is broken
+      console.error(`[Ingestion] Skipping feed ${feedUrl} of ${sourceUrl}:`, error);
+    }
+  }
+
+  return capEntries('page', entries);
+}
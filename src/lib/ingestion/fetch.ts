@@ -0,0 +1,510 @@
+import { lookup as dnsLookup, LookupAddress } from 'dns';
+import { readFile } from 'fs/promises';
+import http, { IncomingMessage } from 'http';
+import https from 'https';
+import { BlockList, isIP, LookupFunction } from 'net';
+import { fileURLToPath } from 'url';
+import zlib from 'zlib';
+
+const USER_AGENT = 'ContentSage Bot/1.0 (https://contentsage.app)';
+// Token matched against the User-agent lines of robots.txt
+const ROBOTS_AGENT = 'contentsage';
+
+// Defaults of the limits INGESTION_FETCH_TIMEOUT_MS, INGESTION_FETCH_MAX_BYTES and INGESTION_FETCH_HOST_DELAY_MS override
+const DEFAULT_TIMEOUT_MS = 15000;
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_HOST_DELAY_MS = 1000;
+
+const MAX_REDIRECTS = 5;
+// robots.txt is read up to this size, cached per origin, and its Crawl-delay honored up to MAX_CRAWL_DELAY_MS
+const MAX_ROBOTS_BYTES = 512 * 1024;
+const ROBOTS_CACHE_MS = 60 * 60 * 1000;
+const MAX_CRAWL_DELAY_MS = 10000;
+// Origins and hosts remembered for robots.txt and the politeness delay
+const MAX_TRACKED_HOSTS = 1000;
+
+// Media types we can read: pages, feeds, sitemaps, oEmbed responses and plain text
+const READABLE_CONTENT_TYPES = ['text/html', 'application/xhtml+xml', 'text/xml', 'application/xml', 'application/json', 'text/plain'];
+
+export type FetchErrorCode =
+  | 'invalid_url'
+  | 'file_urls_disabled'
+  | 'blocked_address'
+  | 'dns_failed'
+  | 'robots_disallowed'
+  | 'too_many_redirects'
+  | 'timeout'
+  | 'too_large'
+  | 'unsupported_content_type'
+  | 'http_error'
+  | 'network_error';
+
+// Response status API routes answer with when fetching a user's URL fails
+export const FETCH_ERROR_STATUS: Record<FetchErrorCode, number> = {
+  invalid_url: 400,
+  file_urls_disabled: 400,
+  blocked_address: 422,
+  dns_failed: 422,
+  robots_disallowed: 422,
+  too_many_redirects: 422,
+  timeout: 504,
+  too_large: 422,
+  unsupported_content_type: 422,
+  http_error: 502,
+  network_error: 502
+};
+
+/**
+ * Why a URL couldn't be fetched. The message is meant for users; `code` lets
+ * the UI tell the cases apart and `httpStatus` is the status the site answered
+ * with, for http_error.
+ */
+export class FetchError extends Error {
+  code: FetchErrorCode;
+  httpStatus?: number;
+
+  constructor(code: FetchErrorCode, message: string, httpStatus?: number) {
+    super(message);
+    this.name = 'FetchError';
+    this.code = code;
+    this.httpStatus = httpStatus;
+  }
+}
+
+/**
+ * file:// URLs are only read when INGESTION_ALLOW_FILE_URLS=true, so imports can be
+ * tried against local fixture files (see fixtures/ingestion) without a web server.
+ */
+export const allowsFileUrls = () => process.env.INGESTION_ALLOW_FILE_URLS === 'true';
+
+// Whether a URL can be imported: http(s) pages, and local files when allowed
+export const isFetchableUrl = (value: string): boolean => {
+  try {
+    const { protocol } = new URL(value);
+    return protocol === 'http:' || protocol === 'https:' || (protocol === 'file:' && allowsFileUrls());
+  } catch {
+    return false;
+  }
+};
+
+// A positive number from the environment, or the default
+const getLimit = (name: string, fallback: number): number => {
+  const configured = parseInt(process.env[name] || '', 10);
+  return configured > 0 ? configured : fallback;
+};
+
+// Addresses that aren't on the public internet: private networks, loopback,
+// link-local (cloud metadata services), CGNAT, multicast and reserved ranges
+const PRIVATE_ADDRESSES = new BlockList();
+[
+  ['0.0.0.0', 8], ['10.0.0.0', 8], ['100.64.0.0', 10], ['127.0.0.0', 8], ['169.254.0.0', 16],
+  ['172.16.0.0', 12], ['192.0.0.0', 24], ['192.0.2.0', 24], ['192.168.0.0', 16], ['198.18.0.0', 15],
+  ['198.51.100.0', 24], ['203.0.113.0', 24], ['224.0.0.0', 4], ['240.0.0.0', 4]
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv4'));
+[
+  ['::', 128], ['::1', 128], ['64:ff9b::', 96], ['100::', 64], ['2001:db8::', 32], ['fc00::', 7], ['fe80::', 10], ['ff00::', 8]
+].forEach(([network, prefix]) => PRIVATE_ADDRESSES.addSubnet(network as string, prefix as number, 'ipv6'));
+
+interface HostRules {
+  hosts: string[];
+  addresses: BlockList;
+}
+
+// Comma separated host names (subdomains included) and IP addresses or CIDR ranges
+const parseHostRules = (value: string | undefined): HostRules => {
+  const rules: HostRules = { hosts: [], addresses: new BlockList() };
+  (value || '').split(',').map(rule => rule.trim().toLowerCase()).filter(Boolean).forEach(rule => {
+    const [network, prefix] = rule.split('/');
+    const family = isIP(network);
+    if (family) {
+      const type = family === 4 ? 'ipv4' : 'ipv6';
+      if (prefix) {
+        rules.addresses.addSubnet(network, parseInt(prefix, 10), type);
+      } else {
+        rules.addresses.addAddress(network, type);
+      }
+    } else {
+      rules.hosts.push(rule.replace(/^\*?\./, ''));
+    }
+  });
+  return rules;
+};
+
+const matchesHost = (rules: HostRules, hostname: string) =>
+  rules.hosts.some(host => hostname === host || hostname.endsWith(`.${host}`));
+
+const matchesAddress = (rules: HostRules, address: string) =>
+  rules.addresses.check(address, isIP(address) === 4 ? 'ipv4' : 'ipv6');
+
+/**
+ * Whether a host may be fetched at an address. INGESTION_FETCH_DENIED_HOSTS is
+ * always refused, INGESTION_FETCH_ALLOWED_HOSTS may be on a private network
+ * (an intranet CMS, say), and any other host must resolve to public addresses.
+ */
+const checkAddress = (hostname: string, address: string) => {
+  const denied = parseHostRules(process.env.INGESTION_FETCH_DENIED_HOSTS);
+  if (matchesHost(denied, hostname) || matchesAddress(denied, address)) {
+    throw new FetchError('blocked_address', `Fetching ${hostname} is not allowed`);
+  }
+
+  const allowed = parseHostRules(process.env.INGESTION_FETCH_ALLOWED_HOSTS);
+  if (matchesHost(allowed, hostname) || matchesAddress(allowed, address)) return;
+
+  if (PRIVATE_ADDRESSES.check(address, isIP(address) === 4 ? 'ipv4' : 'ipv6')) {
+    throw new FetchError('blocked_address', `${hostname} points to a private or reserved network address`);
+  }
+};
+
+// DNS lookup for the connection itself, so a host can't resolve to a public
+// address when checked and a private one when connected to
+const safeLookup = ((hostname: string, options: { all?: boolean }, callback: (...args: unknown[]) => void) => {
+  dnsLookup(hostname, { ...options, all: true }, (error, addresses: LookupAddress[]) => {
+    if (error || addresses.length === 0) {
+      callback(new FetchError('dns_failed', `Could not find the server of ${hostname}`));
+      return;
+    }
+    try {
+      addresses.forEach(({ address }) => checkAddress(hostname, address));
+    } catch (checkError) {
+      callback(checkError);
+      return;
+    }
+    if (options.all) {
+      callback(null, addresses);
+    } else {
+      callback(null, addresses[0].address, addresses[0].family);
+    }
+  });
+}) as unknown as LookupFunction;
+
+const hostnameOf = (url: URL) => url.hostname.replace(/^\[|\]$/g, '').toLowerCase();
+
+// Host rules that can be checked before connecting; IP literals aren't looked up, so they're checked here
+const checkUrl = (url: URL) => {
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new FetchError('invalid_url', `Only http(s) URLs can be fetched, not ${url.protocol}`);
+  }
+
+  const hostname = hostnameOf(url);
+  if (isIP(hostname)) {
+    checkAddress(hostname, hostname);
+  } else if (matchesHost(parseHostRules(process.env.INGESTION_FETCH_DENIED_HOSTS), hostname)) {
+    throw new FetchError('blocked_address', `Fetching ${hostname} is not allowed`);
+  }
+};
+
+const isReadableContentType = (contentType: string | undefined) => {
+  const type = (contentType || '').split(';')[0].trim().toLowerCase();
+  // Servers that don't say are given the benefit of the doubt
+  return !type || READABLE_CONTENT_TYPES.includes(type) || type.endsWith('+xml') || type.endsWith('+json');
+};
+
+const decodeBody = (body: Buffer, contentType: string | undefined) => {
+  const charset = /charset=["']?([\w-]+)/i.exec(contentType || '')?.[1];
+  try {
+    return new TextDecoder(charset || 'utf-8').decode(body);
+  } catch {
+    return body.toString('utf8');
+  }
+};
+
+// Body of a response, decompressed, failing once it exceeds maxBytes
+const readBody = (response: IncomingMessage, maxBytes: number): Promise<Buffer> => new Promise((resolve, reject) => {
+  const encoding = String(response.headers['content-encoding'] || '').toLowerCase();
+  const decompress = encoding.includes('br') ? zlib.createBrotliDecompress()
+    : encoding.includes('gzip') ? zlib.createGunzip()
+    : encoding.includes('deflate') ? zlib.createInflate()
+    : null;
+  const stream = decompress ? response.pipe(decompress) : response;
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  stream.on('data', (chunk: Buffer) => {
+    size += chunk.length;
+    if (size > maxBytes) {
+      response.destroy();
+      decompress?.destroy();
+      reject(new FetchError('too_large', `The page is larger than ${Math.round(maxBytes / 1024)} KB`));
+      return;
+    }
+    chunks.push(chunk);
+  });
+  stream.on('end', () => resolve(Buffer.concat(chunks)));
+  stream.on('error', error => reject(new FetchError('network_error', `The download failed: ${error.message}`)));
+  response.on('error', error => reject(new FetchError('network_error', `The download failed: ${error.message}`)));
+});
+
+interface FetchedResponse {
+  url: URL;
+  contentType?: string;
+  body: Buffer;
+}
+
+interface RequestOptions {
+  timeoutMs: number;
+  maxBytes: number;
+  // robots.txt is read whatever its content type
+  anyContentType?: boolean;
+}
+
+// One GET request, downloaded within the timeout; redirects resolve to the URL to follow
+const requestOnce = (url: URL, options: RequestOptions): Promise<FetchedResponse | { redirect: URL }> =>
+  new Promise((settleResolve, settleReject) => {
+    // The timeout covers the whole download, so a server can't drip a response forever
+    let timedOut = false;
+    const timer = setTimeout(() => {
+      timedOut = true;
+      request.destroy();
+    }, options.timeoutMs);
+    const resolve = (value: FetchedResponse | { redirect: URL }) => {
+      clearTimeout(timer);
+      settleResolve(value);
+    };
+    const reject = (error: unknown) => {
+      clearTimeout(timer);
+      settleReject(timedOut
+        ? new FetchError('timeout', `The site did not respond within ${Math.round(options.timeoutMs / 1000)} seconds`)
+        : error);
+    };
+
+    const client = url.protocol === 'https:' ? https : http;
+    const request = client.get(url, {
+      lookup: safeLookup,
+      headers: {
+        'User-Agent': USER_AGENT,
+        'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,application/json;q=0.8,*/*;q=0.5',
+        'Accept-Encoding': 'gzip, deflate, br'
+      }
+    }, response => {
+      const status = response.statusCode || 0;
+
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        try {
+          resolve({ redirect: new URL(response.headers.location, url) });
+        } catch {
+          reject(new FetchError('invalid_url', `The page redirects to an invalid URL: ${response.headers.location}`));
+        }
+        return;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        reject(new FetchError('http_error', `Failed to fetch URL: ${status} ${response.statusMessage || ''}`.trim(), status));
+        return;
+      }
+
+      const contentType = response.headers['content-type'];
+      if (!options.anyContentType && !isReadableContentType(contentType)) {
+        response.destroy();
+        reject(new FetchError('unsupported_content_type', `The URL is not a page or feed (${contentType})`));
+        return;
+      }
+
+      const length = parseInt(String(response.headers['content-length'] || ''), 10);
+      if (length > options.maxBytes) {
+        response.destroy();
+        reject(new FetchError('too_large', `The page is larger than ${Math.round(options.maxBytes / 1024)} KB`));
+        return;
+      }
+
+      readBody(response, options.maxBytes).then(body => resolve({ url, contentType, body }), reject);
+    });
+
+    request.on('error', error => {
+      reject(error instanceof FetchError ? error : new FetchError('network_error', `Could not connect to ${url.host}: ${error.message}`));
+    });
+  });
+
+// GET a URL, checking every redirect like the URL itself
+const requestFollowingRedirects = async (
+  url: URL,
+  options: RequestOptions,
+  beforeRequest?: (url: URL) => Promise<void>
+): Promise<FetchedResponse> => {
+  let current = url;
+
+  for (let redirects = 0; ; redirects++) {
+    checkUrl(current);
+    if (beforeRequest) await beforeRequest(current);
+
+    const result = await requestOnce(current, options);
+    if (!('redirect' in result)) return result;
+
+    if (redirects >= MAX_REDIRECTS) {
+      throw new FetchError('too_many_redirects', `The page redirects more than ${MAX_REDIRECTS} times`);
+    }
+    current = result.redirect;
+  }
+};
+
+interface RobotsRule {
+  allow: boolean;
+  pattern: string;
+}
+
+interface RobotsPolicy {
+  rules: RobotsRule[];
+  crawlDelayMs: number | null;
+  expiresAt: number;
+}
+
+const robotsCache = new Map<string, RobotsPolicy>();
+
+// Forget the oldest entries of a map used as a cache
+const trimCache = <V>(cache: Map<string, V>) => {
+  while (cache.size > MAX_TRACKED_HOSTS) {
+    cache.delete(cache.keys().next().value as string);
+  }
+};
+
+/**
+ * Rules of a robots.txt that apply to us: the groups naming our user agent,
+ * or else the "*" groups.
+ */
+const parseRobots = (text: string): Omit<RobotsPolicy, 'expiresAt'> => {
+  const groups: { agents: string[]; rules: RobotsRule[]; crawlDelayMs: number | null }[] = [];
+  let current: (typeof groups)[number] | null = null;
+  let lastWasAgent = false;
+
+  text.split(/\r?\n/).forEach(line => {
+    const match = /^\s*([\w-]+)\s*:\s*(.*?)\s*$/.exec(line.replace(/#.*$/, ''));
+    if (!match) return;
+    const key = match[1].toLowerCase();
+    const value = match[2];
+
+    if (key === 'user-agent') {
+      if (!current || !lastWasAgent) {
+        current = { agents: [], rules: [], crawlDelayMs: null };
+        groups.push(current);
+      }
+      current.agents.push(value.toLowerCase());
+      lastWasAgent = true;
+      return;
+    }
+
+    lastWasAgent = false;
+    if (!current) return;
+    if ((key === 'allow' || key === 'disallow') && value) {
+      current.rules.push({ allow: key === 'allow', pattern: value });
+    } else if (key === 'crawl-delay' && parseFloat(value) > 0) {
+      current.crawlDelayMs = parseFloat(value) * 1000;
+    }
+  });
+
+  const ours = groups.filter(group => group.agents.some(agent => agent !== '*' && ROBOTS_AGENT.includes(agent)));
+  const applicable = ours.length > 0 ? ours : groups.filter(group => group.agents.includes('*'));
+  const delays = applicable.map(group => group.crawlDelayMs).filter((delay): delay is number => delay !== null);
+
+  return {
+    rules: applicable.flatMap(group => group.rules),
+    crawlDelayMs: delays.length > 0 ? Math.max(...delays) : null
+  };
+};
+
+const robotsPatternMatches = (pattern: string, path: string) => {
+  const anchored = pattern.endsWith('$');
+  const source = (anchored ? pattern.slice(0, -1) : pattern)
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${source}${anchored ? '$' : ''}`).test(path);
+};
+
+// The longest matching rule decides; Allow wins a tie
+const isAllowedByRules = (rules: RobotsRule[], path: string) => {
+  let best: RobotsRule | null = null;
+  for (const rule of rules) {
+    if (!robotsPatternMatches(rule.pattern, path)) continue;
+    if (!best || rule.pattern.length > best.pattern.length || (rule.pattern.length === best.pattern.length && rule.allow)) {
+      best = rule;
+    }
+  }
+  return !best || best.allow;
+};
+
+// The robots.txt policy of an origin. A missing or unreadable robots.txt allows everything.
+const getRobotsPolicy = async (origin: string, timeoutMs: number): Promise<RobotsPolicy> => {
+  const cached = robotsCache.get(origin);
+  if (cached && cached.expiresAt > Date.now()) return cached;
+
+  let parsed: Omit<RobotsPolicy, 'expiresAt'> = { rules: [], crawlDelayMs: null };
+  try {
+    const response = await requestFollowingRedirects(new URL('/robots.txt', origin), {
+      timeoutMs,
+      maxBytes: MAX_ROBOTS_BYTES,
+      anyContentType: true
+    });
+    parsed = parseRobots(decodeBody(response.body, response.contentType));
+  } catch (error) {
+    // Sites without a robots.txt don't restrict crawlers. When the site couldn't
+    // be reached at all, the page request fails too and robots.txt is read next time.
+    if (!(error instanceof FetchError && error.code === 'http_error')) {
+      return { ...parsed, expiresAt: 0 };
+    }
+  }
+
+  const policy = { ...parsed, expiresAt: Date.now() + ROBOTS_CACHE_MS };
+  robotsCache.delete(origin);
+  robotsCache.set(origin, policy);
+  trimCache(robotsCache);
+  return policy;
+};
+
+const nextRequestAt = new Map<string, number>();
+
+// Wait until the host's previous request was at least delayMs ago, reserving the next slot
+const waitForHost = async (host: string, delayMs: number) => {
+  const now = Date.now();
+  const at = Math.max(now, nextRequestAt.get(host) || 0);
+  nextRequestAt.delete(host);
+  nextRequestAt.set(host, at + delayMs);
+  trimCache(nextRequestAt);
+
+  if (at > now) {
+    await new Promise(resolve => setTimeout(resolve, at - now));
+  }
+};
+
+/**
+ * Fetch a page, feed or sitemap a user gave us. Only public http(s) addresses
+ * are reached (see checkAddress), redirects are followed up to MAX_REDIRECTS
+ * and checked like the URL itself, each request times out, bodies over the
+ * size limit or of media types we can't read are refused, robots.txt is
+ * respected, and requests to one host are spaced by the politeness delay (or
+ * the site's Crawl-delay). Failures are thrown as a FetchError.
+ */
+export async function fetchUrlContent(url: string): Promise<string> {
+  try {
+    if (url.startsWith('file:')) {
+      if (!allowsFileUrls()) {
+        throw new FetchError('file_urls_disabled', 'file:// URLs are disabled (set INGESTION_ALLOW_FILE_URLS=true to read local fixtures)');
+      }
+      return await readFile(fileURLToPath(url), 'utf8');
+    }
+
+    let target: URL;
+    try {
+      target = new URL(url);
+    } catch {
+      throw new FetchError('invalid_url', `Not a valid URL: ${url}`);
+    }
+
+    const timeoutMs = getLimit('INGESTION_FETCH_TIMEOUT_MS', DEFAULT_TIMEOUT_MS);
+    const options = { timeoutMs, maxBytes: getLimit('INGESTION_FETCH_MAX_BYTES', DEFAULT_MAX_BYTES) };
+    const hostDelayMs = getLimit('INGESTION_FETCH_HOST_DELAY_MS', DEFAULT_HOST_DELAY_MS);
+
+    const response = await requestFollowingRedirects(target, options, async current => {
+      const robots = await getRobotsPolicy(current.origin, timeoutMs);
+      if (!isAllowedByRules(robots.rules, `${current.pathname}${current.search}`)) {
+        throw new FetchError('robots_disallowed', `${current.host} does not allow automated access to this page (robots.txt)`);
+      }
+      await waitForHost(current.host, Math.max(hostDelayMs, Math.min(robots.crawlDelayMs || 0, MAX_CRAWL_DELAY_MS)));
+    });
+
+    return decodeBody(response.body, response.contentType);
+  } catch (error) {
+    console.error('Error fetching URL:', error);
+    throw error;
+  }
+}
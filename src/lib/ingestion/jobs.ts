@@ -0,0 +1,681 @@
+import { createClient } from '@supabase/supabase-js';
+import { getOrganizationLLMSettings, LLMSettings } from '@/lib/llm';
+import { analyzeUrl, AnalyzedUrl } from './analyze';
+import { archivePostContent } from './archive';
+import { parseCsvUrls } from './csv';
+import { findDeletedPost, findExistingPosts, PostScope } from './duplicates';
+import { discoverFeedEntries, FeedEntry, SourceType } from './feeds';
+import { findBestTitleMatch } from './match';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Items analyzed per run. Each one is a page fetch plus one or two LLM calls.
+const DEFAULT_BATCH_SIZE = 6;
+
+// Items of a run analyzed at the same time (INGESTION_CONCURRENCY overrides it)
+const DEFAULT_CONCURRENCY = 3;
+
+// URLs taken from one CSV upload
+export const MAX_CSV_URLS = 500;
+
+// An item stays claimed (processing) this long before another run may pick it up again
+const ITEM_LEASE_MS = 5 * 60 * 1000;
+
+// Claims before an item whose worker keeps dying is marked failed
+const MAX_ITEM_ATTEMPTS = 3;
+
+// Size of the URL lists sent to Supabase in one .in() filter
+const URL_CHUNK_SIZE = 100;
+
+// Planned posts compared with an item found by a watched source, most recent first
+const PLANNED_POSTS_SCANNED = 200;
+
+export type IngestionSourceType = SourceType | 'csv' | 'crawl';
+
+export type IngestionItemStatus = 'pending' | 'processing' | 'imported' | 'skipped' | 'failed';
+
+export interface IngestionJob {
+  id: string;
+  organization_id: string | null;
+  user_id: string | null;
+  source_url: string | null;
+  source_name: string | null;
+  source_type: IngestionSourceType;
+  replace_existing: boolean;
+  watched_source_id: string | null;
+  status: 'running' | 'completed';
+  total_items: number;
+  truncated: boolean;
+  created_at: string;
+  updated_at: string;
+  completed_at: string | null;
+}
+
+export interface IngestionItem {
+  id: string;
+  job_id: string;
+  position: number;
+  url: string;
+  title: string | null;
+  published_at: string | null;
+  status: IngestionItemStatus;
+  post_id: string | null;
+  matched_planned_post: boolean;
+  error: string | null;
+  attempt_count: number;
+  lease_expires_at: string | null;
+}
+
+export interface IngestionJobDetails {
+  job: IngestionJob;
+  items: IngestionItem[];
+  counts: Record<IngestionItemStatus, number>;
+}
+
+export interface IngestionRunSummary {
+  processed: number;
+  imported: number;
+  skipped: number;
+  failed: number;
+  items: IngestionItem[];
+}
+
+
+const countItems = (items: Pick<IngestionItem, 'status'>[]): Record<IngestionItemStatus, number> => {
+  const counts: Record<IngestionItemStatus, number> = { pending: 0, processing: 0, imported: 0, skipped: 0, failed: 0 };
+  items.forEach(item => {
+    counts[item.status]++;
+  });
+  return counts;
+};
+
+
+// Record a job and its items. Invalid values are kept as failed items so every line of the source has an outcome.
+const createIngestionJob = async (params: {
+  sourceType: IngestionSourceType;
+  sourceUrl?: string;
+  sourceName?: string;
+  entries: FeedEntry[];
+  invalid?: string[];
+  truncated: boolean;
+  replaceExisting?: boolean;
+  watchedSourceId?: string;
+  userId: string | null;
+  organizationId?: string | null;
+}): Promise<IngestionJobDetails> => {
+  const scope: PostScope = { organizationId: params.organizationId || null, userId: params.userId };
+  const invalid = params.invalid || [];
+  const replaceExisting = !!params.replaceExisting;
+
+  // Existing posts are only skipped when they aren't being replaced
+  const existing = replaceExisting
+    ? new Map<string, string>()
+    : await findExistingPosts(params.entries.map(entry => entry.url), scope);
+  const hasPending = params.entries.some(entry => !existing.has(entry.url));
+  const now = new Date().toISOString();
+
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .insert({
+      organization_id: scope.organizationId,
+      user_id: params.userId,
+      source_url: params.sourceUrl || null,
+      source_name: params.sourceName || null,
+      source_type: params.sourceType,
+      replace_existing: replaceExisting,
+      watched_source_id: params.watchedSourceId || null,
+      status: hasPending ? 'running' : 'completed',
+      total_items: params.entries.length + invalid.length,
+      truncated: params.truncated,
+      ...(!hasPending && { completed_at: now })
+    })
+    .select('*')
+    .single();
+
+  if (jobError || !job) {
+    throw new Error(`Failed to create import job: ${jobError?.message || 'unknown error'}`);
+  }
+
+  const rows = [
+    ...params.entries.map((entry, position) => {
+      const existingPostId = existing.get(entry.url);
+      return {
+        job_id: job.id,
+        position,
+        url: entry.url,
+        title: entry.title || null,
+        published_at: entry.publishedAt || null,
+        status: existingPostId ? 'skipped' : 'pending',
+        post_id: existingPostId || null,
+        error: existingPostId ? 'Already imported' : null
+      };
+    }),
+    ...invalid.map((value, index) => ({
+      job_id: job.id,
+      position: params.entries.length + index,
+      url: value,
+      status: 'failed',
+      error: 'Invalid URL format'
+    }))
+  ];
+
+  for (let i = 0; i < rows.length; i += URL_CHUNK_SIZE) {
+    const { error: itemsError } = await supabase
+      .from('ingestion_items')
+      .insert(rows.slice(i, i + URL_CHUNK_SIZE));
+
+    if (itemsError) {
+      await supabase.from('ingestion_jobs').delete().eq('id', job.id);
+      throw new Error(`Failed to queue import items: ${itemsError.message}`);
+    }
+  }
+
+  const details = await getIngestionJob(job.id);
+  if (!details) {
+    throw new Error('Import job disappeared after it was created');
+  }
+  return details;
+};
+
+/**
+ * Discover the entries of a sitemap, RSS or Atom feed and queue them for import.
+ * Entries whose URL is already a post are recorded as skipped; the rest are
+ * pending until runIngestionJobs analyzes them.
+ */
+export async function createFeedImportJob(params: {
+  sourceUrl: string;
+  userId: string;
+  organizationId?: string | null;
+}): Promise<IngestionJobDetails> {
+  const feed = await discoverFeedEntries(params.sourceUrl);
+
+  if (feed.entries.length === 0) {
+    throw new Error(`No entries found in this ${feed.type === 'sitemap' ? 'sitemap' : 'feed'}`);
+  }
+
+  return createIngestionJob({
+    ...params,
+    sourceType: feed.type,
+    entries: feed.entries,
+    truncated: feed.truncated
+  });
+}
+
+/**
+ * Queue the URLs of an uploaded CSV for import. With replaceExisting, URLs that
+ * already are posts are analyzed again and their posts updated.
+ */
+export async function createCsvImportJob(params: {
+  csv: string;
+  fileName?: string;
+  replaceExisting?: boolean;
+  userId: string;
+  organizationId?: string | null;
+}): Promise<IngestionJobDetails> {
+  const { urls, invalid, truncated } = parseCsvUrls(params.csv, MAX_CSV_URLS);
+
+  if (urls.length === 0 && invalid.length === 0) {
+    throw new Error('No URLs found in this file');
+  }
+
+  return createIngestionJob({
+    sourceType: 'csv',
+    sourceName: params.fileName,
+    entries: urls.map(url => ({ url })),
+    invalid,
+    truncated,
+    replaceExisting: params.replaceExisting,
+    userId: params.userId,
+    organizationId: params.organizationId
+  });
+}
+
+/**
+ * Queue the new entries a watched source listed since its last poll. Besides
+ * being imported, these items can complete a scheduled or suggested post with
+ * a matching title.
+ */
+export async function createWatchedSourceImportJob(params: {
+  watchedSourceId: string;
+  sourceUrl: string;
+  sourceType: SourceType;
+  entries: FeedEntry[];
+  userId: string | null; // Who added the source, if still a user
+  organizationId: string;
+}): Promise<IngestionJobDetails> {
+  return createIngestionJob({ ...params, truncated: false });
+}
+
+/**
+ * Queue the pages selected in a site crawl (see commitSiteCrawl) for import.
+ */
+export async function createCrawlImportJob(params: {
+  sourceUrl: string;
+  entries: FeedEntry[];
+  userId: string;
+  organizationId: string;
+}): Promise<IngestionJobDetails> {
+  return createIngestionJob({ ...params, sourceType: 'crawl', sourceName: 'Site crawl', truncated: false });
+}
+
+/**
+ * A job with its items in source order and the number of items per status
+ */
+export async function getIngestionJob(jobId: string): Promise<IngestionJobDetails | null> {
+  const { data: job, error: jobError } = await supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .eq('id', jobId)
+    .single();
+
+  if (jobError || !job) {
+    return null;
+  }
+
+  const { data: items, error: itemsError } = await supabase
+    .from('ingestion_items')
+    .select('*')
+    .eq('job_id', jobId)
+    .order('position', { ascending: true });
+
+  if (itemsError) {
+    throw new Error(`Failed to load import items: ${itemsError.message}`);
+  }
+
+  return { job, items: items || [], counts: countItems(items || []) };
+}
+
+/**
+ * The most recent import jobs of an organization, or of the user outside one
+ */
+export async function listIngestionJobs(params: {
+  userId: string;
+  organizationId?: string | null;
+  limit?: number;
+}): Promise<IngestionJob[]> {
+  let query = supabase
+    .from('ingestion_jobs')
+    .select('*')
+    .order('created_at', { ascending: false })
+    .limit(params.limit || 10);
+
+  query = params.organizationId
+    ? query.eq('organization_id', params.organizationId)
+    : query.eq('user_id', params.userId).is('organization_id', null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load import jobs: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Whether a user may follow or run a job: its owner, or a member of its organization
+ */
+export async function canAccessIngestionJob(job: IngestionJob, userId: string): Promise<boolean> {
+  if (job.user_id === userId) return true;
+  if (!job.organization_id) return false;
+
+  const { data: membership } = await supabase
+    .from('user_organizations')
+    .select('role')
+    .eq('user_id', userId)
+    .eq('organization_id', job.organization_id)
+    .single();
+
+  return !!membership;
+}
+
+// Items left processing past their lease belong to a run that stopped mid-item
+const recoverExpiredItems = async (now: Date, jobId?: string) => {
+  let query = supabase
+    .from('ingestion_items')
+    .select('id, job_id, attempt_count')
+    .eq('status', 'processing')
+    .lt('lease_expires_at', now.toISOString());
+
+  if (jobId) {
+    query = query.eq('job_id', jobId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[Ingestion] Failed to load expired items:', error);
+    return;
+  }
+
+  for (const item of data || []) {
+    const giveUp = item.attempt_count >= MAX_ITEM_ATTEMPTS;
+    await supabase
+      .from('ingestion_items')
+      .update({
+        status: giveUp ? 'failed' : 'pending',
+        error: giveUp ? 'Import did not finish after several attempts' : null,
+        lease_expires_at: null,
+        updated_at: now.toISOString()
+      })
+      .eq('id', item.id)
+      .eq('status', 'processing');
+  }
+};
+
+// Take a pending item for this run; false when another run got to it first
+const claimItem = async (item: IngestionItem, now: Date): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('ingestion_items')
+    .update({
+      status: 'processing',
+      attempt_count: item.attempt_count + 1,
+      lease_expires_at: new Date(now.getTime() + ITEM_LEASE_MS).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', item.id)
+    .eq('status', 'pending')
+    .select('id');
+
+  if (error) {
+    console.error(`[Ingestion] Failed to claim item ${item.id}:`, error);
+    return false;
+  }
+
+  return (data?.length || 0) > 0;
+};
+
+const finishItem = async (
+  item: IngestionItem,
+  update: { status: IngestionItemStatus; post_id?: string | null; matched_planned_post?: boolean; error?: string | null }
+): Promise<IngestionItem> => {
+  const finished = { ...update, lease_expires_at: null, updated_at: new Date().toISOString() };
+  const { error } = await supabase
+    .from('ingestion_items')
+    .update(finished)
+    .eq('id', item.id);
+
+  if (error) {
+    console.error(`[Ingestion] Failed to record the result of item ${item.id}:`, error);
+  }
+
+  return { ...item, ...finished, post_id: update.post_id ?? item.post_id, error: update.error ?? null };
+};
+
+interface PlannedPost {
+  id: string;
+  title: string | null;
+  approval_status: string | null;
+}
+
+// The scheduled or suggested post whose title is closest to one of these, if any is close enough
+const findPlannedPost = async (titles: string[], scope: PostScope): Promise<PlannedPost | null> => {
+  let query = supabase
+    .from('posts')
+    .select('id, title, approval_status')
+    .in('status', ['SCHEDULED', 'SUGGESTED'])
+    .is('deleted_at', null)
+    .or('approval_status.is.null,approval_status.neq.rejected')
+    .order('posted_date', { ascending: false })
+    .limit(PLANNED_POSTS_SCANNED);
+
+  query = scope.organizationId
+    ? query.eq('organization_id', scope.organizationId)
+    : query.eq('user_id', scope.userId).is('organization_id', null);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load planned posts: ${error.message}`);
+  }
+  return findBestTitleMatch(titles, (data || []) as PlannedPost[]);
+};
+
+// Mark a planned post as posted at the item's URL. It is published already,
+// so a suggestion still under review is approved, which is kept in its review history.
+const completePlannedPost = async (post: PlannedPost, item: IngestionItem, analyzed: AnalyzedUrl, job: IngestionJob) => {
+  const now = new Date().toISOString();
+  const approve = !!post.approval_status && post.approval_status !== 'approved';
+
+  const { error } = await supabase
+    .from('posts')
+    .update({
+      status: 'POSTED',
+      url: item.url,
+      canonical_url: analyzed.canonical_url,
+      posted_date: item.published_at || analyzed.posted_date,
+      updated_at: now,
+      ...(approve && { approval_status: 'approved', reviewed_at: now })
+    })
+    .eq('id', post.id);
+
+  if (error) {
+    throw new Error(`Failed to mark the planned post as posted: ${error.message}`);
+  }
+
+  if (approve) {
+    const { error: reviewError } = await supabase
+      .from('post_reviews')
+      .insert({
+        post_id: post.id,
+        organization_id: job.organization_id,
+        action: 'approve',
+        comment: `Published at ${item.url}`
+      });
+
+    if (reviewError) {
+      console.error(`[Ingestion] Failed to log the approval of post ${post.id}:`, reviewError);
+    }
+  }
+};
+
+// Analyze one claimed item and save it as a post
+const importItem = async (item: IngestionItem, job: IngestionJob, llmSettings: LLMSettings): Promise<IngestionItem> => {
+  const scope: PostScope = { organizationId: job.organization_id, userId: job.user_id };
+
+  try {
+    // Another job (or a single URL import) may have added the post since discovery
+    const existing = await findExistingPosts([item.url], scope);
+    const existingPostId = existing.get(item.url);
+    if (existingPostId && !job.replace_existing) {
+      return finishItem(item, { status: 'skipped', post_id: existingPostId, error: 'Already imported' });
+    }
+
+    const { post: analyzed, content } = await analyzeUrl(item.url, llmSettings);
+
+    // The page may declare a canonical URL another post was saved under
+    let postId = existingPostId;
+    if (!postId) {
+      postId = (await findExistingPosts([analyzed.canonical_url], scope)).get(analyzed.canonical_url);
+      if (postId && !job.replace_existing) {
+        return finishItem(item, { status: 'skipped', post_id: postId, error: 'Already imported' });
+      }
+    }
+
+    if (postId) {
+      const { error: updateError } = await supabase
+        .from('posts')
+        .update({
+          ...analyzed,
+          posted_date: item.published_at || analyzed.posted_date,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', postId);
+
+      if (updateError) {
+        throw new Error(updateError.message);
+      }
+
+      await archivePostContent(postId, item.url, content);
+      return finishItem(item, { status: 'imported', post_id: postId });
+    }
+
+    // Content found by a watched source may be a planned post that went out
+    if (job.watched_source_id) {
+      const titles = [item.title, analyzed.title].filter((title): title is string => !!title);
+      const planned = await findPlannedPost(titles, scope);
+      if (planned) {
+        await completePlannedPost(planned, item, analyzed, job);
+        await archivePostContent(planned.id, item.url, content);
+        return finishItem(item, { status: 'imported', post_id: planned.id, matched_planned_post: true });
+      }
+    }
+
+    const postData = {
+      ...analyzed,
+      // Feeds know when an entry was published; pages often don't say
+      posted_date: item.published_at || analyzed.posted_date,
+      title: analyzed.title || item.title || item.url,
+      status: 'POSTED',
+      user_id: job.user_id,
+      ...(job.organization_id && { organization_id: job.organization_id })
+    };
+
+    // A post deleted (or merged away) under this URL is brought back rather than inserted again
+    const deletedPostId = await findDeletedPost(item.url, scope);
+    const { data: post, error: insertError } = deletedPostId
+      ? await supabase
+        .from('posts')
+        .update({ ...postData, deleted_at: null, updated_at: new Date().toISOString() })
+        .eq('id', deletedPostId)
+        .select('id')
+        .single()
+      : await supabase
+        .from('posts')
+        .insert(postData)
+        .select('id')
+        .single();
+
+    if (insertError || !post) {
+      throw new Error(insertError?.message || 'Failed to save post');
+    }
+
+    await archivePostContent(post.id, item.url, content);
+    return finishItem(item, { status: 'imported', post_id: post.id });
+  } catch (error) {
+    const message = error instanceof Error ? error.message : String(error);
+    console.error(`[Ingestion] Failed to import ${item.url}:`, message);
+    return finishItem(item, { status: 'failed', error: message });
+  }
+};
+
+// Mark jobs completed once none of their items is left to import
+const completeFinishedJobs = async (jobIds: string[]) => {
+  for (const jobId of jobIds) {
+    const { count, error } = await supabase
+      .from('ingestion_items')
+      .select('id', { count: 'exact', head: true })
+      .eq('job_id', jobId)
+      .in('status', ['pending', 'processing']);
+
+    if (error || (count || 0) > 0) continue;
+
+    const now = new Date().toISOString();
+    await supabase
+      .from('ingestion_jobs')
+      .update({ status: 'completed', completed_at: now, updated_at: now })
+      .eq('id', jobId)
+      .eq('status', 'running');
+  }
+};
+
+// INGESTION_CONCURRENCY, when set to a positive number
+const getConcurrency = (): number => {
+  const configured = parseInt(process.env.INGESTION_CONCURRENCY || '', 10);
+  return configured > 0 ? configured : DEFAULT_CONCURRENCY;
+};
+
+/**
+ * Import the next pending items, oldest job first, a few at a time.
+ *
+ * Each item is claimed with a lease, analyzed like /api/analyze-url and saved
+ * as a POSTED post, or skipped when its URL was imported in the meantime (jobs
+ * that replace existing posts update them instead). Items of watched sources
+ * complete a scheduled or suggested post with a matching title instead of
+ * adding a post when there is one. At most `concurrency` items are analyzed
+ * at the same time. A failed item keeps its error and is not retried. Jobs are
+ * marked completed when their last item is done.
+ */
+export async function runIngestionJobs(
+  options: { jobId?: string; limit?: number; concurrency?: number; now?: Date } = {}
+): Promise<IngestionRunSummary> {
+  const now = options.now || new Date();
+  await recoverExpiredItems(now, options.jobId);
+
+  let query = supabase
+    .from('ingestion_items')
+    .select('*')
+    .eq('status', 'pending')
+    .order('created_at', { ascending: true })
+    .order('position', { ascending: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE);
+
+  if (options.jobId) {
+    query = query.eq('job_id', options.jobId);
+  }
+
+  const { data: pending, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load pending import items: ${error.message}`);
+  }
+
+  const items = (pending || []) as IngestionItem[];
+  const jobIds = Array.from(new Set(items.map(item => item.job_id)));
+  const jobs = new Map<string, IngestionJob>();
+  if (jobIds.length > 0) {
+    const { data: jobRows, error: jobsError } = await supabase
+      .from('ingestion_jobs')
+      .select('*')
+      .in('id', jobIds);
+    if (jobsError) {
+      throw new Error(`Failed to load import jobs: ${jobsError.message}`);
+    }
+    (jobRows || []).forEach(job => jobs.set(job.id, job));
+  }
+
+  // Model settings are loaded once per organization per run
+  const llmSettingsCache = new Map<string, Promise<LLMSettings>>();
+  const loadLLMSettings = (organizationId: string | null) => {
+    const key = organizationId || '';
+    if (!llmSettingsCache.has(key)) {
+      llmSettingsCache.set(key, getOrganizationLLMSettings(organizationId));
+    }
+    return llmSettingsCache.get(key)!;
+  };
+
+  const results: IngestionItem[] = [];
+  const queue = [...items];
+  const worker = async () => {
+    for (let item = queue.shift(); item; item = queue.shift()) {
+      const job = jobs.get(item.job_id);
+      if (!job || !await claimItem(item, now)) {
+        continue;
+      }
+
+      results.push(await importItem(
+        { ...item, status: 'processing', attempt_count: item.attempt_count + 1 },
+        job,
+        await loadLLMSettings(job.organization_id)
+      ));
+    }
+  };
+
+  const concurrency = Math.min(options.concurrency || getConcurrency(), items.length);
+  await Promise.all(Array.from({ length: concurrency }, worker));
+
+  await completeFinishedJobs(options.jobId ? [options.jobId] : jobIds);
+
+  const counts = countItems(results);
+  return {
+    processed: results.length,
+    imported: counts.imported,
+    skipped: counts.skipped,
+    failed: counts.failed,
+    items: results
+  };
+}
@@ -0,0 +1,58 @@
+// Titles at least this similar are taken to be the same post
+export const TITLE_MATCH_THRESHOLD = 0.8;
+
+// Words that don't tell two titles apart
+const STOP_WORDS = new Set([
+  'a', 'an', 'the', 'and', 'or', 'of', 'to', 'in', 'on', 'for', 'with', 'at', 'by', 'from',
+  'is', 'are', 'your', 'our', 'my', 'how', 'why', 'what'
+]);
+
+// Lowercase words without accents and punctuation, leaving out filler words unless that's all there is
+const titleWords = (title: string): Set<string> => {
+  const words = title
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(Boolean);
+  const meaningful = words.filter(word => !STOP_WORDS.has(word));
+  return new Set(meaningful.length ? meaningful : words);
+};
+
+/**
+ * How alike two titles are, from 0 to 1: the share of words they have in
+ * common (Dice coefficient), ignoring case, punctuation and filler words.
+ */
+export function titleSimilarity(a: string, b: string): number {
+  const wordsA = titleWords(a);
+  const wordsB = titleWords(b);
+  if (wordsA.size === 0 || wordsB.size === 0) return 0;
+
+  let shared = 0;
+  wordsA.forEach(word => {
+    if (wordsB.has(word)) shared++;
+  });
+  return (2 * shared) / (wordsA.size + wordsB.size);
+}
+
+/**
+ * The candidate whose title is most like any of the given titles, when it
+ * reaches TITLE_MATCH_THRESHOLD
+ */
+export function findBestTitleMatch<T extends { title: string | null }>(titles: string[], candidates: T[]): T | null {
+  let best: T | null = null;
+  let bestScore = TITLE_MATCH_THRESHOLD;
+
+  for (const candidate of candidates) {
+    if (!candidate.title) continue;
+    for (const title of titles) {
+      const score = titleSimilarity(title, candidate.title);
+      if (score >= bestScore && (!best || score > bestScore)) {
+        best = candidate;
+        bestScore = score;
+      }
+    }
+  }
+
+  return best;
+}
@@ -0,0 +1,339 @@
+import { JSDOM } from 'jsdom';
+import { jsonLdNodes, PageMetadata, parseDuration } from './metadata';
+
+// Assets kept per post, and images read from the page body
+const MAX_MEDIA_ASSETS = 30;
+const MAX_BODY_IMAGES = 10;
+// Smallest side of a body image worth listing; icons, avatars and tracking pixels are smaller
+const MIN_IMAGE_SIZE = 200;
+
+export type MediaKind = 'video' | 'audio' | 'image';
+
+// Where an asset was found, in the order they are read
+export type MediaSource = 'page' | 'json-ld' | 'opengraph' | 'twitter' | 'oembed' | 'html';
+
+export interface MediaAsset {
+  kind: MediaKind;
+  url: string; // The file, player or embed URL
+  provider?: string; // youtube, vimeo, tiktok, wistia, spotify, soundcloud, apple-podcasts
+  providerId?: string; // The video or episode ID at the provider
+  mimeType?: string;
+  duration?: number; // Seconds
+  width?: number;
+  height?: number;
+  thumbnailUrl?: string;
+  source: MediaSource;
+}
+
+/**
+ * The media of a post: every video, audio file and notable image found on
+ * its page, and the thumbnail that represents the post.
+ */
+export interface PostMedia {
+  assets: MediaAsset[];
+  thumbnailUrl?: string;
+}
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const resolveUrl = (value: unknown, baseUrl: string): string | undefined => {
+  if (typeof value !== 'string' || !value.trim()) return undefined;
+  try {
+    const url = new URL(value.trim(), baseUrl);
+    return url.protocol === 'http:' || url.protocol === 'https:' ? url.toString() : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+const toSize = (value: unknown): number | undefined => {
+  const size = typeof value === 'number' ? value : parseInt(String(value ?? ''), 10);
+  return Number.isFinite(size) && size > 0 ? Math.round(size) : undefined;
+};
+
+const hostOf = (url: URL) => url.hostname.toLowerCase().replace(/^(www|m)\./, '');
+
+/**
+ * The provider and ID of a video or audio URL, for pages, players and embeds
+ * of the platforms that are recognized.
+ */
+export function identifyMediaUrl(value: string): { kind: MediaKind; provider: string; providerId: string } | null {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    return null;
+  }
+  const host = hostOf(url);
+  const path = url.pathname;
+  let match: RegExpMatchArray | null;
+
+  if (host === 'youtu.be') {
+    const id = path.split('/')[1];
+    return id ? { kind: 'video', provider: 'youtube', providerId: id } : null;
+  }
+  if (host === 'youtube.com' || host === 'youtube-nocookie.com' || host === 'music.youtube.com') {
+    const id = path === '/watch' ? url.searchParams.get('v') : path.match(/^\/(?:shorts|embed|live|v)\/([^/?]+)/)?.[1];
+    return id ? { kind: 'video', provider: 'youtube', providerId: id } : null;
+  }
+  if ((host === 'vimeo.com' || host === 'player.vimeo.com') && (match = path.match(/(?:^|\/video)\/(\d+)/))) {
+    return { kind: 'video', provider: 'vimeo', providerId: match[1] };
+  }
+  if (host === 'tiktok.com' && (match = path.match(/\/(?:video|embed(?:\/v2)?)\/(\d+)/))) {
+    return { kind: 'video', provider: 'tiktok', providerId: match[1] };
+  }
+  if ((host.endsWith('wistia.com') || host.endsWith('wistia.net')) && (match = path.match(/\/(?:medias|iframe)\/([a-z0-9]+)/i))) {
+    return { kind: 'video', provider: 'wistia', providerId: match[1] };
+  }
+  if (host === 'open.spotify.com' && (match = path.match(/\/(?:embed\/)?(episode|show)\/([A-Za-z0-9]+)/))) {
+    return { kind: 'audio', provider: 'spotify', providerId: match[2] };
+  }
+  if (host === 'podcasts.apple.com' && (match = url.search.match(/[?&]i=(\d+)/) || path.match(/\/id(\d+)/))) {
+    return { kind: 'audio', provider: 'apple-podcasts', providerId: match[1] };
+  }
+  if (host === 'soundcloud.com' || host === 'w.soundcloud.com') {
+    const track = host === 'w.soundcloud.com' ? url.searchParams.get('url') : url.toString();
+    return track ? { kind: 'audio', provider: 'soundcloud', providerId: track.replace(/^https?:\/\/(www\.)?soundcloud\.com\//, '') } : null;
+  }
+  return null;
+}
+
+// Thumbnails the provider serves at a known address
+const providerThumbnail = (provider?: string, providerId?: string): string | undefined =>
+  provider === 'youtube' && providerId ? `https://i.ytimg.com/vi/${providerId}/hqdefault.jpg` : undefined;
+
+const kindOfMimeType = (mimeType?: string): MediaKind | undefined => {
+  const type = (mimeType || '').toLowerCase();
+  if (type.startsWith('video/')) return 'video';
+  if (type.startsWith('audio/')) return 'audio';
+  if (type.startsWith('image/')) return 'image';
+  return undefined;
+};
+
+// Assets are one per provider video or per URL; a later sighting only fills the fields still missing
+const mediaKey = (asset: MediaAsset) =>
+  asset.provider && asset.providerId ? `${asset.provider}:${asset.providerId}` : asset.url.replace(/[?#].*$/, '');
+
+type MediaCollector = ReturnType<typeof collectMedia>;
+
+const collectMedia = () => {
+  const assets = new Map<string, MediaAsset>();
+
+  const add = (asset: Omit<MediaAsset, 'provider' | 'providerId'>) => {
+    const identified = asset.kind !== 'image' ? identifyMediaUrl(asset.url) : null;
+    const complete: MediaAsset = {
+      ...asset,
+      // A file's type beats the tag that pointed to it (an og:video can be an MP3)
+      kind: identified?.kind || (asset.kind !== 'image' && kindOfMimeType(asset.mimeType)) || asset.kind,
+      provider: identified?.provider,
+      providerId: identified?.providerId
+    };
+    complete.thumbnailUrl = complete.thumbnailUrl || providerThumbnail(complete.provider, complete.providerId);
+
+    const key = mediaKey(complete);
+    const existing = assets.get(key);
+    if (existing) {
+      (Object.keys(complete) as (keyof MediaAsset)[]).forEach(field => {
+        if (existing[field] === undefined && complete[field] !== undefined) {
+          (existing as unknown as JsonObject)[field] = complete[field];
+        }
+      });
+    } else if (assets.size < MAX_MEDIA_ASSETS) {
+      assets.set(key, JSON.parse(JSON.stringify(complete)));
+    }
+  };
+
+  return { add, list: () => Array.from(assets.values()) };
+};
+
+// VideoObject, AudioObject, PodcastEpisode and ImageObject nodes, and the media attached to other nodes
+const readJsonLd = (collector: MediaCollector, document: Document, url: string) => {
+  // Attached MediaObjects take the kind of their file type, or of the field or node holding them
+  const readNode = (node: JsonObject, impliedKind?: MediaKind) => {
+    const types = asArray(node['@type']).map(String);
+    const kind: MediaKind | undefined = types.includes('VideoObject') ? 'video'
+      : types.some(type => type === 'AudioObject' || type === 'PodcastEpisode') ? 'audio'
+      : types.includes('ImageObject') ? 'image'
+      : kindOfMimeType(typeof node.encodingFormat === 'string' ? node.encodingFormat : undefined) || impliedKind;
+
+    // Site logos are ImageObjects too, in the same @graph as the page's images
+    if (kind && !(kind === 'image' && /logo/i.test(String(node['@id'] || '')))) {
+      const thumbnail = asArray(node.thumbnailUrl).concat(asArray(node.thumbnail))
+        .map(value => resolveUrl(isObject(value) ? value.url || value.contentUrl : value, url))
+        .find(Boolean);
+      const mediaUrl = resolveUrl(node.contentUrl, url) || resolveUrl(node.embedUrl, url) ||
+        (kind === 'image' ? resolveUrl(node.url, url) : undefined);
+
+      if (mediaUrl) {
+        collector.add({
+          kind,
+          url: mediaUrl,
+          mimeType: typeof node.encodingFormat === 'string' ? node.encodingFormat : undefined,
+          duration: parseDuration(node.duration),
+          width: toSize(isObject(node.width) ? node.width.value : node.width),
+          height: toSize(isObject(node.height) ? node.height.value : node.height),
+          thumbnailUrl: thumbnail,
+          source: 'json-ld'
+        });
+      }
+    }
+
+    asArray(node.video).filter(isObject).forEach(child => readNode(child, 'video'));
+    asArray(node.audio).filter(isObject).forEach(child => readNode(child, 'audio'));
+    asArray(node.associatedMedia).filter(isObject).forEach(child => readNode(child, kind));
+  };
+
+  jsonLdNodes(document).forEach(node => readNode(node));
+};
+
+// Content of <meta property="…"> or <meta name="…"> tags
+const metaValues = (document: Document, key: string): string[] =>
+  Array.from(document.querySelectorAll(`meta[property="${key}"], meta[name="${key}"]`))
+    .map(meta => (meta.getAttribute('content') || '').trim())
+    .filter(Boolean);
+
+const readOpenGraph = (collector: MediaCollector, document: Document, url: string) => {
+  const video = resolveUrl(metaValues(document, 'og:video:secure_url')[0] || metaValues(document, 'og:video:url')[0] || metaValues(document, 'og:video')[0], url);
+  const image = resolveUrl(metaValues(document, 'og:image:secure_url')[0] || metaValues(document, 'og:image')[0] || metaValues(document, 'og:image:url')[0], url);
+
+  if (video) {
+    collector.add({
+      kind: 'video',
+      url: video,
+      mimeType: metaValues(document, 'og:video:type')[0],
+      duration: parseDuration(metaValues(document, 'video:duration')[0]),
+      width: toSize(metaValues(document, 'og:video:width')[0]),
+      height: toSize(metaValues(document, 'og:video:height')[0]),
+      thumbnailUrl: image,
+      source: 'opengraph'
+    });
+  }
+
+  const audio = resolveUrl(metaValues(document, 'og:audio:secure_url')[0] || metaValues(document, 'og:audio')[0], url);
+  if (audio) {
+    collector.add({
+      kind: 'audio',
+      url: audio,
+      mimeType: metaValues(document, 'og:audio:type')[0],
+      duration: parseDuration(metaValues(document, 'music:duration')[0]),
+      source: 'opengraph'
+    });
+  }
+
+  if (image) {
+    collector.add({
+      kind: 'image',
+      url: image,
+      width: toSize(metaValues(document, 'og:image:width')[0]),
+      height: toSize(metaValues(document, 'og:image:height')[0]),
+      source: 'opengraph'
+    });
+  }
+};
+
+const readTwitterCard = (collector: MediaCollector, document: Document, url: string) => {
+  const player = resolveUrl(metaValues(document, 'twitter:player')[0], url);
+  const image = resolveUrl(metaValues(document, 'twitter:image')[0] || metaValues(document, 'twitter:image:src')[0], url);
+
+  if (player) {
+    collector.add({
+      kind: 'video',
+      url: player,
+      width: toSize(metaValues(document, 'twitter:player:width')[0]),
+      height: toSize(metaValues(document, 'twitter:player:height')[0]),
+      thumbnailUrl: image,
+      source: 'twitter'
+    });
+  }
+  if (image) {
+    collector.add({ kind: 'image', url: image, source: 'twitter' });
+  }
+};
+
+// <video>, <audio>, provider embeds and large images of the page body
+const readHtml = (collector: MediaCollector, document: Document, url: string) => {
+  document.querySelectorAll('video, audio').forEach(element => {
+    const kind: MediaKind = element.tagName.toLowerCase() === 'video' ? 'video' : 'audio';
+    const source = element.querySelector('source[src]');
+    const mediaUrl = resolveUrl(element.getAttribute('src') || source?.getAttribute('src'), url);
+    if (!mediaUrl) return;
+
+    collector.add({
+      kind,
+      url: mediaUrl,
+      mimeType: source?.getAttribute('type') || undefined,
+      width: toSize(element.getAttribute('width')),
+      height: toSize(element.getAttribute('height')),
+      thumbnailUrl: resolveUrl(element.getAttribute('poster'), url),
+      source: 'html'
+    });
+  });
+
+  document.querySelectorAll('iframe[src], embed[src]').forEach(element => {
+    const embedUrl = resolveUrl(element.getAttribute('src'), url);
+    const identified = embedUrl && identifyMediaUrl(embedUrl);
+    if (!embedUrl || !identified) return;
+
+    collector.add({
+      kind: identified.kind,
+      url: embedUrl,
+      width: toSize(element.getAttribute('width')),
+      height: toSize(element.getAttribute('height')),
+      source: 'html'
+    });
+  });
+
+  const container = document.querySelector('article') || document.querySelector('main, [role="main"]') || document.body;
+  let images = 0;
+  container?.querySelectorAll('img').forEach(image => {
+    if (images >= MAX_BODY_IMAGES) return;
+    const width = toSize(image.getAttribute('width'));
+    const height = toSize(image.getAttribute('height'));
+    // Without declared dimensions an image can't be told apart from an icon
+    if (!width || !height || Math.min(width, height) < MIN_IMAGE_SIZE) return;
+
+    const imageUrl = resolveUrl(image.getAttribute('src') || image.getAttribute('data-src'), url);
+    if (!imageUrl) return;
+
+    images++;
+    collector.add({ kind: 'image', url: imageUrl, width, height, source: 'html' });
+  });
+};
+
+/**
+ * Read the media of a page: the page itself when it is a video or episode at
+ * a known provider, then JSON-LD media objects, OpenGraph and Twitter card
+ * tags, the metadata's images (which include oEmbed thumbnails) and finally
+ * the <video>, <audio>, embeds and large images of the body. Each asset is
+ * kept once, with the details every sighting gave. The thumbnail is the first
+ * video or audio thumbnail, or else the first image.
+ */
+export function extractPageMedia(html: string, url: string, metadata: PageMetadata = {}): PostMedia {
+  const { document } = new JSDOM(html, { url }).window;
+  const collector = collectMedia();
+
+  const page = identifyMediaUrl(url);
+  if (page) {
+    collector.add({ kind: page.kind, url, duration: metadata.duration?.value, source: 'page' });
+  }
+
+  readJsonLd(collector, document, url);
+  readOpenGraph(collector, document, url);
+  readTwitterCard(collector, document, url);
+  (metadata.images?.value || []).forEach(image => {
+    collector.add({ kind: 'image', url: image, source: metadata.images?.source || 'html' });
+  });
+  readHtml(collector, document, url);
+
+  const assets = collector.list();
+
+  const thumbnailUrl = assets.find(asset => asset.kind !== 'image' && asset.thumbnailUrl)?.thumbnailUrl ||
+    assets.find(asset => asset.kind === 'image')?.url;
+
+  return { assets, ...(thumbnailUrl && { thumbnailUrl }) };
+}
@@ -0,0 +1,299 @@
+import { JSDOM } from 'jsdom';
+import { fetchUrlContent, isFetchableUrl } from './fetch';
+
+// Where a metadata field was read, in order of preference
+export type MetadataSource = 'json-ld' | 'opengraph' | 'twitter' | 'oembed' | 'html';
+
+export interface MetadataField<T> {
+  value: T;
+  source: MetadataSource;
+}
+
+export type MetadataMediaType = 'article' | 'video' | 'podcast';
+
+/**
+ * Structured metadata of a page. Each field keeps the source it was taken
+ * from; fields no source gave are left out.
+ */
+export interface PageMetadata {
+  type?: MetadataField<MetadataMediaType>;
+  title?: MetadataField<string>;
+  description?: MetadataField<string>;
+  author?: MetadataField<string>;
+  publishedAt?: MetadataField<string>; // ISO instant
+  modifiedAt?: MetadataField<string>; // ISO instant
+  images?: MetadataField<string[]>;
+  duration?: MetadataField<number>; // Seconds, for videos and podcast episodes
+  canonicalUrl?: MetadataField<string>;
+}
+
+type MetadataCandidates = { [K in keyof PageMetadata]?: NonNullable<PageMetadata[K]>['value'] };
+
+// JSON-LD types read, mapped to the kind of content they describe
+const JSON_LD_TYPES: Record<string, MetadataMediaType> = {
+  Article: 'article',
+  NewsArticle: 'article',
+  BlogPosting: 'article',
+  TechArticle: 'article',
+  Report: 'article',
+  ScholarlyArticle: 'article',
+  SocialMediaPosting: 'article',
+  VideoObject: 'video',
+  PodcastEpisode: 'podcast'
+};
+
+// oEmbed endpoints of platforms whose pages don't always advertise one
+const OEMBED_PROVIDERS: { hosts: string[]; endpoint: string }[] = [
+  { hosts: ['youtube.com', 'youtu.be'], endpoint: 'https://www.youtube.com/oembed?format=json&url=' },
+  { hosts: ['vimeo.com'], endpoint: 'https://vimeo.com/api/oembed.json?url=' },
+  { hosts: ['twitter.com', 'x.com'], endpoint: 'https://publish.twitter.com/oembed?omit_script=true&url=' },
+  { hosts: ['tiktok.com'], endpoint: 'https://www.tiktok.com/oembed?url=' }
+];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const asArray = (value: unknown): unknown[] => (Array.isArray(value) ? value : value === undefined || value === null ? [] : [value]);
+
+const cleanText = (value: unknown): string | undefined => {
+  if (typeof value !== 'string' && typeof value !== 'number') return undefined;
+  const text = String(value).replace(/\s+/g, ' ').trim();
+  return text || undefined;
+};
+
+const toIsoDate = (value: unknown): string | undefined => {
+  const text = cleanText(value);
+  if (!text) return undefined;
+  const date = new Date(text);
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+const resolveUrl = (value: unknown, baseUrl: string): string | undefined => {
+  const text = cleanText(value);
+  if (!text) return undefined;
+  try {
+    return new URL(text, baseUrl).toString();
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Seconds of a duration given as ISO 8601 (PT1H2M3S, as in JSON-LD), as a
+ * number of seconds (OpenGraph, oEmbed) or as h:mm:ss
+ */
+export function parseDuration(value: unknown): number | undefined {
+  const text = cleanText(value);
+  if (!text) return undefined;
+
+  if (/^\d+(\.\d+)?$/.test(text)) {
+    return Math.round(parseFloat(text)) || undefined;
+  }
+
+  const iso = text.match(/^P(?:(\d+)D)?(?:T(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?)?$/i);
+  if (iso) {
+    const [, days, hours, minutes, seconds] = iso;
+    const total = (parseInt(days || '0', 10) * 24 + parseInt(hours || '0', 10)) * 3600 +
+      parseInt(minutes || '0', 10) * 60 + Math.round(parseFloat(seconds || '0'));
+    return total || undefined;
+  }
+
+  const clock = text.match(/^(?:(\d+):)?(\d{1,2}):(\d{2})$/);
+  if (clock) {
+    return parseInt(clock[1] || '0', 10) * 3600 + parseInt(clock[2], 10) * 60 + parseInt(clock[3], 10);
+  }
+
+  return undefined;
+}
+
+// Names of an author given as text, a Person/Organization, or a list of them
+const authorNames = (value: unknown): string | undefined => {
+  const names = asArray(value)
+    .map(author => (isObject(author) ? cleanText(author.name) : cleanText(author)))
+    .filter((name): name is string => !!name);
+  return names.length ? names.join(', ') : undefined;
+};
+
+// URLs of images given as text, ImageObjects, or a list of them
+const imageUrls = (value: unknown, baseUrl: string): string[] =>
+  asArray(value)
+    .map(image => resolveUrl(isObject(image) ? image.url || image.contentUrl : image, baseUrl))
+    .filter((url): url is string => !!url);
+
+// Every node of the JSON-LD blocks, with @graph lists flattened
+export const jsonLdNodes = (document: Document): JsonObject[] => {
+  const nodes: JsonObject[] = [];
+  const collect = (value: unknown) => {
+    asArray(value).forEach(node => {
+      if (!isObject(node)) return;
+      nodes.push(node);
+      if (node['@graph']) collect(node['@graph']);
+    });
+  };
+
+  document.querySelectorAll('script[type="application/ld+json"]').forEach(script => {
+    try {
+      collect(JSON.parse(script.textContent || ''));
+    } catch {
+      // Broken JSON-LD is common and not worth failing the page for
+    }
+  });
+
+  return nodes;
+};
+
+const nodeMediaType = (node: JsonObject): MetadataMediaType | undefined => {
+  for (const type of asArray(node['@type'])) {
+    const mediaType = typeof type === 'string' ? JSON_LD_TYPES[type] : undefined;
+    if (mediaType) return mediaType;
+  }
+  return undefined;
+};
+
+const readJsonLd = (document: Document, url: string): MetadataCandidates => {
+  const node = jsonLdNodes(document).find(candidate => nodeMediaType(candidate));
+  if (!node) return {};
+
+  const mainEntity = node.mainEntityOfPage;
+  const media = asArray(node.associatedMedia).find(isObject);
+  const images = [...imageUrls(node.image, url), ...imageUrls(node.thumbnailUrl, url)];
+
+  return {
+    type: nodeMediaType(node),
+    title: cleanText(node.headline) || cleanText(node.name),
+    description: cleanText(node.description),
+    author: authorNames(node.author) || authorNames(node.creator),
+    publishedAt: toIsoDate(node.datePublished) || toIsoDate(node.uploadDate) || toIsoDate(node.dateCreated),
+    modifiedAt: toIsoDate(node.dateModified),
+    images: images.length ? Array.from(new Set(images)) : undefined,
+    duration: parseDuration(node.duration) || parseDuration(node.timeRequired) || (media && parseDuration(media.duration)),
+    canonicalUrl: resolveUrl(isObject(mainEntity) ? mainEntity['@id'] : mainEntity, url) || resolveUrl(node.url, url)
+  };
+};
+
+// Content of <meta property="…"> or <meta name="…"> tags
+const metaValues = (document: Document, key: string): string[] =>
+  Array.from(document.querySelectorAll(`meta[property="${key}"], meta[name="${key}"]`))
+    .map(meta => cleanText(meta.getAttribute('content')))
+    .filter((value): value is string => !!value);
+
+const metaValue = (document: Document, key: string): string | undefined => metaValues(document, key)[0];
+
+const readOpenGraph = (document: Document, url: string): MetadataCandidates => {
+  const ogType = metaValue(document, 'og:type') || '';
+  const images = metaValues(document, 'og:image')
+    .concat(metaValues(document, 'og:image:url'))
+    .map(image => resolveUrl(image, url))
+    .filter((image): image is string => !!image);
+
+  return {
+    type: ogType.startsWith('video') ? 'video'
+      : ogType.startsWith('music') || metaValue(document, 'og:audio') ? 'podcast'
+      : ogType === 'article' ? 'article'
+      : undefined,
+    title: metaValue(document, 'og:title'),
+    description: metaValue(document, 'og:description'),
+    author: metaValue(document, 'article:author'),
+    publishedAt: toIsoDate(metaValue(document, 'article:published_time')) || toIsoDate(metaValue(document, 'og:published_time')),
+    modifiedAt: toIsoDate(metaValue(document, 'article:modified_time')) || toIsoDate(metaValue(document, 'og:updated_time')),
+    images: images.length ? Array.from(new Set(images)) : undefined,
+    duration: parseDuration(metaValue(document, 'video:duration')) || parseDuration(metaValue(document, 'music:duration')),
+    canonicalUrl: resolveUrl(metaValue(document, 'og:url'), url)
+  };
+};
+
+const readTwitterCard = (document: Document, url: string): MetadataCandidates => {
+  const image = resolveUrl(metaValue(document, 'twitter:image') || metaValue(document, 'twitter:image:src'), url);
+  return {
+    type: metaValue(document, 'twitter:card') === 'player' ? 'video' : undefined,
+    title: metaValue(document, 'twitter:title'),
+    description: metaValue(document, 'twitter:description'),
+    author: metaValue(document, 'twitter:creator'),
+    images: image ? [image] : undefined
+  };
+};
+
+// The last fallback: plain HTML tags
+const readHtml = (document: Document, url: string): MetadataCandidates => ({
+  title: cleanText(document.querySelector('title')?.textContent),
+  description: metaValue(document, 'description'),
+  author: metaValue(document, 'author'),
+  canonicalUrl: resolveUrl(document.querySelector('link[rel="canonical"]')?.getAttribute('href'), url)
+});
+
+const readOEmbed = (data: unknown, url: string): MetadataCandidates => {
+  if (!isObject(data)) return {};
+  const thumbnail = resolveUrl(data.thumbnail_url, url);
+  return {
+    type: data.type === 'video' ? 'video' : undefined,
+    title: cleanText(data.title),
+    description: cleanText(data.description),
+    author: cleanText(data.author_name),
+    publishedAt: toIsoDate(data.upload_date),
+    images: thumbnail ? [thumbnail] : undefined,
+    duration: parseDuration(data.duration)
+  };
+};
+
+// The oEmbed endpoint a page advertises, or the known one of its platform
+const findOEmbedUrl = (document: Document, url: string): string | undefined => {
+  const link = document.querySelector('link[rel="alternate"][type="application/json+oembed"]');
+  const advertised = resolveUrl(link?.getAttribute('href'), url);
+  if (advertised) return advertised;
+
+  try {
+    const hostname = new URL(url).hostname.replace(/^www\./, '');
+    const provider = OEMBED_PROVIDERS.find(({ hosts }) =>
+      hosts.some(host => hostname === host || hostname.endsWith(`.${host}`)));
+    return provider ? provider.endpoint + encodeURIComponent(url) : undefined;
+  } catch {
+    return undefined;
+  }
+};
+
+// Take each field from the first source that has it
+const mergeCandidates = (sources: [MetadataSource, MetadataCandidates][]): PageMetadata => {
+  const metadata: PageMetadata = {};
+  const fields: (keyof PageMetadata)[] = [
+    'type', 'title', 'description', 'author', 'publishedAt', 'modifiedAt', 'images', 'duration', 'canonicalUrl'
+  ];
+
+  fields.forEach(field => {
+    const found = sources.find(([, candidates]) => candidates[field] !== undefined);
+    if (found) {
+      (metadata as Record<string, MetadataField<unknown>>)[field] = { value: found[1][field], source: found[0] };
+    }
+  });
+
+  return metadata;
+};
+
+/**
+ * Read the structured metadata of a page: JSON-LD (Article, VideoObject,
+ * PodcastEpisode and related types) first, then OpenGraph, Twitter card tags,
+ * the page's oEmbed endpoint and finally plain HTML tags. A failing oEmbed
+ * request only leaves its fields to the other sources.
+ */
+export async function extractPageMetadata(html: string, url: string): Promise<PageMetadata> {
+  const document = new JSDOM(html).window.document;
+
+  let oembed: MetadataCandidates = {};
+  const oembedUrl = findOEmbedUrl(document, url);
+  if (oembedUrl && isFetchableUrl(oembedUrl)) {
+    try {
+      oembed = readOEmbed(JSON.parse(await fetchUrlContent(oembedUrl)), url);
+    } catch (error) {
+      console.error(`[Ingestion] oEmbed request for ${url} failed:`, error);
+    }
+  }
+
+  return mergeCandidates([
+    ['json-ld', readJsonLd(document, url)],
+    ['opengraph', readOpenGraph(document, url)],
+    ['twitter', readTwitterCard(document, url)],
+    ['oembed', oembed],
+    ['html', readHtml(document, url)]
+  ]);
+}
@@ -0,0 +1,298 @@
+import { createClient } from '@supabase/supabase-js';
+import { discoverSourceEntries, FeedEntry, SourceType } from './feeds';
+import { createWatchedSourceImportJob } from './jobs';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+export const DEFAULT_POLL_INTERVAL_MINUTES = 60;
+export const MIN_POLL_INTERVAL_MINUTES = 15;
+
+// Sources polled per run. Each poll is a fetch or a few (sitemap indexes, pages advertising a feed).
+const DEFAULT_POLL_BATCH_SIZE = 10;
+
+// Size of the URL lists sent to Supabase in one .in() filter
+const URL_CHUNK_SIZE = 100;
+
+export interface WatchedSource {
+  id: string;
+  organization_id: string;
+  created_by: string | null;
+  url: string;
+  source_type: SourceType;
+  poll_interval_minutes: number;
+  is_active: boolean;
+  next_poll_at: string;
+  last_polled_at: string | null;
+  last_error: string | null;
+  last_job_id: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface WatchedSourcePollResult {
+  sourceId: string;
+  url: string;
+  newItems: number;
+  jobId: string | null;
+  error: string | null;
+}
+
+export interface WatchedSourcesPollSummary {
+  polled: number;
+  newItems: number;
+  failed: number;
+  sources: WatchedSourcePollResult[];
+}
+
+const minutesFrom = (date: Date, minutes: number) => new Date(date.getTime() + minutes * 60 * 1000).toISOString();
+
+// URLs of these entries the source hasn't listed before
+const findUnseenEntries = async (sourceId: string, entries: FeedEntry[]): Promise<FeedEntry[]> => {
+  const seen = new Set<string>();
+  const urls = entries.map(entry => entry.url);
+
+  for (let i = 0; i < urls.length; i += URL_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('watched_source_entries')
+      .select('url')
+      .eq('source_id', sourceId)
+      .in('url', urls.slice(i, i + URL_CHUNK_SIZE));
+
+    if (error) {
+      throw new Error(`Failed to load the entries seen before: ${error.message}`);
+    }
+    (data || []).forEach(row => seen.add(row.url));
+  }
+
+  return entries.filter(entry => !seen.has(entry.url));
+};
+
+const recordSeenEntries = async (sourceId: string, entries: FeedEntry[]) => {
+  const rows = entries.map(entry => ({ source_id: sourceId, url: entry.url }));
+
+  for (let i = 0; i < rows.length; i += URL_CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('watched_source_entries')
+      .upsert(rows.slice(i, i + URL_CHUNK_SIZE), { onConflict: 'source_id,url', ignoreDuplicates: true });
+
+    if (error) {
+      throw new Error(`Failed to record the entries of the source: ${error.message}`);
+    }
+  }
+};
+
+/**
+ * Start watching a feed, sitemap or page for an organization. The source is
+ * read once to find its type, and the entries it lists now are recorded as
+ * seen: only entries that appear later are imported. Throws when the source
+ * can't be read or is already watched.
+ */
+export async function createWatchedSource(params: {
+  url: string;
+  organizationId: string;
+  userId: string;
+  pollIntervalMinutes?: number;
+}): Promise<WatchedSource> {
+  const discovered = await discoverSourceEntries(params.url);
+  const interval = params.pollIntervalMinutes || DEFAULT_POLL_INTERVAL_MINUTES;
+  const now = new Date();
+
+  const { data: source, error } = await supabase
+    .from('watched_sources')
+    .insert({
+      organization_id: params.organizationId,
+      created_by: params.userId,
+      url: params.url,
+      source_type: discovered.type,
+      poll_interval_minutes: interval,
+      next_poll_at: minutesFrom(now, interval),
+      last_polled_at: now.toISOString()
+    })
+    .select('*')
+    .single();
+
+  if (error || !source) {
+    if (error?.code === '23505') {
+      throw new Error('This source is already watched');
+    }
+    throw new Error(`Failed to save the watched source: ${error?.message || 'unknown error'}`);
+  }
+
+  await recordSeenEntries(source.id, discovered.entries);
+  return source;
+}
+
+export async function getWatchedSource(sourceId: string): Promise<WatchedSource | null> {
+  const { data, error } = await supabase
+    .from('watched_sources')
+    .select('*')
+    .eq('id', sourceId)
+    .single();
+
+  return error || !data ? null : data;
+}
+
+export async function listWatchedSources(organizationId: string): Promise<WatchedSource[]> {
+  const { data, error } = await supabase
+    .from('watched_sources')
+    .select('*')
+    .eq('organization_id', organizationId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to load watched sources: ${error.message}`);
+  }
+  return data || [];
+}
+
+/**
+ * Pause or resume a source, or change how often it is polled. A resumed
+ * source is due right away.
+ */
+export async function updateWatchedSource(
+  sourceId: string,
+  update: { isActive?: boolean; pollIntervalMinutes?: number }
+): Promise<WatchedSource> {
+  const now = new Date().toISOString();
+  const { data, error } = await supabase
+    .from('watched_sources')
+    .update({
+      ...(update.isActive !== undefined && { is_active: update.isActive }),
+      ...(update.isActive && { next_poll_at: now }),
+      ...(update.pollIntervalMinutes !== undefined && { poll_interval_minutes: update.pollIntervalMinutes }),
+      updated_at: now
+    })
+    .eq('id', sourceId)
+    .select('*')
+    .single();
+
+  if (error || !data) {
+    throw new Error(`Failed to update the watched source: ${error?.message || 'not found'}`);
+  }
+  return data;
+}
+
+// Imports of a removed source stay, they only lose the link to it
+export async function deleteWatchedSource(sourceId: string): Promise<void> {
+  const { error } = await supabase
+    .from('watched_sources')
+    .delete()
+    .eq('id', sourceId);
+
+  if (error) {
+    throw new Error(`Failed to remove the watched source: ${error.message}`);
+  }
+}
+
+// Move the next poll of a source ahead; false when another run claimed it first
+const claimSource = async (source: WatchedSource, now: Date): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('watched_sources')
+    .update({ next_poll_at: minutesFrom(now, source.poll_interval_minutes), updated_at: now.toISOString() })
+    .eq('id', source.id)
+    .eq('next_poll_at', source.next_poll_at)
+    .select('id');
+
+  if (error) {
+    console.error(`[Ingestion] Failed to claim watched source ${source.id}:`, error);
+    return false;
+  }
+
+  return (data?.length || 0) > 0;
+};
+
+// Read a source and queue the entries it didn't list before
+const pollSource = async (source: WatchedSource, now: Date): Promise<WatchedSourcePollResult> => {
+  const result: WatchedSourcePollResult = { sourceId: source.id, url: source.url, newItems: 0, jobId: null, error: null };
+
+  try {
+    const discovered = await discoverSourceEntries(source.url);
+    const unseen = await findUnseenEntries(source.id, discovered.entries);
+
+    if (unseen.length > 0) {
+      const details = await createWatchedSourceImportJob({
+        watchedSourceId: source.id,
+        sourceUrl: source.url,
+        sourceType: discovered.type,
+        entries: unseen,
+        userId: source.created_by,
+        organizationId: source.organization_id
+      });
+      await recordSeenEntries(source.id, unseen);
+      result.newItems = unseen.length;
+      result.jobId = details.job.id;
+    }
+
+    await supabase
+      .from('watched_sources')
+      .update({
+        source_type: discovered.type,
+        last_polled_at: now.toISOString(),
+        last_error: null,
+        ...(result.jobId && { last_job_id: result.jobId }),
+        updated_at: now.toISOString()
+      })
+      .eq('id', source.id);
+  } catch (error) {
+    result.error = error instanceof Error ? error.message : String(error);
+    console.error(`[Ingestion] Failed to poll watched source ${source.url}:`, result.error);
+
+    await supabase
+      .from('watched_sources')
+      .update({ last_polled_at: now.toISOString(), last_error: result.error, updated_at: now.toISOString() })
+      .eq('id', source.id);
+  }
+
+  return result;
+};
+
+/**
+ * Poll the active watched sources that are due, or one source right away
+ * (sourceId). New entries become an ingestion job, which runIngestionJobs
+ * imports; a source that can't be read keeps its error and is tried again at
+ * its next poll.
+ */
+export async function pollWatchedSources(
+  options: { sourceId?: string; limit?: number; now?: Date } = {}
+): Promise<WatchedSourcesPollSummary> {
+  const now = options.now || new Date();
+
+  let query = supabase
+    .from('watched_sources')
+    .select('*');
+
+  query = options.sourceId
+    ? query.eq('id', options.sourceId)
+    : query
+      .eq('is_active', true)
+      .lte('next_poll_at', now.toISOString())
+      .order('next_poll_at', { ascending: true })
+      .limit(options.limit || DEFAULT_POLL_BATCH_SIZE);
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load watched sources: ${error.message}`);
+  }
+
+  const results: WatchedSourcePollResult[] = [];
+  for (const source of (data || []) as WatchedSource[]) {
+    if (!await claimSource(source, now)) continue;
+    results.push(await pollSource(source, now));
+  }
+
+  return {
+    polled: results.length,
+    newItems: results.reduce((sum, result) => sum + result.newItems, 0),
+    failed: results.filter(result => result.error).length,
+    sources: results
+  };
+}
@@ -0,0 +1,140 @@
+import { createClient } from '@supabase/supabase-js';
+import {
+  LLMCompletionRequest,
+  LLMCompletionResult,
+  LLMProvider,
+  LLMProviderName,
+  LLMSettings
+} from './types';
+import { openaiProvider } from './providers/openai';
+import { anthropicProvider } from './providers/anthropic';
+import { mockProvider } from './providers/mock';
+
+export * from './types';
+
+const providers: Record<LLMProviderName, LLMProvider> = {
+  openai: openaiProvider,
+  anthropic: anthropicProvider,
+  mock: mockProvider
+};
+
+// Initialize Supabase client for reading organization preferences
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || ''
+);
+
+function isProviderName(value: unknown): value is LLMProviderName {
+  return typeof value === 'string' && value in providers;
+}
+
+/**
+ * Resolve which provider to use.
+ * LLM_PROVIDER=mock always wins so offline environments never reach the network;
+ * otherwise the organization's choice, then LLM_PROVIDER, then OpenAI.
+ */
+export function getLLMProvider(settings?: LLMSettings | null): LLMProvider {
+  const envProvider = process.env.LLM_PROVIDER;
+
+  if (envProvider === 'mock') {
+    return mockProvider;
+  }
+
+  if (settings?.provider && isProviderName(settings.provider)) {
+    return providers[settings.provider];
+  }
+
+  if (isProviderName(envProvider)) {
+    return providers[envProvider];
+  }
+
+  return openaiProvider;
+}
+
+/**
+ * Pull LLM settings out of an organization's preferences object
+ */
+export function getLLMSettingsFromPreferences(preferences?: { llm?: LLMSettings } | null): LLMSettings {
+  const llm = preferences?.llm;
+  if (!llm || typeof llm !== 'object') {
+    return {};
+  }
+
+  return {
+    provider: isProviderName(llm.provider) ? llm.provider : undefined,
+    models: llm.models && typeof llm.models === 'object' ? llm.models : undefined
+  };
+}
+
+/**
+ * Load an organization's LLM settings from the database
+ */
+export async function getOrganizationLLMSettings(organizationId?: string | null): Promise<LLMSettings> {
+  if (!organizationId) {
+    return {};
+  }
+
+  const { data, error } = await supabase
+    .from('organizations')
+    .select('preferences')
+    .eq('id', organizationId)
+    .single();
+
+  if (error || !data) {
+    console.error('Error loading LLM settings for organization:', organizationId, error);
+    return {};
+  }
+
+  return getLLMSettingsFromPreferences(data.preferences);
+}
+
+// Texts embedded per request
+const EMBEDDING_BATCH_SIZE = 500;
+
+/**
+ * Embed texts with the provider the settings resolve to. Null when that
+ * provider has no embeddings (Anthropic, mock) or the request fails, so
+ * callers can fall back to a local method.
+ */
+export async function embedTexts(
+  texts: string[],
+  settings?: LLMSettings | null
+): Promise<number[][] | null> {
+  const provider = getLLMProvider(settings);
+  if (!provider.embed || texts.length === 0) {
+    return null;
+  }
+
+  console.log(`[LLM] embeddings via ${provider.name} (${texts.length} texts)`);
+
+  try {
+    const embeddings: number[][] = [];
+    for (let i = 0; i < texts.length; i += EMBEDDING_BATCH_SIZE) {
+      embeddings.push(...await provider.embed(texts.slice(i, i + EMBEDDING_BATCH_SIZE)));
+    }
+    return embeddings.length === texts.length ? embeddings : null;
+  } catch (error) {
+    console.error(`[LLM] ${provider.name} embeddings failed:`, error);
+    return null;
+  }
+}
+
+/**
+ * Run a completion for a task using the given (per-organization) settings.
+ * The model comes from the request, then the settings, then the provider default.
+ */
+export async function completeLLM(
+  request: LLMCompletionRequest,
+  settings?: LLMSettings | null
+): Promise<LLMCompletionResult> {
+  const provider = getLLMProvider(settings);
+  // Org model overrides only apply to the provider they were chosen for
+  const orgModelApplies = provider.name !== 'mock' &&
+    (!settings?.provider || settings.provider === provider.name);
+  const orgModel = orgModelApplies ? settings?.models?.[request.task] : undefined;
+  const model = request.model || orgModel || provider.defaultModels[request.task];
+
+  console.log(`[LLM] ${request.task} via ${provider.name} (${model})`);
+
+  return provider.complete({ ...request, model });
+}
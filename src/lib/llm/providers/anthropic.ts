@@ -0,0 +1,64 @@
+import { LLMProvider } from '../types';
+
+const ANTHROPIC_API_URL = 'https://api.anthropic.com/v1/messages';
+const ANTHROPIC_VERSION = '2023-06-01';
+
+export const anthropicProvider: LLMProvider = {
+  name: 'anthropic',
+  defaultModels: {
+    'post-ideas': 'claude-3-5-sonnet-latest',
+    'post-elaboration': 'claude-3-5-sonnet-latest',
+    'post-seo': 'claude-3-5-sonnet-latest',
+    'content-plan': 'claude-3-5-sonnet-latest',
+    'post-title': 'claude-3-5-haiku-latest',
+    'post-description': 'claude-3-5-haiku-latest',
+    'organization-analysis': 'claude-3-5-sonnet-latest',
+    'post-regenerate': 'claude-3-5-sonnet-latest',
+    'post-repurpose': 'claude-3-5-sonnet-latest'
+  },
+
+  async complete({ messages, model, temperature, maxTokens, json }) {
+    const apiKey = process.env.ANTHROPIC_API_KEY;
+    if (!apiKey) {
+      throw new Error('Missing ANTHROPIC_API_KEY environment variable');
+    }
+
+    // The messages API takes the system prompt separately
+    const system = messages
+      .filter(m => m.role === 'system')
+      .map(m => m.content)
+      .concat(json ? ['Respond with a single valid JSON object and nothing else.'] : [])
+      .join('\n\n');
+
+    const response = await fetch(ANTHROPIC_API_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        'x-api-key': apiKey,
+        'anthropic-version': ANTHROPIC_VERSION
+      },
+      body: JSON.stringify({
+        model,
+        max_tokens: maxTokens || 4096,
+        temperature,
+        ...(system && { system }),
+        messages: messages
+          .filter(m => m.role !== 'system')
+          .map(m => ({ role: m.role, content: m.content }))
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`Anthropic API error ${response.status}: ${errorText}`);
+    }
+
+    const data: { content?: { type: string; text?: string }[] } = await response.json();
+    const content = (data.content || [])
+      .filter(block => block.type === 'text')
+      .map(block => block.text || '')
+      .join('');
+
+    return { content, provider: 'anthropic', model };
+  }
+};
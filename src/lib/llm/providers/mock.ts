@@ -0,0 +1,220 @@
+import { LLMMessage, LLMProvider, LLMTask } from '../types';
+
+/**
+ * Deterministic offline provider.
+ *
+ * Returns canned responses shaped like the real models' output for each task,
+ * derived only from the prompt text so the same prompt always gives the same
+ * answer. Lets the whole planning chain and URL analysis run without network
+ * access or API keys.
+ */
+
+const TOPICS = [
+  'Lessons learned from our latest project',
+  'A practical checklist for getting started',
+  'Common mistakes and how to avoid them',
+  'What our customers keep asking us',
+  'Behind the scenes of our process',
+  'Trends worth watching this quarter',
+  'A beginner friendly guide to the basics',
+  'Measuring what actually matters'
+];
+
+// Small string hash used to seed picks (FNV-1a)
+function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+function pick<T>(items: T[], seed: number, offset = 0): T {
+  return items[(seed + offset) % items.length];
+}
+
+// Finds "<count> <platform> posts" requests in a prompt
+function parsePlatformRequests(prompt: string): { platform: string; count: number }[] {
+  const requests: { platform: string; count: number }[] = [];
+  const seen = new Set<string>();
+  const pattern = /(\d+)\s+(\S+)\s+posts/g;
+  let match: RegExpExecArray | null;
+
+  while ((match = pattern.exec(prompt)) !== null) {
+    const platform = match[2];
+    if (seen.has(platform)) continue;
+    seen.add(platform);
+    requests.push({ platform, count: parseInt(match[1], 10) });
+  }
+
+  return requests;
+}
+
+function matchLine(prompt: string, label: string): string {
+  const match = prompt.match(new RegExp(`${label}:\\s*(.+)`));
+  return match ? match[1].trim() : '';
+}
+
+function buildIdeas(prompt: string, seed: number) {
+  const ideas: Record<string, string>[] = [];
+  const blogTitles: string[] = [];
+
+  parsePlatformRequests(prompt).forEach(({ platform, count }) => {
+    for (let i = 0; i < count; i++) {
+      const topic = pick(TOPICS, seed, ideas.length);
+      const isWeb = platform === 'Web';
+      const title = `${topic} (${platform} #${i + 1})`;
+      if (isWeb) blogTitles.push(title);
+
+      ideas.push({
+        Title: title,
+        TargetPlatform: platform,
+        BriefConcept: `A ${isWeb ? 'blog post' : 'short post'} about ${topic.toLowerCase()}.`,
+        Format: isWeb ? 'blog' : 'social',
+        DerivedFrom: !isWeb && blogTitles.length > 0 ? blogTitles[i % blogTitles.length] : ''
+      });
+    }
+  });
+
+  return { ideas };
+}
+
+function buildContentPlan(prompt: string, seed: number) {
+  const range = prompt.match(/between (\d{4}-\d{2}-\d{2}) and (\d{4}-\d{2}-\d{2})/);
+  const start = range ? new Date(`${range[1]}T00:00:00Z`) : new Date('2025-01-01T00:00:00Z');
+  const end = range ? new Date(`${range[2]}T00:00:00Z`) : start;
+  const spanDays = Math.max(1, Math.round((end.getTime() - start.getTime()) / 86400000));
+
+  const { ideas } = buildIdeas(prompt, seed);
+  const suggestions = ideas.map((idea, index) => {
+    const day = new Date(start.getTime() + Math.floor((index * spanDays) / Math.max(1, ideas.length)) * 86400000);
+    return {
+      title: idea.Title,
+      description: idea.BriefConcept,
+      platform: idea.TargetPlatform,
+      date: `${day.toISOString().slice(0, 10)} ${10 + (index % 3)}:00`,
+      reasonsData: {
+        reasons: ['Fits the requested content mix', 'Spreads posts evenly across the period'],
+        aiConfidence: 0.75
+      },
+      format: idea.Format,
+      derivedFrom: idea.DerivedFrom
+    };
+  });
+
+  return { suggestions };
+}
+
+function buildElaboration(prompt: string) {
+  const title = matchLine(prompt, 'Title');
+  const platform = matchLine(prompt, 'Platform');
+  const concept = matchLine(prompt, 'Basic concept');
+
+  if (platform === 'Web') {
+    return {
+      bulletPoints: [`Why ${title} matters`, 'Key takeaways', 'Next steps for readers'],
+      outline: 'Introduction, three main sections, conclusion',
+      structure: 'Introduction, three main sections, conclusion',
+      targetKeywords: title.toLowerCase().split(/\s+/).filter(word => word.length > 4).slice(0, 3),
+      estimatedWordCount: 1200,
+      callToAction: 'Subscribe for more articles like this',
+      content: concept || title
+    };
+  }
+
+  return {
+    content: (concept || title).slice(0, 240),
+    visualIdea: `Simple branded graphic featuring "${title}"`,
+    visualSuggestion: `Simple branded graphic featuring "${title}"`
+  };
+}
+
+function buildResponse(task: LLMTask, messages: LLMMessage[]): string {
+  const prompt = messages.map(m => m.content).join('\n');
+  const seed = hashString(prompt);
+
+  switch (task) {
+    case 'post-ideas':
+      return JSON.stringify(buildIdeas(prompt, seed));
+
+    case 'content-plan':
+      return JSON.stringify(buildContentPlan(prompt, seed));
+
+    case 'post-elaboration':
+      return JSON.stringify(buildElaboration(prompt));
+
+    case 'post-seo':
+      return JSON.stringify({
+        reasons: ['Targets a clear search intent', 'Title contains descriptive keywords', 'Topic fits the site focus'],
+        aiConfidence: 0.7,
+        seoSuggestions: ['Add an FAQ section', 'Link to related articles']
+      });
+
+    case 'post-title': {
+      const content = prompt.split(/post content:/i)[1] || prompt;
+      const words = content.replace(/[#@]\w+/g, '').trim().split(/\s+/).filter(Boolean).slice(0, 6);
+      return words.length > 0 ? words.join(' ') : 'Untitled post';
+    }
+
+    case 'post-description': {
+      const title = matchLine(prompt, 'Post title') || matchLine(prompt, 'Title');
+      return `A summary of "${title || 'this content'}" covering its main points.`;
+    }
+
+    case 'organization-analysis':
+      return JSON.stringify({
+        industry: 'General',
+        description: 'An organization publishing content across web and social channels.',
+        strategy: 'Regular educational content supported by social promotion.',
+        tone: 'Professional'
+      });
+
+    case 'post-regenerate': {
+      const title = matchLine(prompt, 'Current Title');
+      return JSON.stringify({
+        title: `${title || 'Untitled post'}: a fresh take`,
+        description: `An improved version of "${title}" with a clearer hook and concrete examples.`,
+        seo_info: {
+          reasonsData: {
+            reasons: ['Clearer title', 'More specific description'],
+            aiConfidence: 0.7
+          }
+        },
+        hashtags: []
+      });
+    }
+
+    case 'post-repurpose': {
+      const title = matchLine(prompt, 'Article title');
+      const platforms = matchLine(prompt, 'Platforms').split(',').map(platform => platform.trim()).filter(Boolean);
+      return JSON.stringify({
+        posts: platforms.map((platform, index) => ({
+          platform,
+          title: `${title || 'Our latest article'} (${platform})`,
+          description: `${pick(TOPICS, seed, index)}: the key points of "${title}" in a few lines. Read the full article.`,
+          hashtags: ['#content', `#${platform.toLowerCase()}`]
+        }))
+      });
+    }
+  }
+}
+
+export const mockProvider: LLMProvider = {
+  name: 'mock',
+  defaultModels: {
+    'post-ideas': 'mock',
+    'post-elaboration': 'mock',
+    'post-seo': 'mock',
+    'content-plan': 'mock',
+    'post-title': 'mock',
+    'post-description': 'mock',
+    'organization-analysis': 'mock',
+    'post-regenerate': 'mock',
+    'post-repurpose': 'mock'
+  },
+
+  async complete({ task, messages, model }) {
+    return { content: buildResponse(task, messages), provider: 'mock', model };
+  }
+};
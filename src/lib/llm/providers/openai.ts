@@ -0,0 +1,66 @@
+import OpenAI from 'openai';
+import { LLMProvider } from '../types';
+
+let client: OpenAI | null = null;
+
+const EMBEDDING_MODEL = 'text-embedding-3-small';
+
+// Created lazily so importing this module never requires an API key
+function getClient(): OpenAI {
+  if (!client) {
+    client = new OpenAI({
+      apiKey: process.env.OPENAI_API_KEY
+    });
+  }
+  return client;
+}
+
+export const openaiProvider: LLMProvider = {
+  name: 'openai',
+  defaultModels: {
+    'post-ideas': 'gpt-4',
+    'post-elaboration': 'gpt-4',
+    'post-seo': 'gpt-4',
+    'content-plan': 'gpt-4',
+    'post-title': 'gpt-3.5-turbo-instruct',
+    'post-description': 'gpt-3.5-turbo-instruct',
+    'organization-analysis': 'gpt-4-turbo',
+    'post-regenerate': 'gpt-4',
+    'post-repurpose': 'gpt-4-turbo' // JSON mode needs a turbo model
+  },
+
+  async complete({ messages, model, temperature, maxTokens, json }) {
+    // Instruct models only work with the legacy completions endpoint
+    if (model.includes('instruct')) {
+      const response = await getClient().completions.create({
+        model,
+        prompt: messages.map(m => m.content).join('\n\n'),
+        max_tokens: maxTokens,
+        temperature
+      });
+
+      return { content: response.choices[0]?.text || '', provider: 'openai', model };
+    }
+
+    const response = await getClient().chat.completions.create({
+      model,
+      messages,
+      temperature,
+      max_tokens: maxTokens,
+      ...(json && { response_format: { type: 'json_object' as const } })
+    });
+
+    return { content: response.choices[0]?.message?.content || '', provider: 'openai', model };
+  },
+
+  async embed(texts) {
+    const response = await getClient().embeddings.create({
+      model: EMBEDDING_MODEL,
+      input: texts
+    });
+
+    return response.data
+      .sort((a, b) => a.index - b.index)
+      .map(entry => entry.embedding);
+  }
+};
@@ -0,0 +1,54 @@
+/**
+ * Shared types for the LLM provider layer
+ */
+
+// Vendors we can talk to. 'mock' is the deterministic offline stand-in.
+export type LLMProviderName = 'openai' | 'anthropic' | 'mock';
+
+// Every call site in the app identifies itself with a task so that models can
+// be chosen per task and the mock provider knows what shape to return.
+export type LLMTask =
+  | 'post-ideas'
+  | 'post-elaboration'
+  | 'post-seo'
+  | 'content-plan'
+  | 'post-title'
+  | 'post-description'
+  | 'organization-analysis'
+  | 'post-regenerate'
+  | 'post-repurpose';
+
+export interface LLMMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string;
+}
+
+export interface LLMCompletionRequest {
+  task: LLMTask;
+  messages: LLMMessage[];
+  model?: string;
+  temperature?: number;
+  maxTokens?: number;
+  // Ask the provider for a JSON object response where it supports it
+  json?: boolean;
+}
+
+export interface LLMCompletionResult {
+  content: string;
+  provider: LLMProviderName;
+  model: string;
+}
+
+export interface LLMProvider {
+  name: LLMProviderName;
+  defaultModels: Record<LLMTask, string>;
+  complete(request: LLMCompletionRequest & { model: string }): Promise<LLMCompletionResult>;
+  // Vector embeddings of texts, one per text, for providers that offer them
+  embed?(texts: string[]): Promise<number[][]>;
+}
+
+// Stored per organization under organizations.preferences.llm
+export interface LLMSettings {
+  provider?: LLMProviderName;
+  models?: Partial<Record<LLMTask, string>>;
+}
@@ -0,0 +1,34 @@
+import { createHash } from 'crypto';
+import { MetricsConnector } from '../types';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Offline metrics source for METRICS_CONNECTOR=mock. Every post gets numbers
+ * derived from its ID that grow for its first 30 days, so charts and
+ * comparisons can be tried without a platform account.
+ */
+export const mockMetricsConnector: MetricsConnector<unknown> = {
+  name: 'mock',
+
+  async fetchMetrics(posts) {
+    const now = Date.now();
+
+    return new Map(posts.map(post => {
+      const seed = createHash('sha256').update(post.id).digest();
+      const postedAt = post.postedAt ? new Date(post.postedAt).getTime() : now;
+      const age = Math.min(Math.max((now - postedAt) / DAY_MS, 0), 30) / 30;
+      const impressions = Math.round((200 + seed.readUInt16BE(0) % 5000) * (0.2 + 0.8 * age));
+      const rate = (value: number, slot: number) => Math.round(value * (seed[2 + slot] % 50) / 1000);
+
+      return [post.id, {
+        impressions,
+        clicks: rate(impressions, 0),
+        likes: rate(impressions, 1),
+        shares: rate(impressions, 2) / 4 | 0,
+        comments: rate(impressions, 3) / 5 | 0,
+        saves: rate(impressions, 4) / 5 | 0
+      }];
+    }));
+  }
+};
@@ -0,0 +1,74 @@
+import { XCredentials } from '@/lib/publishing/types';
+import { MetricsConnector, MetricValues } from '../types';
+
+const X_TWEETS_URL = 'https://api.twitter.com/2/tweets';
+// Posts looked up per request
+const X_BATCH_SIZE = 100;
+
+interface XPublicMetrics {
+  impression_count?: number;
+  like_count?: number;
+  retweet_count?: number;
+  quote_count?: number;
+  reply_count?: number;
+  bookmark_count?: number;
+}
+
+// ID of an x.com or twitter.com status URL
+const statusId = (url: string | null): string | null => url?.match(/(?:x|twitter)\.com\/(?:[^/]+|i\/web)\/status\/(\d+)/)?.[1] || null;
+
+/**
+ * Public metrics of posts on X, read with the access token the organization
+ * publishes with. Link clicks are only given to the author for recent posts,
+ * so they are left to the CSV export.
+ */
+export const xMetricsConnector: MetricsConnector<XCredentials> = {
+  name: 'x',
+
+  async fetchMetrics(posts, credentials) {
+    if (!credentials?.accessToken) {
+      throw new Error('No X access token configured for this organization');
+    }
+
+    const postIdByStatus = new Map<string, string>();
+    posts.forEach(post => {
+      const id = statusId(post.publishedUrl) || statusId(post.url);
+      if (id) postIdByStatus.set(id, post.id);
+    });
+
+    const metrics = new Map<string, MetricValues>();
+    const ids = Array.from(postIdByStatus.keys());
+
+    for (let i = 0; i < ids.length; i += X_BATCH_SIZE) {
+      const params = new URLSearchParams({
+        ids: ids.slice(i, i + X_BATCH_SIZE).join(','),
+        'tweet.fields': 'public_metrics'
+      });
+      const response = await fetch(`${X_TWEETS_URL}?${params.toString()}`, {
+        headers: { authorization: `Bearer ${credentials.accessToken}` }
+      });
+
+      if (!response.ok) {
+        const errorText = await response.text();
+        throw new Error(`X API error ${response.status}: ${errorText}`);
+      }
+
+      const data: { data?: { id: string; public_metrics?: XPublicMetrics }[] } = await response.json();
+      (data.data || []).forEach(tweet => {
+        const postId = postIdByStatus.get(tweet.id);
+        const counts = tweet.public_metrics;
+        if (!postId || !counts) return;
+
+        metrics.set(postId, {
+          impressions: counts.impression_count,
+          likes: counts.like_count,
+          shares: (counts.retweet_count || 0) + (counts.quote_count || 0),
+          comments: counts.reply_count,
+          saves: counts.bookmark_count
+        });
+      });
+    }
+
+    return metrics;
+  }
+};
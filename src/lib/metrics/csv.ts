@@ -0,0 +1,239 @@
+import { MetricName, MetricsReading, MetricValues } from './types';
+
+// Rows read per upload
+export const MAX_METRICS_ROWS = 5000;
+
+// Lines above the header some exports start with (titles, notes, date ranges)
+const MAX_HEADER_SEARCH = 5;
+
+export type MetricsCsvFormat = 'generic' | 'x' | 'linkedin' | 'instagram' | 'facebook';
+
+interface MetricsCsvColumns {
+  label: string;
+  platform: string | null; // Posts' platform; null when the file says (generic) or it can be any
+  url: string[];
+  date?: string[]; // When the numbers were taken; exports without one are as of the upload
+  metrics: Partial<Record<MetricName, string[]>>;
+}
+
+/**
+ * Column names of each export, lowercase. The first column of a list that the
+ * file has is read, so newer and older names of the same export both work.
+ */
+export const METRICS_CSV_FORMATS: Record<MetricsCsvFormat, MetricsCsvColumns> = {
+  generic: {
+    label: 'Generic (url, date, impressions, clicks, likes, shares, comments, saves)',
+    platform: null,
+    url: ['url', 'post url', 'link'],
+    date: ['date', 'recorded at'],
+    metrics: {
+      impressions: ['impressions', 'views'],
+      clicks: ['clicks'],
+      likes: ['likes'],
+      shares: ['shares'],
+      comments: ['comments'],
+      saves: ['saves']
+    }
+  },
+  x: {
+    label: 'X post analytics',
+    platform: 'x',
+    url: ['tweet permalink', 'post link', 'permalink'],
+    metrics: {
+      impressions: ['impressions'],
+      clicks: ['url clicks', 'link clicks'],
+      likes: ['likes'],
+      shares: ['retweets', 'reposts'],
+      comments: ['replies'],
+      saves: ['bookmarks']
+    }
+  },
+  linkedin: {
+    label: 'LinkedIn page content export',
+    platform: 'linkedin',
+    url: ['post link', 'post url'],
+    metrics: {
+      impressions: ['impressions'],
+      clicks: ['clicks'],
+      likes: ['likes', 'reactions'],
+      shares: ['reposts', 'shares'],
+      comments: ['comments']
+    }
+  },
+  instagram: {
+    label: 'Instagram (Meta Business Suite) export',
+    platform: 'instagram',
+    url: ['permalink'],
+    metrics: {
+      impressions: ['impressions', 'views'],
+      clicks: ['link clicks', 'profile activity'],
+      likes: ['likes'],
+      shares: ['shares'],
+      comments: ['comments'],
+      saves: ['saves']
+    }
+  },
+  facebook: {
+    label: 'Facebook (Meta Business Suite) export',
+    platform: 'facebook',
+    url: ['permalink'],
+    metrics: {
+      impressions: ['impressions', 'views'],
+      clicks: ['total clicks', 'link clicks', 'other clicks'],
+      likes: ['reactions', 'likes'],
+      shares: ['shares'],
+      comments: ['comments']
+    }
+  }
+};
+
+export interface ParsedMetricsCsv {
+  format: MetricsCsvFormat;
+  platform: string | null;
+  readings: MetricsReading[];
+  invalid: number; // Rows without a URL or without any number
+  truncated: boolean;
+}
+
+// Split CSV text into rows of cells; quoted cells may hold commas, quotes ("") and line breaks
+const parseCsvRows = (content: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = '';
+  let quoted = false;
+  const text = content.replace(/^\ufeff/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      row.push(cell);
+      cell = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = '';
+    } else {
+      cell += char;
+    }
+  }
+
+  if (cell || row.length) {
+    row.push(cell);
+    rows.push(row);
+  }
+  return rows.filter(cells => cells.some(value => value.trim()));
+};
+
+const findColumn = (header: string[], names: string[] = []) => {
+  for (const name of names) {
+    const index = header.indexOf(name);
+    if (index !== -1) return index;
+  }
+  return -1;
+};
+
+// How many of a format's columns a header has; 0 without its URL column
+const scoreFormat = (header: string[], columns: MetricsCsvColumns) => {
+  if (findColumn(header, columns.url) === -1) return 0;
+  return Object.values(columns.metrics).filter(names => findColumn(header, names) !== -1).length;
+};
+
+// "1,234", " 56 " and "7.0" are counts; blanks, dashes and text are not reported
+const parseCount = (value: string | undefined): number | undefined => {
+  const cleaned = (value || '').replace(/[\s,]/g, '');
+  if (!/^\d+(\.\d+)?$/.test(cleaned)) return undefined;
+  return Math.round(parseFloat(cleaned));
+};
+
+const parseDate = (value: string | undefined): string | undefined => {
+  if (!value?.trim()) return undefined;
+  const date = new Date(value.trim());
+  return isNaN(date.getTime()) ? undefined : date.toISOString();
+};
+
+/**
+ * Read the per-post numbers of a platform's analytics export. The format is
+ * detected from the header when not given (the header may follow a few lines
+ * of notes). Counts are taken as of the file's date column, or `recordedAt`.
+ */
+export function parseMetricsCsv(
+  content: string,
+  options: { format?: MetricsCsvFormat; recordedAt: string }
+): ParsedMetricsCsv {
+  const rows = parseCsvRows(content);
+
+  let headerIndex = -1;
+  let format: MetricsCsvFormat | undefined = options.format;
+  let bestScore = 0;
+  for (let i = 0; i < Math.min(rows.length, MAX_HEADER_SEARCH); i++) {
+    const header = rows[i].map(cell => cell.trim().toLowerCase());
+    const candidates = options.format ? [options.format] : (Object.keys(METRICS_CSV_FORMATS) as MetricsCsvFormat[]);
+    for (const candidate of candidates) {
+      const score = scoreFormat(header, METRICS_CSV_FORMATS[candidate]);
+      if (score > bestScore) {
+        bestScore = score;
+        headerIndex = i;
+        format = candidate;
+      }
+    }
+  }
+
+  if (headerIndex === -1 || !format) {
+    throw new Error(options.format
+      ? `This file doesn't have the columns of a ${METRICS_CSV_FORMATS[options.format].label}`
+      : 'No URL and metric columns found in this file');
+  }
+
+  const columns = METRICS_CSV_FORMATS[format];
+  const header = rows[headerIndex].map(cell => cell.trim().toLowerCase());
+  const urlColumn = findColumn(header, columns.url);
+  const dateColumn = findColumn(header, columns.date);
+  const metricColumns = (Object.keys(columns.metrics) as MetricName[])
+    .map(metric => [metric, findColumn(header, columns.metrics[metric])] as const)
+    .filter(([, index]) => index !== -1);
+
+  const dataRows = rows.slice(headerIndex + 1);
+  const readings: MetricsReading[] = [];
+  let invalid = 0;
+
+  for (const row of dataRows.slice(0, MAX_METRICS_ROWS)) {
+    const url = (row[urlColumn] || '').trim();
+    const values: MetricValues = {};
+    metricColumns.forEach(([metric, index]) => {
+      const count = parseCount(row[index]);
+      if (count !== undefined) values[metric] = count;
+    });
+
+    if (!/^https?:\/\//i.test(url) || Object.keys(values).length === 0) {
+      invalid++;
+      continue;
+    }
+
+    readings.push({
+      url,
+      recordedAt: (dateColumn !== -1 && parseDate(row[dateColumn])) || options.recordedAt,
+      values
+    });
+  }
+
+  return {
+    format,
+    platform: columns.platform,
+    readings,
+    invalid,
+    truncated: dataRows.length > MAX_METRICS_ROWS
+  };
+}
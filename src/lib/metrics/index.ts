@@ -0,0 +1,425 @@
+import { createClient } from '@supabase/supabase-js';
+import { findExistingPosts, PostScope } from '@/lib/ingestion/duplicates';
+import { getPublishingCredentials, normalizePublishingPlatform, PublishingPlatform } from '@/lib/publishing';
+import {
+  MetricName,
+  MetricsConnector,
+  MetricsPost,
+  MetricsReading,
+  MetricsSource,
+  MetricValues,
+  PostMetricSample
+} from './types';
+import { xMetricsConnector } from './connectors/x';
+import { mockMetricsConnector } from './connectors/mock';
+
+export * from './types';
+
+export const METRIC_NAMES: MetricName[] = ['impressions', 'clicks', 'likes', 'shares', 'comments', 'saves'];
+
+// Publishing platforms whose API reports post metrics
+const connectors: Partial<Record<PublishingPlatform, MetricsConnector<unknown>>> = {
+  x: xMetricsConnector as MetricsConnector<unknown>
+};
+
+export const METRICS_PLATFORMS = Object.keys(connectors) as PublishingPlatform[];
+
+// A post is synced again once its last connector sample is this old
+const SYNC_INTERVAL_MS = 6 * 60 * 60 * 1000;
+// Posts synced per run
+const MAX_SYNC_POSTS = 500;
+// Size of the ID and URL lists sent to Supabase in one .in() filter, and of the rows upserted at once
+const CHUNK_SIZE = 100;
+// Rows read per page; Supabase returns at most 1000
+const PAGE_SIZE = 1000;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+export interface RecordMetricsResult {
+  recorded: number;
+  unmatched: string[]; // URLs of readings no post was found for
+}
+
+export interface PostMetrics {
+  samples: PostMetricSample[]; // Oldest first
+  latest: MetricValues;
+  latestAt: string | null;
+}
+
+export interface PostMetricsSummary {
+  postId: string;
+  title: string | null;
+  platform: string | null;
+  url: string | null;
+  latest: MetricValues;
+  latestAt: string;
+}
+
+export interface OrganizationMetrics {
+  posts: PostMetricsSummary[]; // Most impressions first
+  totals: Record<MetricName, number>;
+  daily: { date: string; totals: Record<MetricName, number> }[]; // Totals of all posts as of the end of each day
+}
+
+export interface SyncMetricsResult {
+  synced: number;
+  skipped: number; // Posts of organizations without credentials for the platform
+  errors: { organizationId: string; platform: PublishingPlatform; error: string }[];
+}
+
+interface MetricRow extends MetricValues {
+  post_id: string;
+  organization_id: string | null;
+  platform: string | null;
+  recorded_at: string;
+  source: MetricsSource;
+  source_name: string | null;
+}
+
+interface PublishedPostRow {
+  id: string;
+  organization_id: string;
+  platform: string | null;
+  url: string | null;
+  published_url: string | null;
+  published_at: string | null;
+  posted_date: string | null;
+}
+
+/**
+ * True when METRICS_CONNECTOR=mock, which makes up the metrics of every
+ * published post instead of calling a platform
+ */
+export function isMockMetrics(): boolean {
+  return process.env.METRICS_CONNECTOR === 'mock';
+}
+
+const zeroTotals = (): Record<MetricName, number> =>
+  Object.fromEntries(METRIC_NAMES.map(metric => [metric, 0])) as Record<MetricName, number>;
+
+// Latest value of each metric; sources report different metrics, so each comes from the newest sample that has it
+const latestValues = (samples: Pick<PostMetricSample, MetricName>[]): MetricValues => {
+  const latest: MetricValues = {};
+  samples.forEach(sample => METRIC_NAMES.forEach(metric => {
+    const value = sample[metric];
+    if (value !== null && value !== undefined) latest[metric] = Number(value);
+  }));
+  return latest;
+};
+
+// Upsert samples; a post's sample from the same source and time replaces the stored one
+async function storeMetricRows(rows: MetricRow[]): Promise<number> {
+  const unique = new Map(rows.map(row => [`${row.post_id}|${row.source}|${row.recorded_at}`, row]));
+  const deduped = Array.from(unique.values());
+
+  for (let i = 0; i < deduped.length; i += CHUNK_SIZE) {
+    const { error } = await supabase
+      .from('post_metrics')
+      .upsert(deduped.slice(i, i + CHUNK_SIZE), { onConflict: 'post_id,source,recorded_at' });
+
+    if (error) {
+      throw new Error(`Failed to store post metrics: ${error.message}`);
+    }
+  }
+
+  return deduped.length;
+}
+
+// Posts of a scope by the URL they were published at, mapped URL -> post ID
+async function findPublishedPosts(urls: string[], scope: PostScope): Promise<Map<string, string>> {
+  const found = new Map<string, string>();
+
+  for (let i = 0; i < urls.length; i += CHUNK_SIZE) {
+    let query = supabase
+      .from('posts')
+      .select('id, published_url')
+      .in('published_url', urls.slice(i, i + CHUNK_SIZE))
+      .is('deleted_at', null);
+
+    query = scope.organizationId
+      ? query.eq('organization_id', scope.organizationId)
+      : query.eq('user_id', scope.userId).is('organization_id', null);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to match published posts: ${error.message}`);
+    }
+    (data || []).forEach(post => found.set(post.published_url, post.id));
+  }
+
+  return found;
+}
+
+/**
+ * Store readings (from an uploaded export) for the posts of a scope. Readings
+ * are matched to posts by the URL they were published at, or by the post's own
+ * URL in its canonical form; the URLs of readings no post matches come back.
+ */
+export async function recordPostMetrics(
+  readings: MetricsReading[],
+  scope: PostScope,
+  options: { source: MetricsSource; sourceName?: string | null; platform?: string | null }
+): Promise<RecordMetricsResult> {
+  const urls = Array.from(new Set(readings.map(reading => reading.url)));
+  const published = await findPublishedPosts(urls, scope);
+  const existing = await findExistingPosts(urls.filter(url => !published.has(url)), scope);
+
+  const rows: MetricRow[] = [];
+  const unmatched = new Set<string>();
+
+  readings.forEach(reading => {
+    const postId = published.get(reading.url) || existing.get(reading.url);
+    if (!postId) {
+      unmatched.add(reading.url);
+      return;
+    }
+
+    rows.push({
+      post_id: postId,
+      organization_id: scope.organizationId,
+      platform: options.platform || null,
+      recorded_at: reading.recordedAt,
+      source: options.source,
+      source_name: options.sourceName || null,
+      ...reading.values
+    });
+  });
+
+  const recorded = await storeMetricRows(rows);
+  return { recorded, unmatched: Array.from(unmatched) };
+}
+
+/**
+ * Latest numbers of each of these posts that has metrics, mapped post ID -> values
+ */
+export async function getLatestPostMetrics(postIds: string[]): Promise<Map<string, MetricValues>> {
+  const latest = new Map<string, MetricValues>();
+
+  for (let i = 0; i < postIds.length; i += CHUNK_SIZE) {
+    for (let offset = 0; ; offset += PAGE_SIZE) {
+      const { data, error } = await supabase
+        .from('post_metrics')
+        .select('post_id, recorded_at, impressions, clicks, likes, shares, comments, saves')
+        .in('post_id', postIds.slice(i, i + CHUNK_SIZE))
+        .order('recorded_at', { ascending: true })
+        .range(offset, offset + PAGE_SIZE - 1);
+
+      if (error) {
+        throw new Error(`Failed to load post metrics: ${error.message}`);
+      }
+
+      (data || []).forEach(sample => {
+        latest.set(sample.post_id, { ...latest.get(sample.post_id), ...latestValues([sample]) });
+      });
+      if (!data || data.length < PAGE_SIZE) break;
+    }
+  }
+
+  return latest;
+}
+
+/**
+ * The metrics series of a post (its latest 1000 samples), and its latest numbers
+ */
+export async function getPostMetrics(postId: string): Promise<PostMetrics> {
+  const { data, error } = await supabase
+    .from('post_metrics')
+    .select('*')
+    .eq('post_id', postId)
+    .order('recorded_at', { ascending: false })
+    .limit(PAGE_SIZE);
+
+  if (error) {
+    throw new Error(`Failed to load post metrics: ${error.message}`);
+  }
+
+  const samples = ((data || []) as PostMetricSample[]).reverse();
+  return {
+    samples,
+    latest: latestValues(samples),
+    latestAt: samples.length > 0 ? samples[samples.length - 1].recorded_at : null
+  };
+}
+
+/**
+ * Latest numbers of each post of an organization, their totals, and the
+ * totals as of each day of the range. Counts are lifetime totals, so a post
+ * adds its latest numbers up to each day rather than the sum of its samples.
+ */
+export async function getOrganizationMetrics(
+  organizationId: string,
+  range: { from?: string | null; to?: string | null } = {}
+): Promise<OrganizationMetrics> {
+  const samples: (PostMetricSample & { posts: { title: string | null; platform: string | null; url: string | null } | null })[] = [];
+
+  for (let offset = 0; ; offset += PAGE_SIZE) {
+    let query = supabase
+      .from('post_metrics')
+      .select('*, posts(title, platform, url)')
+      .eq('organization_id', organizationId)
+      .order('recorded_at', { ascending: true })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (range.from) query = query.gte('recorded_at', range.from);
+    if (range.to) query = query.lte('recorded_at', range.to);
+
+    const { data, error } = await query;
+    if (error) {
+      throw new Error(`Failed to load organization metrics: ${error.message}`);
+    }
+
+    samples.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  const latestByPost = new Map<string, MetricValues>();
+  const summaries = new Map<string, PostMetricsSummary>();
+  const daily: OrganizationMetrics['daily'] = [];
+
+  const sumLatest = () => {
+    const totals = zeroTotals();
+    latestByPost.forEach(values => METRIC_NAMES.forEach(metric => {
+      totals[metric] += values[metric] || 0;
+    }));
+    return totals;
+  };
+
+  samples.forEach((sample, index) => {
+    const values = { ...latestByPost.get(sample.post_id), ...latestValues([sample]) };
+    latestByPost.set(sample.post_id, values);
+    summaries.set(sample.post_id, {
+      postId: sample.post_id,
+      title: sample.posts?.title || null,
+      platform: sample.platform || sample.posts?.platform || null,
+      url: sample.posts?.url || null,
+      latest: values,
+      latestAt: sample.recorded_at
+    });
+
+    const date = sample.recorded_at.slice(0, 10);
+    const next = samples[index + 1];
+    if (!next || next.recorded_at.slice(0, 10) !== date) {
+      daily.push({ date, totals: sumLatest() });
+    }
+  });
+
+  return {
+    posts: Array.from(summaries.values()).sort((a, b) => (b.latest.impressions || 0) - (a.latest.impressions || 0)),
+    totals: sumLatest(),
+    daily
+  };
+}
+
+/**
+ * Fetch the numbers of published posts from the platforms they were published
+ * to, with the organization's publishing credentials, and store them as
+ * connector samples. Posts synced in the last few hours are left alone, so the
+ * scheduler can call this on every run.
+ */
+export async function syncPostMetrics(
+  options: { organizationId?: string; now?: Date } = {}
+): Promise<SyncMetricsResult> {
+  const now = options.now || new Date();
+  const result: SyncMetricsResult = { synced: 0, skipped: 0, errors: [] };
+
+  let query = supabase
+    .from('posts')
+    .select('id, organization_id, platform, url, published_url, published_at, posted_date')
+    .eq('status', 'POSTED')
+    .is('deleted_at', null)
+    .not('organization_id', 'is', null)
+    .order('published_at', { ascending: false, nullsFirst: false })
+    .limit(MAX_SYNC_POSTS * 2);
+
+  if (options.organizationId) {
+    query = query.eq('organization_id', options.organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load published posts: ${error.message}`);
+  }
+
+  const candidates = ((data || []) as PublishedPostRow[])
+    .filter(post => {
+      const platform = normalizePublishingPlatform(post.platform);
+      return (post.published_url || post.url) && (isMockMetrics() || (platform && connectors[platform]));
+    });
+
+  // Leave out posts with a recent connector sample
+  const recentlySynced = new Set<string>();
+  const since = new Date(now.getTime() - SYNC_INTERVAL_MS).toISOString();
+  for (let i = 0; i < candidates.length; i += CHUNK_SIZE) {
+    const { data: recent, error: recentError } = await supabase
+      .from('post_metrics')
+      .select('post_id')
+      .in('post_id', candidates.slice(i, i + CHUNK_SIZE).map(post => post.id))
+      .eq('source', 'connector')
+      .gte('recorded_at', since);
+
+    if (recentError) {
+      throw new Error(`Failed to check synced posts: ${recentError.message}`);
+    }
+    (recent || []).forEach(row => recentlySynced.add(row.post_id));
+  }
+
+  // One connector call per organization and platform
+  const groups = new Map<string, { organizationId: string; platform: PublishingPlatform; posts: PublishedPostRow[] }>();
+  candidates
+    .filter(post => !recentlySynced.has(post.id))
+    .slice(0, MAX_SYNC_POSTS)
+    .forEach(post => {
+      const platform = normalizePublishingPlatform(post.platform) || 'web';
+      const key = `${post.organization_id}:${platform}`;
+      if (!groups.has(key)) groups.set(key, { organizationId: post.organization_id, platform, posts: [] });
+      groups.get(key)!.posts.push(post);
+    });
+
+  for (const { organizationId, platform, posts } of Array.from(groups.values())) {
+    try {
+      const connector = isMockMetrics() ? mockMetricsConnector : connectors[platform]!;
+      const credentials = isMockMetrics() ? null : await getPublishingCredentials(organizationId, platform);
+      if (!isMockMetrics() && !credentials) {
+        result.skipped += posts.length;
+        continue;
+      }
+
+      const metricsPosts: MetricsPost[] = posts.map(post => ({
+        id: post.id,
+        platform,
+        url: post.url,
+        publishedUrl: post.published_url,
+        postedAt: post.published_at || post.posted_date
+      }));
+      const metrics = await connector.fetchMetrics(metricsPosts, credentials);
+
+      result.synced += await storeMetricRows(Array.from(metrics.entries()).map(([postId, values]) => ({
+        post_id: postId,
+        organization_id: organizationId,
+        platform,
+        recorded_at: now.toISOString(),
+        source: 'connector',
+        source_name: connector.name,
+        ...values
+      })));
+    } catch (syncError) {
+      console.error(`[Metrics] Failed to sync ${platform} metrics for organization ${organizationId}:`, syncError);
+      result.errors.push({
+        organizationId,
+        platform,
+        error: syncError instanceof Error ? syncError.message : String(syncError)
+      });
+    }
+  }
+
+  return result;
+}
@@ -0,0 +1,266 @@
+import { createClient } from '@supabase/supabase-js';
+import { DAY_NAMES, getZonedParts, normalizePostingPlatform, PostingPlatform } from '@/lib/scheduling';
+import { getLatestPostMetrics } from './index';
+import { MetricValues } from './types';
+
+// Posts older than this don't say much about what works now
+const LOOKBACK_DAYS = 180;
+// Posts read per organization
+const MAX_POSTS = 1000;
+// Fewer posts with metrics than this and there is nothing to learn from
+const MIN_POSTS = 5;
+// A platform, format or weekday needs this many posts to be compared
+const MIN_GROUP_POSTS = 3;
+// Posts seen by fewer people are left out of the top and bottom performers, their rates are noise
+const MIN_PERFORMER_IMPRESSIONS = 100;
+// Top and bottom performers kept
+const PERFORMERS = 5;
+
+const PLATFORM_LABELS: Record<PostingPlatform, string> = {
+  web: 'Web',
+  x: 'X',
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+};
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// How a platform, format or weekday did compared with all posts
+export interface PerformanceStat {
+  key: string; // Platform key, lowercase format, or weekday number (0 = Sunday)
+  label: string;
+  posts: number;
+  engagementRate: number; // Mean of the posts' rates
+  impressions: number; // Mean per post
+  lift: number; // engagementRate over the organization's mean; above 1 did better
+}
+
+export interface Performer {
+  postId: string;
+  title: string;
+  platform: string;
+  format: string;
+  weekday: string;
+  impressions: number;
+  engagementRate: number;
+}
+
+/**
+ * What an organization's published posts tell about what works. The
+ * engagement rate of a post is its clicks, likes, shares, comments and saves
+ * per impression, from its latest metrics.
+ */
+export interface PerformanceInsights {
+  posts: number; // Posts with impressions, which the numbers are over
+  lookbackDays: number;
+  engagementRate: number;
+  byPlatform: PerformanceStat[]; // Best first
+  byFormat: PerformanceStat[];
+  byWeekday: PerformanceStat[];
+  top: Performer[];
+  bottom: Performer[];
+}
+
+interface RatedPost extends Performer {
+  platformKey: string;
+  weekdayNumber: number;
+}
+
+const engagements = (values: MetricValues) =>
+  (values.clicks || 0) + (values.likes || 0) + (values.shares || 0) + (values.comments || 0) + (values.saves || 0);
+
+const platformKey = (platform: string | null) => (platform && normalizePostingPlatform(platform)) || (platform || 'web').toLowerCase();
+
+const platformLabel = (key: string) => PLATFORM_LABELS[key as PostingPlatform] || key;
+
+const formatRate = (rate: number) => `${(rate * 100).toFixed(1)}%`;
+
+const formatLift = (lift: number) => `${lift.toFixed(1)}x`;
+
+// Stats of each group with enough posts, best first
+const groupStats = (
+  posts: RatedPost[],
+  keyOf: (post: RatedPost) => string,
+  labelOf: (key: string) => string,
+  overallRate: number
+): PerformanceStat[] => {
+  const groups = new Map<string, RatedPost[]>();
+  posts.forEach(post => groups.set(keyOf(post), [...(groups.get(keyOf(post)) || []), post]));
+
+  return Array.from(groups.entries())
+    .filter(([, group]) => group.length >= MIN_GROUP_POSTS)
+    .map(([key, group]) => {
+      const engagementRate = group.reduce((sum, post) => sum + post.engagementRate, 0) / group.length;
+      return {
+        key,
+        label: labelOf(key),
+        posts: group.length,
+        engagementRate,
+        impressions: Math.round(group.reduce((sum, post) => sum + post.impressions, 0) / group.length),
+        lift: overallRate > 0 ? engagementRate / overallRate : 1
+      };
+    })
+    .sort((a, b) => b.engagementRate - a.engagementRate);
+};
+
+/**
+ * Engagement of an organization's posts of the last months by platform,
+ * format and weekday (in the organization's timezone), and its best and worst
+ * posts. Null until enough published posts have metrics.
+ */
+export async function getPerformanceInsights(
+  organizationId: string,
+  options: { timezone?: string; now?: Date } = {}
+): Promise<PerformanceInsights | null> {
+  const now = options.now || new Date();
+  const since = new Date(now.getTime() - LOOKBACK_DAYS * 24 * 60 * 60 * 1000);
+
+  const { data, error } = await supabase
+    .from('posts')
+    .select('id, title, platform, format, posted_date')
+    .eq('organization_id', organizationId)
+    .eq('status', 'POSTED')
+    .is('deleted_at', null)
+    .gte('posted_date', since.toISOString())
+    .order('posted_date', { ascending: false })
+    .limit(MAX_POSTS);
+
+  if (error) {
+    throw new Error(`Failed to load published posts: ${error.message}`);
+  }
+
+  const posts = data || [];
+  const metrics = await getLatestPostMetrics(posts.map(post => post.id));
+
+  const rated: RatedPost[] = posts.flatMap(post => {
+    const values = metrics.get(post.id);
+    if (!values?.impressions || !post.posted_date) return [];
+
+    const key = platformKey(post.platform);
+    const weekdayNumber = getZonedParts(new Date(post.posted_date), options.timezone).weekday;
+    return [{
+      postId: post.id,
+      title: post.title || 'Untitled post',
+      platform: platformLabel(key),
+      platformKey: key,
+      format: (post.format || 'article').toLowerCase(),
+      weekday: DAY_NAMES[weekdayNumber],
+      weekdayNumber,
+      impressions: values.impressions,
+      engagementRate: engagements(values) / values.impressions
+    }];
+  });
+
+  if (rated.length < MIN_POSTS) {
+    return null;
+  }
+
+  const engagementRate = rated.reduce((sum, post) => sum + post.engagementRate, 0) / rated.length;
+  const performers = rated
+    .filter(post => post.impressions >= MIN_PERFORMER_IMPRESSIONS)
+    .sort((a, b) => b.engagementRate - a.engagementRate)
+    .map((post): Performer => ({
+      postId: post.postId,
+      title: post.title,
+      platform: post.platform,
+      format: post.format,
+      weekday: post.weekday,
+      impressions: post.impressions,
+      engagementRate: post.engagementRate
+    }));
+
+  return {
+    posts: rated.length,
+    lookbackDays: LOOKBACK_DAYS,
+    engagementRate,
+    byPlatform: groupStats(rated, post => post.platformKey, platformLabel, engagementRate),
+    byFormat: groupStats(rated, post => post.format, key => key, engagementRate),
+    byWeekday: groupStats(rated, post => String(post.weekdayNumber), key => DAY_NAMES[Number(key)], engagementRate),
+    top: performers.slice(0, PERFORMERS),
+    // Bottom performers don't repeat top ones when there are few posts
+    bottom: performers.slice(PERFORMERS).slice(-PERFORMERS).reverse()
+  };
+}
+
+const describeStats = (stats: PerformanceStat[]) =>
+  stats.map(stat => `${stat.label} ${formatRate(stat.engagementRate)} (${formatLift(stat.lift)}, ${stat.posts} posts)`).join('; ');
+
+const describePerformer = (performer: Performer) =>
+  `"${performer.title}" (${performer.platform}, ${performer.format}, ${performer.weekday}): ${formatRate(performer.engagementRate)} of ${performer.impressions.toLocaleString('en-US')} impressions`;
+
+/**
+ * The insights as a prompt section: engagement by platform, format and
+ * weekday, and the top and bottom performers to learn from
+ */
+export function describePerformanceForPrompt(insights: PerformanceInsights | null): string {
+  if (!insights) return '';
+
+  const lines = [
+    `PAST PERFORMANCE (engagement rate = clicks, likes, shares, comments and saves per impression, over ${insights.posts} posts of the last ${insights.lookbackDays} days; average ${formatRate(insights.engagementRate)}):`,
+    insights.byPlatform.length > 0 && `- By platform: ${describeStats(insights.byPlatform)}`,
+    insights.byFormat.length > 0 && `- By format: ${describeStats(insights.byFormat)}`,
+    insights.byWeekday.length > 0 && `- By weekday: ${describeStats(insights.byWeekday)}`,
+    insights.top.length > 0 && `Top performers (build on their topics and angles):\n${insights.top.map(performer => `- ${describePerformer(performer)}`).join('\n')}`,
+    insights.bottom.length > 0 && `Bottom performers (avoid repeating what didn't work):\n${insights.bottom.map(performer => `- ${describePerformer(performer)}`).join('\n')}`
+  ];
+
+  return lines.filter(Boolean).join('\n');
+}
+
+/**
+ * Weekdays that did better and worse than average, for scheduling prompts
+ */
+export function describeWeekdayPerformanceForPrompt(insights: PerformanceInsights | null): string {
+  if (!insights || insights.byWeekday.length === 0) return '';
+
+  const better = insights.byWeekday.filter(stat => stat.lift >= 1.1);
+  const worse = insights.byWeekday.filter(stat => stat.lift <= 0.9);
+  if (better.length === 0 && worse.length === 0) return '';
+
+  return [
+    better.length > 0 && `Past posts did best on ${better.map(stat => `${stat.label} (${formatLift(stat.lift)})`).join(', ')}: within the posting windows, prefer these days.`,
+    worse.length > 0 && `Past posts did worst on ${worse.map(stat => `${stat.label} (${formatLift(stat.lift)})`).join(', ')}: avoid these days when the windows allow.`
+  ].filter(Boolean).join('\n    ');
+}
+
+/**
+ * The past performance that backs a suggestion: how its platform, format and
+ * weekday did when better than average, and the top performers it shares a
+ * platform and format with. Listed in the suggestion's reasons.
+ */
+export function getPerformanceEvidence(
+  insights: PerformanceInsights | null,
+  suggestion: { platform: string; format?: string | null; postedAt?: string | null },
+  timezone?: string
+): string[] {
+  if (!insights) return [];
+
+  const key = platformKey(suggestion.platform);
+  const format = suggestion.format?.toLowerCase();
+  const postedAt = suggestion.postedAt ? new Date(suggestion.postedAt) : null;
+  const weekday = postedAt && !isNaN(postedAt.getTime()) ? String(getZonedParts(postedAt, timezone).weekday) : null;
+
+  const backing = (stat: PerformanceStat | undefined, what: string) =>
+    stat && stat.lift >= 1
+      ? [`Past performance: ${what} averaged ${formatRate(stat.engagementRate)} engagement, ${formatLift(stat.lift)} your average (${stat.posts} posts)`]
+      : [];
+
+  const similar = insights.top.find(performer => platformKey(performer.platform) === key && (!format || performer.format === format));
+
+  return [
+    ...backing(insights.byPlatform.find(stat => stat.key === key), `${platformLabel(key)} posts`),
+    ...backing(format ? insights.byFormat.find(stat => stat.key === format) : undefined, `${format} posts`),
+    ...backing(weekday ? insights.byWeekday.find(stat => stat.key === weekday) : undefined, `${weekday ? DAY_NAMES[Number(weekday)] : ''} posts`),
+    ...(similar ? [`Past performance: top performer "${similar.title}" was also a ${similar.platform} ${similar.format} post (${formatRate(similar.engagementRate)} engagement)`] : [])
+  ];
+}
@@ -0,0 +1,49 @@
+/**
+ * Shared types for post performance metrics
+ */
+
+// Engagement counts kept for every post, whatever the platform calls them
+export type MetricName = 'impressions' | 'clicks' | 'likes' | 'shares' | 'comments' | 'saves';
+
+// Counts a source reported; metrics it doesn't report are left out
+export type MetricValues = Partial<Record<MetricName, number>>;
+
+// csv: an uploaded platform export. connector: fetched from the platform's API.
+export type MetricsSource = 'csv' | 'connector';
+
+// Platforms metrics can be fetched from; 'mock' makes up numbers instead of calling one
+export type MetricsConnectorName = 'x' | 'mock';
+
+// A row of post_metrics
+export interface PostMetricSample extends Record<MetricName, number | null> {
+  id: string;
+  post_id: string;
+  organization_id: string | null;
+  platform: string | null;
+  recorded_at: string;
+  source: MetricsSource;
+  source_name: string | null;
+  created_at: string;
+}
+
+// Numbers for one post as of a time, before they are matched to a post and stored
+export interface MetricsReading {
+  url: string; // The post's page, or where it was published
+  recordedAt: string;
+  values: MetricValues;
+}
+
+// What connectors get to see of a post
+export interface MetricsPost {
+  id: string;
+  platform: string;
+  url: string | null;
+  publishedUrl: string | null;
+  postedAt: string | null;
+}
+
+export interface MetricsConnector<C = unknown> {
+  name: MetricsConnectorName;
+  // Readings for the posts the platform knows, keyed by post ID; posts it can't find are left out
+  fetchMetrics(posts: MetricsPost[], credentials: C | null): Promise<Map<string, MetricValues>>;
+}
@@ -0,0 +1,56 @@
+// The part of an organization that is versioned
+export interface ProfileSnapshot {
+  info: Record<string, unknown> | null;
+  preferences: Record<string, unknown> | null;
+}
+
+export interface ProfileChange {
+  path: string; // Dotted, e.g. info.keywords or preferences.postingWindows.x
+  kind: 'added' | 'removed' | 'changed';
+  before?: unknown;
+  after?: unknown;
+}
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  !!value && typeof value === 'object' && !Array.isArray(value);
+
+function sameValue(a: unknown, b: unknown): boolean {
+  if (a === b) return true;
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((value, index) => sameValue(value, b[index]));
+  }
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const keys = Object.keys(a);
+    return keys.length === Object.keys(b).length && keys.every(key => key in b && sameValue(a[key], b[key]));
+  }
+  return false;
+}
+
+function diffValues(path: string, before: unknown, after: unknown, changes: ProfileChange[]) {
+  if (sameValue(before, after)) return;
+
+  // Objects are compared key by key; arrays and scalars as a whole
+  if (isPlainObject(before) && isPlainObject(after)) {
+    const keys = Array.from(new Set([...Object.keys(before), ...Object.keys(after)])).sort();
+    keys.forEach(key => diffValues(`${path}.${key}`, before[key], after[key], changes));
+    return;
+  }
+
+  if (before === undefined || before === null) {
+    changes.push({ path, kind: 'added', after });
+  } else if (after === undefined || after === null) {
+    changes.push({ path, kind: 'removed', before });
+  } else {
+    changes.push({ path, kind: 'changed', before, after });
+  }
+}
+
+/**
+ * What changed between two profiles, one entry per changed field in path order
+ */
+export function diffProfiles(before: ProfileSnapshot, after: ProfileSnapshot): ProfileChange[] {
+  const changes: ProfileChange[] = [];
+  diffValues('info', before.info || {}, after.info || {}, changes);
+  diffValues('preferences', before.preferences || {}, after.preferences || {}, changes);
+  return changes;
+}
@@ -0,0 +1,208 @@
+import { createClient } from '@supabase/supabase-js';
+import { diffProfiles, ProfileChange, ProfileSnapshot } from './diff';
+
+export { diffProfiles };
+export type { ProfileChange, ProfileSnapshot };
+
+// Versions listed per page of history
+const DEFAULT_HISTORY_LIMIT = 20;
+
+const VERSION_COLUMNS = 'version, info, preferences, source, restored_version, user_id, created_at';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// What made a profile change
+export type ProfileSource = 'baseline' | 'analysis' | 'preferences' | 'rollback';
+
+/**
+ * Thrown when a profile version can't be read or restored as asked; `status`
+ * is the HTTP status the API answers with
+ */
+export class ProfileVersionError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'ProfileVersionError';
+    this.status = status;
+  }
+}
+
+export interface ProfileVersion extends ProfileSnapshot {
+  version: number;
+  source: ProfileSource;
+  restoredVersion: number | null; // For rollbacks, the version restored
+  userId: string | null;
+  createdAt: string;
+}
+
+// A version in the history, with the fields it changed instead of the whole profile
+export type ProfileVersionSummary = Omit<ProfileVersion, 'info' | 'preferences'> & {
+  changedPaths: string[];
+};
+
+interface ProfileVersionRow {
+  version: number;
+  info: Record<string, unknown> | null;
+  preferences: Record<string, unknown> | null;
+  source: ProfileSource;
+  restored_version: number | null;
+  user_id: string | null;
+  created_at: string;
+}
+
+const rowToVersion = (row: ProfileVersionRow): ProfileVersion => ({
+  version: row.version,
+  info: row.info,
+  preferences: row.preferences,
+  source: row.source,
+  restoredVersion: row.restored_version,
+  userId: row.user_id,
+  createdAt: row.created_at
+});
+
+/**
+ * Change an organization's info and/or preferences and record the result as
+ * its next profile version, attributed to the user. Fields left out keep their
+ * value. Returns the version the organization is at afterwards, which is the
+ * current one when nothing changed.
+ */
+export async function saveOrganizationProfile(
+  organizationId: string,
+  changes: Partial<ProfileSnapshot>,
+  options: { userId?: string | null; source: ProfileSource; restoredVersion?: number }
+): Promise<number> {
+  const { data, error } = await supabase.rpc('save_organization_profile', {
+    p_organization_id: organizationId,
+    p_info: changes.info ?? null,
+    p_preferences: changes.preferences ?? null,
+    p_user_id: options.userId || null,
+    p_source: options.source,
+    p_restored_version: options.restoredVersion ?? null
+  });
+
+  if (error) {
+    throw new Error(`Failed to save organization profile: ${error.message}`);
+  }
+
+  return data as number;
+}
+
+/**
+ * The organization's current profile version. An organization without history
+ * gets its current profile recorded as version 1.
+ */
+export async function getCurrentProfileVersion(organizationId: string): Promise<number> {
+  return saveOrganizationProfile(organizationId, {}, { source: 'baseline' });
+}
+
+/**
+ * An organization's profile history, newest first, with the fields each
+ * version changed compared to the one before it
+ */
+export async function listProfileVersions(
+  organizationId: string,
+  options: { limit?: number; before?: number } = {}
+): Promise<ProfileVersionSummary[]> {
+  const limit = options.limit || DEFAULT_HISTORY_LIMIT;
+
+  // One extra version to diff the oldest listed one against
+  let query = supabase
+    .from('organization_profile_versions')
+    .select(VERSION_COLUMNS)
+    .eq('organization_id', organizationId)
+    .order('version', { ascending: false })
+    .limit(limit + 1);
+
+  if (options.before) {
+    query = query.lt('version', options.before);
+  }
+
+  const { data, error } = await query;
+
+  if (error) {
+    throw new Error(`Failed to load profile history: ${error.message}`);
+  }
+
+  const versions = ((data || []) as ProfileVersionRow[]).map(rowToVersion);
+
+  return versions.slice(0, limit).map((version, index) => {
+    const previous = versions[index + 1];
+    const { info, preferences, ...summary } = version;
+    return {
+      ...summary,
+      changedPaths: previous ? diffProfiles(previous, { info, preferences }).map(change => change.path) : []
+    };
+  });
+}
+
+export async function getProfileVersion(organizationId: string, version: number): Promise<ProfileVersion | null> {
+  const { data, error } = await supabase
+    .from('organization_profile_versions')
+    .select(VERSION_COLUMNS)
+    .eq('organization_id', organizationId)
+    .eq('version', version)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load profile version ${version}: ${error.message}`);
+  }
+
+  return data ? rowToVersion(data as ProfileVersionRow) : null;
+}
+
+/**
+ * Two versions of an organization's profile and the fields that differ
+ * between them
+ */
+export async function compareProfileVersions(
+  organizationId: string,
+  fromVersion: number,
+  toVersion: number
+): Promise<{ from: ProfileVersion; to: ProfileVersion; changes: ProfileChange[] }> {
+  const [from, to] = await Promise.all([
+    getProfileVersion(organizationId, fromVersion),
+    getProfileVersion(organizationId, toVersion)
+  ]);
+
+  if (!from || !to) {
+    throw new ProfileVersionError(`Profile version ${!from ? fromVersion : toVersion} not found`, 404);
+  }
+
+  return { from, to, changes: diffProfiles(from, to) };
+}
+
+/**
+ * Restore the info and preferences of an earlier version. The restore is
+ * recorded as a new version, so it can be rolled back in turn.
+ */
+export async function rollbackOrganizationProfile(
+  organizationId: string,
+  version: number,
+  userId?: string | null
+): Promise<number> {
+  const target = await getProfileVersion(organizationId, version);
+  if (!target) {
+    throw new ProfileVersionError(`Profile version ${version} not found`, 404);
+  }
+
+  const current = await getCurrentProfileVersion(organizationId);
+  if (current === version) {
+    throw new ProfileVersionError(`Version ${version} is already the current profile`, 409);
+  }
+
+  return saveOrganizationProfile(
+    organizationId,
+    { info: target.info || {}, preferences: target.preferences || {} },
+    { userId, source: 'rollback', restoredVersion: version }
+  );
+}
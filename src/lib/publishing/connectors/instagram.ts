@@ -0,0 +1,59 @@
+import { InstagramCredentials, PublishingConnector } from '../types';
+import { composePostText } from '../content';
+
+const GRAPH_API_URL = 'https://graph.facebook.com/v19.0';
+const INSTAGRAM_MAX_LENGTH = 2200;
+
+async function graphRequest<T>(path: string, params: Record<string, string>, method: 'GET' | 'POST' = 'POST'): Promise<T> {
+  const query = new URLSearchParams(params);
+  const response = await fetch(
+    method === 'GET' ? `${GRAPH_API_URL}/${path}?${query}` : `${GRAPH_API_URL}/${path}`,
+    method === 'GET' ? undefined : { method, body: query }
+  );
+
+  if (!response.ok) {
+    const errorText = await response.text();
+    throw new Error(`Instagram API error ${response.status}: ${errorText}`);
+  }
+
+  return response.json();
+}
+
+export const instagramConnector: PublishingConnector<InstagramCredentials> = {
+  name: 'instagram',
+
+  async publish(post, credentials) {
+    if (!credentials?.accessToken || !credentials.businessAccountId) {
+      throw new Error('No Instagram access token and business account configured for this organization');
+    }
+
+    const imageUrl = post.imageUrl || credentials.defaultImageUrl;
+    if (!imageUrl) {
+      throw new Error('Instagram posts need an image and no default image is configured');
+    }
+
+    // Instagram publishes in two steps: create a media container, then publish it.
+    // Links in captions aren't clickable, so the caption leaves them out.
+    const container = await graphRequest<{ id: string }>(`${credentials.businessAccountId}/media`, {
+      image_url: imageUrl,
+      caption: composePostText({ ...post, link: undefined }, INSTAGRAM_MAX_LENGTH),
+      access_token: credentials.accessToken
+    });
+
+    const published = await graphRequest<{ id: string }>(`${credentials.businessAccountId}/media_publish`, {
+      creation_id: container.id,
+      access_token: credentials.accessToken
+    });
+
+    const media = await graphRequest<{ permalink?: string }>(published.id, {
+      fields: 'permalink',
+      access_token: credentials.accessToken
+    }, 'GET');
+
+    return {
+      url: media.permalink || 'https://www.instagram.com/',
+      externalId: published.id,
+      connector: 'instagram'
+    };
+  }
+};
@@ -0,0 +1,55 @@
+import { LinkedInCredentials, PublishingConnector } from '../types';
+import { composePostText } from '../content';
+
+const LINKEDIN_POSTS_URL = 'https://api.linkedin.com/v2/ugcPosts';
+const LINKEDIN_MAX_LENGTH = 3000;
+
+export const linkedinConnector: PublishingConnector<LinkedInCredentials> = {
+  name: 'linkedin',
+
+  async publish(post, credentials) {
+    if (!credentials?.accessToken || !credentials.authorUrn) {
+      throw new Error('No LinkedIn access token and author configured for this organization');
+    }
+
+    const response = await fetch(LINKEDIN_POSTS_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${credentials.accessToken}`,
+        'x-restli-protocol-version': '2.0.0'
+      },
+      body: JSON.stringify({
+        author: credentials.authorUrn,
+        lifecycleState: 'PUBLISHED',
+        specificContent: {
+          'com.linkedin.ugc.ShareContent': {
+            shareCommentary: { text: composePostText({ ...post, link: undefined }, LINKEDIN_MAX_LENGTH) },
+            shareMediaCategory: post.link ? 'ARTICLE' : 'NONE',
+            ...(post.link && {
+              media: [{ status: 'READY', originalUrl: post.link, title: { text: post.title } }]
+            })
+          }
+        },
+        visibility: { 'com.linkedin.ugc.MemberNetworkVisibility': 'PUBLIC' }
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`LinkedIn API error ${response.status}: ${errorText}`);
+    }
+
+    // The id of the created post comes back in a header, the body may be empty
+    const id = response.headers.get('x-restli-id') || ((await response.json().catch(() => ({}))) as { id?: string }).id;
+    if (!id) {
+      throw new Error('LinkedIn API did not return a post id');
+    }
+
+    return {
+      url: `https://www.linkedin.com/feed/update/${id}`,
+      externalId: id,
+      connector: 'linkedin'
+    };
+  }
+};
@@ -0,0 +1,42 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { PublishingConnector, PublishingCredentials } from '../types';
+
+/**
+ * File-based offline publisher.
+ *
+ * Instead of calling a platform it writes each published post as JSON to
+ * PUBLISHING_MOCK_DIR (default .mock-publisher/ in the project) and returns the
+ * file URL, so scheduling and publishing can be exercised end to end without
+ * network access or credentials.
+ */
+
+export function getMockPublishingDir(): string {
+  return process.env.PUBLISHING_MOCK_DIR || path.join(process.cwd(), '.mock-publisher');
+}
+
+export const mockConnector: PublishingConnector<PublishingCredentials> = {
+  name: 'mock',
+
+  async publish(post) {
+    // Setting PUBLISHING_MOCK_FAIL=<platform> makes that platform fail, to test error handling
+    const failing = (process.env.PUBLISHING_MOCK_FAIL || '').split(',').map(value => value.trim());
+    if (failing.includes(post.platform) || failing.includes('all')) {
+      throw new Error(`Mock ${post.platform} publisher is configured to fail`);
+    }
+
+    const directory = path.join(getMockPublishingDir(), post.organizationId, post.platform);
+    const file = path.join(directory, `${post.id}.json`);
+    const publishedAt = new Date().toISOString();
+
+    await fs.mkdir(directory, { recursive: true });
+    await fs.writeFile(file, JSON.stringify({ ...post, publishedAt }, null, 2), 'utf8');
+
+    return {
+      url: pathToFileURL(file).href,
+      externalId: `mock-${post.platform}-${post.id}`,
+      connector: 'mock'
+    };
+  }
+};
@@ -0,0 +1,50 @@
+import { PublishingConnector, WebCredentials } from '../types';
+
+/**
+ * Generic web/CMS connector.
+ *
+ * Posts the article as JSON to the organization's webhook, which creates it in
+ * their CMS and responds with { url, id? }.
+ */
+export const webConnector: PublishingConnector<WebCredentials> = {
+  name: 'web',
+
+  async publish(post, credentials) {
+    if (!credentials?.endpoint) {
+      throw new Error('No CMS webhook configured for this organization');
+    }
+
+    const response = await fetch(credentials.endpoint, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        ...(credentials.apiKey && { authorization: `Bearer ${credentials.apiKey}` })
+      },
+      body: JSON.stringify({
+        id: post.id,
+        title: post.title,
+        content: post.description,
+        format: post.format,
+        link: post.link,
+        imageUrl: post.imageUrl,
+        scheduledAt: post.scheduledAt
+      })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`CMS webhook error ${response.status}: ${errorText}`);
+    }
+
+    const data: { url?: string; id?: string | number } = await response.json().catch(() => ({}));
+    if (!data.url) {
+      throw new Error('CMS webhook did not return the url of the published article');
+    }
+
+    return {
+      url: data.url,
+      ...(data.id !== undefined && { externalId: String(data.id) }),
+      connector: 'web'
+    };
+  }
+};
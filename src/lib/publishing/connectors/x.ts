@@ -0,0 +1,41 @@
+import { PublishingConnector, XCredentials } from '../types';
+import { composePostText } from '../content';
+
+const X_TWEETS_URL = 'https://api.twitter.com/2/tweets';
+const X_MAX_LENGTH = 280;
+
+export const xConnector: PublishingConnector<XCredentials> = {
+  name: 'x',
+
+  async publish(post, credentials) {
+    if (!credentials?.accessToken) {
+      throw new Error('No X access token configured for this organization');
+    }
+
+    const response = await fetch(X_TWEETS_URL, {
+      method: 'POST',
+      headers: {
+        'content-type': 'application/json',
+        authorization: `Bearer ${credentials.accessToken}`
+      },
+      body: JSON.stringify({ text: composePostText(post, X_MAX_LENGTH) })
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      throw new Error(`X API error ${response.status}: ${errorText}`);
+    }
+
+    const data: { data?: { id?: string } } = await response.json();
+    const id = data.data?.id;
+    if (!id) {
+      throw new Error('X API did not return a post id');
+    }
+
+    return {
+      url: `https://x.com/i/web/status/${id}`,
+      externalId: id,
+      connector: 'x'
+    };
+  }
+};
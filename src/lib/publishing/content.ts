@@ -0,0 +1,30 @@
+import { PublishablePost } from './types';
+
+/**
+ * Only real web pages are worth linking to; planned posts get placeholder
+ * urls like draft-my-title-lx2k9 until they are published.
+ */
+export function getPublicLink(url?: string | null): string | undefined {
+  if (!url || !/^https?:\/\//i.test(url)) {
+    return undefined;
+  }
+  return url;
+}
+
+/**
+ * Text of a social post: title, description and link, shortened to fit the
+ * platform's limit. The description is cut first, the link is always kept.
+ */
+export function composePostText(post: PublishablePost, maxLength: number): string {
+  const title = post.title.trim();
+  const description = post.description.trim();
+  const link = post.link ? `\n\n${post.link}` : '';
+
+  let text = description && description !== title ? `${title}\n\n${description}` : title;
+  const available = maxLength - link.length;
+  if (text.length > available) {
+    text = `${text.slice(0, Math.max(available - 1, 0)).trimEnd()}…`;
+  }
+
+  return `${text}${link}`;
+}
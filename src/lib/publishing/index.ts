@@ -0,0 +1,172 @@
+import { createClient } from '@supabase/supabase-js';
+import { normalizePostingPlatform } from '@/lib/scheduling';
+import {
+  PublishingConnector,
+  PublishingCredentials,
+  PublishingCredentialsMap,
+  PublishingPlatform
+} from './types';
+import { xConnector } from './connectors/x';
+import { linkedinConnector } from './connectors/linkedin';
+import { instagramConnector } from './connectors/instagram';
+import { webConnector } from './connectors/web';
+import { mockConnector } from './connectors/mock';
+
+export * from './types';
+
+export const PUBLISHING_PLATFORMS: PublishingPlatform[] = ['x', 'linkedin', 'instagram', 'web'];
+
+const connectors: { [P in PublishingPlatform]: PublishingConnector<PublishingCredentialsMap[P]> } = {
+  x: xConnector,
+  linkedin: linkedinConnector,
+  instagram: instagramConnector,
+  web: webConnector
+};
+
+// Credential fields each platform can't do without, and the optional ones we keep
+const CREDENTIAL_FIELDS: { [P in PublishingPlatform]: { required: (keyof PublishingCredentialsMap[P])[]; optional: (keyof PublishingCredentialsMap[P])[] } } = {
+  x: { required: ['accessToken'], optional: [] },
+  linkedin: { required: ['accessToken', 'authorUrn'], optional: [] },
+  instagram: { required: ['accessToken', 'businessAccountId'], optional: ['defaultImageUrl'] },
+  web: { required: ['endpoint'], optional: ['apiKey'] }
+};
+
+// Credentials are only ever read with the service role, through the functions of migration 32
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Map a post's platform (X, 𝕏, LinkedIn, Web, website, ...) to the platform we publish it to.
+ * Returns null for platforms without a connector, such as Facebook.
+ */
+export function normalizePublishingPlatform(platform?: string | null): PublishingPlatform | null {
+  const key = platform ? normalizePostingPlatform(platform) : null;
+  return key && key in connectors ? key as PublishingPlatform : null;
+}
+
+/**
+ * True when PUBLISHING_CONNECTOR=mock, which sends every post to the file-based mock
+ * so offline environments never reach a platform
+ */
+export function isMockPublishing(): boolean {
+  return process.env.PUBLISHING_CONNECTOR === 'mock';
+}
+
+/**
+ * Resolve the connector posts for a platform are published with
+ */
+export function getPublishingConnector<P extends PublishingPlatform>(
+  platform: P
+): PublishingConnector<PublishingCredentialsMap[P]> {
+  if (isMockPublishing()) {
+    return mockConnector;
+  }
+  return connectors[platform];
+}
+
+/**
+ * Keep only the known credential fields of a platform.
+ * Returns null when a required field is missing.
+ */
+export function sanitizePublishingCredentials<P extends PublishingPlatform>(
+  platform: P,
+  value: unknown
+): PublishingCredentialsMap[P] | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const input = value as Record<string, unknown>;
+  const { required, optional } = CREDENTIAL_FIELDS[platform];
+  const credentials: Record<string, string> = {};
+
+  for (const field of [...required, ...optional] as string[]) {
+    const fieldValue = input[field];
+    if (typeof fieldValue === 'string' && fieldValue.trim()) {
+      credentials[field] = fieldValue.trim();
+    } else if ((required as string[]).includes(field)) {
+      return null;
+    }
+  }
+
+  return credentials as unknown as PublishingCredentialsMap[P];
+}
+
+/**
+ * Load an organization's decrypted credentials for a platform
+ */
+export async function getPublishingCredentials<P extends PublishingPlatform>(
+  organizationId: string,
+  platform: P
+): Promise<PublishingCredentialsMap[P] | null> {
+  const { data, error } = await supabase.rpc('get_publishing_credentials', {
+    p_organization_id: organizationId,
+    p_platform: platform
+  });
+
+  if (error) {
+    console.error(`Error loading ${platform} publishing credentials for organization:`, organizationId, error);
+    throw new Error(`Failed to load ${platform} credentials: ${error.message}`);
+  }
+
+  return sanitizePublishingCredentials(platform, data);
+}
+
+/**
+ * Store (or replace) an organization's credentials for a platform
+ */
+export async function savePublishingCredentials(
+  organizationId: string,
+  platform: PublishingPlatform,
+  credentials: PublishingCredentials,
+  userId?: string | null
+): Promise<void> {
+  const { error } = await supabase.rpc('save_publishing_credentials', {
+    p_organization_id: organizationId,
+    p_platform: platform,
+    p_credentials: credentials,
+    p_user_id: userId || null
+  });
+
+  if (error) {
+    throw new Error(`Failed to save ${platform} credentials: ${error.message}`);
+  }
+}
+
+export async function deletePublishingCredentials(organizationId: string, platform: PublishingPlatform): Promise<void> {
+  const { error } = await supabase
+    .from('publishing_credentials')
+    .delete()
+    .eq('organization_id', organizationId)
+    .eq('platform', platform);
+
+  if (error) {
+    throw new Error(`Failed to delete ${platform} credentials: ${error.message}`);
+  }
+}
+
+/**
+ * Platforms an organization has stored credentials for, without the secrets
+ */
+export async function listPublishingConnections(
+  organizationId: string
+): Promise<{ platform: PublishingPlatform; updatedAt: string }[]> {
+  const { data, error } = await supabase
+    .from('publishing_credentials')
+    .select('platform, updated_at')
+    .eq('organization_id', organizationId);
+
+  if (error) {
+    throw new Error(`Failed to list publishing connections: ${error.message}`);
+  }
+
+  return (data || []).map(row => ({ platform: row.platform as PublishingPlatform, updatedAt: row.updated_at }));
+}
@@ -0,0 +1,69 @@
+/**
+ * Shared types for the publishing connectors
+ */
+
+// Platforms we can publish to directly. Web covers blogs and CMSes reached through a webhook.
+export type PublishingPlatform = 'x' | 'linkedin' | 'instagram' | 'web';
+
+// 'mock' writes posts to local files instead of calling a platform
+export type PublishingConnectorName = PublishingPlatform | 'mock';
+
+export interface XCredentials {
+  // OAuth 2.0 user access token with the tweet.write scope
+  accessToken: string;
+}
+
+export interface LinkedInCredentials {
+  accessToken: string;
+  // Member or organization URN posts are published as, e.g. urn:li:organization:123
+  authorUrn: string;
+}
+
+export interface InstagramCredentials {
+  accessToken: string;
+  // Instagram business account id of the Graph API
+  businessAccountId: string;
+  // Instagram only publishes media, used when a post has no image of its own
+  defaultImageUrl?: string;
+}
+
+export interface WebCredentials {
+  // Webhook of the CMS that creates the article and responds with its URL
+  endpoint: string;
+  apiKey?: string;
+}
+
+export interface PublishingCredentialsMap {
+  x: XCredentials;
+  linkedin: LinkedInCredentials;
+  instagram: InstagramCredentials;
+  web: WebCredentials;
+}
+
+export type PublishingCredentials = PublishingCredentialsMap[PublishingPlatform];
+
+// What connectors get to see of a post
+export interface PublishablePost {
+  id: string;
+  organizationId: string;
+  platform: PublishingPlatform;
+  title: string;
+  description: string;
+  format?: string | null;
+  // Page the post links to, when it isn't a draft placeholder
+  link?: string;
+  imageUrl?: string;
+  scheduledAt?: string | null;
+}
+
+export interface PublishResult {
+  url: string;
+  externalId?: string;
+  connector: PublishingConnectorName;
+}
+
+export interface PublishingConnector<C = PublishingCredentials> {
+  name: PublishingConnectorName;
+  // Credentials are null when the organization hasn't stored any; only the mock works without
+  publish(post: PublishablePost, credentials: C | null): Promise<PublishResult>;
+}
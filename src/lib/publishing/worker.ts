@@ -0,0 +1,426 @@
+import { createClient } from '@supabase/supabase-js';
+import { parsePostedDate } from '@/lib/scheduling/timezone';
+import { getPublicLink } from './content';
+import {
+  getPublishingConnector,
+  getPublishingCredentials,
+  isMockPublishing,
+  normalizePublishingPlatform
+} from './index';
+import { PublishablePost, PublishingConnector, PublishingCredentials, PublishingPlatform } from './types';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+// Posts attempted per run, so one run stays well within a serverless time limit
+const DEFAULT_BATCH_SIZE = 25;
+
+// Attempts before a post is moved to FAILED (the dead-letter state)
+export const MAX_PUBLISH_ATTEMPTS = 5;
+
+// Retries back off exponentially: 5 minutes, 10, 20, 40, ... capped at 6 hours
+const RETRY_BASE_DELAY_MS = 5 * 60 * 1000;
+const MAX_RETRY_DELAY_MS = 6 * 60 * 60 * 1000;
+
+// A post stays claimed (PUBLISHING) this long; after that the attempt counts as failed
+const PUBLISH_LEASE_MS = 10 * 60 * 1000;
+
+// Size of the post ID lists sent to Supabase in one .in() filter
+const ENQUEUE_CHUNK_SIZE = 100;
+
+const POST_COLUMNS = 'id, organization_id, title, description, format, url, platform, posted_date, attempt_count, next_attempt_at';
+
+interface QueuedPostRow {
+  id: string;
+  organization_id: string;
+  title: string | null;
+  description: string | null;
+  format: string | null;
+  url: string | null;
+  platform: string | null;
+  posted_date: string | null;
+  attempt_count: number;
+  next_attempt_at: string | null;
+}
+
+export type PublishAttemptOutcome = 'published' | 'retry' | 'failed';
+
+export interface PublishAttemptResult {
+  postId: string;
+  platform: string | null;
+  attempt: number;
+  outcome: PublishAttemptOutcome;
+  url?: string;
+  error?: string;
+  nextAttemptAt?: string;
+}
+
+export interface PublishRunSummary {
+  enqueued: number;
+  attempted: number;
+  published: number;
+  retrying: number;
+  failed: number;
+  results: PublishAttemptResult[];
+}
+
+/**
+ * Delay before retrying after the given (1-based) failed attempt
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(attempt - 1, 0), MAX_RETRY_DELAY_MS);
+}
+
+const toPublishablePost = (row: QueuedPostRow, platform: PublishingPlatform): PublishablePost => ({
+  id: row.id,
+  organizationId: row.organization_id,
+  platform,
+  title: row.title || 'Untitled',
+  description: row.description || '',
+  format: row.format,
+  link: getPublicLink(row.url),
+  scheduledAt: row.posted_date ? parsePostedDate(row.posted_date).toISOString() : null
+});
+
+const recordAttempt = async (
+  row: QueuedPostRow,
+  attempt: number,
+  startedAt: Date,
+  result: PublishAttemptResult,
+  connector?: string
+) => {
+  const { error } = await supabase
+    .from('publish_attempts')
+    .insert({
+      post_id: row.id,
+      organization_id: row.organization_id,
+      attempt,
+      platform: row.platform,
+      connector: connector || null,
+      outcome: result.outcome,
+      error: result.error || null,
+      published_url: result.url || null,
+      next_attempt_at: result.nextAttemptAt || null,
+      started_at: startedAt.toISOString(),
+      finished_at: new Date().toISOString()
+    });
+
+  if (error) {
+    console.error(`[Publishing] Failed to record attempt ${attempt} of post ${row.id}:`, error);
+  }
+};
+
+// Put a post whose attempt failed back in the queue, or in FAILED once it is out of attempts
+const handleFailedAttempt = async (
+  row: QueuedPostRow,
+  attempt: number,
+  startedAt: Date,
+  message: string,
+  options: { permanent?: boolean; connector?: string } = {}
+): Promise<PublishAttemptResult> => {
+  const deadLettered = options.permanent || attempt >= MAX_PUBLISH_ATTEMPTS;
+  const nextAttemptAt = deadLettered ? undefined : new Date(Date.now() + getRetryDelayMs(attempt)).toISOString();
+
+  const { error } = await supabase
+    .from('posts')
+    .update({
+      status: deadLettered ? 'FAILED' : 'QUEUED',
+      next_attempt_at: nextAttemptAt || null,
+      publish_error: message,
+      updated_at: new Date().toISOString()
+    })
+    .eq('id', row.id)
+    .eq('status', 'PUBLISHING');
+
+  if (error) {
+    console.error(`[Publishing] Failed to update post ${row.id} after a failed attempt:`, error);
+  }
+
+  const result: PublishAttemptResult = {
+    postId: row.id,
+    platform: row.platform,
+    attempt,
+    outcome: deadLettered ? 'failed' : 'retry',
+    error: message,
+    ...(nextAttemptAt && { nextAttemptAt })
+  };
+  await recordAttempt(row, attempt, startedAt, result, options.connector);
+
+  console.warn(deadLettered
+    ? `[Publishing] Post ${row.id} failed for good after attempt ${attempt}: ${message}`
+    : `[Publishing] Post ${row.id} attempt ${attempt} failed, retrying at ${nextAttemptAt}: ${message}`);
+
+  return result;
+};
+
+// Organization/platform pairs with stored credentials, mapped to when they were connected
+const loadConnections = async (organizationId?: string): Promise<Map<string, Date>> => {
+  let query = supabase
+    .from('publishing_credentials')
+    .select('organization_id, platform, created_at');
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load publishing connections: ${error.message}`);
+  }
+
+  return new Map((data || []).map(row => [`${row.organization_id}:${row.platform}`, new Date(row.created_at)]));
+};
+
+// Mark posts QUEUED, unless something else changed their status meanwhile
+const queuePosts = async (postIds: string[], now: Date): Promise<number> => {
+  let queued = 0;
+
+  for (let i = 0; i < postIds.length; i += ENQUEUE_CHUNK_SIZE) {
+    const { data, error } = await supabase
+      .from('posts')
+      .update({ status: 'QUEUED', attempt_count: 0, next_attempt_at: now.toISOString(), updated_at: now.toISOString() })
+      .in('id', postIds.slice(i, i + ENQUEUE_CHUNK_SIZE))
+      .eq('status', 'SCHEDULED')
+      .select('id');
+
+    if (error) {
+      throw new Error(`Failed to queue due posts: ${error.message}`);
+    }
+    queued += data?.length || 0;
+  }
+
+  return queued;
+};
+
+// SCHEDULED posts whose time has come join the queue, however late the worker is. Only posts of a
+// platform the organization connected, and dated after it did, are published for it; the mock
+// connector (PUBLISHING_CONNECTOR=mock) publishes every one.
+const enqueueDuePosts = async (now: Date, organizationId?: string): Promise<number> => {
+  const mock = isMockPublishing();
+  const connections = mock ? new Map<string, Date>() : await loadConnections(organizationId);
+  if (!mock && connections.size === 0) {
+    return 0;
+  }
+
+  // Newest first, so posts left SCHEDULED from before a connection never hold up the rest
+  let query = supabase
+    .from('posts')
+    .select('id, organization_id, platform, posted_date')
+    .eq('status', 'SCHEDULED')
+    .lte('posted_date', now.toISOString())
+    .is('deleted_at', null)
+    .not('organization_id', 'is', null)
+    .order('posted_date', { ascending: false });
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load due posts: ${error.message}`);
+  }
+
+  const duePostIds = (data || [])
+    .filter(row => {
+      if (mock) return true;
+      const platform = normalizePublishingPlatform(row.platform);
+      const connectedAt = platform && connections.get(`${row.organization_id}:${platform}`);
+      return !!connectedAt && !!row.posted_date && parsePostedDate(row.posted_date) >= connectedAt;
+    })
+    .map(row => row.id);
+
+  return queuePosts(duePostIds, now);
+};
+
+// Posts left in PUBLISHING past their lease belong to a worker that died mid-attempt
+const recoverExpiredClaims = async (now: Date, organizationId?: string): Promise<PublishAttemptResult[]> => {
+  let query = supabase
+    .from('posts')
+    .select(POST_COLUMNS)
+    .eq('status', 'PUBLISHING')
+    .lt('next_attempt_at', now.toISOString());
+
+  if (organizationId) {
+    query = query.eq('organization_id', organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    console.error('[Publishing] Failed to load expired claims:', error);
+    return [];
+  }
+
+  const results: PublishAttemptResult[] = [];
+  for (const row of (data || []) as QueuedPostRow[]) {
+    const claimedAt = new Date(new Date(row.next_attempt_at || now).getTime() - PUBLISH_LEASE_MS);
+    results.push(await handleFailedAttempt(
+      row,
+      Math.max(row.attempt_count, 1),
+      claimedAt,
+      'Publishing did not finish: the worker stopped before recording a result'
+    ));
+  }
+  return results;
+};
+
+// Take a queued post for this run; false when another run got to it first
+const claimPost = async (row: QueuedPostRow, now: Date): Promise<boolean> => {
+  const { data, error } = await supabase
+    .from('posts')
+    .update({
+      status: 'PUBLISHING',
+      attempt_count: row.attempt_count + 1,
+      next_attempt_at: new Date(now.getTime() + PUBLISH_LEASE_MS).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', row.id)
+    .eq('status', 'QUEUED')
+    .select('id');
+
+  if (error) {
+    console.error(`[Publishing] Failed to claim post ${row.id}:`, error);
+    return false;
+  }
+
+  return (data?.length || 0) > 0;
+};
+
+/**
+ * Run the publishing dispatch queue once.
+ *
+ * Due SCHEDULED posts of connected platforms are queued, then every queued post
+ * whose next attempt is due is claimed (PUBLISHING) and published, oldest first.
+ * Published posts become POSTED with the URL the platform returned. A failed
+ * attempt puts the post back in the queue with exponential backoff, until
+ * MAX_PUBLISH_ATTEMPTS have been made and it moves to FAILED. Every attempt is
+ * recorded in publish_attempts.
+ */
+export async function publishDuePosts(
+  options: { now?: Date; organizationId?: string; limit?: number } = {}
+): Promise<PublishRunSummary> {
+  const now = options.now || new Date();
+
+  const enqueued = await enqueueDuePosts(now, options.organizationId);
+  const results = await recoverExpiredClaims(now, options.organizationId);
+
+  let query = supabase
+    .from('posts')
+    .select(POST_COLUMNS)
+    .eq('status', 'QUEUED')
+    .lte('next_attempt_at', now.toISOString())
+    .is('deleted_at', null)
+    .order('next_attempt_at', { ascending: true })
+    .limit(options.limit || DEFAULT_BATCH_SIZE);
+
+  if (options.organizationId) {
+    query = query.eq('organization_id', options.organizationId);
+  }
+
+  const { data, error } = await query;
+  if (error) {
+    throw new Error(`Failed to load queued posts: ${error.message}`);
+  }
+
+  // Credentials are loaded once per organization and platform per run
+  const credentialsCache = new Map<string, Promise<PublishingCredentials | null>>();
+  const loadCredentials = (organizationId: string, platform: PublishingPlatform) => {
+    const key = `${organizationId}:${platform}`;
+    if (!credentialsCache.has(key)) {
+      credentialsCache.set(key, getPublishingCredentials(organizationId, platform));
+    }
+    return credentialsCache.get(key)!;
+  };
+
+  // One post at a time keeps each platform's rate limits out of the picture
+  for (const row of (data || []) as QueuedPostRow[]) {
+    if (!await claimPost(row, now)) {
+      continue;
+    }
+
+    const attempt = row.attempt_count + 1;
+    const startedAt = new Date();
+    const platform = normalizePublishingPlatform(row.platform);
+
+    // Retrying won't help a post no connector can publish
+    if (!platform) {
+      results.push(await handleFailedAttempt(
+        row,
+        attempt,
+        startedAt,
+        `No publishing connector for platform "${row.platform || 'unknown'}"`,
+        { permanent: true }
+      ));
+      continue;
+    }
+
+    const connector: PublishingConnector = getPublishingConnector(platform);
+
+    try {
+      const credentials = isMockPublishing() ? null : await loadCredentials(row.organization_id, platform);
+
+      // Retrying won't bring back credentials removed since the post was queued
+      if (!isMockPublishing() && !credentials) {
+        results.push(await handleFailedAttempt(
+          row,
+          attempt,
+          startedAt,
+          `No ${platform} credentials are stored for this organization`,
+          { permanent: true, connector: connector.name }
+        ));
+        continue;
+      }
+
+      const published = await connector.publish(toPublishablePost(row, platform), credentials);
+
+      const { error: updateError } = await supabase
+        .from('posts')
+        .update({
+          status: 'POSTED',
+          published_url: published.url,
+          published_at: new Date().toISOString(),
+          publish_error: null,
+          next_attempt_at: null,
+          updated_at: new Date().toISOString()
+        })
+        .eq('id', row.id)
+        .eq('status', 'PUBLISHING');
+
+      if (updateError) {
+        console.error(`[Publishing] Post ${row.id} was published to ${published.url} but could not be updated:`, updateError);
+      }
+
+      const result: PublishAttemptResult = {
+        postId: row.id,
+        platform: row.platform,
+        attempt,
+        outcome: 'published',
+        url: published.url
+      };
+      await recordAttempt(row, attempt, startedAt, result, published.connector);
+
+      console.log(`[Publishing] Published post ${row.id} to ${platform} via ${published.connector}: ${published.url}`);
+      results.push(result);
+    } catch (publishError) {
+      const message = publishError instanceof Error ? publishError.message : 'Unknown publishing error';
+      results.push(await handleFailedAttempt(row, attempt, startedAt, message, { connector: connector.name }));
+    }
+  }
+
+  return {
+    enqueued,
+    attempted: results.length,
+    published: results.filter(result => result.outcome === 'published').length,
+    retrying: results.filter(result => result.outcome === 'retry').length,
+    failed: results.filter(result => result.outcome === 'failed').length,
+    results
+  };
+}
@@ -0,0 +1,392 @@
+import { createClient } from '@supabase/supabase-js';
+import { completeLLM, getLLMSettingsFromPreferences } from '@/lib/llm';
+import { getPostContent } from '@/lib/ingestion/archive';
+import {
+  getPostingDaysInRange,
+  getPostingInstant,
+  getPostingWindow,
+  getPostingWindowsFromPreferences,
+  getZonedParts,
+  normalizePostingPlatform,
+  pickTimeInWindow,
+  PostingPlatform
+} from '@/lib/scheduling';
+import { createSeededRandom } from '@/lib/scheduling/scheduler';
+
+// Platforms an article can be repurposed for
+export const REPURPOSE_PLATFORMS: PostingPlatform[] = ['x', 'linkedin', 'instagram', 'facebook'];
+
+const PLATFORM_LABELS: Record<PostingPlatform, string> = {
+  web: 'Web',
+  x: 'X',
+  linkedin: 'LinkedIn',
+  instagram: 'Instagram',
+  facebook: 'Facebook'
+};
+
+// Article text sent to the model; the start of an article carries its point
+const MAX_ARTICLE_CHARS = 12000;
+// Levels walked up to the root and down to the leaves of a tree
+const MAX_TREE_DEPTH = 10;
+// Days searched for a posting day of a derivative's platform
+const SCHEDULE_SEARCH_DAYS = 14;
+
+const TREE_COLUMNS = 'id, title, platform, format, status, posted_date, url, approval_status, parent_post_id, organization_id, user_id';
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+/**
+ * Thrown when a post can't be repurposed as asked; `status` is the HTTP
+ * status the API answers with
+ */
+export class RepurposeError extends Error {
+  status: number;
+
+  constructor(message: string, status = 400) {
+    super(message);
+    this.name = 'RepurposeError';
+    this.status = status;
+  }
+}
+
+interface TreePostRow {
+  id: string;
+  title: string | null;
+  platform: string | null;
+  format: string | null;
+  status: string;
+  posted_date: string | null;
+  url: string | null;
+  approval_status: string | null;
+  parent_post_id: string | null;
+  organization_id: string | null;
+  user_id: string | null;
+}
+
+export interface PostTreeNode {
+  id: string;
+  title: string;
+  platform: string | null;
+  format: string | null;
+  status: string;
+  postedDate: string | null;
+  url: string | null;
+  approvalStatus: string | null;
+  children: PostTreeNode[];
+}
+
+export interface PostTree {
+  root: PostTreeNode; // The original the asked post descends from, or the post itself
+  postId: string;
+  size: number; // Posts in the tree, the root included
+}
+
+const toNode = (post: TreePostRow): PostTreeNode => ({
+  id: post.id,
+  title: post.title || 'Untitled post',
+  platform: post.platform,
+  format: post.format,
+  status: post.status,
+  postedDate: post.posted_date,
+  url: post.url,
+  approvalStatus: post.approval_status,
+  children: []
+});
+
+const isWebPost = (platform: string | null) => !platform || normalizePostingPlatform(platform) === 'web';
+
+const titleKey = (title: string | null) => (title || '').trim().toLowerCase();
+
+async function loadTreePost(postId: string): Promise<TreePostRow | null> {
+  const { data, error } = await supabase
+    .from('posts')
+    .select(TREE_COLUMNS)
+    .eq('id', postId)
+    .is('deleted_at', null)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to load the post: ${error.message}`);
+  }
+
+  return data as TreePostRow | null;
+}
+
+/**
+ * The repurposing tree a post belongs to: the original it was derived from,
+ * through parent_post_id, and every post derived from that original, oldest
+ * first on each level. Deleted posts are left out.
+ */
+export async function getPostTree(postId: string): Promise<PostTree | null> {
+  let root = await loadTreePost(postId);
+  if (!root) return null;
+
+  for (let depth = 0; root.parent_post_id && depth < MAX_TREE_DEPTH; depth++) {
+    const parent: TreePostRow | null = await loadTreePost(root.parent_post_id);
+    if (!parent) break;
+    root = parent;
+  }
+
+  const rootNode = toNode(root);
+  const nodes = new Map([[rootNode.id, rootNode]]);
+  let level = [rootNode.id];
+
+  for (let depth = 0; level.length > 0 && depth < MAX_TREE_DEPTH; depth++) {
+    const { data, error } = await supabase
+      .from('posts')
+      .select(TREE_COLUMNS)
+      .in('parent_post_id', level)
+      .is('deleted_at', null)
+      .order('posted_date', { ascending: true });
+
+    if (error) {
+      throw new Error(`Failed to load the derived posts: ${error.message}`);
+    }
+
+    level = [];
+    ((data || []) as TreePostRow[]).forEach(post => {
+      if (nodes.has(post.id)) return;
+      const node = toNode(post);
+      nodes.set(node.id, node);
+      nodes.get(post.parent_post_id as string)?.children.push(node);
+      level.push(node.id);
+    });
+  }
+
+  return { root: rootNode, postId, size: nodes.size };
+}
+
+/**
+ * Link posts saved with a derived_from title to the web post of their
+ * organization with that title, the latest one when several match. Posts
+ * whose article isn't in the library stay unlinked. Returns how many were linked.
+ */
+export async function linkDerivedPosts(
+  posts: { id: string; organization_id: string | null; derived_from?: string | null }[]
+): Promise<number> {
+  const derived = posts.filter(post => post.organization_id && post.derived_from?.trim());
+  let linked = 0;
+
+  const organizationIds = Array.from(new Set(derived.map(post => post.organization_id as string)));
+  for (const organizationId of organizationIds) {
+    const children = derived.filter(post => post.organization_id === organizationId);
+    const titles = Array.from(new Set(children.map(post => (post.derived_from as string).trim())));
+
+    const { data: parents, error } = await supabase
+      .from('posts')
+      .select('id, title, platform')
+      .eq('organization_id', organizationId)
+      .in('title', titles)
+      .is('deleted_at', null)
+      .order('posted_date', { ascending: false });
+
+    if (error) {
+      throw new Error(`Failed to load the posts derived from: ${error.message}`);
+    }
+
+    const parentByTitle = new Map<string, string>();
+    (parents || []).filter(parent => isWebPost(parent.platform)).forEach(parent => {
+      if (!parentByTitle.has(titleKey(parent.title))) parentByTitle.set(titleKey(parent.title), parent.id);
+    });
+
+    for (const child of children) {
+      const parentId = parentByTitle.get(titleKey(child.derived_from as string));
+      if (!parentId || parentId === child.id) continue;
+
+      const { error: linkError } = await supabase
+        .from('posts')
+        .update({ parent_post_id: parentId })
+        .eq('id', child.id);
+
+      if (linkError) {
+        console.error(`[Repurposing] Failed to link post ${child.id} to ${parentId}:`, linkError);
+        continue;
+      }
+      linked++;
+    }
+  }
+
+  return linked;
+}
+
+// Posting day of the index-th derivative: one a day from tomorrow, within its platform's window
+const scheduleDerivative = (
+  platform: PostingPlatform,
+  index: number,
+  preferences: Record<string, unknown> | null,
+  seed: string,
+  now: Date
+): string => {
+  const window = getPostingWindow(platform, getPostingWindowsFromPreferences(preferences));
+  const today = getZonedParts(now, window.timezone);
+  const start = new Date(today.year, today.month - 1, today.day + 1 + index);
+  const end = new Date(today.year, today.month - 1, today.day + 1 + index + SCHEDULE_SEARCH_DAYS);
+
+  const day = getPostingDaysInRange(start, end, window)[0] || start;
+  return getPostingInstant(day, pickTimeInWindow(window, createSeededRandom(`${seed}:${platform}`)), window).toISOString();
+};
+
+const draftUrl = (title: string, platform: PostingPlatform) => {
+  const slug = title
+    .toLowerCase()
+    .replace(/[^\w\s]/g, '')
+    .replace(/\s+/g, '-')
+    .substring(0, 50);
+  return `draft-${slug}-${platform}-${Date.now().toString(36)}`;
+};
+
+/**
+ * Write social posts for the chosen platforms from what a published web
+ * article says, as archived when its page was last analyzed or checked.
+ * The posts are saved as suggestions pending review, linked to the article
+ * and scheduled a day apart from tomorrow in their platforms' posting windows.
+ */
+export async function repurposePost(
+  postId: string,
+  platforms: string[],
+  options: { userId: string; now?: Date }
+) {
+  const now = options.now || new Date();
+
+  const { data: post, error: postError } = await supabase
+    .from('posts')
+    .select('id, title, description, url, platform, status, organization_id, user_id, deleted_at')
+    .eq('id', postId)
+    .single();
+
+  if (postError || !post || post.deleted_at) {
+    throw new RepurposeError('Post not found', 404);
+  }
+
+  if (post.status !== 'POSTED' || !isWebPost(post.platform)) {
+    throw new RepurposeError('Only published web articles can be repurposed');
+  }
+
+  const targets = Array.from(new Set(platforms.map(platform => normalizePostingPlatform(platform))))
+    .filter((platform): platform is PostingPlatform => !!platform && REPURPOSE_PLATFORMS.includes(platform));
+  if (targets.length === 0) {
+    throw new RepurposeError(`Choose at least one platform: ${REPURPOSE_PLATFORMS.map(platform => PLATFORM_LABELS[platform]).join(', ')}`);
+  }
+
+  const { content } = await getPostContent(postId);
+  if (!content) {
+    throw new RepurposeError('This article has no archived content yet. Check its page from the inspector first.', 409);
+  }
+
+  const { data: organization } = post.organization_id
+    ? await supabase
+      .from('organizations')
+      .select('name, preferences, info')
+      .eq('id', post.organization_id)
+      .single()
+    : { data: null };
+
+  const contentTone = organization?.preferences?.contentTone || 'professional';
+  const voice = organization?.info?.voice || '';
+  const keywords: string[] = Array.isArray(organization?.info?.keywords) ? organization.info.keywords : [];
+  const outline = content.headings.map(heading => `${'  '.repeat(Math.max(0, heading.level - 1))}- ${heading.text}`).join('\n');
+
+  const prompt = `
+      Repurpose this published article into one social post for each platform.
+
+      Article title: ${post.title}
+      Article URL: ${post.url}
+      Platforms: ${targets.map(platform => PLATFORM_LABELS[platform]).join(', ')}
+      ${organization?.name ? `Organization: ${organization.name}` : ''}
+      Content tone: ${contentTone}
+      ${voice ? `Brand voice: ${voice}` : ''}
+      ${keywords.length > 0 ? `Target keywords: ${keywords.join(', ')}` : ''}
+
+      ${outline ? `ARTICLE OUTLINE:\n${outline}\n` : ''}
+      ARTICLE TEXT:
+      ${content.text.slice(0, MAX_ARTICLE_CHARS)}
+
+      INSTRUCTIONS:
+      1. Draw on what the article actually says: its findings, examples and numbers. Don't invent facts
+      2. Fit each platform: X under 280 characters, LinkedIn a few short paragraphs, Instagram a caption that works with an image, Facebook a conversational post
+      3. Each post stands on its own and invites readers to the article
+      4. Suggest a few relevant hashtags per post
+
+      FORMAT REQUIREMENTS:
+      Return a valid JSON object with the following structure:
+      {
+        "posts": [
+          { "platform": "X", "title": "Short internal title", "description": "The post text", "hashtags": ["#tag1", "#tag2"] }
+        ]
+      }
+    `;
+
+  const response = await completeLLM({
+    task: 'post-repurpose',
+    messages: [
+      {
+        role: 'system',
+        content: 'You are a social media editor who turns long-form articles into platform-native posts. Always return valid JSON.'
+      },
+      { role: 'user', content: prompt }
+    ],
+    temperature: 0.7,
+    json: true
+  }, getLLMSettingsFromPreferences(organization?.preferences));
+
+  let generated: { platform?: string; title?: string; description?: string; hashtags?: string[] }[];
+  try {
+    generated = JSON.parse(response.content || '{}').posts || [];
+  } catch (parseError) {
+    console.error('[Repurposing] Failed to parse the generated posts:', parseError, response.content);
+    throw new Error('Failed to parse AI response');
+  }
+
+  const rows = targets.map((platform, index) => {
+    const generatedPost = generated.find(entry => entry.platform && normalizePostingPlatform(entry.platform) === platform);
+    if (!generatedPost?.description) {
+      throw new Error(`The AI response has no ${PLATFORM_LABELS[platform]} post`);
+    }
+
+    const hashtags = (generatedPost.hashtags || []).filter(tag => typeof tag === 'string' && tag.startsWith('#'));
+    const title = generatedPost.title || `${post.title} (${PLATFORM_LABELS[platform]})`;
+
+    return {
+      title,
+      description: generatedPost.description.includes('#') || hashtags.length === 0
+        ? generatedPost.description
+        : `${generatedPost.description}\n\n${hashtags.join(' ')}`,
+      platform: PLATFORM_LABELS[platform],
+      format: 'social',
+      url: draftUrl(title, platform),
+      user_id: options.userId,
+      organization_id: post.organization_id,
+      status: 'SUGGESTED',
+      approval_status: 'pending',
+      posted_date: scheduleDerivative(platform, index, organization?.preferences || null, `${post.id}:${now.toISOString()}`, now),
+      parent_post_id: post.id,
+      derived_from: post.title,
+      seo_info: {
+        reasonsData: {
+          reasons: [`Repurposed from the published article "${post.title}"`],
+          aiConfidence: 0.8
+        }
+      }
+    };
+  });
+
+  const { data: created, error: insertError } = await supabase
+    .from('posts')
+    .insert(rows)
+    .select('*');
+
+  if (insertError) {
+    throw new Error(`Failed to save the repurposed posts: ${insertError.message}`);
+  }
+
+  return created || [];
+}
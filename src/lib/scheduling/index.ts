@@ -0,0 +1,285 @@
+import { format } from 'date-fns';
+import { HourRange, PostingPlatform, PostingWindow, PostingWindows } from './types';
+import { getZonedParts, isValidTimezone, zonedTimeToUtc } from './timezone';
+
+export * from './types';
+export * from './timezone';
+
+export const POSTING_PLATFORMS: PostingPlatform[] = ['web', 'x', 'linkedin', 'instagram', 'facebook'];
+
+export const DAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+/**
+ * Windows used when an organization hasn't configured its own
+ */
+export const DEFAULT_POSTING_WINDOWS: Record<PostingPlatform, PostingWindow> = {
+  web: { days: [0], hours: [{ start: 9, end: 17 }] },                 // Sunday, 9 AM to 5 PM
+  x: { days: [1, 2], hours: [{ start: 10, end: 13 }] },               // Monday and Tuesday, 10 AM to 1 PM
+  linkedin: { days: [2, 3, 4], hours: [{ start: 10, end: 14 }] },     // Tuesday to Thursday, 10 AM to 2 PM
+  instagram: { days: [2, 3, 4], hours: [{ start: 10, end: 14 }] },    // Tuesday to Thursday, 10 AM to 2 PM
+  facebook: { days: [2, 3, 4], hours: [{ start: 9, end: 17 }] }       // Midweek, 9 AM to 5 PM
+};
+
+// Platforms we don't know get weekdays during office hours
+const FALLBACK_POSTING_WINDOW: PostingWindow = {
+  days: [1, 2, 3, 4, 5],
+  hours: [{ start: 9, end: 17 }]
+};
+
+/**
+ * Map the platform names used across the app (X, 𝕏, Twitter, Blog, ...) to a window key
+ */
+export function normalizePostingPlatform(platform: string): PostingPlatform | null {
+  switch (platform.trim().toLowerCase()) {
+    case 'web':
+    case 'website':
+    case 'blog':
+      return 'web';
+    case 'x':
+    case '𝕏':
+    case 'twitter':
+      return 'x';
+    case 'linkedin':
+      return 'linkedin';
+    case 'instagram':
+      return 'instagram';
+    case 'facebook':
+      return 'facebook';
+    default:
+      return null;
+  }
+}
+
+const sanitizeHourRanges = (value: unknown): HourRange[] => {
+  if (!Array.isArray(value)) {
+    return [];
+  }
+
+  return value
+    .map(range => ({
+      start: Math.floor(Number(range?.start)),
+      end: Math.floor(Number(range?.end))
+    }))
+    .filter(range => range.start >= 0 && range.end <= 24 && range.start < range.end);
+};
+
+/**
+ * Validate a single stored window, dropping anything unusable. Returns null when
+ * the window can't schedule anything so the caller falls back to the defaults.
+ */
+export function sanitizePostingWindow(value: unknown): PostingWindow | null {
+  if (!value || typeof value !== 'object') {
+    return null;
+  }
+
+  const raw = value as Record<string, unknown>;
+  const days = Array.isArray(raw.days)
+    ? Array.from(new Set(raw.days.map(Number).filter(day => Number.isInteger(day) && day >= 0 && day <= 6))).sort((a, b) => a - b)
+    : [];
+  const hours = sanitizeHourRanges(raw.hours);
+
+  if (days.length === 0 || hours.length === 0) {
+    return null;
+  }
+
+  const blackoutDates = Array.isArray(raw.blackoutDates)
+    ? raw.blackoutDates.filter((date): date is string => typeof date === 'string' && /^\d{4}-\d{2}-\d{2}$/.test(date))
+    : [];
+
+  return {
+    days,
+    hours,
+    ...(blackoutDates.length > 0 && { blackoutDates }),
+    ...(isValidTimezone(raw.timezone) && { timezone: raw.timezone })
+  };
+}
+
+/**
+ * Validate the postingWindows object from organization preferences
+ */
+export function sanitizePostingWindows(value: unknown): PostingWindows {
+  const windows: PostingWindows = {};
+  if (!value || typeof value !== 'object') {
+    return windows;
+  }
+
+  POSTING_PLATFORMS.forEach(platform => {
+    const window = sanitizePostingWindow((value as Record<string, unknown>)[platform]);
+    if (window) {
+      windows[platform] = window;
+    }
+  });
+
+  return windows;
+}
+
+/**
+ * The organization's scheduling timezone (preferences.timezone), else the fallback
+ * (e.g. the requesting user's timezone). Undefined means server time.
+ */
+export function getOrganizationTimezone(
+  preferences?: { timezone?: unknown } | null,
+  fallbackTimezone?: string | null
+): string | undefined {
+  if (isValidTimezone(preferences?.timezone)) {
+    return preferences.timezone;
+  }
+  return isValidTimezone(fallbackTimezone) ? fallbackTimezone : undefined;
+}
+
+/**
+ * Pull posting windows out of an organization's preferences object. When a
+ * scheduling timezone is known every platform gets a window, and windows
+ * without their own timezone use it.
+ */
+export function getPostingWindowsFromPreferences(
+  preferences?: { postingWindows?: unknown; timezone?: unknown } | null,
+  fallbackTimezone?: string | null
+): PostingWindows {
+  const windows = sanitizePostingWindows(preferences?.postingWindows);
+  const timezone = getOrganizationTimezone(preferences, fallbackTimezone);
+  if (!timezone) {
+    return windows;
+  }
+
+  POSTING_PLATFORMS.forEach(platform => {
+    const window = windows[platform] || DEFAULT_POSTING_WINDOWS[platform];
+    windows[platform] = { ...window, timezone: window.timezone || timezone };
+  });
+
+  return windows;
+}
+
+/**
+ * The window that applies to a platform: the organization's, then the default
+ */
+export function getPostingWindow(platform: string, windows?: PostingWindows | null): PostingWindow {
+  const key = normalizePostingPlatform(platform);
+  if (!key) {
+    return FALLBACK_POSTING_WINDOW;
+  }
+  return windows?.[key] || DEFAULT_POSTING_WINDOWS[key];
+}
+
+const matchesWindow = (dateKey: string, weekday: number, hour: number, window: PostingWindow) =>
+  window.days.includes(weekday) &&
+  !window.blackoutDates?.includes(dateKey) &&
+  window.hours.some(range => hour >= range.start && hour < range.end);
+
+/**
+ * Whether an instant falls inside a window, evaluated in the window's timezone
+ */
+export function isInPostingWindow(date: Date, window: PostingWindow): boolean {
+  const parts = getZonedParts(date, window.timezone);
+  const dateKey = `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+  return matchesWindow(dateKey, parts.weekday, parts.hour, window);
+}
+
+/**
+ * Whether a naive wall-clock time (a Date whose local fields hold the intended
+ * time, as produced by the planner) falls inside a window
+ */
+export function isWallClockInPostingWindow(date: Date, window: PostingWindow): boolean {
+  return matchesWindow(format(date, 'yyyy-MM-dd'), date.getDay(), date.getHours(), window);
+}
+
+/**
+ * Whether posts may go out on a calendar day (right weekday and not blacked out)
+ */
+export function isPostingDay(day: Date, window: PostingWindow): boolean {
+  return window.days.includes(day.getDay()) && !window.blackoutDates?.includes(format(day, 'yyyy-MM-dd'));
+}
+
+/**
+ * Calendar days between start and end (inclusive) on which a window allows posting
+ */
+export function getPostingDaysInRange(startDate: Date, endDate: Date, window: PostingWindow): Date[] {
+  const days: Date[] = [];
+  const currentDay = new Date(startDate);
+
+  while (currentDay <= endDate) {
+    if (isPostingDay(currentDay, window)) {
+      days.push(new Date(currentDay));
+    }
+    currentDay.setDate(currentDay.getDate() + 1);
+  }
+
+  return days;
+}
+
+/**
+ * Pick a wall-clock time inside one of the window's hour ranges
+ */
+export function pickTimeInWindow(window: PostingWindow, random: () => number = Math.random): { hour: number; minute: number } {
+  const range = window.hours[Math.floor(random() * window.hours.length)] || FALLBACK_POSTING_WINDOW.hours[0];
+  const hour = range.start + Math.floor(random() * (range.end - range.start));
+  const minute = Math.floor(random() * 60);
+  return { hour, minute };
+}
+
+/**
+ * The instant for a calendar day at a wall-clock time in the window's timezone
+ */
+export function getPostingInstant(day: Date, time: { hour: number; minute: number }, window: PostingWindow): Date {
+  return zonedTimeToUtc(format(day, 'yyyy-MM-dd'), time.hour, time.minute, window.timezone);
+}
+
+/**
+ * Move a naive wall-clock time to the next moment its window allows, searching up to
+ * two weeks ahead. Returns the original date when the window never opens in that span.
+ */
+export function nextWallClockSlotInWindow(
+  date: Date,
+  window: PostingWindow,
+  random: () => number = Math.random
+): Date {
+  if (isWallClockInPostingWindow(date, window)) {
+    return date;
+  }
+
+  for (let offset = 0; offset < 14; offset++) {
+    const day = new Date(date);
+    day.setDate(day.getDate() + offset);
+    if (!isPostingDay(day, window)) {
+      continue;
+    }
+
+    // On the original day only ranges that haven't passed yet are usable
+    const ranges = offset === 0
+      ? window.hours.filter(range => range.end > date.getHours())
+      : window.hours;
+    if (ranges.length === 0) {
+      continue;
+    }
+
+    const { hour, minute } = pickTimeInWindow({ ...window, hours: ranges }, random);
+    day.setHours(offset === 0 ? Math.max(hour, date.getHours() + 1) : hour, minute, 0, 0);
+    if (isWallClockInPostingWindow(day, window)) {
+      return day;
+    }
+  }
+
+  return date;
+}
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+
+/**
+ * Human readable summary of a window, e.g. "Tuesday, Wednesday between 10:00 and 14:00"
+ */
+export function describePostingWindow(window: PostingWindow): string {
+  const days = window.days.map(day => DAY_NAMES[day]).join(', ');
+  const hours = window.hours.map(range => `${formatHour(range.start)} and ${formatHour(range.end)}`).join(' or ');
+  const blackout = window.blackoutDates?.length ? `; never on ${window.blackoutDates.join(', ')}` : '';
+  const timezone = window.timezone ? ` (${window.timezone})` : '';
+  return `${days} between ${hours}${timezone}${blackout}`;
+}
+
+/**
+ * Scheduling rules for the requested platforms, phrased for an LLM prompt
+ */
+export function describePostingWindowsForPrompt(platforms: string[], windows?: PostingWindows | null): string {
+  return platforms
+    .map(platform => `For ${platform} posts:\n    - MUST schedule on ${describePostingWindow(getPostingWindow(platform, windows))}`)
+    .join('\n    \n    ');
+}
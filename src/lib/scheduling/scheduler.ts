@@ -0,0 +1,262 @@
+import { format } from 'date-fns';
+import {
+  Booking,
+  PostingWindow,
+  PostingWindows,
+  SchedulingConstraint,
+  SchedulingIssue,
+  SchedulingReport,
+  SchedulingRules
+} from './types';
+import { getZonedDateKey, zonedTimeToUtc } from './timezone';
+import { getPostingDaysInRange, getPostingWindow, normalizePostingPlatform } from './index';
+
+/**
+ * Limits used when an organization hasn't configured its own
+ */
+export const DEFAULT_SCHEDULING_RULES: SchedulingRules = {
+  dailyCap: 4,
+  minSpacingHours: {
+    web: 48,
+    x: 4,
+    linkedin: 24,
+    instagram: 24,
+    facebook: 24
+  }
+};
+
+// Two posts starting this close together count as double-booked, whatever the platform
+const DOUBLE_BOOKING_MS = 30 * 60 * 1000;
+
+// Constraints are given up one at a time, in this order, when no slot satisfies them all
+const RELAXATION_STEPS: SchedulingConstraint[][] = [
+  [],
+  ['daily-cap'],
+  ['daily-cap', 'min-spacing'],
+  ['daily-cap', 'min-spacing', 'double-booking']
+];
+
+export interface SchedulableItem {
+  id: string;
+  title: string;
+  platform: string;
+}
+
+export interface ScheduleOptions {
+  startDate: Date;           // first calendar day, inclusive
+  endDate: Date;             // last calendar day, inclusive
+  seed: string;
+  postingWindows?: PostingWindows;
+  rules?: SchedulingRules;
+  existing?: Booking[];      // SCHEDULED and POSTED posts already on the calendar
+  timezone?: string;         // day boundaries for the daily cap; server time when omitted
+}
+
+export interface ScheduleAssignment<T> {
+  item: T;
+  postedAt: Date;
+}
+
+/**
+ * Deterministic random numbers in [0, 1) for a seed (mulberry32 over a string hash)
+ */
+export function createSeededRandom(seed: string): () => number {
+  let state = 0;
+  for (let i = 0; i < seed.length; i++) {
+    state = Math.imul(31, state) + seed.charCodeAt(i) | 0;
+  }
+
+  return () => {
+    state = state + 0x6D2B79F5 | 0;
+    let t = Math.imul(state ^ state >>> 15, 1 | state);
+    t = t + Math.imul(t ^ t >>> 7, 61 | t) ^ t;
+    return ((t ^ t >>> 14) >>> 0) / 4294967296;
+  };
+}
+
+/**
+ * Validate the schedulingRules object from organization preferences, filling gaps with defaults
+ */
+export function sanitizeSchedulingRules(value: unknown): SchedulingRules {
+  const rules: SchedulingRules = {
+    dailyCap: DEFAULT_SCHEDULING_RULES.dailyCap,
+    minSpacingHours: { ...DEFAULT_SCHEDULING_RULES.minSpacingHours }
+  };
+  if (!value || typeof value !== 'object') {
+    return rules;
+  }
+
+  const { dailyCap, minSpacingHours } = value as Record<string, unknown>;
+  if (typeof dailyCap === 'number' && Number.isInteger(dailyCap) && dailyCap >= 1) {
+    rules.dailyCap = dailyCap;
+  }
+
+  if (minSpacingHours && typeof minSpacingHours === 'object') {
+    Object.entries(minSpacingHours as Record<string, unknown>).forEach(([platform, hours]) => {
+      const key = normalizePostingPlatform(platform);
+      if (key && typeof hours === 'number' && hours >= 0 && hours <= 24 * 14) {
+        rules.minSpacingHours[key] = hours;
+      }
+    });
+  }
+
+  return rules;
+}
+
+/**
+ * Pull scheduling rules out of an organization's preferences object
+ */
+export function getSchedulingRulesFromPreferences(preferences?: { schedulingRules?: unknown } | null): SchedulingRules {
+  return sanitizeSchedulingRules(preferences?.schedulingRules);
+}
+
+const platformKey = (platform: string) => normalizePostingPlatform(platform) || platform.toLowerCase();
+
+// Candidate instants for a day: one per hour of the window, starting at a seeded hour
+const getCandidateTimes = (day: Date, window: PostingWindow, random: () => number): Date[] => {
+  const hours = Array.from(new Set(
+    window.hours.flatMap(range => Array.from({ length: range.end - range.start }, (_, i) => range.start + i))
+  )).sort((a, b) => a - b);
+  if (hours.length === 0) {
+    return [];
+  }
+
+  const dateKey = format(day, 'yyyy-MM-dd');
+  const offset = Math.floor(random() * hours.length);
+  return hours.map((_, i) => {
+    const hour = hours[(offset + i) % hours.length];
+    const minute = Math.floor(random() * 4) * 15;
+    return zonedTimeToUtc(dateKey, hour, minute, window.timezone);
+  });
+};
+
+const getAllDaysInRange = (startDate: Date, endDate: Date): Date[] => {
+  const days: Date[] = [];
+  const currentDay = new Date(startDate);
+  while (currentDay <= endDate) {
+    days.push(new Date(currentDay));
+    currentDay.setDate(currentDay.getDate() + 1);
+  }
+  return days;
+};
+
+/**
+ * Assign a publication instant to every item. Items of a platform are spread evenly
+ * over its posting days, around the existing bookings, honouring the daily cap,
+ * per-platform spacing and double-booking rules. When no slot satisfies every rule
+ * the rules are relaxed one by one and each broken rule is listed in the report.
+ * The same items, options and seed always produce the same schedule.
+ */
+export function schedulePosts<T extends SchedulableItem>(
+  items: T[],
+  options: ScheduleOptions
+): { assignments: ScheduleAssignment<T>[]; report: SchedulingReport } {
+  const random = createSeededRandom(options.seed);
+  const rules = options.rules || DEFAULT_SCHEDULING_RULES;
+  const bookings: Booking[] = [...(options.existing || [])];
+  const assignments: ScheduleAssignment<T>[] = [];
+  const issues: SchedulingIssue[] = [];
+
+  const bookingsOnDay = (dateKey: string) =>
+    bookings.filter(booking => getZonedDateKey(booking.postedAt, options.timezone) === dateKey).length;
+
+  const getViolations = (platform: string, postedAt: Date, spacingMs: number): SchedulingConstraint[] => {
+    const violations: SchedulingConstraint[] = [];
+    if (bookingsOnDay(getZonedDateKey(postedAt, options.timezone)) >= rules.dailyCap) {
+      violations.push('daily-cap');
+    }
+    if (spacingMs > 0 && bookings.some(booking =>
+      platformKey(booking.platform) === platform &&
+      Math.abs(booking.postedAt.getTime() - postedAt.getTime()) < spacingMs
+    )) {
+      violations.push('min-spacing');
+    }
+    if (bookings.some(booking => Math.abs(booking.postedAt.getTime() - postedAt.getTime()) < DOUBLE_BOOKING_MS)) {
+      violations.push('double-booking');
+    }
+    return violations;
+  };
+
+  // Group items by platform, keeping the order in which platforms first appear
+  const groups = new Map<string, T[]>();
+  items.forEach(item => {
+    groups.set(item.platform, [...(groups.get(item.platform) || []), item]);
+  });
+
+  groups.forEach((group, platform) => {
+    const window = getPostingWindow(platform, options.postingWindows);
+    const key = platformKey(platform);
+    const normalized = normalizePostingPlatform(platform);
+    const spacingHours = (normalized && rules.minSpacingHours[normalized]) || 0;
+    const spacingMs = spacingHours * 60 * 60 * 1000;
+
+    let days = getPostingDaysInRange(options.startDate, options.endDate, window);
+    const outsideWindow = days.length === 0;
+    if (outsideWindow) {
+      days = getAllDaysInRange(options.startDate, options.endDate);
+    }
+    if (days.length === 0) {
+      return;
+    }
+
+    group.forEach((item, index) => {
+      // Start at the item's evenly spread day, then try the following days
+      const preferredDay = Math.floor(index * days.length / group.length);
+      const candidates = days.flatMap((_, offset) =>
+        getCandidateTimes(days[(preferredDay + offset) % days.length], window, random)
+      );
+
+      let chosen: { postedAt: Date; violations: SchedulingConstraint[] } | null = null;
+      for (const relaxed of RELAXATION_STEPS) {
+        for (const postedAt of candidates) {
+          const violations = getViolations(key, postedAt, spacingMs);
+          if (violations.every(violation => relaxed.includes(violation))) {
+            chosen = { postedAt, violations };
+            break;
+          }
+        }
+        if (chosen) break;
+      }
+      if (!chosen) {
+        return;
+      }
+
+      const { postedAt, violations } = chosen;
+      assignments.push({ item, postedAt });
+      bookings.push({ platform, postedAt });
+
+      const issue = (constraint: SchedulingConstraint, message: string) => issues.push({
+        postId: item.id,
+        title: item.title,
+        platform,
+        postedAt: postedAt.toISOString(),
+        constraint,
+        message
+      });
+
+      if (outsideWindow) {
+        issue('posting-window', `No ${platform} posting day between ${format(options.startDate, 'yyyy-MM-dd')} and ${format(options.endDate, 'yyyy-MM-dd')}, scheduled outside the posting window`);
+      }
+      if (violations.includes('daily-cap')) {
+        issue('daily-cap', `More than ${rules.dailyCap} posts on ${getZonedDateKey(postedAt, options.timezone)}`);
+      }
+      if (violations.includes('min-spacing')) {
+        issue('min-spacing', `Less than ${spacingHours} hours after another ${platform} post`);
+      }
+      if (violations.includes('double-booking')) {
+        issue('double-booking', 'Within 30 minutes of another post');
+      }
+    });
+  });
+
+  assignments.sort((a, b) => a.postedAt.getTime() - b.postedAt.getTime());
+
+  return {
+    assignments,
+    report: {
+      seed: options.seed,
+      scheduled: assignments.length,
+      issues
+    }
+  };
+}
@@ -0,0 +1,132 @@
+/**
+ * Calendar fields of an instant as seen in a timezone
+ */
+export interface ZonedParts {
+  year: number;
+  month: number; // 1-12
+  day: number;
+  weekday: number; // 0 = Sunday
+  hour: number;
+  minute: number;
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+
+const getFormatter = (timeZone: string) => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      weekday: 'short',
+      hour: '2-digit',
+      minute: '2-digit'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+/**
+ * Whether the runtime knows an IANA timezone name
+ */
+export function isValidTimezone(timeZone: unknown): timeZone is string {
+  if (typeof timeZone !== 'string' || !timeZone) {
+    return false;
+  }
+  try {
+    getFormatter(timeZone);
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Read the wall-clock fields of an instant in a timezone (server time when omitted)
+ */
+export function getZonedParts(date: Date, timeZone?: string): ZonedParts {
+  if (!timeZone) {
+    return {
+      year: date.getFullYear(),
+      month: date.getMonth() + 1,
+      day: date.getDate(),
+      weekday: date.getDay(),
+      hour: date.getHours(),
+      minute: date.getMinutes()
+    };
+  }
+
+  const parts: Record<string, string> = {};
+  getFormatter(timeZone).formatToParts(date).forEach(part => {
+    parts[part.type] = part.value;
+  });
+
+  return {
+    year: parseInt(parts.year, 10),
+    month: parseInt(parts.month, 10),
+    day: parseInt(parts.day, 10),
+    weekday: WEEKDAYS.indexOf(parts.weekday),
+    hour: parseInt(parts.hour, 10),
+    minute: parseInt(parts.minute, 10)
+  };
+}
+
+/**
+ * The instant at which the wall clock in a timezone shows the given date and time.
+ * Wall-clock times skipped by a DST jump resolve to an instant next to the gap.
+ */
+export function zonedTimeToUtc(dateKey: string, hour: number, minute: number, timeZone?: string): Date {
+  const [year, month, day] = dateKey.split('-').map(Number);
+
+  if (!timeZone) {
+    return new Date(year, month - 1, day, hour, minute, 0, 0);
+  }
+
+  const wanted = Date.UTC(year, month - 1, day, hour, minute);
+  let guess = wanted;
+
+  // Two passes settle the offset, including around DST transitions
+  for (let i = 0; i < 2; i++) {
+    const parts = getZonedParts(new Date(guess), timeZone);
+    const seen = Date.UTC(parts.year, parts.month - 1, parts.day, parts.hour, parts.minute);
+    guess += wanted - seen;
+  }
+
+  return new Date(guess);
+}
+
+/**
+ * Calendar day (yyyy-MM-dd) of an instant in a timezone
+ */
+export function getZonedDateKey(date: Date, timeZone?: string): string {
+  const parts = getZonedParts(date, timeZone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}-${String(parts.day).padStart(2, '0')}`;
+}
+
+/**
+ * Read a stored posts.posted_date value. Date-only values written before
+ * posted_date became an instant are read as noon UTC, like the migration did.
+ */
+export function parsePostedDate(value: string): Date {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    return new Date(`${value}T12:00:00Z`);
+  }
+  return new Date(value);
+}
+
+/**
+ * The timezone of the current runtime, e.g. the user's browser
+ */
+export function getLocalTimezone(): string {
+  try {
+    return Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC';
+  } catch {
+    return 'UTC';
+  }
+}
@@ -0,0 +1,62 @@
+/**
+ * Platforms that have their own posting window
+ */
+export type PostingPlatform = 'web' | 'x' | 'linkedin' | 'instagram' | 'facebook';
+
+/**
+ * Hours of the day a post may go out, in the window's timezone (end is exclusive)
+ */
+export interface HourRange {
+  start: number; // 0-23
+  end: number;   // 1-24
+}
+
+export interface PostingWindow {
+  days: number[];          // 0 = Sunday, 1 = Monday, etc.
+  hours: HourRange[];
+  blackoutDates?: string[]; // yyyy-MM-dd dates on which nothing is posted
+  timezone?: string;        // IANA name, e.g. 'Europe/Amsterdam'; server time when omitted
+}
+
+/**
+ * Per-platform windows stored in organization preferences (preferences.postingWindows).
+ * Platforms without an entry use the defaults.
+ */
+export type PostingWindows = Partial<Record<PostingPlatform, PostingWindow>>;
+
+/**
+ * Spacing and volume limits the scheduler enforces (preferences.schedulingRules)
+ */
+export interface SchedulingRules {
+  dailyCap: number;                                          // posts per day across all platforms
+  minSpacingHours: Partial<Record<PostingPlatform, number>>; // between two posts on the same platform
+}
+
+/**
+ * A post already on the calendar that new posts must be scheduled around
+ */
+export interface Booking {
+  platform: string;
+  postedAt: Date;
+}
+
+export type SchedulingConstraint = 'posting-window' | 'daily-cap' | 'min-spacing' | 'double-booking';
+
+/**
+ * A constraint the scheduler had to break to place a post
+ */
+export interface SchedulingIssue {
+  postId: string;
+  title: string;
+  platform: string;
+  postedAt: string;
+  constraint: SchedulingConstraint;
+  message: string;
+}
+
+export interface SchedulingReport {
+  seed: string;
+  scheduled: number;
+  issues: SchedulingIssue[];
+  usedFallback?: boolean;
+}
@@ -0,0 +1,71 @@
+import { normalize } from './tfidf';
+
+// Rounds of reassignment before giving up on convergence
+const MAX_ITERATIONS = 50;
+
+const dot = (a: number[], b: number[]) => a.reduce((sum, value, index) => sum + value * b[index], 0);
+
+/**
+ * Spherical k-means: groups unit-length vectors by cosine similarity into k
+ * clusters, seeded k-means++ style so the same input and random source give
+ * the same clusters. Returns the cluster of each vector; vectors with no
+ * direction (documents without known terms) get -1.
+ */
+export function clusterVectors(vectors: number[][], k: number, random: () => number): number[] {
+  const usable = vectors
+    .map((vector, index) => ({ vector, index }))
+    .filter(entry => entry.vector.some(value => value !== 0));
+  const assignments = new Array(vectors.length).fill(-1);
+  if (usable.length === 0) return assignments;
+
+  const clusters = Math.min(k, usable.length);
+
+  // k-means++: each next centroid is picked with a probability growing with its distance to the ones so far
+  const centroids = [usable[Math.floor(random() * usable.length)].vector];
+  while (centroids.length < clusters) {
+    const distances = usable.map(entry => 1 - Math.max(...centroids.map(centroid => dot(entry.vector, centroid))));
+    const total = distances.reduce((sum, distance) => sum + Math.max(0, distance), 0);
+    if (total <= 0) break;
+
+    let target = random() * total;
+    const next = usable.find((entry, index) => {
+      target -= Math.max(0, distances[index]);
+      return target <= 0;
+    }) || usable[usable.length - 1];
+    centroids.push(next.vector);
+  }
+
+  for (let iteration = 0; iteration < MAX_ITERATIONS; iteration++) {
+    let changed = false;
+
+    usable.forEach(entry => {
+      let best = 0;
+      let bestSimilarity = -Infinity;
+      centroids.forEach((centroid, cluster) => {
+        const similarity = dot(entry.vector, centroid);
+        if (similarity > bestSimilarity) {
+          best = cluster;
+          bestSimilarity = similarity;
+        }
+      });
+      if (assignments[entry.index] !== best) {
+        assignments[entry.index] = best;
+        changed = true;
+      }
+    });
+
+    if (!changed) break;
+
+    centroids.forEach((centroid, cluster) => {
+      const members = usable.filter(entry => assignments[entry.index] === cluster);
+      if (members.length === 0) return;
+      const sum = new Array(centroid.length).fill(0);
+      members.forEach(entry => entry.vector.forEach((value, column) => {
+        sum[column] += value;
+      }));
+      centroids[cluster] = normalize(sum);
+    });
+  }
+
+  return assignments;
+}
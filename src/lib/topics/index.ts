@@ -0,0 +1,241 @@
+import { createClient } from '@supabase/supabase-js';
+import { format, subMonths } from 'date-fns';
+import { embedTexts, getLLMSettingsFromPreferences } from '@/lib/llm';
+import { getZonedParts } from '@/lib/scheduling';
+import { createSeededRandom } from '@/lib/scheduling/scheduler';
+import { clusterVectors } from './cluster';
+import { buildTfIdf, tokenize, topTerms } from './tfidf';
+
+// Posts read per organization, newest first
+const MAX_POSTS = 2000;
+// Rows read per page; Supabase returns at most 1000
+const PAGE_SIZE = 1000;
+// Fewer posts than this make no themes worth the name
+const MIN_CLUSTER_POSTS = 6;
+const MAX_THEMES = 12;
+// Terms naming a theme, and listed with it
+const LABEL_TERMS = 3;
+const THEME_TERMS = 8;
+// Posts kept as examples of a theme
+const SAMPLE_POSTS = 3;
+// Months charted by default
+const DEFAULT_MONTHS = 12;
+// A theme with this many posts that has had none for this long has gone quiet
+const STALE_THEME_POSTS = 3;
+const STALE_THEME_DAYS = 90;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const supabase = createClient(
+  process.env.NEXT_PUBLIC_SUPABASE_URL || '',
+  process.env.SUPABASE_SERVICE_ROLE_KEY || '',
+  {
+    auth: {
+      autoRefreshToken: false,
+      persistSession: false
+    }
+  }
+);
+
+export interface TopicTheme {
+  id: number;
+  label: string;
+  terms: string[]; // Heaviest first
+  posts: number;
+  lastPostedAt: string | null;
+  samples: { id: string; title: string }[]; // Most recent first
+}
+
+export interface KeywordCoverage {
+  keyword: string;
+  posts: number;
+  lastPostedAt: string | null;
+}
+
+/**
+ * What an organization's posts are about: themes found by clustering them,
+ * how often each theme came up per month, and which of its target keywords
+ * (info.keywords) no post covers
+ */
+export interface TopicAnalysis {
+  method: 'embeddings' | 'tfidf'; // Embeddings of the organization's LLM provider, or local TF-IDF
+  posts: number;
+  themes: TopicTheme[]; // Most posts first
+  unclustered: number; // Posts without terms to place them by
+  months: string[]; // yyyy-MM, oldest first
+  frequency: { month: string; counts: Record<number, number> }[]; // Posts per theme id and month
+  keywords: KeywordCoverage[];
+  uncoveredKeywords: string[];
+  staleThemes: TopicTheme[]; // Themes covered before that have had no post for a while
+}
+
+export type TopicGaps = Pick<TopicAnalysis, 'uncoveredKeywords' | 'staleThemes'>;
+
+interface TopicPostRow {
+  id: string;
+  title: string | null;
+  description: string | null;
+  posted_date: string | null;
+}
+
+async function loadPosts(organizationId: string): Promise<TopicPostRow[]> {
+  const posts: TopicPostRow[] = [];
+
+  for (let offset = 0; offset < MAX_POSTS; offset += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('posts')
+      .select('id, title, description, posted_date')
+      .eq('organization_id', organizationId)
+      .neq('status', 'SUGGESTED')
+      .is('deleted_at', null)
+      .order('posted_date', { ascending: false })
+      .range(offset, offset + PAGE_SIZE - 1);
+
+    if (error) {
+      throw new Error(`Failed to load posts: ${error.message}`);
+    }
+
+    posts.push(...((data || []) as TopicPostRow[]));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return posts;
+}
+
+const postText = (post: TopicPostRow) => `${post.title || ''}\n${post.description || ''}`.trim();
+
+// Clusters to look for, growing with the square root of the post count
+const themeCount = (posts: number) => Math.max(2, Math.min(MAX_THEMES, Math.round(Math.sqrt(posts / 2))));
+
+const monthKey = (date: string, timezone?: string) => {
+  const parts = getZonedParts(new Date(date), timezone);
+  return `${parts.year}-${String(parts.month).padStart(2, '0')}`;
+};
+
+const latest = (dates: (string | null)[]) =>
+  dates.filter((date): date is string => !!date).sort().pop() || null;
+
+/**
+ * Group an organization's posts (all but suggestions and deleted ones) into
+ * themes, with TF-IDF over the titles and descriptions, and check its target
+ * keywords against them. With `embeddings`, themes are found over embeddings
+ * of the organization's LLM provider when it has them; that embeds every post
+ * on each call, so it is opt-in.
+ */
+export async function getTopicAnalysis(
+  organizationId: string,
+  options: { months?: number; timezone?: string; now?: Date; embeddings?: boolean } = {}
+): Promise<TopicAnalysis> {
+  const now = options.now || new Date();
+
+  const { data: organization, error: organizationError } = await supabase
+    .from('organizations')
+    .select('info, preferences')
+    .eq('id', organizationId)
+    .single();
+
+  if (organizationError || !organization) {
+    throw new Error('Organization not found');
+  }
+
+  const posts = (await loadPosts(organizationId)).filter(post => postText(post));
+  const tokens = posts.map(post => tokenize(postText(post)));
+  const model = buildTfIdf(tokens);
+
+  // Themes
+  let method: TopicAnalysis['method'] = 'tfidf';
+  let assignments: number[] = new Array(posts.length).fill(-1);
+  if (posts.length >= MIN_CLUSTER_POSTS) {
+    const embeddings = !options.embeddings
+      ? null
+      : await embedTexts(posts.map(postText), getLLMSettingsFromPreferences(organization.preferences));
+    if (embeddings) method = 'embeddings';
+    assignments = clusterVectors(embeddings || model.vectors, themeCount(posts.length), createSeededRandom(organizationId));
+  }
+
+  const themes: TopicTheme[] = [];
+  const themeIds = new Map<number, number>();
+  Array.from(new Set(assignments.filter(cluster => cluster >= 0))).forEach(cluster => {
+    const members = assignments.map((assigned, index) => assigned === cluster ? index : -1).filter(index => index >= 0);
+    const terms = topTerms(model, members, THEME_TERMS);
+    const memberPosts = members.map(index => posts[index]);
+
+    themeIds.set(cluster, themes.length);
+    themes.push({
+      id: themes.length,
+      label: terms.slice(0, LABEL_TERMS).join(', ') || 'Miscellaneous',
+      terms,
+      posts: members.length,
+      lastPostedAt: latest(memberPosts.map(post => post.posted_date)),
+      // Posts are loaded newest first
+      samples: memberPosts.slice(0, SAMPLE_POSTS).map(post => ({ id: post.id, title: post.title || 'Untitled post' }))
+    });
+  });
+  themes.sort((a, b) => b.posts - a.posts);
+
+  // Theme frequency per month, up to the current one in the timezone
+  const monthCount = options.months || DEFAULT_MONTHS;
+  const today = getZonedParts(now, options.timezone);
+  const months = Array.from({ length: monthCount }, (_, index) =>
+    format(subMonths(new Date(today.year, today.month - 1, 1), monthCount - 1 - index), 'yyyy-MM'));
+  const frequency = months.map(month => ({ month, counts: {} as Record<number, number> }));
+  const monthIndex = new Map(months.map((month, index) => [month, index]));
+  posts.forEach((post, index) => {
+    const themeId = themeIds.get(assignments[index]);
+    const month = post.posted_date ? monthIndex.get(monthKey(post.posted_date, options.timezone)) : undefined;
+    if (themeId === undefined || month === undefined) return;
+    frequency[month].counts[themeId] = (frequency[month].counts[themeId] || 0) + 1;
+  });
+
+  // Target keywords: a post covers one when it has all of its terms
+  const targetKeywords: string[] = Array.isArray(organization.info?.keywords)
+    ? organization.info.keywords.filter((keyword: unknown): keyword is string => typeof keyword === 'string' && !!keyword.trim())
+    : [];
+  const postTerms = tokens.map(postTokens => new Set(postTokens));
+  const keywords = targetKeywords.map(keyword => {
+    const keywordTerms = tokenize(keyword);
+    const covering = keywordTerms.length === 0
+      ? []
+      : posts.filter((_, index) => keywordTerms.every(term => postTerms[index].has(term)));
+    return { keyword: keyword.trim(), posts: covering.length, lastPostedAt: latest(covering.map(post => post.posted_date)) };
+  });
+
+  const staleBefore = new Date(now.getTime() - STALE_THEME_DAYS * DAY_MS).toISOString();
+
+  return {
+    method,
+    posts: posts.length,
+    themes,
+    unclustered: posts.length >= MIN_CLUSTER_POSTS ? assignments.filter(cluster => cluster < 0).length : posts.length,
+    months,
+    frequency,
+    keywords,
+    uncoveredKeywords: keywords.filter(entry => entry.posts === 0).map(entry => entry.keyword),
+    staleThemes: themes.filter(theme => theme.posts >= STALE_THEME_POSTS && theme.lastPostedAt && theme.lastPostedAt < staleBefore)
+  };
+}
+
+/**
+ * The gaps the planner's "fill gaps" mode plans for: target keywords no post
+ * covers and themes that went quiet. Clusters with TF-IDF, which is enough to
+ * name themes and costs no embedding calls.
+ */
+export async function getTopicGaps(organizationId: string, options: { now?: Date } = {}): Promise<TopicGaps> {
+  const { uncoveredKeywords, staleThemes } = await getTopicAnalysis(organizationId, options);
+  return { uncoveredKeywords, staleThemes };
+}
+
+/**
+ * The gaps as a prompt section asking for posts that fill them; empty when
+ * there are none
+ */
+export function describeTopicGapsForPrompt(gaps: TopicGaps | null): string {
+  if (!gaps || (gaps.uncoveredKeywords.length === 0 && gaps.staleThemes.length === 0)) return '';
+
+  return [
+    'FILL CONTENT GAPS: most of the posts in this plan should cover the topics below, which the organization has not covered (or not recently).',
+    gaps.uncoveredKeywords.length > 0 && `- Target keywords no post covers yet: ${gaps.uncoveredKeywords.join(', ')}`,
+    gaps.staleThemes.length > 0 && `- Themes with no post in the last ${STALE_THEME_DAYS} days: ${gaps.staleThemes.map(theme => `"${theme.label}" (${theme.posts} posts before, e.g. "${theme.samples[0]?.title}")`).join('; ')}`,
+    'Give each of these posts a reason starting with "Fills a content gap:" that names the keyword or theme.'
+  ].filter(Boolean).join('\n');
+}
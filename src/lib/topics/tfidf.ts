@@ -0,0 +1,99 @@
+// Words too common in posts to tell topics apart
+const STOPWORDS = new Set([
+  'a', 'about', 'above', 'after', 'again', 'against', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at',
+  'be', 'because', 'been', 'before', 'being', 'below', 'between', 'both', 'but', 'by', 'can', 'could', 'did', 'do',
+  'does', 'doing', 'down', 'during', 'each', 'even', 'every', 'few', 'for', 'from', 'further', 'get', 'gets', 'got',
+  'had', 'has', 'have', 'having', 'he', 'her', 'here', 'hers', 'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is',
+  'it', 'its', 'just', 'know', 'let', 'like', 'make', 'makes', 'many', 'may', 'me', 'might', 'more', 'most', 'much',
+  'must', 'my', 'need', 'new', 'no', 'nor', 'not', 'now', 'of', 'off', 'on', 'once', 'one', 'only', 'or', 'other',
+  'our', 'ours', 'out', 'over', 'own', 'post', 'posts', 'read', 'same', 'see', 'she', 'should', 'so', 'some', 'still',
+  'such', 'take', 'than', 'that', 'the', 'their', 'them', 'then', 'there', 'these', 'they', 'this', 'those',
+  'through', 'to', 'too', 'under', 'until', 'up', 'us', 'use', 'using', 'very', 'want', 'was', 'way', 'ways', 'we',
+  'well', 'were', 'what', 'when', 'where', 'which', 'while', 'who', 'whom', 'why', 'will', 'with', 'without',
+  'would', 'you', 'your', 'yours', 'http', 'https', 'www', 'com'
+]);
+
+// Crude plural folding, so "workflow" and "workflows" are one term
+const stem = (word: string) =>
+  word.length > 4 && word.endsWith('s') && !word.endsWith('ss') && !word.endsWith('us') && !word.endsWith('is')
+    ? word.slice(0, -1)
+    : word;
+
+/**
+ * Lowercase terms of a text without accents, numbers, stopwords and
+ * one- or two-letter words
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .split(/[^a-z0-9]+/)
+    .filter(word => word.length > 2 && !/^\d+$/.test(word) && !STOPWORDS.has(word))
+    .map(stem);
+}
+
+export interface TfIdfModel {
+  terms: string[]; // The vocabulary, by column
+  vectors: number[][]; // One unit-length row per document
+}
+
+/**
+ * TF-IDF vectors of tokenized documents over the terms found in at least two
+ * of them (all terms when there are too few documents for that), keeping the
+ * maxTerms most frequent
+ */
+export function buildTfIdf(documents: string[][], maxTerms = 500): TfIdfModel {
+  const documentFrequency = new Map<string, number>();
+  documents.forEach(tokens => {
+    new Set(tokens).forEach(term => documentFrequency.set(term, (documentFrequency.get(term) || 0) + 1));
+  });
+
+  const minFrequency = documents.length >= 10 ? 2 : 1;
+  const terms = Array.from(documentFrequency.entries())
+    .filter(([, frequency]) => frequency >= minFrequency)
+    .sort((a, b) => b[1] - a[1] || a[0].localeCompare(b[0]))
+    .slice(0, maxTerms)
+    .map(([term]) => term);
+  const column = new Map(terms.map((term, index) => [term, index]));
+  const idf = terms.map(term => Math.log((1 + documents.length) / (1 + (documentFrequency.get(term) || 0))) + 1);
+
+  const vectors = documents.map(tokens => {
+    const vector = new Array(terms.length).fill(0);
+    tokens.forEach(token => {
+      const index = column.get(token);
+      if (index !== undefined) vector[index] += 1;
+    });
+    vector.forEach((count, index) => {
+      vector[index] = count * idf[index];
+    });
+    return normalize(vector);
+  });
+
+  return { terms, vectors };
+}
+
+// The vector scaled to unit length; zero vectors stay zero
+export function normalize(vector: number[]): number[] {
+  const length = Math.sqrt(vector.reduce((sum, value) => sum + value * value, 0));
+  return length > 0 ? vector.map(value => value / length) : vector;
+}
+
+/**
+ * The terms that weigh most in a group of documents, heaviest first
+ */
+export function topTerms(model: TfIdfModel, documentIndexes: number[], count: number): string[] {
+  const weights = new Array(model.terms.length).fill(0);
+  documentIndexes.forEach(index => {
+    model.vectors[index].forEach((value, column) => {
+      weights[column] += value;
+    });
+  });
+
+  return weights
+    .map((weight, column) => ({ term: model.terms[column], weight }))
+    .filter(entry => entry.weight > 0)
+    .sort((a, b) => b.weight - a.weight)
+    .slice(0, count)
+    .map(entry => entry.term);
+}
@@ -0,0 +1,83 @@
+import { ChainState, ChainStep, FinalPost } from '@/app/api/post-generation-chain/types';
+import type { SchedulingReport } from '@/lib/scheduling/types';
+
+type PartialResults = Omit<ChainState['partialResults'], 'schedulingReport'>;
+
+/**
+ * A progress transition pushed by the post generation chain stream
+ */
+export interface ChainProgressEvent {
+  chainId: string;
+  isGenerating: boolean;
+  step: ChainStep;
+  progress: number;
+  error?: string;
+  lastCompletedStep?: ChainStep;
+  posts?: FinalPost[]; // Only present once the chain has finished
+  schedulingReport?: SchedulingReport; // Likewise, when the chain scheduled posts
+}
+
+interface ChainStreamHandlers {
+  onProgress?: (event: ChainProgressEvent) => void;
+  onPartialResult?: <K extends keyof PartialResults>(key: K, items: NonNullable<PartialResults[K]>) => void;
+  onConnectionError?: (error: Event) => void;
+}
+
+/**
+ * Follow a post generation chain over Server-Sent Events.
+ * The stream closes itself once the chain completes or fails; call the
+ * returned function to stop listening earlier.
+ */
+export function subscribeToChainStream(chainId: string, handlers: ChainStreamHandlers): () => void {
+  const eventSource = new EventSource(`/api/post-generation-chain?chainId=${encodeURIComponent(chainId)}`);
+  let finished = false;
+
+  const close = () => {
+    finished = true;
+    eventSource.close();
+  };
+
+  eventSource.onmessage = (event) => {
+    try {
+      const data = JSON.parse(event.data) as ChainProgressEvent;
+      if (data.chainId && data.chainId !== chainId) {
+        return;
+      }
+
+      handlers.onProgress?.(data);
+
+      if (data.isGenerating === false) {
+        close();
+      }
+    } catch (error) {
+      console.error('Error processing chain progress event:', error, event.data);
+    }
+  };
+
+  eventSource.addEventListener('partial', (event) => {
+    try {
+      const data = JSON.parse((event as MessageEvent).data);
+      if (data.chainId !== chainId || !Array.isArray(data.items)) {
+        return;
+      }
+
+      handlers.onPartialResult?.(data.key, data.items);
+    } catch (error) {
+      console.error('Error processing chain partial result:', error);
+    }
+  });
+
+  eventSource.onerror = (error) => {
+    // The server closing a finished stream also fires an error event
+    if (finished) {
+      return;
+    }
+
+    if (eventSource.readyState === EventSource.CLOSED) {
+      finished = true;
+      handlers.onConnectionError?.(error);
+    }
+  };
+
+  return close;
+}
@@ -1,5 +1,16 @@
-import { format as formatDate, formatISO, parseISO } from 'date-fns';
+import { format as formatDate } from 'date-fns';
 import { Post } from '@/components/calendar/CalendarContext';
+import { parsePostedDate } from '@/lib/scheduling/timezone';
+
+// Calendar events for posts are given a nominal length
+const EVENT_DURATION_MS = 30 * 60 * 1000;
+
+/**
+ * Format an instant as an iCalendar UTC date-time (YYYYMMDDTHHMMSSZ)
+ */
+function formatUTCDateTime(date: Date): string {
+  return date.toISOString().replace(/[-:]/g, '').replace(/\.\d{3}/, '');
+}
 
 /**
  * Generate a unique identifier for an iCalendar event
@@ -27,8 +38,9 @@ function generateEventFromPost(post: Post): string {
     return '';
   }
 
-  const postDate = post.posted_date ? new Date(post.posted_date) : new Date();
-  const dateString = formatISO(postDate).replace(/[-:]/g, '').split('+')[0];
+  // Posts are instants, so events are written in UTC and calendar apps convert
+  // them to the reader's timezone (DST included)
+  const postDate = parsePostedDate(post.posted_date);
   const uid = generateUID(post);
   const title = post.title || 'Untitled Post';
   const description = post.description || '';
@@ -41,12 +53,13 @@ function generateEventFromPost(post: Post): string {
 
   return `BEGIN:VEVENT
 UID:${uid}
-DTSTAMP:${dateString}
-DTSTART;VALUE=DATE:${formatDate(postDate, 'yyyyMMdd')}
+DTSTAMP:${formatUTCDateTime(new Date())}
+DTSTART:${formatUTCDateTime(postDate)}
+DTEND:${formatUTCDateTime(new Date(postDate.getTime() + EVENT_DURATION_MS))}
 SUMMARY:${escapeICSText(title)}
 DESCRIPTION:${escapeICSText(fullDescription)}
 URL:${escapeICSText(url)}
-STATUS:${status === 'POSTED' ? 'CONFIRMED' : status === 'SCHEDULED' ? 'TENTATIVE' : 'NEEDS-ACTION'}
+STATUS:${status === 'POSTED' ? 'CONFIRMED' : ['SCHEDULED', 'QUEUED', 'PUBLISHING'].includes(status) ? 'TENTATIVE' : 'NEEDS-ACTION'}
 CATEGORIES:${format}
 END:VEVENT
 `;
@@ -206,11 +219,9 @@ export function generateGoogleCalendarUrl(post: Post): string {
   }
 
   // Format dates for Google Calendar (YYYYMMDDTHHMMSSZ)
-  const postDate = new Date(post.posted_date);
-  const startDate = formatDate(postDate, 'yyyyMMdd');
-  
-  // Calculate end date (default to same day)
-  const endDate = startDate;
+  const postDate = parsePostedDate(post.posted_date);
+  const startDate = formatUTCDateTime(postDate);
+  const endDate = formatUTCDateTime(new Date(postDate.getTime() + EVENT_DURATION_MS));
   
   const title = encodeURIComponent(post.title || 'Untitled Post');
   const description = encodeURIComponent(